@@ -8,20 +8,31 @@ import { AutoChampionConfigMain } from '@main/shards/auto-champ-config'
 import { AutoGameflowMain } from '@main/shards/auto-gameflow'
 import { AutoReplyMain } from '@main/shards/auto-reply'
 import { AutoSelectMain } from '@main/shards/auto-select'
+import { ClaimAutomationMain } from '@main/shards/claim-automation'
 import { ClientInstallationMain } from '@main/shards/client-installation'
 import { ConfigMigrateMain } from '@main/shards/config-migrate'
 import { ExtraAssetsMain } from '@main/shards/extra-assets'
+import { GameArchiveMain } from '@main/shards/game-archive'
 import { GameClientMain } from '@main/shards/game-client'
+import { GameRecorderMain } from '@main/shards/game-recorder'
 import { InGameSendMain } from '@main/shards/in-game-send'
 import { AkariIpcMain } from '@main/shards/ipc'
 import { KeyboardShortcutsMain } from '@main/shards/keyboard-shortcuts'
 import { LeagueClientMain } from '@main/shards/league-client'
 import { LeagueClientUxMain } from '@main/shards/league-client-ux'
+import { LocalApiMain } from '@main/shards/local-api'
 import { LoggerFactoryMain } from '@main/shards/logger-factory'
+import { LootAutomationMain } from '@main/shards/loot-automation'
+import { MatchHistoryExportMain } from '@main/shards/match-history-export'
 import { MobxUtilsMain } from '@main/shards/mobx-utils'
 import { OngoingGameMain } from '@main/shards/ongoing-game'
+import { PluginsConfig, PluginsMain } from '@main/shards/plugins'
+import { createPluginHost } from '@main/shards/plugins/host'
+import { discoverPlugins } from '@main/shards/plugins/manifest'
+import { PositionBaselineMain } from '@main/shards/position-baseline'
 import { RemoteConfigMain } from '@main/shards/remote-config'
 import { RendererDebugMain } from '@main/shards/renderer-debug'
+import { ReplayLibraryMain } from '@main/shards/replay-library'
 import { RespawnTimerMain } from '@main/shards/respawn-timer'
 import { RiotClientMain } from '@main/shards/riot-client'
 import { SavedPlayerMain } from '@main/shards/saved-player'
@@ -205,7 +216,32 @@ export function bootstrap() {
     handleUnhandledErrors(logger)
 
     // 启用所有 akari shard
-    const manager = new AkariManager()
+    const manager = new AkariManager({
+      initTimeout: 30e3,
+      finishTimeout: 30e3,
+      // 数据库的初始化和迁移可能耗时较长
+      shardTimeouts: {
+        [ConfigMigrateMain.id]: 0,
+        [StorageMain.id]: 0
+      },
+      isolateFailures: true,
+      requiredShards: [
+        AkariIpcMain.id,
+        AppCommonMain.id,
+        LoggerFactoryMain.id,
+        MobxUtilsMain.id,
+        ConfigMigrateMain.id,
+        SettingFactoryMain.id,
+        StorageMain.id,
+        WindowManagerMain.id
+      ],
+      onSettledAfterTimeout: ({ id, phase, duration, error }) => {
+        logger.warn({
+          message: `Shard ${id} ${phase} settled after timeout in ${Math.round(duration)}ms${error ? `: ${formatError(error)}` : ''}`,
+          namespace: 'akari-shard-manager'
+        })
+      }
+    })
     manager.global.logger = logger
     manager.global.logFilename = logFilename
     manager.global.events = events
@@ -264,9 +300,17 @@ export function bootstrap() {
     manager.use(AutoGameflowMain)
     manager.use(AutoReplyMain)
     manager.use(AutoSelectMain)
+    manager.use(ClaimAutomationMain)
+    manager.use(GameArchiveMain)
+    manager.use(GameRecorderMain)
     manager.use(InGameSendMain)
+    manager.use(LocalApiMain)
+    manager.use(LootAutomationMain)
+    manager.use(MatchHistoryExportMain)
     manager.use(OngoingGameMain)
+    manager.use(PositionBaselineMain)
     manager.use(RemoteConfigMain)
+    manager.use(ReplayLibraryMain)
     manager.use(RespawnTimerMain)
     manager.use(SavedPlayerMain)
     manager.use(SgpMain)
@@ -293,6 +337,44 @@ export function bootstrap() {
       }
     }
 
+    // third-party plugins, registered last so that their dependencies can be validated
+    const pluginsDir = path.join(app.getPath('userData'), PluginsMain.PLUGINS_DIR_NAME)
+    const discovered = discoverPlugins(pluginsDir, app.getVersion())
+    const pluginsConfig: PluginsConfig = {
+      dir: pluginsDir,
+      plugins: [],
+      invalid: discovered.invalid
+    }
+
+    manager.use(PluginsMain, pluginsConfig)
+
+    for (const plugin of discovered.plugins) {
+      const dirName = path.basename(plugin.dir)
+      const unknown = plugin.manifest.dependencies.filter(
+        (dep) => dep.startsWith(PluginsMain.getShardId('')) || !manager.has(dep)
+      )
+
+      if (unknown.length) {
+        pluginsConfig.invalid.push({
+          dirName,
+          error: `Unknown dependencies: ${unknown.join(', ')}`
+        })
+        continue
+      }
+
+      try {
+        manager.useExternal(createPluginHost(plugin))
+        pluginsConfig.plugins.push(plugin)
+
+        logger.info({
+          message: `Registered plugin ${plugin.manifest.id}@${plugin.manifest.version}`,
+          namespace: 'akari-shard-manager'
+        })
+      } catch (error) {
+        pluginsConfig.invalid.push({ dirName, error: formatError(error) })
+      }
+    }
+
     app.on('second-instance', (_event, commandLine, workingDirectory) => {
       events.emit('second-instance', commandLine, workingDirectory)
       logger.warn({
@@ -309,6 +391,31 @@ export function bootstrap() {
     app.whenReady().then(async () => {
       try {
         await manager.setup()
+
+        const { duration, shards } = manager.getDiagnostics()
+        for (const d of shards) {
+          if (d.status === 'failed') {
+            logger.warn({
+              message: `Shard ${d.id} failed during ${d.failedPhase}, skipped: ${d.error}`,
+              namespace: 'akari-shard-manager'
+            })
+          } else if (d.status === 'skipped') {
+            logger.warn({
+              message: `Shard ${d.id} skipped because ${d.skippedBy} failed`,
+              namespace: 'akari-shard-manager'
+            })
+          } else if (d.status === 'degraded') {
+            logger.warn({
+              message: `Shard ${d.id} initialized, but ${d.degradedBy} failed during finish`,
+              namespace: 'akari-shard-manager'
+            })
+          }
+        }
+
+        logger.info({
+          message: `${shards.length} shards initialized in ${duration}ms`,
+          namespace: 'akari-shard-manager'
+        })
       } catch (error) {
         logger.error({
           message: `[10002] Error occurred during feature initialization ${formatError(error)}`,
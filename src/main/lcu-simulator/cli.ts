@@ -0,0 +1,51 @@
+/**
+ * 独立运行 LCU 模拟器
+ *
+ *   yarn lcu-simulator <scenario.json> [--port=<port>] [--token=<token>]
+ *
+ * 启动后将输出的命令行设置到 `AKARI_LCU_COMMAND_LINE` 环境变量, 再启动 Akari 即可连接
+ */
+import fs from 'node:fs'
+
+import { LcuSimulator, parseScenario } from '.'
+
+function getArg(name: string) {
+  const prefix = `--${name}=`
+  return process.argv.find((a) => a.startsWith(prefix))?.slice(prefix.length)
+}
+
+async function main() {
+  const file = process.argv.slice(2).find((a) => !a.startsWith('--'))
+  if (!file) {
+    console.error('Usage: lcu-simulator <scenario.json> [--port=<port>] [--token=<token>]')
+    process.exit(1)
+  }
+
+  const scenario = parseScenario(JSON.parse(fs.readFileSync(file, 'utf-8')))
+  const simulator = new LcuSimulator({
+    port: Number(getArg('port') ?? 0),
+    authToken: getArg('token')
+  })
+
+  await simulator.start(scenario)
+
+  console.log(`Scenario: ${scenario.name}`)
+  console.log(`Listening on http://127.0.0.1:${simulator.port}`)
+  console.log(`AKARI_LCU_COMMAND_LINE="${simulator.commandLine}"`)
+
+  simulator.on('request', (r) => console.log(`<- ${r.method} ${r.path}`))
+  simulator.on('step', (i, name) => console.log(`== step ${i}${name ? `: ${name}` : ''}`))
+
+  process.on('SIGINT', () => simulator.stop().then(() => process.exit(0)))
+
+  try {
+    await simulator.runSteps(scenario)
+    console.log('Scenario finished, still serving. Press Ctrl+C to exit')
+  } catch (error) {
+    console.error((error as Error).message)
+    await simulator.stop()
+    process.exit(2)
+  }
+}
+
+main()
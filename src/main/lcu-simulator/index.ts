@@ -0,0 +1,388 @@
+import type { UxCommandLine } from '@main/utils/ux-cmd'
+import { EventEmitter } from 'node:events'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { WebSocket, WebSocketServer } from 'ws'
+
+import {
+  LcuSimulatorRoute,
+  LcuSimulatorScenario,
+  LcuSimulatorScenarioError,
+  matchPath
+} from './scenario'
+
+export * from './scenario'
+
+export interface LcuSimulatorOptions {
+  /**
+   * 为 0 时由系统分配
+   */
+  port?: number
+  authToken?: string
+
+  /**
+   * 写入命令行中的进程 ID, 不对应任何真实进程
+   */
+  pid?: number
+}
+
+export interface LcuSimulatorRequest {
+  method: string
+  path: string
+  body: unknown
+  time: number
+}
+
+interface LcuSimulatorEventMap {
+  request: [request: LcuSimulatorRequest]
+  step: [index: number, name: string | undefined]
+  stop: []
+}
+
+const WAMP_SUBSCRIBE = 5
+const WAMP_UNSUBSCRIBE = 6
+const WAMP_EVENT = 8
+
+const ALL_EVENTS = 'OnJsonApiEvent'
+
+/**
+ * 保留最近的请求, 用于检查 Akari 的行为
+ */
+const MAX_RECORDED_REQUESTS = 1000
+
+/**
+ * LeagueClient 的本地替身, 使用 http 和 ws 而非 https 和 wss
+ * 按照场景文件响应请求, 并推送 `OnJsonApiEvent` 事件
+ */
+export class LcuSimulator extends EventEmitter<LcuSimulatorEventMap> {
+  static DEFAULT_AUTH_TOKEN = 'akari-lcu-simulator'
+  static DEFAULT_PID = 1
+
+  private _server: http.Server | null = null
+  private _wss: WebSocketServer | null = null
+  private _subscriptions = new Map<WebSocket, Set<string>>()
+
+  private _resources = new Map<string, unknown>()
+  private _routes: LcuSimulatorRoute[] = []
+  private _requests: LcuSimulatorRequest[] = []
+
+  private _stopped = false
+
+  private readonly _authToken: string
+  private readonly _pid: number
+
+  constructor(private readonly _options: LcuSimulatorOptions = {}) {
+    super()
+    this._authToken = _options.authToken ?? LcuSimulator.DEFAULT_AUTH_TOKEN
+    this._pid = _options.pid ?? LcuSimulator.DEFAULT_PID
+  }
+
+  get port() {
+    if (!this._server) {
+      throw new Error('Simulator is not started')
+    }
+
+    return (this._server.address() as AddressInfo).port
+  }
+
+  get requests(): readonly LcuSimulatorRequest[] {
+    return this._requests
+  }
+
+  /**
+   * 可直接交给 LeagueClientMain 连接
+   */
+  get uxCommandLine(): UxCommandLine {
+    return {
+      port: this.port,
+      pid: this._pid,
+      authToken: this._authToken,
+      certificate: '',
+      region: 'SIMULATOR',
+      rsoPlatformId: 'SIMULATOR',
+      riotClientPort: 0,
+      riotClientAuthToken: '',
+      protocol: 'http'
+    }
+  }
+
+  /**
+   * 与 LeagueClientUx.exe 相同格式的命令行, 用于 `AKARI_LCU_COMMAND_LINE`
+   */
+  get commandLine() {
+    return [
+      `--app-port=${this.port}`,
+      `--remoting-auth-token=${this._authToken}`,
+      `--app-pid=${this._pid}`,
+      '--region=SIMULATOR',
+      '--rso_platform_id=SIMULATOR',
+      '--akari-protocol=http'
+    ].join(' ')
+  }
+
+  async start(scenario: LcuSimulatorScenario) {
+    if (this._server) {
+      throw new Error('Simulator is already started')
+    }
+
+    this._resources = new Map(Object.entries(scenario.resources))
+    this._routes = scenario.routes
+    this._stopped = false
+
+    // 连接时用于检查可用性
+    if (!this._resources.has('/riotclient/auth-token')) {
+      this._resources.set('/riotclient/auth-token', this._authToken)
+    }
+
+    this._server = http.createServer((req, res) => this._handleRequest(req, res))
+    this._wss = new WebSocketServer({
+      server: this._server,
+      verifyClient: ({ req }) => this._isAuthorized(req)
+    })
+    this._wss.on('connection', (ws) => this._handleConnection(ws))
+
+    await new Promise<void>((resolve, reject) => {
+      this._server!.once('error', reject)
+      this._server!.listen(this._options.port ?? 0, '127.0.0.1', () => {
+        this._server!.off('error', reject)
+        resolve()
+      })
+    })
+  }
+
+  async stop() {
+    this._stopped = true
+    this.emit('stop')
+
+    for (const ws of this._subscriptions.keys()) {
+      ws.terminate()
+    }
+    this._subscriptions.clear()
+
+    const server = this._server
+    this._wss?.close()
+    this._wss = null
+    this._server = null
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  /**
+   * 依次执行场景中的步骤
+   */
+  async runSteps(scenario: LcuSimulatorScenario) {
+    for (let i = 0; i < scenario.steps.length; i++) {
+      const step = scenario.steps[i]
+
+      if (step.delay) {
+        await new Promise((resolve) => setTimeout(resolve, step.delay))
+      }
+
+      if (step.waitFor) {
+        try {
+          await this.waitForRequest(step.waitFor.method, step.waitFor.path, step.waitFor.timeout)
+        } catch (error) {
+          if (this._stopped) {
+            return
+          }
+
+          throw error
+        }
+      }
+
+      if (this._stopped) {
+        return
+      }
+
+      this.emit('step', i, step.name)
+
+      for (const uri of step.delete ?? []) {
+        this.delete(uri)
+      }
+
+      for (const [uri, data] of Object.entries(step.set ?? {})) {
+        this.set(uri, data)
+      }
+    }
+  }
+
+  set(uri: string, data: unknown) {
+    const eventType = this._resources.has(uri) ? 'Update' : 'Create'
+    this._resources.set(uri, data)
+    this._publish(uri, eventType, data)
+  }
+
+  delete(uri: string) {
+    if (this._resources.delete(uri)) {
+      this._publish(uri, 'Delete', null)
+    }
+  }
+
+  get(uri: string) {
+    return this._resources.get(uri)
+  }
+
+  waitForRequest(method: string, path: string, timeout?: number) {
+    return new Promise<LcuSimulatorRequest>((resolve, reject) => {
+      let timer: NodeJS.Timeout | null = null
+
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+
+        this.off('request', onRequest)
+        this.off('stop', onStop)
+      }
+
+      const onRequest = (request: LcuSimulatorRequest) => {
+        if (request.method === method.toUpperCase() && matchPath(path, request.path)) {
+          cleanup()
+          resolve(request)
+        }
+      }
+
+      const onStop = () => {
+        cleanup()
+        reject(new Error('Simulator stopped'))
+      }
+
+      if (timeout) {
+        timer = setTimeout(() => {
+          cleanup()
+          reject(new LcuSimulatorScenarioError(`Timed out waiting for ${method} ${path}`))
+        }, timeout)
+      }
+
+      this.on('request', onRequest)
+      this.once('stop', onStop)
+    })
+  }
+
+  private _isAuthorized(req: http.IncomingMessage) {
+    const expected = `Basic ${Buffer.from(`riot:${this._authToken}`).toString('base64')}`
+    return req.headers.authorization === expected
+  }
+
+  private async _readBody(req: http.IncomingMessage) {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk)
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8')
+    if (!text) {
+      return null
+    }
+
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  private async _handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body?: unknown) => {
+      if (body === undefined || status === 204) {
+        res.writeHead(status).end()
+        return
+      }
+
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+    }
+
+    try {
+      if (!this._isAuthorized(req)) {
+        send(401, { errorCode: 'RPC_ERROR', httpStatus: 401, message: 'Unauthorized' })
+        return
+      }
+
+      const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+      const request: LcuSimulatorRequest = {
+        method: (req.method ?? 'GET').toUpperCase(),
+        path: url.pathname,
+        body: await this._readBody(req),
+        time: Date.now()
+      }
+
+      this._requests.push(request)
+      if (this._requests.length > MAX_RECORDED_REQUESTS) {
+        this._requests.shift()
+      }
+
+      const route = this._routes.find(
+        (r) => r.method.toUpperCase() === request.method && matchPath(r.path, request.path)
+      )
+
+      if (route) {
+        for (const [uri, data] of Object.entries(route.set ?? {})) {
+          this.set(uri, data)
+        }
+
+        send(route.status ?? (route.body === undefined ? 204 : 200), route.body)
+      } else if (request.method === 'GET' && this._resources.has(request.path)) {
+        send(200, this._resources.get(request.path))
+      } else {
+        send(404, {
+          errorCode: 'RPC_ERROR',
+          httpStatus: 404,
+          implementationDetails: {},
+          message: `No simulated response for ${request.method} ${request.path}`
+        })
+      }
+
+      this.emit('request', request)
+    } catch (error) {
+      if (!res.headersSent) {
+        send(500, {
+          errorCode: 'RPC_ERROR',
+          httpStatus: 500,
+          implementationDetails: {},
+          message: error instanceof Error ? error.message : String(error)
+        })
+      } else {
+        res.destroy()
+      }
+    }
+  }
+
+  private _handleConnection(ws: WebSocket) {
+    const subscriptions = new Set<string>()
+    this._subscriptions.set(ws, subscriptions)
+
+    ws.on('message', (msg) => {
+      try {
+        const [type, name] = JSON.parse(msg.toString())
+        if (type === WAMP_SUBSCRIBE) {
+          subscriptions.add(name)
+        } else if (type === WAMP_UNSUBSCRIBE) {
+          subscriptions.delete(name)
+        }
+      } catch {}
+    })
+
+    ws.on('close', () => this._subscriptions.delete(ws))
+  }
+
+  /**
+   * 客户端的事件名称, 如 `/lol-gameflow/v1/session` -> `OnJsonApiEvent_lol-gameflow_v1_session`
+   */
+  private _publish(uri: string, eventType: 'Create' | 'Update' | 'Delete', data: unknown) {
+    const specific = `${ALL_EVENTS}${uri.replaceAll('/', '_')}`
+
+    for (const [ws, subscriptions] of this._subscriptions) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        continue
+      }
+
+      for (const name of [ALL_EVENTS, specific]) {
+        if (subscriptions.has(name)) {
+          ws.send(JSON.stringify([WAMP_EVENT, name, { data, eventType, uri }]))
+        }
+      }
+    }
+  }
+}
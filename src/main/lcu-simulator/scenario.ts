@@ -0,0 +1,141 @@
+/**
+ * 对某个请求的固定响应, 可同时修改资源以模拟客户端的状态变化
+ */
+export interface LcuSimulatorRoute {
+  method: string
+
+  /**
+   * 支持 `:name` 匹配单段路径, 如 `/lol-champ-select/v1/session/actions/:id`
+   */
+  path: string
+
+  status?: number
+  body?: unknown
+
+  /**
+   * 响应后更新的资源, 会推送对应的事件
+   */
+  set?: Record<string, unknown>
+}
+
+export interface LcuSimulatorStep {
+  name?: string
+
+  /**
+   * 距离上一步完成的等待时间 (ms)
+   */
+  delay?: number
+
+  /**
+   * 等待 Akari 发出某个请求后再继续, 用于验证自动化流程
+   */
+  waitFor?: {
+    method: string
+    path: string
+
+    /**
+     * 超时后场景失败, 默认不超时
+     */
+    timeout?: number
+  }
+
+  set?: Record<string, unknown>
+  delete?: string[]
+}
+
+/**
+ * 场景文件, 描述初始的客户端资源和随后依次发生的变化
+ */
+export interface LcuSimulatorScenario {
+  name: string
+
+  /**
+   * URI -> GET 请求的响应
+   */
+  resources: Record<string, unknown>
+
+  routes: LcuSimulatorRoute[]
+  steps: LcuSimulatorStep[]
+}
+
+export class LcuSimulatorScenarioError extends Error {
+  name = 'LcuSimulatorScenarioError'
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function assertRequestMatcher(v: unknown, where: string) {
+  if (!isObject(v) || typeof v.method !== 'string' || typeof v.path !== 'string') {
+    throw new LcuSimulatorScenarioError(`${where} requires method and path`)
+  }
+}
+
+export function parseScenario(raw: unknown): LcuSimulatorScenario {
+  if (!isObject(raw)) {
+    throw new LcuSimulatorScenarioError('Scenario must be an object')
+  }
+
+  const resources = raw.resources ?? {}
+  const routes = raw.routes ?? []
+  const steps = raw.steps ?? []
+
+  if (!isObject(resources)) {
+    throw new LcuSimulatorScenarioError('resources must be an object')
+  }
+
+  if (!Array.isArray(routes) || !Array.isArray(steps)) {
+    throw new LcuSimulatorScenarioError('routes and steps must be arrays')
+  }
+
+  routes.forEach((r, i) => assertRequestMatcher(r, `routes[${i}]`))
+
+  steps.forEach((s, i) => {
+    if (!isObject(s)) {
+      throw new LcuSimulatorScenarioError(`steps[${i}] must be an object`)
+    }
+
+    if (s.waitFor !== undefined) {
+      assertRequestMatcher(s.waitFor, `steps[${i}].waitFor`)
+    }
+
+    if (s.set !== undefined && !isObject(s.set)) {
+      throw new LcuSimulatorScenarioError(`steps[${i}].set must be an object`)
+    }
+
+    if (s.delete !== undefined && !Array.isArray(s.delete)) {
+      throw new LcuSimulatorScenarioError(`steps[${i}].delete must be an array`)
+    }
+  })
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : 'unnamed',
+    resources,
+    routes,
+    steps
+  }
+}
+
+/**
+ * @returns 匹配成功时返回路径参数
+ */
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const a = pattern.split('/').filter(Boolean)
+  const b = path.split('/').filter(Boolean)
+
+  if (a.length !== b.length) {
+    return null
+  }
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < a.length; i++) {
+    if (a[i].startsWith(':')) {
+      params[a[i].slice(1)] = decodeURIComponent(b[i])
+    } else if (a[i] !== b[i]) {
+      return null
+    }
+  }
+
+  return params
+}
@@ -1,13 +1,24 @@
 import { i18next } from '@main/i18n'
 import { TimeoutTask } from '@main/utils/timer'
 import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { OpggDataApi } from '@shared/data-sources/opgg'
+import {
+  ModeType,
+  OpggARAMChampionSummary,
+  OpggNormalModeChampion,
+  OpggRankedChampionsSummary,
+  PositionType
+} from '@shared/data-sources/opgg/types'
+import { AutoSelectRule, AutoSelectRuleCondition } from '@shared/utils/auto-select-rules'
 import { formatError, formatErrorMessage } from '@shared/utils/errors'
 import { comparer, computed } from 'mobx'
 
+import { ExtraAssetsMain } from '../extra-assets'
 import { AkariIpcMain } from '../ipc'
 import { LeagueClientMain } from '../league-client'
 import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
 import { MobxUtilsMain } from '../mobx-utils'
+import { OngoingGameMain } from '../ongoing-game'
 import { SettingFactoryMain } from '../setting-factory'
 import { SetterSettingService } from '../setting-factory/setter-setting-service'
 import { AramTracker } from './aram-tracker'
@@ -30,15 +41,46 @@ export class AutoSelectMain implements IAkariShardInitDispose {
 
   private _aramTracker = new AramTracker()
 
+  private _opggApi = new OpggDataApi()
+
+  /**
+   * OP.GG 数据的缓存, 同一个版本内基本不会变化
+   */
+  private _opggTiersCache = new Map<string, Record<number, number>>()
+  private _opggCounterWinRatesCache = new Map<string, Record<number, number>>()
+
+  static OPGG_REGION = 'global' as const
+  static OPGG_TIER = 'emerald_plus' as const
+
+  /**
+   * 对位数据中场次少于该值的英雄不计入
+   */
+  static OPGG_COUNTER_MIN_PLAYS = 50
+
+  static OPGG_POSITION_MAP: Record<string, PositionType> = {
+    top: 'top',
+    jungle: 'jungle',
+    middle: 'mid',
+    bottom: 'adc',
+    utility: 'support'
+  }
+
   constructor(
     _loggerFactory: LoggerFactoryMain,
     _settingFactory: SettingFactoryMain,
     private readonly _lc: LeagueClientMain,
     private readonly _mobx: MobxUtilsMain,
-    private readonly _ipc: AkariIpcMain
+    private readonly _ipc: AkariIpcMain,
+    private readonly _extraAssets: ExtraAssetsMain,
+    private readonly _og: OngoingGameMain
   ) {
     this._log = _loggerFactory.create(AutoSelectMain.id)
-    this.state = new AutoSelectState(this._lc.data, this.settings)
+    this.state = new AutoSelectState(
+      this._lc.data,
+      this.settings,
+      this._extraAssets.gtimg,
+      this._og.state
+    )
     this._setting = _settingFactory.register(
       AutoSelectMain.id,
       {
@@ -61,7 +103,9 @@ export class AutoSelectMain implements IAkariShardInitDispose {
         benchHandleTradeEnabled: { default: this.settings.benchHandleTradeEnabled },
         benchHandleTradeIgnoreChampionOwner: {
           default: this.settings.benchHandleTradeIgnoreChampionOwner
-        }
+        },
+        rules: { default: this.settings.rules },
+        counterSuggestionsEnabled: { default: this.settings.counterSuggestionsEnabled }
       },
       this.settings
     )
@@ -86,7 +130,9 @@ export class AutoSelectMain implements IAkariShardInitDispose {
       'expectedChampions',
       'bannedChampions',
       'benchHandleTradeEnabled',
-      'benchHandleTradeIgnoreChampionOwner'
+      'benchHandleTradeIgnoreChampionOwner',
+      'rules',
+      'counterSuggestionsEnabled'
     ])
 
     this._mobx.propSync(AutoSelectMain.id, 'state', this.state, [
@@ -95,7 +141,9 @@ export class AutoSelectMain implements IAkariShardInitDispose {
       'memberMe',
       'upcomingGrab',
       'upcomingPick',
-      'upcomingBan'
+      'upcomingBan',
+      'laneOpponentChampionId',
+      'counterSuggestions'
     ])
 
     this._mobx.propSync(AutoSelectMain.id, 'aramTracker', this._aramTracker.state, [
@@ -162,6 +210,230 @@ export class AutoSelectMain implements IAkariShardInitDispose {
     await this._handleState()
     this._handleAutoPickBan()
     this._handleBenchMode()
+    this._handleOpggData()
+    this._handleIpcCall()
+
+    this._setting.onChange('rules', async (value, { setter }) => {
+      if (!Array.isArray(value) || !value.every((r) => this._isValidRule(r))) {
+        this._log.warn('Invalid auto-select rules', value)
+        return
+      }
+
+      await setter(value)
+    })
+  }
+
+  private _handleIpcCall() {
+    this._ipc.onCall(AutoSelectMain.id, 'prePick', async (_, championId: number) => {
+      const action = this.state.champSelectActionInfo?.pick.find((a) => !a.completed)
+
+      if (!action) {
+        return
+      }
+
+      await this._prePick(championId, action.id)
+    })
+  }
+
+  private _isValidRule(rule: any): rule is AutoSelectRule {
+    if (typeof rule !== 'object' || rule === null) {
+      return false
+    }
+
+    return (
+      typeof rule.id === 'string' &&
+      typeof rule.name === 'string' &&
+      typeof rule.enabled === 'boolean' &&
+      (rule.action === 'pick' || rule.action === 'ban') &&
+      Array.isArray(rule.championIds) &&
+      rule.championIds.every((c: any) => typeof c === 'number') &&
+      Array.isArray(rule.conditions) &&
+      rule.conditions.every((c: any) => this._isValidRuleCondition(c)) &&
+      typeof rule.minOpggTier === 'number' &&
+      typeof rule.preferCounters === 'boolean'
+    )
+  }
+
+  private _isValidRuleCondition(condition: any): condition is AutoSelectRuleCondition {
+    if (typeof condition !== 'object' || condition === null) {
+      return false
+    }
+
+    if (condition.negate !== undefined && typeof condition.negate !== 'boolean') {
+      return false
+    }
+
+    switch (condition.type) {
+      case 'enemy-has-champion':
+      case 'ally-has-champion':
+        return (
+          Array.isArray(condition.championIds) &&
+          condition.championIds.every((c: any) => typeof c === 'number')
+        )
+      case 'enemy-has-role':
+      case 'ally-has-role':
+        return typeof condition.role === 'string'
+      case 'position':
+        return (
+          Array.isArray(condition.positions) &&
+          condition.positions.every((p: any) => typeof p === 'string')
+        )
+      default:
+        return false
+    }
+  }
+
+  private _opggMode(gameMode: string): ModeType | null {
+    switch (gameMode) {
+      case 'CLASSIC':
+        return 'ranked'
+      case 'ARAM':
+        return 'aram'
+      default:
+        return null
+    }
+  }
+
+  /**
+   * 仅在存在需要 OP.GG 数据的规则或启用了克制推荐时拉取
+   */
+  private _handleOpggData() {
+    const opggTarget = computed(
+      () => {
+        const a = this.state.champSelectActionInfo
+        if (!a) {
+          return null
+        }
+
+        const mode = this._opggMode(a.gameMode)
+        if (!mode) {
+          return null
+        }
+
+        const rules = this.settings.rules.filter((r) => r.enabled)
+
+        return {
+          mode,
+          position:
+            mode === 'ranked'
+              ? AutoSelectMain.OPGG_POSITION_MAP[a.memberMe.assignedPosition] || null
+              : null,
+          needsTiers: rules.some((r) => r.minOpggTier > 0),
+          needsCounters:
+            this.settings.counterSuggestionsEnabled || rules.some((r) => r.preferCounters)
+        }
+      },
+      { equals: comparer.structural }
+    )
+
+    this._mobx.reaction(
+      () => opggTarget.get(),
+      async (target) => {
+        if (!target || !target.needsTiers) {
+          this.state.setOpggTiers(null)
+          return
+        }
+
+        const key = `${target.mode}:${target.position}`
+        const cached = this._opggTiersCache.get(key)
+        if (cached) {
+          this.state.setOpggTiers(cached)
+          return
+        }
+
+        try {
+          const summary = (await this._opggApi.getChampionsTier({
+            region: AutoSelectMain.OPGG_REGION,
+            mode: target.mode,
+            tier: AutoSelectMain.OPGG_TIER
+          })) as OpggRankedChampionsSummary | OpggARAMChampionSummary
+
+          const tiers: Record<number, number> = {}
+          for (const item of summary.data) {
+            const position =
+              target.position && 'positions' in item && item.positions
+                ? item.positions.find(
+                    (p) => p.name.toUpperCase() === target.position!.toUpperCase()
+                  )
+                : null
+
+            const tier = position ? position.stats.tier_data.tier : item.average_stats?.tier
+            if (typeof tier === 'number') {
+              tiers[item.id] = tier
+            }
+          }
+
+          this._opggTiersCache.set(key, tiers)
+
+          // 请求期间目标可能已经变化, 此时结果已过时
+          if (!comparer.structural(opggTarget.get(), target)) {
+            return
+          }
+
+          this.state.setOpggTiers(tiers)
+        } catch (error) {
+          this._log.warn('Failed to load OP.GG tiers', error)
+        }
+      },
+      { fireImmediately: true }
+    )
+
+    this._mobx.reaction(
+      () => [opggTarget.get(), this.state.laneOpponentChampionId] as const,
+      async ([target, opponent]) => {
+        if (!target || !target.needsCounters || !target.position || !opponent) {
+          return
+        }
+
+        const key = `${opponent}:${target.position}`
+        const cached = this._opggCounterWinRatesCache.get(key)
+        if (cached) {
+          this.state.setOpggCounterWinRates(opponent, cached)
+          return
+        }
+
+        try {
+          const champion = (await this._opggApi.getChampion({
+            id: opponent,
+            region: AutoSelectMain.OPGG_REGION,
+            mode: target.mode,
+            tier: AutoSelectMain.OPGG_TIER,
+            position: target.position
+          })) as OpggNormalModeChampion
+
+          // 对位数据是对手的胜率, 需要转换为自己的胜率
+          const winRates: Record<number, number> = {}
+          for (const c of champion.data.counters || []) {
+            if (c.play >= AutoSelectMain.OPGG_COUNTER_MIN_PLAYS) {
+              winRates[c.champion_id] = 1 - c.win / c.play
+            }
+          }
+
+          this._opggCounterWinRatesCache.set(key, winRates)
+
+          if (
+            !comparer.structural(opggTarget.get(), target) ||
+            this.state.laneOpponentChampionId !== opponent
+          ) {
+            return
+          }
+
+          this.state.setOpggCounterWinRates(opponent, winRates)
+        } catch (error) {
+          this._log.warn(`Failed to load OP.GG counters of ${opponent}`, error)
+        }
+      },
+      { equals: comparer.structural }
+    )
+
+    this._mobx.reaction(
+      () => this._lc.data.gameflow.phase,
+      (phase) => {
+        if (phase !== 'ChampSelect') {
+          this.state.clearOpggData()
+        }
+      }
+    )
   }
 
   /**
@@ -395,6 +667,16 @@ export class AutoSelectMain implements IAkariShardInitDispose {
       { equals: comparer.structural }
     )
 
+    this._mobx.reaction(
+      () => [this.state.targetPick?.rule?.name, this.state.targetBan?.rule?.name] as const,
+      ([pickRule, banRule]) => {
+        if (pickRule || banRule) {
+          this._log.info(`Rule fired, pick: ${pickRule || '<none>'}, ban: ${banRule || '<none>'}`)
+        }
+      },
+      { equals: comparer.shallow }
+    )
+
     this._mobx.reaction(
       () => positionInfo.get(),
       (info) => {
@@ -1,12 +1,22 @@
 import { Action } from '@shared/types/league-client/champ-select'
+import {
+  AutoSelectRule,
+  AutoSelectRuleContext,
+  evaluateAutoSelectRules
+} from '@shared/utils/auto-select-rules'
+import { findLaneOpponent, rankCounterPicks } from '@shared/utils/counter-pick'
 import { computed, makeAutoObservable, observable } from 'mobx'
 
+import { ExtraAssetsStateGtimg } from '../extra-assets/state'
 import { LeagueClientData } from '../league-client/lc-state'
+import { OngoingGameState } from '../ongoing-game/state'
 
 export type AutoPickStrategy = 'show' | 'lock-in' | 'show-and-delay-lock-in'
 
 export const ARENA_RANDOM_CHAMPION_ID = -3
 
+export const COUNTER_SUGGESTIONS_COUNT = 5
+
 export class AutoSelectSettings {
   normalModeEnabled: boolean = false
   expectedChampions: Record<string, number[]> = {
@@ -39,6 +49,16 @@ export class AutoSelectSettings {
   }
   banTeammateIntendedChampion: boolean = false
 
+  /**
+   * 条件规则, 按顺序评估, 优先于按位置设置的英雄列表
+   */
+  rules: AutoSelectRule[] = []
+
+  /**
+   * 英雄选择阶段根据对线对手给出克制推荐
+   */
+  counterSuggestionsEnabled: boolean = true
+
   setNormalModeEnabled(value: boolean) {
     this.normalModeEnabled = value
   }
@@ -99,11 +119,20 @@ export class AutoSelectSettings {
     this.pickStrategy = value
   }
 
+  setRules(value: AutoSelectRule[]) {
+    this.rules = value
+  }
+
+  setCounterSuggestionsEnabled(value: boolean) {
+    this.counterSuggestionsEnabled = value
+  }
+
   constructor() {
     makeAutoObservable(this, {
       benchExpectedChampions: observable.struct,
       expectedChampions: observable.struct,
-      bannedChampions: observable.struct
+      bannedChampions: observable.struct,
+      rules: observable.struct
     })
   }
 }
@@ -171,6 +200,126 @@ export class AutoSelectState {
     return this.champSelectActionInfo.memberMe
   }
 
+  /**
+   * 与自己位置相同的敌方玩家已选或预选的英雄, 无法确定对位的敌方玩家时为 null
+   */
+  get laneOpponentChampionId() {
+    const a = this.champSelectActionInfo
+
+    if (!a) {
+      return null
+    }
+
+    const opponent = findLaneOpponent(a.memberMe.assignedPosition, a.session.theirTeam)
+
+    if (!opponent) {
+      return null
+    }
+
+    return opponent.championId || opponent.championPickIntent || null
+  }
+
+  get championRoles() {
+    if (!this._gtimg.heroList) {
+      return {}
+    }
+
+    return this._gtimg.heroList.hero.reduce(
+      (obj, hero) => {
+        obj[Number(hero.heroId)] = hero.roles
+        return obj
+      },
+      {} as Record<number, string[]>
+    )
+  }
+
+  /**
+   * 当前位置下的 OP.GG 梯队, championId -> tier
+   */
+  opggTiers: Record<number, number> | null = null
+
+  setOpggTiers(value: Record<number, number> | null) {
+    this.opggTiers = value
+  }
+
+  /**
+   * 对线对手英雄 -> (自己的英雄 -> 对位胜率)
+   */
+  opggCounterWinRates: Record<number, Record<number, number>> = {}
+
+  setOpggCounterWinRates(championId: number, value: Record<number, number>) {
+    this.opggCounterWinRates = { ...this.opggCounterWinRates, [championId]: value }
+  }
+
+  /**
+   * 针对对线对手的克制推荐, 英雄池为近期使用过的英雄以及当前位置的预设英雄
+   */
+  get counterSuggestions() {
+    if (!this._settings.counterSuggestionsEnabled) {
+      return null
+    }
+
+    const a = this.champSelectActionInfo
+    const opponent = this.laneOpponentChampionId
+
+    if (!a || !opponent || !this.opggCounterWinRates[opponent]) {
+      return null
+    }
+
+    const winRates = this.opggCounterWinRates[opponent]
+    const champions = this._ogState.playerStats?.players[a.memberMe.puuid]?.champions
+
+    const taken = new Set<number>([...a.session.bans.myTeamBans, ...a.session.bans.theirTeamBans])
+    ;[...a.session.myTeam, ...a.session.theirTeam].forEach((m) => {
+      if (m.puuid !== a.memberMe.puuid && m.championId) {
+        taken.add(m.championId)
+      }
+    })
+
+    const isPickable = (c: number) =>
+      !taken.has(c) && a.currentPickables.has(c) && !a.disabledChampions.has(c)
+
+    let pool = [
+      ...Object.keys(champions || {}).map(Number),
+      ...(this._settings.expectedChampions[a.memberMe.assignedPosition] || [])
+    ].filter(isPickable)
+
+    // 没有可用的英雄池时, 从所有有对位数据的英雄中推荐
+    if (!pool.length) {
+      pool = Object.keys(winRates).map(Number).filter(isPickable)
+    }
+
+    return {
+      opponent,
+      suggestions: rankCounterPicks(pool, winRates, champions).slice(0, COUNTER_SUGGESTIONS_COUNT)
+    }
+  }
+
+  clearOpggData() {
+    this.opggTiers = null
+    this.opggCounterWinRates = {}
+  }
+
+  private get _ruleContext(): Omit<AutoSelectRuleContext, 'isAvailable'> | null {
+    const a = this.champSelectActionInfo
+
+    if (!a) {
+      return null
+    }
+
+    const opponent = this.laneOpponentChampionId
+
+    return {
+      session: a.session,
+      memberMe: a.memberMe,
+      championRoles: this.championRoles,
+      opggTiers: this.opggTiers,
+      laneOpponent: opponent
+        ? { championId: opponent, winRates: this.opggCounterWinRates[opponent] || null }
+        : null
+    }
+  }
+
   get targetPick() {
     if (!this._settings.normalModeEnabled) {
       return null
@@ -245,6 +394,24 @@ export class AutoSelectState {
       unpickables.add(-3)
     }
 
+    const isPickable = (c: number) =>
+      !unpickables.has(c) && a.currentPickables.has(c) && !a.disabledChampions.has(c)
+
+    const action = {
+      id: first.id,
+      isInProgress: first.isInProgress,
+      completed: first.completed
+    }
+
+    const fired = evaluateAutoSelectRules(this._settings.rules, 'pick', {
+      ...this._ruleContext!,
+      isAvailable: isPickable
+    })
+
+    if (fired) {
+      return { ...fired, isActingNow: a.isActingNow, action }
+    }
+
     let expectedChampions: number[]
     if (a.memberMe.assignedPosition) {
       const preset = this._settings.expectedChampions[a.memberMe.assignedPosition] || []
@@ -253,9 +420,7 @@ export class AutoSelectState {
       expectedChampions = this._settings.expectedChampions.default
     }
 
-    const pickables = expectedChampions.filter(
-      (c) => !unpickables.has(c) && a.currentPickables.has(c) && !a.disabledChampions.has(c)
-    )
+    const pickables = expectedChampions.filter(isPickable)
 
     if (!pickables.length) {
       return null
@@ -263,12 +428,10 @@ export class AutoSelectState {
 
     return {
       championId: pickables[0],
+      rule: null,
+      counterTo: null,
       isActingNow: a.isActingNow,
-      action: {
-        id: first.id,
-        isInProgress: first.isInProgress,
-        completed: first.completed
-      }
+      action
     }
   }
 
@@ -314,6 +477,25 @@ export class AutoSelectState {
       })
     }
 
+    const isBannable = (c: number) =>
+      (c == -1 && !a.session.isCustomGame) ||
+      (!unbannables.has(c) && a.currentBannables.has(c) && !a.disabledChampions.has(c))
+
+    const action = {
+      id: first.id,
+      isInProgress: first.isInProgress,
+      completed: first.completed
+    }
+
+    const fired = evaluateAutoSelectRules(this._settings.rules, 'ban', {
+      ...this._ruleContext!,
+      isAvailable: isBannable
+    })
+
+    if (fired) {
+      return { ...fired, isActingNow: a.isActingNow, action }
+    }
+
     let bannedChampions: number[]
     if (a.memberMe.assignedPosition) {
       const preset = this._settings.bannedChampions[a.memberMe.assignedPosition] || []
@@ -322,11 +504,7 @@ export class AutoSelectState {
       bannedChampions = this._settings.bannedChampions.default
     }
 
-    const bannables = bannedChampions.filter(
-      (c) =>
-        (c == -1 && !a.session.isCustomGame) ||
-        (!unbannables.has(c) && a.currentBannables.has(c) && !a.disabledChampions.has(c))
-    )
+    const bannables = bannedChampions.filter(isBannable)
 
     if (!bannables.length) {
       return null
@@ -334,12 +512,10 @@ export class AutoSelectState {
 
     return {
       championId: bannables[0],
+      rule: null,
+      counterTo: null,
       isActingNow: a.isActingNow,
-      action: {
-        id: first.id,
-        isInProgress: first.isInProgress,
-        completed: first.completed
-      }
+      action
     }
   }
 
@@ -418,10 +594,16 @@ export class AutoSelectState {
 
   constructor(
     private readonly _lcData: LeagueClientData,
-    private readonly _settings: AutoSelectSettings
+    private readonly _settings: AutoSelectSettings,
+    private readonly _gtimg: ExtraAssetsStateGtimg,
+    private readonly _ogState: OngoingGameState
   ) {
     makeAutoObservable(this, {
       champSelectActionInfo: computed.struct,
+      laneOpponentChampionId: computed.struct,
+      counterSuggestions: computed.struct,
+      opggTiers: observable.ref,
+      opggCounterWinRates: observable.ref,
       targetBan: computed.struct,
       targetPick: computed.struct,
       memberMe: computed.struct,
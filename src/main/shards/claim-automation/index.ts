@@ -0,0 +1,354 @@
+import { i18next } from '@main/i18n'
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { ChoiceMaker } from '@shared/utils/choice-maker'
+import { formatError } from '@shared/utils/errors'
+
+import { AkariIpcMain } from '../ipc'
+import { LeagueClientMain } from '../league-client'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { ClaimAutomationSettings, ClaimAutomationState, ClaimedItem } from './state'
+
+export interface ClaimResult {
+  claimed: ClaimedItem[]
+  errors: string[]
+}
+
+/**
+ * 领取奖励, 任务和活动中心的奖励, 并在登录和对局结束时按设置自动领取
+ */
+@Shard(ClaimAutomationMain.id)
+export class ClaimAutomationMain implements IAkariShardInitDispose {
+  static id = 'claim-automation-main'
+
+  static TARGET_REWARD_GRANT_STATUS = 'PENDING_SELECTION'
+
+  // 虽然是 SELECT_REWARDS, 但很多任务只是一个前置触发器
+  // 实际上的奖励领取是再此任务完成后, 自动触发的另一个任务
+  static TARGET_MISSION_STATUS = 'SELECT_REWARDS'
+
+  /**
+   * 触发后延迟检查, 对局结束后奖励和任务的状态不会立即更新
+   */
+  static CHECK_DELAY = 5000
+
+  public readonly settings = new ClaimAutomationSettings()
+  public readonly state = new ClaimAutomationState()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  private _checkTimer: NodeJS.Timeout | null = null
+  private _isCancelRequested = false
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _lc: LeagueClientMain
+  ) {
+    this._log = _loggerFactory.create(ClaimAutomationMain.id)
+    this._setting = _settingFactory.register(
+      ClaimAutomationMain.id,
+      {
+        rewardsEnabled: { default: this.settings.rewardsEnabled },
+        missionsEnabled: { default: this.settings.missionsEnabled },
+        eventHubEnabled: { default: this.settings.eventHubEnabled }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+
+    this._mobx.propSync(ClaimAutomationMain.id, 'settings', this.settings, [
+      'rewardsEnabled',
+      'missionsEnabled',
+      'eventHubEnabled'
+    ])
+    this._mobx.propSync(ClaimAutomationMain.id, 'state', this.state, ['isClaiming', 'lastRun'])
+
+    this._handleSchedule()
+    this._handleIpcCall()
+  }
+
+  async onDispose() {
+    if (this._checkTimer) {
+      clearTimeout(this._checkTimer)
+      this._checkTimer = null
+    }
+  }
+
+  private _handleSchedule() {
+    // 登录
+    this._mobx.reaction(
+      () => this._lc.data.summoner.me?.puuid,
+      (puuid) => {
+        if (puuid) {
+          this._scheduleCheck('login')
+        }
+      },
+      { fireImmediately: true }
+    )
+
+    this._mobx.reaction(
+      () => this._lc.data.gameflow.phase,
+      (phase) => {
+        if (phase === 'EndOfGame') {
+          this._scheduleCheck('end-of-game')
+        }
+      }
+    )
+  }
+
+  private _scheduleCheck(reason: string) {
+    const { rewardsEnabled, missionsEnabled, eventHubEnabled } = this.settings
+    if (!rewardsEnabled && !missionsEnabled && !eventHubEnabled) {
+      return
+    }
+
+    if (this._checkTimer) {
+      clearTimeout(this._checkTimer)
+    }
+
+    this._checkTimer = setTimeout(() => {
+      this._checkTimer = null
+      this.runScheduledClaim(reason).catch((error) =>
+        this._log.warn(`Failed to run scheduled claim: ${formatError(error)}`)
+      )
+    }, ClaimAutomationMain.CHECK_DELAY)
+  }
+
+  /**
+   * 按照设置领取所有可领取的项目, 并推送汇总通知
+   */
+  async runScheduledClaim(reason = 'manual') {
+    if (this.state.isClaiming || !this._lc.state.isConnected) {
+      return null
+    }
+
+    this._log.info(`Running scheduled claim, reason: ${reason}`)
+
+    const result: ClaimResult = { claimed: [], errors: [] }
+
+    const categories = [
+      { enabled: this.settings.rewardsEnabled, fn: () => this._claimRewardGrants() },
+      { enabled: this.settings.missionsEnabled, fn: () => this._claimMissions() },
+      { enabled: this.settings.eventHubEnabled, fn: () => this._claimEventHubEvents() }
+    ]
+
+    await this._runExclusive(async () => {
+      for (const { enabled, fn } of categories) {
+        if (this._isCancelRequested) {
+          break
+        }
+
+        if (!enabled) {
+          continue
+        }
+
+        try {
+          const r = await fn()
+          result.claimed.push(...r.claimed)
+          result.errors.push(...r.errors)
+        } catch (error) {
+          result.errors.push(formatError(error))
+        }
+      }
+    })
+
+    this.state.setLastRun({
+      time: Date.now(),
+      claimed: result.claimed,
+      failed: result.errors.length
+    })
+
+    if (result.claimed.length) {
+      this._notifyClaimed(result.claimed)
+    }
+
+    if (result.errors.length) {
+      this._log.warn(`Scheduled claim finished with errors: ${result.errors.join('; ')}`)
+    }
+
+    return result
+  }
+
+  private _notifyClaimed(claimed: ClaimedItem[]) {
+    this._ipc.sendEvent(ClaimAutomationMain.id, 'claimed', claimed)
+    this._lc.api.playerNotifications
+      .createTitleDetailsNotification(
+        i18next.t('common.appName'),
+        i18next.t('claim-automation-main.claimed', {
+          countV: claimed.length,
+          items: claimed.map((c) => c.name).join(', ')
+        })
+      )
+      .catch(() => {})
+  }
+
+  /**
+   * 同一时间只允许一次领取, 取消标记在每次领取开始时重置
+   */
+  private async _runExclusive<T>(fn: () => Promise<T>) {
+    if (this.state.isClaiming) {
+      throw new Error('Already claiming')
+    }
+
+    this._isCancelRequested = false
+    this.state.setClaiming(true)
+
+    try {
+      return await fn()
+    } finally {
+      this.state.setClaiming(false)
+    }
+  }
+
+  /**
+   * 多个项目依次领取, 单个项目失败不影响其他项目
+   */
+  private async _claimEach<T>(
+    items: T[],
+    claimFn: (item: T) => Promise<ClaimedItem[]>
+  ): Promise<ClaimResult> {
+    const result: ClaimResult = { claimed: [], errors: [] }
+
+    for (const item of items) {
+      if (this._isCancelRequested) {
+        break
+      }
+
+      try {
+        result.claimed.push(...(await claimFn(item)))
+      } catch (error) {
+        result.errors.push(formatError(error))
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * @param grantIds 要领取的奖励, 不提供时领取全部
+   */
+  claimRewardGrants(grantIds?: string[]) {
+    return this._runExclusive(() => this._claimRewardGrants(grantIds))
+  }
+
+  private async _claimRewardGrants(grantIds?: string[]) {
+    const { data } = await this._lc.api.rewards.getGrants(
+      ClaimAutomationMain.TARGET_REWARD_GRANT_STATUS
+    )
+
+    const grants = grantIds ? data.filter((g) => grantIds.includes(g.info.id)) : data
+
+    return this._claimEach(grants, async (grant) => {
+      const rewards = grant.rewardGroup.rewards
+      if (!rewards.length) {
+        return []
+      }
+
+      const cm = new ChoiceMaker(Array(rewards.length).fill(1), rewards)
+      const chosen = cm.choose(grant.rewardGroup.selectionStrategyConfig?.maxSelectionsAllowed || 1)
+
+      await this._lc.api.rewards.postGrantSelection(grant.info.id, {
+        grantId: grant.info.id,
+        rewardGroupId: grant.rewardGroup.id,
+        selections: chosen.map((c) => c.id)
+      })
+
+      this._log.info(`Claimed reward grant ${grant.info.id}`)
+
+      return chosen.map((c) => ({ category: 'reward' as const, name: c.localizations.title }))
+    })
+  }
+
+  /**
+   * @param missionIds 要领取的任务, 不提供时领取全部
+   */
+  claimMissions(missionIds?: string[]) {
+    return this._runExclusive(() => this._claimMissions(missionIds))
+  }
+
+  private async _claimMissions(missionIds?: string[]) {
+    const { data } = await this._lc.api.missions.getMissions()
+
+    const missions = data.filter(
+      (m) =>
+        m.status === ClaimAutomationMain.TARGET_MISSION_STATUS &&
+        (!missionIds || missionIds.includes(m.id))
+    )
+
+    return this._claimEach(missions, async (mission) => {
+      const rewards = mission.rewards
+      if (!rewards.length) {
+        return []
+      }
+
+      const cm = new ChoiceMaker(Array(rewards.length).fill(1), rewards)
+      const chosen = cm.choose(mission.rewardStrategy?.selectMaxGroupCount || 1)
+
+      await this._lc.api.missions.putPlayerMission(mission.id, {
+        rewardGroups: chosen.map((c) => c.rewardGroup)
+      })
+
+      this._log.info(`Claimed mission ${mission.id}`)
+
+      return chosen.map((c) => ({ category: 'mission' as const, name: c.description }))
+    })
+  }
+
+  /**
+   * @param eventIds 要领取的活动, 不提供时领取全部
+   */
+  claimEventHubEvents(eventIds?: string[]) {
+    return this._runExclusive(() => this._claimEventHubEvents(eventIds))
+  }
+
+  private async _claimEventHubEvents(eventIds?: string[]) {
+    const { data } = await this._lc.api.eventHub.getEvents()
+
+    const events = data.filter(
+      (e) => e.eventInfo.unclaimedRewardCount && (!eventIds || eventIds.includes(e.eventId))
+    )
+
+    return this._claimEach(events, async (event) => {
+      await this._lc.api.eventHub.postRewardTrackClaimAll(event.eventId)
+
+      this._log.info(`Claimed event hub rewards ${event.eventId}`)
+
+      return [{ category: 'event-hub' as const, name: event.eventInfo.eventName }]
+    })
+  }
+
+  cancel() {
+    this._isCancelRequested = true
+  }
+
+  private _handleIpcCall() {
+    this._ipc.onCall(ClaimAutomationMain.id, 'claimRewardGrants', (_, grantIds?: string[]) => {
+      return this.claimRewardGrants(grantIds)
+    })
+
+    this._ipc.onCall(ClaimAutomationMain.id, 'claimMissions', (_, missionIds?: string[]) => {
+      return this.claimMissions(missionIds)
+    })
+
+    this._ipc.onCall(ClaimAutomationMain.id, 'claimEventHubEvents', (_, eventIds?: string[]) => {
+      return this.claimEventHubEvents(eventIds)
+    })
+
+    this._ipc.onCall(ClaimAutomationMain.id, 'runScheduledClaim', () => {
+      return this.runScheduledClaim()
+    })
+
+    this._ipc.onCall(ClaimAutomationMain.id, 'cancel', () => {
+      this.cancel()
+    })
+  }
+}
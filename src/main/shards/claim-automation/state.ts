@@ -0,0 +1,66 @@
+import { makeAutoObservable, observable } from 'mobx'
+
+export class ClaimAutomationSettings {
+  /**
+   * 自动领取待选择的奖励
+   */
+  rewardsEnabled: boolean = false
+
+  /**
+   * 自动领取待选择奖励的任务
+   */
+  missionsEnabled: boolean = false
+
+  /**
+   * 自动领取活动中心的奖励
+   */
+  eventHubEnabled: boolean = false
+
+  setRewardsEnabled(enabled: boolean) {
+    this.rewardsEnabled = enabled
+  }
+
+  setMissionsEnabled(enabled: boolean) {
+    this.missionsEnabled = enabled
+  }
+
+  setEventHubEnabled(enabled: boolean) {
+    this.eventHubEnabled = enabled
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
+
+export interface ClaimedItem {
+  category: 'reward' | 'mission' | 'event-hub'
+  name: string
+}
+
+export class ClaimAutomationState {
+  isClaiming: boolean = false
+
+  /**
+   * 最近一次自动领取的结果
+   */
+  lastRun: {
+    time: number
+    claimed: ClaimedItem[]
+    failed: number
+  } | null = null
+
+  setClaiming(claiming: boolean) {
+    this.isClaiming = claiming
+  }
+
+  setLastRun(lastRun: typeof this.lastRun) {
+    this.lastRun = lastRun
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      lastRun: observable.ref
+    })
+  }
+}
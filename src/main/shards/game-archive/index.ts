@@ -0,0 +1,660 @@
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { Game, GameTimeline } from '@shared/types/league-client/match-history'
+import { extractBaselineSamples } from '@shared/utils/analysis'
+import { formatError } from '@shared/utils/errors'
+import dayjs from 'dayjs'
+import _ from 'lodash'
+import EventEmitter from 'node:events'
+import PQueue from 'p-queue'
+import { Between, Equal, In, LessThan, LessThanOrEqual, MoreThanOrEqual } from 'typeorm'
+
+import { AkariIpcMain } from '../ipc'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { SgpMain } from '../sgp'
+import { StorageMain } from '../storage'
+import { ArchivedGame } from '../storage/entities/ArchivedGame'
+import { ArchivedGameParticipant } from '../storage/entities/ArchivedGameParticipant'
+import { ArchivedGameTimeline } from '../storage/entities/ArchivedGameTimeline'
+import { CachedPlayer } from '../storage/entities/CachedPlayer'
+import { GameArchiveSettings } from './state'
+import {
+  ArchivedCoOccurrence,
+  ArchivedPlayerGamesQueryDto,
+  ArchivedPlayerGamesRangeQueryDto,
+  CachedPlayerSaveDto
+} from './types'
+
+export interface ArchivedData<T> {
+  source: 'lcu' | 'sgp'
+  data: T
+}
+
+/**
+ * 对局的本地存档, 记录获取到的完整对局信息和时间线, 避免重复请求
+ */
+@Shard(GameArchiveMain.id)
+export class GameArchiveMain implements IAkariShardInitDispose {
+  static id = 'game-archive-main'
+
+  static PRUNE_DEBOUNCE_MS = 60 * 1000
+  static DELETE_BATCH_SIZE = 200
+  static QUERY_BATCH_SIZE = 200
+
+  static PLAYER_GAMES_QUERY_DEFAULT_PAGE_SIZE = 20
+  static CACHED_PLAYERS_QUERY_DEFAULT_LIMIT = 40
+
+  public readonly settings = new GameArchiveSettings()
+
+  public readonly events = new EventEmitter<{
+    /**
+     * 一局对局被写入存档
+     */
+    'game-saved': [gameId: number, sgpServerId: string]
+
+    /**
+     * 存档中的对局被清理或清空
+     */
+    'games-removed': []
+  }>()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  /**
+   * SQLite 不支持并发的事务, 所有写入操作串行执行
+   */
+  private readonly _writeQueue = new PQueue({ concurrency: 1 })
+
+  private _debouncedPruneFn = _.debounce(
+    () =>
+      this.prune().catch((error) =>
+        this._log.warn(`Failed to prune game archive: ${formatError(error)}`)
+      ),
+    GameArchiveMain.PRUNE_DEBOUNCE_MS
+  )
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _storage: StorageMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _sgp: SgpMain
+  ) {
+    this._log = _loggerFactory.create(GameArchiveMain.id)
+    this._setting = _settingFactory.register(
+      GameArchiveMain.id,
+      {
+        enabled: { default: this.settings.enabled },
+        retentionDays: { default: this.settings.retentionDays },
+        maxGames: { default: this.settings.maxGames }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+    this._mobx.propSync(GameArchiveMain.id, 'settings', this.settings, [
+      'enabled',
+      'retentionDays',
+      'maxGames'
+    ])
+
+    this._setting.onChange('retentionDays', async (value, { setter }) => {
+      if (value >= 0) {
+        await setter(Math.floor(value))
+        this._debouncedPruneFn()
+      }
+    })
+
+    this._setting.onChange('maxGames', async (value, { setter }) => {
+      if (value >= 0) {
+        await setter(Math.floor(value))
+        this._debouncedPruneFn()
+      }
+    })
+
+    this._handleWriteThrough()
+    this._handleIpcCall()
+
+    this._debouncedPruneFn()
+  }
+
+  async onDispose() {
+    this._debouncedPruneFn.cancel()
+  }
+
+  /**
+   * SGP 的数据在获取时直接写入存档
+   */
+  private _handleWriteThrough() {
+    this._sgp.events.on('game-loaded', (sgpServerId, game) => {
+      this.saveGame(game, 'sgp', sgpServerId).catch((error) =>
+        this._log.warn(`Failed to archive game ${game.gameId}: ${formatError(error)}`)
+      )
+    })
+
+    this._sgp.events.on('timeline-loaded', (sgpServerId, gameId, timeline) => {
+      this.saveTimeline(gameId, timeline, 'sgp', sgpServerId).catch((error) =>
+        this._log.warn(`Failed to archive game timeline ${gameId}: ${formatError(error)}`)
+      )
+    })
+  }
+
+  /**
+   * 仅包含所有参与者信息的对局才是完整的, LCU 战绩列表中的对局只有玩家本人
+   */
+  private _isDetailedGame(game: Game) {
+    return (
+      game.participantIdentities.length > 1 &&
+      game.participantIdentities.length === game.participants.length
+    )
+  }
+
+  async getGame(gameId: number, sgpServerId?: string): Promise<ArchivedData<Game> | null> {
+    if (!this.settings.enabled) {
+      return null
+    }
+
+    const archived = await this._storage.dataSource.manager.findOneBy(ArchivedGame, {
+      gameId: Equal(gameId),
+      sgpServerId: Equal(sgpServerId || this._sgp.state.availability.sgpServerId)
+    })
+
+    if (!archived) {
+      return null
+    }
+
+    return { source: archived.source as 'lcu' | 'sgp', data: archived.data }
+  }
+
+  async getTimeline(
+    gameId: number,
+    sgpServerId?: string
+  ): Promise<ArchivedData<GameTimeline> | null> {
+    if (!this.settings.enabled) {
+      return null
+    }
+
+    const archived = await this._storage.dataSource.manager.findOneBy(ArchivedGameTimeline, {
+      gameId: Equal(gameId),
+      sgpServerId: Equal(sgpServerId || this._sgp.state.availability.sgpServerId)
+    })
+
+    if (!archived) {
+      return null
+    }
+
+    return { source: archived.source as 'lcu' | 'sgp', data: archived.data }
+  }
+
+  /**
+   * 存档一局完整的对局, 不完整的对局将被忽略
+   * @param sgpServerId 对局所在的 SGP 服务器 ID，如果不提供则使用当前登录 LCU 的服务器 ID
+   */
+  async saveGame(game: Game, source: 'lcu' | 'sgp', sgpServerId?: string) {
+    sgpServerId = sgpServerId || this._sgp.state.availability.sgpServerId
+
+    if (!this.settings.enabled || !sgpServerId || !this._isDetailedGame(game)) {
+      return
+    }
+
+    const saved = await this._writeQueue.add(() =>
+      this._storage.dataSource.transaction(async (manager) => {
+        const existing = await manager.findOne(ArchivedGame, {
+          select: { source: true },
+          where: { gameId: Equal(game.gameId), sgpServerId: Equal(sgpServerId) }
+        })
+
+        // SGP 的数据包含更多字段, 不使用 LCU 的数据覆盖
+        if (existing && existing.source === 'sgp' && source === 'lcu') {
+          return false
+        }
+
+        const gameCreation = new Date(game.gameCreation)
+
+        const archived = new ArchivedGame()
+        archived.gameId = game.gameId
+        archived.sgpServerId = sgpServerId
+        archived.source = source
+        archived.queueId = game.queueId
+        archived.gameMode = game.gameMode
+        archived.gameVersion = game.gameVersion
+        archived.gameCreation = gameCreation
+        archived.gameDuration = game.gameDuration
+        archived.data = game
+        archived.updateAt = new Date()
+
+        await manager.save(archived)
+
+        await manager.delete(ArchivedGameParticipant, {
+          gameId: game.gameId,
+          sgpServerId
+        })
+
+        const identities = _.keyBy(game.participantIdentities, (i) => i.participantId)
+        const samples = _.keyBy(extractBaselineSamples(game), (s) => s.puuid)
+        const participants = game.participants.map((p) => {
+          const participant = new ArchivedGameParticipant()
+          participant.gameId = game.gameId
+          participant.sgpServerId = sgpServerId
+          participant.puuid = identities[p.participantId]?.player.puuid || ''
+          participant.championId = p.championId
+          participant.teamId = p.teamId
+          participant.subteamId = p.stats.playerSubteamId || 0
+          participant.win = p.stats.win
+          participant.queueId = game.queueId
+          participant.gameCreation = gameCreation
+          participant.position = samples[participant.puuid]?.position || null
+          participant.baselineMetrics = samples[participant.puuid]?.metrics || null
+          return participant
+        })
+
+        await manager.save(participants)
+
+        return true
+      })
+    )
+
+    if (saved) {
+      this.events.emit('game-saved', game.gameId, sgpServerId)
+    }
+
+    this._debouncedPruneFn()
+  }
+
+  /**
+   * 存档一局对局的时间线
+   * @param sgpServerId 对局所在的 SGP 服务器 ID，如果不提供则使用当前登录 LCU 的服务器 ID
+   */
+  async saveTimeline(
+    gameId: number,
+    timeline: GameTimeline,
+    source: 'lcu' | 'sgp',
+    sgpServerId?: string
+  ) {
+    sgpServerId = sgpServerId || this._sgp.state.availability.sgpServerId
+
+    if (!this.settings.enabled || !sgpServerId || !timeline.frames.length) {
+      return
+    }
+
+    await this._writeQueue.add(async () => {
+      const archived = new ArchivedGameTimeline()
+      archived.gameId = gameId
+      archived.sgpServerId = sgpServerId
+      archived.source = source
+      archived.data = timeline
+      archived.updateAt = new Date()
+
+      await this._storage.dataSource.manager.save(archived)
+    })
+
+    this._debouncedPruneFn()
+  }
+
+  /**
+   * 按照保留天数和最大数量清理存档
+   * @returns 被清理的对局数量
+   */
+  async prune() {
+    return this._writeQueue.add(async () => {
+      const { retentionDays, maxGames } = this.settings
+      const manager = this._storage.dataSource.manager
+
+      let removed = 0
+
+      if (retentionDays > 0) {
+        const before = dayjs().subtract(retentionDays, 'day').toDate()
+
+        const expired = await manager.find(ArchivedGame, {
+          select: { gameId: true, sgpServerId: true },
+          where: { gameCreation: LessThan(before) }
+        })
+
+        removed += await this._deleteGames(expired)
+
+        // 没有对应对局的时间线, 以存档时间为准
+        await manager.delete(ArchivedGameTimeline, { updateAt: LessThan(before) })
+      }
+
+      if (maxGames > 0) {
+        const overflow = await manager.find(ArchivedGame, {
+          select: { gameId: true, sgpServerId: true },
+          order: { gameCreation: 'DESC' },
+          skip: maxGames
+        })
+
+        removed += await this._deleteGames(overflow)
+
+        const overflowTimelines = await manager.find(ArchivedGameTimeline, {
+          select: { gameId: true, sgpServerId: true },
+          order: { updateAt: 'DESC' },
+          skip: maxGames
+        })
+
+        for (const chunk of _.chunk(overflowTimelines, GameArchiveMain.DELETE_BATCH_SIZE)) {
+          await manager.delete(
+            ArchivedGameTimeline,
+            chunk.map((t) => ({ gameId: t.gameId, sgpServerId: t.sgpServerId }))
+          )
+        }
+      }
+
+      if (removed) {
+        this._log.info(`Pruned ${removed} archived games`)
+        this.events.emit('games-removed')
+      }
+
+      return removed
+    })
+  }
+
+  private async _deleteGames(keys: { gameId: number; sgpServerId: string }[]) {
+    for (const chunk of _.chunk(keys, GameArchiveMain.DELETE_BATCH_SIZE)) {
+      await this._storage.dataSource.transaction(async (manager) => {
+        for (const { gameId, sgpServerId } of chunk) {
+          await manager.delete(ArchivedGame, { gameId, sgpServerId })
+          await manager.delete(ArchivedGameParticipant, { gameId, sgpServerId })
+          await manager.delete(ArchivedGameTimeline, { gameId, sgpServerId })
+        }
+      })
+    }
+
+    return keys.length
+  }
+
+  /**
+   * 从存档中按页查询某位玩家的对局, 按对局创建时间倒序
+   */
+  async queryPlayerGames(query: ArchivedPlayerGamesQueryDto) {
+    const pageSize = query.pageSize || GameArchiveMain.PLAYER_GAMES_QUERY_DEFAULT_PAGE_SIZE
+    const page = query.page || 1
+
+    const manager = this._storage.dataSource.manager
+
+    const where = {
+      puuid: Equal(query.puuid),
+      sgpServerId: Equal(query.sgpServerId),
+      queueId: query.queueId ? Equal(query.queueId) : undefined
+    }
+
+    const [participants, total] = await Promise.all([
+      manager.find(ArchivedGameParticipant, {
+        select: { gameId: true },
+        where,
+        order: { gameCreation: 'DESC' },
+        take: pageSize,
+        skip: (page - 1) * pageSize
+      }),
+      manager.count(ArchivedGameParticipant, { where })
+    ])
+
+    const games = await manager.findBy(ArchivedGame, {
+      gameId: In(participants.map((p) => p.gameId)),
+      sgpServerId: Equal(query.sgpServerId)
+    })
+
+    const gameMap = _.keyBy(games, (g) => g.gameId)
+
+    return {
+      data: participants
+        .filter((p) => gameMap[p.gameId])
+        .map((p) => gameMap[p.gameId].data as Game),
+      page,
+      pageSize,
+      total
+    }
+  }
+
+  /**
+   * 分批读取存档中某位玩家在时间范围内的全部对局及其时间线, 按对局创建时间倒序
+   * 每批最多 QUERY_BATCH_SIZE 局, 避免一次性将全部对局读入内存
+   */
+  async *iteratePlayerGamesInRange(query: ArchivedPlayerGamesRangeQueryDto) {
+    const manager = this._storage.dataSource.manager
+
+    const gameCreation =
+      query.from !== undefined && query.to !== undefined
+        ? Between(new Date(query.from), new Date(query.to))
+        : query.from !== undefined
+          ? MoreThanOrEqual(new Date(query.from))
+          : query.to !== undefined
+            ? LessThanOrEqual(new Date(query.to))
+            : undefined
+
+    for (let skip = 0; ; skip += GameArchiveMain.QUERY_BATCH_SIZE) {
+      const participants = await manager.find(ArchivedGameParticipant, {
+        select: { gameId: true },
+        where: {
+          puuid: Equal(query.puuid),
+          sgpServerId: Equal(query.sgpServerId),
+          queueId: query.queueIds?.length ? In(query.queueIds) : undefined,
+          gameCreation
+        },
+        order: { gameCreation: 'DESC', gameId: 'DESC' },
+        skip,
+        take: GameArchiveMain.QUERY_BATCH_SIZE
+      })
+
+      if (!participants.length) {
+        return
+      }
+
+      const gameIds = participants.map((p) => p.gameId)
+      const [games, timelines] = await Promise.all([
+        manager.findBy(ArchivedGame, {
+          gameId: In(gameIds),
+          sgpServerId: Equal(query.sgpServerId)
+        }),
+        manager.findBy(ArchivedGameTimeline, {
+          gameId: In(gameIds),
+          sgpServerId: Equal(query.sgpServerId)
+        })
+      ])
+
+      const gameMap = _.keyBy(games, (g) => g.gameId)
+      const timelineMap = _.keyBy(timelines, (t) => t.gameId)
+
+      yield gameIds
+        .filter((gameId) => gameMap[gameId])
+        .map((gameId) => ({
+          game: gameMap[gameId].data as Game,
+          timeline: (timelineMap[gameId]?.data as GameTimeline) || null
+        }))
+
+      if (participants.length < GameArchiveMain.QUERY_BATCH_SIZE) {
+        return
+      }
+    }
+  }
+
+  /**
+   * 查询存档中给定玩家之间的同队记录, 只返回至少包含两位给定玩家的一方
+   * @param sgpServerId 如果不提供则使用当前登录 LCU 的服务器 ID
+   */
+  async queryCoOccurrences(
+    puuids: string[],
+    sgpServerId?: string
+  ): Promise<ArchivedCoOccurrence[]> {
+    sgpServerId = sgpServerId || this._sgp.state.availability.sgpServerId
+
+    if (!this.settings.enabled || !sgpServerId || puuids.length < 2) {
+      return []
+    }
+
+    const participants = await this._storage.dataSource.manager.find(ArchivedGameParticipant, {
+      select: { gameId: true, puuid: true, teamId: true, subteamId: true, gameCreation: true },
+      where: { puuid: In(puuids), sgpServerId: Equal(sgpServerId) }
+    })
+
+    const sides = _.groupBy(participants, (p) => `${p.gameId}|${p.subteamId || p.teamId}`)
+
+    return Object.entries(sides)
+      .filter(([_id, ps]) => ps.length > 1)
+      .map(([id, ps]) => ({
+        id,
+        gameId: ps[0].gameId,
+        players: ps.map((p) => p.puuid),
+        gameCreation: new Date(ps[0].gameCreation).getTime()
+      }))
+  }
+
+  async getCachedPlayer(puuid: string, sgpServerId: string) {
+    return this._storage.dataSource.manager.findOneBy(CachedPlayer, {
+      puuid: Equal(puuid),
+      sgpServerId: Equal(sgpServerId)
+    })
+  }
+
+  /**
+   * 最近查看过的玩家, 按上次更新时间倒序
+   */
+  async getCachedPlayers(limit = GameArchiveMain.CACHED_PLAYERS_QUERY_DEFAULT_LIMIT) {
+    return this._storage.dataSource.manager.find(CachedPlayer, {
+      order: { lastUpdate: 'DESC' },
+      take: limit
+    })
+  }
+
+  /**
+   * 更新玩家快照, 未提供的字段保持不变
+   */
+  async saveCachedPlayer(dto: CachedPlayerSaveDto) {
+    if (!this.settings.enabled) {
+      return
+    }
+
+    await this._writeQueue.add(async () => {
+      const manager = this._storage.dataSource.manager
+
+      const player =
+        (await manager.findOneBy(CachedPlayer, {
+          puuid: Equal(dto.puuid),
+          sgpServerId: Equal(dto.sgpServerId)
+        })) || new CachedPlayer()
+
+      player.puuid = dto.puuid
+      player.sgpServerId = dto.sgpServerId
+
+      if (dto.summoner !== undefined) {
+        player.summoner = dto.summoner
+      }
+
+      if (dto.rankedStats !== undefined) {
+        player.rankedStats = dto.rankedStats
+      }
+
+      if (dto.lastUpdate !== undefined) {
+        player.lastUpdate = new Date(dto.lastUpdate)
+      } else if (!player.lastUpdate) {
+        player.lastUpdate = new Date()
+      }
+
+      await manager.save(player)
+    })
+  }
+
+  async getStats() {
+    const manager = this._storage.dataSource.manager
+
+    const [games, timelines, oldest] = await Promise.all([
+      manager.count(ArchivedGame),
+      manager.count(ArchivedGameTimeline),
+      manager.find(ArchivedGame, {
+        select: { gameCreation: true },
+        order: { gameCreation: 'ASC' },
+        take: 1
+      })
+    ])
+
+    return {
+      games,
+      timelines,
+      oldestGameCreation: oldest.length ? oldest[0].gameCreation.valueOf() : null
+    }
+  }
+
+  async clear() {
+    await this._writeQueue.add(async () => {
+      const manager = this._storage.dataSource.manager
+      await manager.clear(ArchivedGame)
+      await manager.clear(ArchivedGameParticipant)
+      await manager.clear(ArchivedGameTimeline)
+      await manager.clear(CachedPlayer)
+    })
+
+    this._log.info('Game archive cleared')
+    this.events.emit('games-removed')
+  }
+
+  private _handleIpcCall() {
+    this._ipc.onCall(GameArchiveMain.id, 'getGame', (_, gameId: number, sgpServerId?: string) => {
+      return this.getGame(gameId, sgpServerId)
+    })
+
+    this._ipc.onCall(
+      GameArchiveMain.id,
+      'getTimeline',
+      (_, gameId: number, sgpServerId?: string) => {
+        return this.getTimeline(gameId, sgpServerId)
+      }
+    )
+
+    this._ipc.onCall(
+      GameArchiveMain.id,
+      'saveGame',
+      (_, game: Game, source: 'lcu' | 'sgp', sgpServerId?: string) => {
+        return this.saveGame(game, source, sgpServerId)
+      }
+    )
+
+    this._ipc.onCall(
+      GameArchiveMain.id,
+      'saveTimeline',
+      (_, gameId: number, timeline: GameTimeline, source: 'lcu' | 'sgp', sgpServerId?: string) => {
+        return this.saveTimeline(gameId, timeline, source, sgpServerId)
+      }
+    )
+
+    this._ipc.onCall(
+      GameArchiveMain.id,
+      'queryPlayerGames',
+      (_, query: ArchivedPlayerGamesQueryDto) => {
+        return this.queryPlayerGames(query)
+      }
+    )
+
+    this._ipc.onCall(
+      GameArchiveMain.id,
+      'getCachedPlayer',
+      (_, puuid: string, sgpServerId: string) => {
+        return this.getCachedPlayer(puuid, sgpServerId)
+      }
+    )
+
+    this._ipc.onCall(GameArchiveMain.id, 'getCachedPlayers', (_, limit?: number) => {
+      return this.getCachedPlayers(limit)
+    })
+
+    this._ipc.onCall(GameArchiveMain.id, 'saveCachedPlayer', (_, dto: CachedPlayerSaveDto) => {
+      return this.saveCachedPlayer(dto)
+    })
+
+    this._ipc.onCall(GameArchiveMain.id, 'getStats', () => {
+      return this.getStats()
+    })
+
+    this._ipc.onCall(GameArchiveMain.id, 'prune', () => {
+      return this.prune()
+    })
+
+    this._ipc.onCall(GameArchiveMain.id, 'clear', () => {
+      return this.clear()
+    })
+  }
+}
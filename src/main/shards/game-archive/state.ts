@@ -0,0 +1,34 @@
+import { makeAutoObservable } from 'mobx'
+
+export class GameArchiveSettings {
+  /**
+   * 是否将获取到的对局和时间线存档到本地
+   */
+  enabled: boolean = true
+
+  /**
+   * 存档保留的天数, 以对局创建时间为准, 0 表示永久保留
+   */
+  retentionDays: number = 180
+
+  /**
+   * 最多保留的对局数量, 超出的部分将从最旧的开始清理, 0 表示不限制
+   */
+  maxGames: number = 10000
+
+  setEnabled(value: boolean) {
+    this.enabled = value
+  }
+
+  setRetentionDays(value: number) {
+    this.retentionDays = value
+  }
+
+  setMaxGames(value: number) {
+    this.maxGames = value
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
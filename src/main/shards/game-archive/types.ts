@@ -0,0 +1,38 @@
+export interface ArchivedPlayerGamesQueryDto {
+  puuid: string
+  sgpServerId: string
+  queueId?: number
+  page?: number
+  pageSize?: number
+}
+
+export interface ArchivedPlayerGamesRangeQueryDto {
+  puuid: string
+  sgpServerId: string
+  queueIds?: number[]
+
+  /**
+   * 对局创建时间的范围 (毫秒时间戳), 包含两端
+   */
+  from?: number
+  to?: number
+}
+
+export interface CachedPlayerSaveDto {
+  puuid: string
+  sgpServerId: string
+  summoner?: any
+  rankedStats?: any
+  lastUpdate?: number
+}
+
+/**
+ * 存档中的一方队伍, 只包含被查询的玩家
+ */
+export interface ArchivedCoOccurrence {
+  /** `${gameId}|${teamId 或 subteamId}` */
+  id: string
+  gameId: number
+  players: string[]
+  gameCreation: number
+}
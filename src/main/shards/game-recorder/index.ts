@@ -0,0 +1,215 @@
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { formatError } from '@shared/utils/errors'
+import PQueue from 'p-queue'
+import { Equal } from 'typeorm'
+
+import { GameClientMain } from '../game-client'
+import { AkariIpcMain } from '../ipc'
+import { LeagueClientMain } from '../league-client'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { SgpMain } from '../sgp'
+import { StorageMain } from '../storage'
+import { RecordedGameTimeline } from '../storage/entities/RecordedGameTimeline'
+import { LiveTimelineRecorder } from './recorder'
+import { GameRecorderSettings, GameRecorderState } from './state'
+import { RecordedTimeline } from './types'
+
+/**
+ * 在对局进行中轮询 Live Client Data API, 录制击杀, 资源, 出装, 升级和经济快照
+ */
+@Shard(GameRecorderMain.id)
+export class GameRecorderMain implements IAkariShardInitDispose {
+  static id = 'game-recorder-main'
+
+  static POLL_INTERVAL = 2000
+  static MAX_RECORDED_GAMES = 500
+
+  public readonly settings = new GameRecorderSettings()
+  public readonly state = new GameRecorderState()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  private readonly _writeQueue = new PQueue({ concurrency: 1 })
+
+  private _timer: NodeJS.Timeout | null = null
+  private _recorder: LiveTimelineRecorder | null = null
+  private _isPolling = false
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _gameClient: GameClientMain,
+    private readonly _lc: LeagueClientMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _storage: StorageMain,
+    private readonly _sgp: SgpMain
+  ) {
+    this._log = _loggerFactory.create(GameRecorderMain.id)
+    this._setting = _settingFactory.register(
+      GameRecorderMain.id,
+      {
+        enabled: { default: this.settings.enabled }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+
+    this._mobx.propSync(GameRecorderMain.id, 'settings', this.settings, ['enabled'])
+    this._mobx.propSync(GameRecorderMain.id, 'state', this.state, ['recording'])
+
+    this._mobx.reaction(
+      () =>
+        [
+          this._lc.data.gameflow.phase,
+          this._lc.data.gameflow.session?.gameData.gameId,
+          this.settings.enabled
+        ] as const,
+      ([phase, gameId, enabled]) => {
+        if (phase === 'InProgress' && gameId && enabled) {
+          this._startRecording(gameId)
+        } else {
+          this._stopRecording()
+        }
+      },
+      { equals: (a, b) => a[0] === b[0] && a[1] === b[1] && a[2] === b[2], fireImmediately: true }
+    )
+
+    this._ipc.onCall(
+      GameRecorderMain.id,
+      'getRecordedTimeline',
+      (_, gameId: number, sgpServerId?: string) => {
+        return this.getRecordedTimeline(gameId, sgpServerId)
+      }
+    )
+  }
+
+  async onDispose() {
+    await this._stopRecording()
+  }
+
+  /**
+   * @param sgpServerId 如果不提供则使用当前登录 LCU 的服务器 ID
+   */
+  async getRecordedTimeline(gameId: number, sgpServerId?: string) {
+    const recorded = await this._storage.dataSource.manager.findOneBy(RecordedGameTimeline, {
+      gameId: Equal(gameId),
+      sgpServerId: Equal(sgpServerId || this._sgp.state.availability.sgpServerId)
+    })
+
+    return (recorded?.data as RecordedTimeline) || null
+  }
+
+  private _startRecording(gameId: number) {
+    if (this._recorder?.gameId === gameId) {
+      return
+    }
+
+    this._stopRecording()
+
+    this._log.info(`Start recording game ${gameId}`)
+
+    this._recorder = new LiveTimelineRecorder(gameId)
+    this.state.setRecording({ gameId, eventCount: 0, snapshotCount: 0 })
+
+    this._poll()
+    this._timer = setInterval(() => this._poll(), GameRecorderMain.POLL_INTERVAL)
+  }
+
+  private async _stopRecording() {
+    if (this._timer) {
+      clearInterval(this._timer)
+      this._timer = null
+    }
+
+    const recorder = this._recorder
+    if (!recorder) {
+      return
+    }
+
+    this._recorder = null
+    this.state.setRecording(null)
+
+    if (recorder.isEmpty) {
+      this._log.info(`Nothing recorded for game ${recorder.gameId}`)
+      return
+    }
+
+    this._log.info(
+      `Stop recording game ${recorder.gameId}, ${recorder.timeline.events.length} events`
+    )
+
+    try {
+      await this._saveTimeline(recorder.timeline)
+    } catch (error) {
+      this._log.warn(`Failed to save recorded timeline: ${formatError(error)}`)
+    }
+  }
+
+  private async _poll() {
+    const recorder = this._recorder
+    if (!recorder || this._isPolling) {
+      return
+    }
+
+    this._isPolling = true
+    try {
+      const data = (await this._gameClient.api.getAllGameData()).data
+
+      // 等待请求期间可能已经停止录制
+      if (this._recorder !== recorder) {
+        return
+      }
+
+      recorder.update(data)
+      this.state.setRecording({
+        gameId: recorder.gameId,
+        eventCount: recorder.timeline.events.length,
+        snapshotCount: recorder.timeline.snapshots.length
+      })
+    } catch {
+      // 加载界面和游戏刚开始时 API 尚不可用
+    } finally {
+      this._isPolling = false
+    }
+  }
+
+  private async _saveTimeline(timeline: RecordedTimeline) {
+    const sgpServerId = this._sgp.state.availability.sgpServerId
+    if (!sgpServerId) {
+      return
+    }
+
+    await this._writeQueue.add(async () => {
+      const manager = this._storage.dataSource.manager
+
+      const recorded = new RecordedGameTimeline()
+      recorded.gameId = timeline.gameId
+      recorded.sgpServerId = sgpServerId
+      recorded.data = timeline
+      recorded.updateAt = new Date()
+
+      await manager.save(recorded)
+
+      const overflow = await manager.find(RecordedGameTimeline, {
+        select: { gameId: true, sgpServerId: true },
+        order: { updateAt: 'DESC' },
+        skip: GameRecorderMain.MAX_RECORDED_GAMES
+      })
+
+      if (overflow.length) {
+        await manager.delete(
+          RecordedGameTimeline,
+          overflow.map((r) => ({ gameId: r.gameId, sgpServerId: r.sgpServerId }))
+        )
+      }
+    })
+  }
+}
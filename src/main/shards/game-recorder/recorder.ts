@@ -0,0 +1,227 @@
+import { AllGameData, GameEvent, PlayerList } from '@shared/types/game-client'
+
+import {
+  RecordedEvent,
+  RecordedObjectiveType,
+  RecordedPlayerSnapshot,
+  RecordedTimeline
+} from './types'
+
+const OBJECTIVE_EVENTS: Record<string, RecordedObjectiveType> = {
+  DragonKill: 'dragon',
+  HeraldKill: 'herald',
+  BaronKill: 'baron',
+  HordeKill: 'horde',
+  AtakhanKill: 'atakhan'
+}
+
+const playerKey = (p: PlayerList) => p.riotId || p.summonerName
+
+/**
+ * 将轮询得到的 Live Client 数据增量地转换为紧凑的时间线
+ */
+export class LiveTimelineRecorder {
+  /**
+   * 快照的间隔 (游戏内秒数)
+   */
+  static SNAPSHOT_INTERVAL = 60
+
+  /**
+   * 首次观测时若早于该时间, 已有的装备视为出门装
+   */
+  static STARTING_ITEMS_WINDOW = 90
+
+  private readonly _timeline: RecordedTimeline
+
+  private _lastEventId = -1
+  private _lastSnapshotTime = -Infinity
+
+  /**
+   * 玩家的各种称呼 -> 下标, 事件中可能使用 riotId, 游戏名或旧的召唤师名
+   */
+  private readonly _nameIndex = new Map<string, number>()
+  private readonly _keyIndex = new Map<string, number>()
+
+  private _items: (Map<number, number> | null)[] = []
+  private _levels: number[] = []
+
+  constructor(public readonly gameId: number) {
+    this._timeline = {
+      version: 1,
+      gameId,
+      gameMode: '',
+      mapNumber: 0,
+      startedAt: Date.now(),
+      duration: 0,
+      players: [],
+      events: [],
+      snapshots: []
+    }
+  }
+
+  get timeline() {
+    return this._timeline
+  }
+
+  get isEmpty() {
+    return !this._timeline.players.length
+  }
+
+  update(data: AllGameData) {
+    const t = Math.round(data.gameData.gameTime * 10) / 10
+
+    this._timeline.gameMode = data.gameData.gameMode
+    this._timeline.mapNumber = data.gameData.mapNumber
+    this._timeline.duration = t
+
+    for (const p of data.allPlayers) {
+      if (!this._keyIndex.has(playerKey(p))) {
+        this._addPlayer(p, data)
+      }
+    }
+
+    for (const e of data.events.Events) {
+      if (e.EventID > this._lastEventId) {
+        this._lastEventId = e.EventID
+        this._handleEvent(e)
+      }
+    }
+
+    for (const p of data.allPlayers) {
+      this._diffPlayer(this._keyIndex.get(playerKey(p))!, p, t)
+    }
+
+    if (t - this._lastSnapshotTime >= LiveTimelineRecorder.SNAPSHOT_INTERVAL) {
+      this._lastSnapshotTime = t
+      this._snapshot(data, t)
+    }
+  }
+
+  private _addPlayer(p: PlayerList, data: AllGameData) {
+    const index = this._timeline.players.length
+    const isSelf = data.activePlayer?.riotId
+      ? data.activePlayer.riotId === p.riotId
+      : data.activePlayer?.summonerName === p.summonerName
+
+    this._timeline.players.push({
+      name: p.riotId || p.summonerName,
+      championName: p.championName,
+      team: p.team,
+      position: p.position,
+      isSelf
+    })
+
+    this._keyIndex.set(playerKey(p), index)
+    for (const name of [p.riotId, p.riotIdGameName, p.summonerName]) {
+      if (name) {
+        this._nameIndex.set(name, index)
+      }
+    }
+
+    this._items.push(null)
+    this._levels.push(p.level)
+  }
+
+  private _indexOf(name: string | undefined) {
+    return name ? (this._nameIndex.get(name) ?? -1) : -1
+  }
+
+  private _pushEvent(event: RecordedEvent) {
+    this._timeline.events.push(event)
+  }
+
+  private _handleEvent(e: GameEvent) {
+    const t = Math.round(e.EventTime * 10) / 10
+
+    switch (e.EventName) {
+      case 'ChampionKill':
+        this._pushEvent({
+          t,
+          type: 'kill',
+          killer: this._indexOf(e.KillerName),
+          victim: this._indexOf(e.VictimName),
+          assisters: (e.Assisters || []).map((a) => this._indexOf(a)).filter((i) => i !== -1)
+        })
+        break
+      case 'DragonKill':
+      case 'HeraldKill':
+      case 'BaronKill':
+      case 'HordeKill':
+      case 'AtakhanKill':
+        this._pushEvent({
+          t,
+          type: OBJECTIVE_EVENTS[e.EventName],
+          killer: this._indexOf(e.KillerName),
+          stolen: e.Stolen === 'True',
+          ...(e.DragonType ? { subType: e.DragonType } : {})
+        })
+        break
+      case 'TurretKilled':
+        this._pushEvent({
+          t,
+          type: 'turret',
+          killer: this._indexOf(e.KillerName),
+          target: e.TurretKilled || ''
+        })
+        break
+      case 'InhibKilled':
+        this._pushEvent({
+          t,
+          type: 'inhibitor',
+          killer: this._indexOf(e.KillerName),
+          target: e.InhibKilled || ''
+        })
+        break
+    }
+  }
+
+  private _diffPlayer(index: number, p: PlayerList, t: number) {
+    if (p.level > this._levels[index]) {
+      for (let level = this._levels[index] + 1; level <= p.level; level++) {
+        this._pushEvent({ t, type: 'level', player: index, level })
+      }
+    }
+    this._levels[index] = p.level
+
+    const items = new Map<number, number>()
+    for (const item of p.items) {
+      items.set(item.itemID, (items.get(item.itemID) || 0) + Math.max(item.count, 1))
+    }
+
+    const prev = this._items[index]
+
+    // 中途开始录制时, 无法区分已有装备的购买时间, 只作为基准
+    if (prev || t < LiveTimelineRecorder.STARTING_ITEMS_WINDOW) {
+      for (const [itemId, count] of items) {
+        const added = count - (prev?.get(itemId) || 0)
+        for (let i = 0; i < added; i++) {
+          this._pushEvent({ t, type: 'item', player: index, itemId })
+        }
+      }
+    }
+
+    this._items[index] = items
+  }
+
+  private _snapshot(data: AllGameData, t: number) {
+    const players: RecordedPlayerSnapshot[] = this._timeline.players.map(() => [0, 0, 0, 0, 0, 0])
+
+    for (const p of data.allPlayers) {
+      const { scores } = p
+      players[this._keyIndex.get(playerKey(p))!] = [
+        p.level,
+        scores.creepScore,
+        scores.kills,
+        scores.deaths,
+        scores.assists,
+        p.items.reduce((sum, item) => sum + item.price * Math.max(item.count, 1), 0)
+      ]
+    }
+
+    this._timeline.snapshots.push({
+      t,
+      players,
+      selfGold: Math.round(data.activePlayer?.currentGold || 0)
+    })
+  }
+}
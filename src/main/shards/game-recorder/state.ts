@@ -0,0 +1,34 @@
+import { makeAutoObservable, observable } from 'mobx'
+
+export class GameRecorderSettings {
+  enabled: boolean = true
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
+
+export class GameRecorderState {
+  /**
+   * 正在录制的对局, 未在录制时为 null
+   */
+  recording: {
+    gameId: number
+    eventCount: number
+    snapshotCount: number
+  } | null = null
+
+  setRecording(recording: typeof this.recording) {
+    this.recording = recording
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      recording: observable.struct
+    })
+  }
+}
@@ -6,10 +6,14 @@ import { isBotQueue } from '@shared/types/league-client/game-data'
 import { isPveQueue } from '@shared/types/league-client/match-history'
 import { formatError } from '@shared/utils/errors'
 import { sleep } from '@shared/utils/sleep'
+import { app } from 'electron'
+import { toJS } from 'mobx'
 import fs from 'node:fs'
+import path from 'node:path'
 import vm from 'node:vm'
 
 import { AppCommonMain } from '../app-common'
+import { GameArchiveMain } from '../game-archive'
 import { GameClientMain } from '../game-client'
 import { AkariIpcMain } from '../ipc'
 import { KeyboardShortcutsMain } from '../keyboard-shortcuts'
@@ -18,17 +22,49 @@ import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
 import { MobxUtilsMain } from '../mobx-utils'
 import { OngoingGameMain } from '../ongoing-game'
 import { RemoteConfigMain } from '../remote-config'
+import { SavedPlayerMain } from '../saved-player'
 import { SettingFactoryMain } from '../setting-factory'
 import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import builtinAramFixture from './fixtures/builtin-aram.json?asset'
+import builtinArenaFixture from './fixtures/builtin-arena.json?asset'
+import builtinRankedSrFixture from './fixtures/builtin-ranked-sr.json?asset'
 import {
   JSContextV1,
+  JSTemplateMetadata,
+  JSTemplatePermission,
   JS_TEMPLATE_CHECK_RESULT,
+  JS_TEMPLATE_EXECUTION_TIMEOUT,
+  JS_TEMPLATE_FULL_ACCESS,
+  JS_TEMPLATE_SEGMENT_TIMEOUT,
   checkContextV1,
-  getExampleTemplate
+  declaresGetMessages,
+  getExampleTemplate,
+  getTemplatePermissions,
+  isTemplateV2,
+  readTemplateMetadataStatically
 } from './js-template'
+import { TemplateSandbox, TemplateSandboxHost } from './sandbox'
+import {
+  IN_GAME_CHAT_MAX_LENGTH,
+  LOBBY_CHAT_MAX_LENGTH,
+  SendQueue,
+  SendQueueJob,
+  TokenBucket
+} from './send-queue'
 import { InGameSendSettings, InGameSendState, SendableItem, TemplateDef } from './state'
+import {
+  TemplateFixture,
+  TemplateFixtureEnv,
+  TemplateFixtureError,
+  TemplateFixtureRunResult,
+  readFixtureFile,
+  readFixturesInDir,
+  toFixtureId,
+  toFixtureInfo,
+  writeFixtureFile
+} from './template-fixtures'
 import defaultTemplate from './templates/default-template.js?asset'
-import { TemplateEnv } from './templates/env-types'
+import { TemplateCapabilityApi, TemplateEnv, TemplateEnvV2 } from './templates/env-types'
 
 /**
  * 用于在游戏中模拟发送的相关功能
@@ -47,16 +83,55 @@ export class InGameSendMain implements IAkariShardInitDispose {
   static ENTER_KEY_CODE = 13
   static ENTER_KEY_INTERNAL_DELAY = 20
 
+  /**
+   * 模板通过 `akari` 查询对局存档时, 单页的最大数量
+   */
+  static TEMPLATE_MAX_PAGE_SIZE = 100
+
+  static FIXTURES_DIR_NAME = 'in-game-send-fixtures'
+
+  static BUILTIN_FIXTURES = [builtinRankedSrFixture, builtinAramFixture, builtinArenaFixture]
+
+  /**
+   * 参照游戏内的刷屏限制设置的发送速率, 允许少量连续发送
+   */
+  static IN_GAME_BUCKET_CAPACITY = 4
+  static IN_GAME_BUCKET_REFILL_INTERVAL = 1200
+  static CHAT_BUCKET_CAPACITY = 5
+  static CHAT_BUCKET_REFILL_INTERVAL = 800
+
   public readonly settings = new InGameSendSettings()
   public readonly state = new InGameSendState()
 
   private _log: AkariLogger
   private _setting: SetterSettingService
 
+  /**
+   * v1 模板的完整上下文, 只为已确认的模板创建
+   */
   private _vmContexts: Record<string, vm.Context> = {}
 
+  /**
+   * v2 模板的沙箱
+   */
+  private _sandboxes: Record<string, TemplateSandbox> = {}
+
   private _currentSendController: AbortController | null = null
 
+  /**
+   * 令牌桶在多次发送之间共享, 连续触发时同样受到限制
+   */
+  private _inGameBucket = new TokenBucket(
+    InGameSendMain.IN_GAME_BUCKET_CAPACITY,
+    InGameSendMain.IN_GAME_BUCKET_REFILL_INTERVAL
+  )
+  private _chatBucket = new TokenBucket(
+    InGameSendMain.CHAT_BUCKET_CAPACITY,
+    InGameSendMain.CHAT_BUCKET_REFILL_INTERVAL
+  )
+
+  private _sendQueue = new SendQueue((progress) => this.state.setSendProgress(progress))
+
   constructor(
     _settingFactory: SettingFactoryMain,
     _loggerFactory: LoggerFactoryMain,
@@ -67,7 +142,10 @@ export class InGameSendMain implements IAkariShardInitDispose {
     private readonly _lc: LeagueClientMain,
     private readonly _shared: SharedGlobalShard,
     private readonly _app: AppCommonMain,
-    private readonly _rc: RemoteConfigMain
+    private readonly _rc: RemoteConfigMain,
+    private readonly _gc: GameClientMain,
+    private readonly _gameArchive: GameArchiveMain,
+    private readonly _savedPlayer: SavedPlayerMain
   ) {
     this._log = _loggerFactory.create(InGameSendMain.id)
     this._setting = _settingFactory.register(
@@ -76,7 +154,8 @@ export class InGameSendMain implements IAkariShardInitDispose {
         sendableItems: { default: this.settings.sendableItems },
         sendInterval: { default: this.settings.sendInterval },
         templates: { default: this.settings.templates },
-        cancelShortcut: { default: this.settings.cancelShortcut }
+        cancelShortcut: { default: this.settings.cancelShortcut },
+        pauseShortcut: { default: this.settings.pauseShortcut }
       },
       this.settings
     )
@@ -89,9 +168,12 @@ export class InGameSendMain implements IAkariShardInitDispose {
       'sendInterval',
       'templates',
       'sendableItems',
-      'cancelShortcut'
+      'cancelShortcut',
+      'pauseShortcut'
     ])
 
+    this._mobx.propSync(InGameSendMain.id, 'state', this.state, ['sendProgress'])
+
     this._setting.onChange('sendInterval', (v, { setter }) => {
       if (v < 0) {
         return setter(0)
@@ -107,17 +189,40 @@ export class InGameSendMain implements IAkariShardInitDispose {
       (v) => {
         const targetId = `${InGameSendMain.id}/cancel`
 
+        if (v === null) {
+          this._kbd.unregisterByTargetId(targetId)
+        } else {
+          try {
+            this._kbd.register(targetId, v, 'normal', () => this.cancelSend())
+          } catch (error) {
+            this.settings.setCancelShortcut(null)
+            this._log.error('Register shortcut failed', error)
+          }
+        }
+      },
+      { fireImmediately: true }
+    )
+  }
+
+  private _handlePauseShortcut() {
+    this._mobx.reaction(
+      () => this.settings.pauseShortcut,
+      (v) => {
+        const targetId = `${InGameSendMain.id}/pause`
+
         if (v === null) {
           this._kbd.unregisterByTargetId(targetId)
         } else {
           try {
             this._kbd.register(targetId, v, 'normal', () => {
-              if (this._currentSendController) {
-                this._currentSendController.abort()
+              if (this.state.sendProgress?.status === 'paused') {
+                this.resumeSend()
+              } else {
+                this.pauseSend()
               }
             })
           } catch (error) {
-            this.settings.setCancelShortcut(null)
+            this.settings.setPauseShortcut(null)
             this._log.error('Register shortcut failed', error)
           }
         }
@@ -126,6 +231,34 @@ export class InGameSendMain implements IAkariShardInitDispose {
     )
   }
 
+  pauseSend() {
+    this._sendQueue.pause()
+  }
+
+  resumeSend() {
+    this._sendQueue.resume()
+  }
+
+  cancelSend() {
+    if (this._currentSendController) {
+      this._currentSendController.abort()
+      this._currentSendController = null
+    }
+
+    this._sendQueue.cancel()
+  }
+
+  /**
+   * 与快捷键触发的发送相同, 当前阶段不支持发送时会被忽略
+   */
+  sendItem(id: string, target: 'all' | 'ally' | 'enemy' = 'all') {
+    if (!this.settings.sendableItems.some((item) => item.id === id)) {
+      throw new Error(`Sendable item ${id} not found`)
+    }
+
+    this._performSendableItemSend(id, target)
+  }
+
   private _performSendableItemSend(id: string, target: 'all' | 'ally' | 'enemy') {
     if (this._currentSendController) {
       this._log.info('Existing task in progress, cancelling')
@@ -143,7 +276,12 @@ export class InGameSendMain implements IAkariShardInitDispose {
       return
     }
 
-    if (this._og.state.queryStage.phase === 'in-game' && !GameClientMain.isGameClientForeground()) {
+    // 结算阶段发送到结算聊天, 不需要游戏窗口
+    if (
+      this._og.state.queryStage.phase === 'in-game' &&
+      !this._og.state.isInEog &&
+      !GameClientMain.isGameClientForeground()
+    ) {
       this._log.warn('Game client is not foreground')
       return
     }
@@ -167,43 +305,104 @@ export class InGameSendMain implements IAkariShardInitDispose {
         this._currentSendController.signal
       )
     } else if (s.content.type === 'template' && s.content.templateId) {
-      try {
-        const ctx = this._vmContexts[s.content.templateId] as JSContextV1
-        if (ctx) {
-          const lines = ctx.getMessages(this._createTemplateEnv({ target }))
-          this._sendTextToChatOrInGame(lines, this._currentSendController.signal)
+      const templateId = s.content.templateId
+      const controller = this._currentSendController
+
+      this._executeTemplate(templateId, target, true)
+        .then((lines) => {
+          if (controller.signal.aborted) {
+            return
+          }
+
+          this._sendTextToChatOrInGame(lines, controller.signal)
           this._ipc.sendEvent(InGameSendMain.id, 'success-template-execution-succeeded', {
-            templateId: s.content.templateId
+            templateId
+          })
+        })
+        .catch((error) => {
+          this._log.warn('Template execution failed', templateId, error)
+          if (this._currentSendController === controller) {
+            this._currentSendController = null
+          }
+
+          this._ipc.sendEvent(InGameSendMain.id, 'error-template-execution-failed', {
+            templateId,
+            error: formatError(error)
           })
-        } else {
-          this._log.warn('Template context not found', s.content.templateId)
-        }
-      } catch (error) {
-        this._log.warn('Template execution failed', s.content.templateId, error)
-        this._currentSendController = null
-        this._ipc.sendEvent(InGameSendMain.id, 'error-template-execution-failed', {
-          templateId: s.content.templateId,
-          error: formatError(error)
         })
-      }
     } else {
       this._log.warn('Unknown template type', s.content)
     }
   }
 
-  private _getDryRunResult(templateId: string, target: 'ally' | 'enemy' | 'all') {
-    const ctx = this._vmContexts[templateId] as JSContextV1
-    if (!ctx) {
-      this._log.warn('Template context not found', templateId)
-      return {
-        messages: [],
-        error: 'Template context not found'
+  /**
+   * 执行模板并返回要发送的消息
+   * @param checkPhase 是否检查当前阶段是否适用于该模板类型, 试运行时不检查
+   */
+  private async _executeTemplate(
+    templateId: string,
+    target: 'ally' | 'enemy' | 'all',
+    checkPhase: boolean,
+    fixtureEnv?: TemplateEnvV2
+  ): Promise<string[]> {
+    const template = this.settings.templates.find((t) => t.id === templateId)
+
+    if (!template) {
+      throw new Error('Template not found')
+    }
+
+    if (!template.approved) {
+      throw new Error('Template permissions have not been approved')
+    }
+
+    const sandbox = this._sandboxes[templateId]
+
+    if (!sandbox) {
+      const ctx = this._vmContexts[templateId]
+      if (!ctx) {
+        throw new Error('Template context not found')
       }
+
+      return (ctx as JSContextV1).getMessages(fixtureEnv ?? this._createTemplateEnv({ target }))
     }
 
+    const metadata = sandbox.getMetadata() as JSTemplateMetadata
+
+    if (checkPhase && !this._isTemplateTypeAvailable(metadata.type)) {
+      throw new Error(`Template type ${metadata.type} is not available in current phase`)
+    }
+
+    const env = fixtureEnv
+      ? { ...fixtureEnv, templateType: metadata.type }
+      : await this._createTemplateEnvV2(metadata.type, target)
+
+    // 沙箱内每一段执行都由 vm 限制执行时间, 超过整体的执行时间后沙箱会放弃这次执行
+    const messages = await sandbox.run(toJS(env), JS_TEMPLATE_EXECUTION_TIMEOUT)
+
+    if (!Array.isArray(messages) || !messages.every((m) => typeof m === 'string')) {
+      throw new Error('getMessages must return an array of strings')
+    }
+
+    return messages
+  }
+
+  private _isTemplateTypeAvailable(type: string) {
+    switch (type) {
+      case 'champ-select':
+        return this._og.state.queryStage.phase === 'champ-select'
+      case 'in-game-live':
+        return this._lc.data.gameflow.phase === 'InProgress'
+      case 'end-of-game':
+        return this._og.state.isInEog
+      default:
+        return true
+    }
+  }
+
+  private async _getDryRunResult(templateId: string, target: 'ally' | 'enemy' | 'all') {
     try {
       return {
-        messages: ctx.getMessages(this._createTemplateEnv({ target })),
+        messages: await this._executeTemplate(templateId, target, false),
         error: null
       }
     } catch (error) {
@@ -215,72 +414,243 @@ export class InGameSendMain implements IAkariShardInitDispose {
     }
   }
 
+  private get _fixturesDir() {
+    return path.join(app.getPath('userData'), InGameSendMain.FIXTURES_DIR_NAME)
+  }
+
+  private async _getFixtures() {
+    const builtin: TemplateFixture[] = []
+    for (const filePath of InGameSendMain.BUILTIN_FIXTURES) {
+      try {
+        builtin.push(await readFixtureFile(filePath, true))
+      } catch (error) {
+        this._log.warn('Failed to read builtin fixture', filePath, error)
+      }
+    }
+
+    const saved = await readFixturesInDir(this._fixturesDir, (error) =>
+      this._log.warn('Failed to read fixture', error)
+    )
+
+    return [...builtin, ...saved.sort((a, b) => b.createdAt - a.createdAt)]
+  }
+
+  /**
+   * 将当前的模板环境保存为快照, 仅在对局相关阶段可用
+   */
+  private async _saveFixture(name: string) {
+    if (this._og.state.queryStage.phase === 'unavailable') {
+      throw new TemplateFixtureError('No ongoing game to snapshot')
+    }
+
+    const id = toFixtureId(name)
+    const fixtures = await this._getFixtures()
+    if (fixtures.some((f) => f.builtin && f.id === id)) {
+      throw new TemplateFixtureError(`Fixture ${id} is builtin`)
+    }
+
+    const { target, targetMembers, locale, utils, gameData, ...rest } = this._createTemplateEnv({
+      target: 'all'
+    })
+
+    let liveClientData: TemplateFixtureEnv['liveClientData'] = null
+    if (this._lc.data.gameflow.phase === 'InProgress') {
+      try {
+        liveClientData = (await this._gc.api.getAllGameData()).data
+      } catch (error) {
+        this._log.warn('Failed to get live client data for fixture', error)
+      }
+    }
+
+    let eogStats: TemplateFixtureEnv['eogStats'] = null
+    if (this._og.state.isInEog) {
+      try {
+        eogStats = (await this._lc.api.endOfGame.getEogStatsBlock()).data
+      } catch (error) {
+        this._log.warn('Failed to get end of game stats for fixture', error)
+      }
+    }
+
+    const fixture: TemplateFixture = {
+      id,
+      name,
+      createdAt: Date.now(),
+      builtin: false,
+      env: {
+        ...toJS(rest),
+        gameData: {
+          champions: gameData.champions,
+          summonerSpells: gameData.summonerSpells,
+          queues: gameData.queues
+        },
+        liveClientData,
+        eogStats
+      }
+    }
+
+    await writeFixtureFile(this._fixturesDir, fixture)
+    this._log.info('Saved template fixture', id)
+
+    return toFixtureInfo(fixture)
+  }
+
+  private async _removeFixture(id: string) {
+    const fixture = (await this._getFixtures()).find((f) => f.id === id)
+    if (!fixture || fixture.builtin) {
+      return false
+    }
+
+    await fs.promises.rm(path.join(this._fixturesDir, `${id}.json`), { force: true })
+    return true
+  }
+
+  /**
+   * 由快照生成模板环境, 快照中没有的游戏资源使用当前已加载的
+   */
+  private _createFixtureEnv(
+    fixture: TemplateFixture,
+    target: 'ally' | 'enemy' | 'all'
+  ): TemplateEnvV2 {
+    const { gameData: fixtureGameData, ...env } = fixture.env
+    const live = this._lc.data.gameData
+
+    const champions = fixtureGameData?.champions ?? live.champions
+    const gameData = {
+      summonerSpells: fixtureGameData?.summonerSpells ?? live.summonerSpells,
+      queues: fixtureGameData?.queues ?? live.queues,
+      champions,
+      items: live.items,
+      perks: live.perks,
+      perkstyles: live.perkstyles,
+      augments: live.augments,
+      championName: (id: number) => champions[id]?.name || id.toString()
+    } as TemplateEnvV2['gameData']
+
+    const targetMembers =
+      target === 'all' ? env.allMembers : target === 'ally' ? env.allyMembers : env.enemyMembers
+
+    return {
+      ...env,
+      target,
+      targetMembers,
+      locale: this._app.settings.locale,
+      utils: {
+        isBotQueue,
+        isPveQueue
+      },
+      gameData,
+      templateType: 'unknown',
+      liveClientData: env.liveClientData ?? null,
+      eogStats: env.eogStats ?? null
+    }
+  }
+
+  private async _runTemplateWithFixture(
+    templateId: string,
+    fixtureId: string,
+    target: 'ally' | 'enemy' | 'all'
+  ): Promise<TemplateFixtureRunResult> {
+    const fixture = (await this._getFixtures()).find((f) => f.id === fixtureId)
+    if (!fixture) {
+      throw new TemplateFixtureError(`Fixture ${fixtureId} not found`)
+    }
+
+    const result: TemplateFixtureRunResult = {
+      messages: [],
+      maxLength: IN_GAME_CHAT_MAX_LENGTH,
+      durationMs: 0,
+      error: null
+    }
+
+    const start = performance.now()
+    try {
+      const messages = await this._executeTemplate(
+        templateId,
+        target,
+        false,
+        this._createFixtureEnv(fixture, target)
+      )
+
+      result.messages = messages.map((text) => ({ text, length: [...text].length }))
+    } catch (error) {
+      result.error = formatError(error)
+    } finally {
+      result.durationMs = performance.now() - start
+    }
+
+    return result
+  }
+
   /**
    * 在英雄选择阶段和在游戏中, 会采用不同的策略
+   * 过长的消息会被拆分, 发送速率由令牌桶控制
    * @param strs
    * @param signal
    */
   private _sendTextToChatOrInGame(strs: string[], signal: AbortSignal) {
-    let aborted = false
-    signal.addEventListener('abort', () => {
-      aborted = true
-    })
+    if (signal.aborted) {
+      return
+    }
 
     const interval = this.settings.sendInterval
-    const tasks: (() => Promise<any>)[] = []
+    let job: SendQueueJob
 
-    if (this._og.state.queryStage.phase === 'champ-select') {
-      const cv = this._lc.data.chat.conversations.championSelect
+    if (this._og.state.queryStage.phase === 'champ-select' || this._og.state.isInEog) {
+      const cv =
+        this._og.state.queryStage.phase === 'champ-select'
+          ? this._lc.data.chat.conversations.championSelect
+          : this._lc.data.chat.conversations.postGame
 
       if (!cv) {
-        this._log.warn('Champion select chat not found')
+        this._log.warn('Champion select or post game chat not found')
         return
       }
 
-      this._log.info('Sending message during champion select', strs)
+      this._log.info('Sending message to chat', cv.type, strs)
 
-      for (let i = 0; i < strs.length; i++) {
-        tasks.push(() => this._lc.api.chat.chatSend(cv.id, strs[i]).catch(() => {}))
-
-        if (i !== strs.length - 1) {
-          tasks.push(() => sleep(interval))
+      job = {
+        channel: 'chat',
+        messages: strs,
+        maxLength: LOBBY_CHAT_MAX_LENGTH,
+        bucket: this._chatBucket,
+        minInterval: interval,
+        send: async (str) => {
+          await this._lc.api.chat.chatSend(cv.id, str)
         }
       }
     } else if (this._og.state.queryStage.phase === 'in-game') {
       this._log.info('Sending message in-game', strs)
 
-      for (let i = 0; i < strs.length; i++) {
-        tasks.push(async () => {
+      job = {
+        channel: 'in-game',
+        messages: strs,
+        maxLength: IN_GAME_CHAT_MAX_LENGTH,
+        bucket: this._inGameBucket,
+        minInterval: interval,
+        send: async (str) => {
           await input.instance.sendKey(InGameSendMain.ENTER_KEY_CODE, true)
           await sleep(InGameSendMain.ENTER_KEY_INTERNAL_DELAY)
           await input.instance.sendKey(InGameSendMain.ENTER_KEY_CODE, false)
           await sleep(interval)
-          await input.instance.sendString(strs[i])
+          await input.instance.sendString(str)
           await sleep(interval)
           await input.instance.sendKey(InGameSendMain.ENTER_KEY_CODE, true)
           await sleep(InGameSendMain.ENTER_KEY_INTERNAL_DELAY)
           await input.instance.sendKey(InGameSendMain.ENTER_KEY_CODE, false)
-        })
-
-        if (i !== strs.length - 1) {
-          tasks.push(() => sleep(interval))
         }
       }
     } else {
       return
     }
 
-    const runTasks = async () => {
-      for (const task of tasks) {
-        if (aborted) {
-          break
+    this._sendQueue
+      .run(job, signal)
+      .then(({ sent, failed, total }) => {
+        if (failed) {
+          this._log.warn(`Send finished with failures, sent ${sent}, failed ${failed}/${total}`)
         }
-
-        await task()
-      }
-    }
-
-    runTasks()
+      })
+      .catch((error) => this._log.warn('Send queue failed', error))
   }
 
   private _createSendableItem(data?: Partial<SendableItem>) {
@@ -413,6 +783,42 @@ export class InGameSendMain implements IAkariShardInitDispose {
       this._removeTemplate(id)
     })
 
+    this._ipc.onCall(InGameSendMain.id, 'approveTemplate', (_, id: string) => {
+      return this._approveTemplate(id)
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'pauseSend', () => {
+      this.pauseSend()
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'resumeSend', () => {
+      this.resumeSend()
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'cancelSend', () => {
+      this.cancelSend()
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'getFixtures', async () => {
+      return (await this._getFixtures()).map(toFixtureInfo)
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'saveFixture', (_, name: string) => {
+      return this._saveFixture(name)
+    })
+
+    this._ipc.onCall(InGameSendMain.id, 'removeFixture', (_, id: string) => {
+      return this._removeFixture(id)
+    })
+
+    this._ipc.onCall(
+      InGameSendMain.id,
+      'runTemplateWithFixture',
+      (_, templateId: string, fixtureId: string, target: 'ally' | 'enemy' | 'all') => {
+        return this._runTemplateWithFixture(templateId, fixtureId, target)
+      }
+    )
+
     this._ipc.onCall(
       InGameSendMain.id,
       'getDryRunResult',
@@ -463,15 +869,28 @@ export class InGameSendMain implements IAkariShardInitDispose {
     this._checkAndInitShortcuts()
     this._handleTemplateAutoDeprecation()
     this._handelCancelShortcut()
+    this._handlePauseShortcut()
     this._handleIpcCall()
   }
 
+  async onDispose() {
+    this._sendQueue.cancel()
+  }
+
   private _checkAndInitTemplates() {
     let somethingWrong = false
     for (const t of this.settings.templates) {
+      // 早期的模板没有这些字段, 视为本地创建的模板
+      if (t.source === undefined) {
+        t.source = 'local'
+        t.approved = true
+        somethingWrong = true
+      }
+
       const [isValid, metadata, error] = this._checkAndCreateContext(t)
       t.isValid = isValid
       t.type = metadata?.type ?? 'unknown'
+      t.permissions = metadata ? getTemplatePermissions(metadata) : []
       t.error = error ? formatError(error) : null
 
       if (!isValid) {
@@ -508,9 +927,13 @@ export class InGameSendMain implements IAkariShardInitDispose {
     if (data.code !== undefined) {
       that.code = data.code
 
+      // 只有已确认的本地模板在编辑后仍视为已确认, 其他模板需要重新经过权限确认
+      that.approved = that.source === 'local' && that.approved
+
       const [isValid, metadata, error] = this._checkAndCreateContext(that)
       that.isValid = isValid
       that.type = metadata?.type ?? 'unknown'
+      that.permissions = metadata ? getTemplatePermissions(metadata) : []
       that.error = error ? formatError(error) : null
     }
 
@@ -523,15 +946,51 @@ export class InGameSendMain implements IAkariShardInitDispose {
     return that
   }
 
+  /**
+   * 确认后才会真正执行模板. 若执行后得到的权限超出了确认时展示的权限, 则撤销确认
+   */
+  private _approveTemplate(id: string) {
+    const that = this.settings.templates.find((item) => item.id === id)
+    if (!that) {
+      return
+    }
+
+    const approvedPermissions = that.permissions
+
+    that.approved = true
+
+    const [isValid, metadata, error] = this._checkAndCreateContext(
+      that,
+      approvedPermissions.includes(JS_TEMPLATE_FULL_ACCESS)
+    )
+    const permissions = metadata ? getTemplatePermissions(metadata) : []
+
+    if (permissions.some((p) => !approvedPermissions.includes(p))) {
+      this._log.warn('Template permissions changed after approval', id, permissions)
+      that.approved = false
+      this._checkAndCreateContext(that)
+      that.isValid = false
+      that.error = 'Template declares different permissions at runtime'
+    } else {
+      that.isValid = isValid
+      that.type = metadata?.type ?? 'unknown'
+      that.permissions = permissions
+      that.error = error ? formatError(error) : null
+      this._log.info('Template approved', id, that.permissions)
+    }
+
+    this._setting.set('templates', [...this.settings.templates])
+
+    return that
+  }
+
   private _removeTemplate(id: string) {
     const index = this.settings.templates.findIndex((item) => item.id === id)
     if (index === -1) {
       return false
     }
 
-    if (this._vmContexts[id]) {
-      delete this._vmContexts[id]
-    }
+    this._disposeContext(id)
 
     this._setting.set(
       'templates',
@@ -541,27 +1000,101 @@ export class InGameSendMain implements IAkariShardInitDispose {
     return true
   }
 
+  private _disposeContext(id: string) {
+    delete this._vmContexts[id]
+
+    if (this._sandboxes[id]) {
+      this._sandboxes[id].abandon(new Error('Template context disposed'))
+      delete this._sandboxes[id]
+    }
+  }
+
+  /**
+   * 未确认的模板不会被执行, 仅静态读取其 metadata
+   * 已确认的模板先在沙箱中执行, 不是 v2 的模板再使用完整的上下文重新执行
+   * @param allowFullAccess 是否允许回退到 v1 的完整上下文
+   */
   private _checkAndCreateContext(
-    template: TemplateDef
+    template: TemplateDef,
+    allowFullAccess = true
   ): [boolean, any | null, JS_TEMPLATE_CHECK_RESULT | Error | null] {
-    this._vmContexts[template.id] = vm.createContext({
-      ...this._getAkariContext(template.id),
-      template
-    })
+    this._disposeContext(template.id)
+
+    if (!template.approved) {
+      try {
+        const metadata = readTemplateMetadataStatically(template.code)
+        const checkResult = checkContextV1({
+          getMetadata: () => metadata,
+          getMessages: declaresGetMessages(template.code) ? () => [] : undefined
+        })
+
+        if (checkResult !== JS_TEMPLATE_CHECK_RESULT.VALID) {
+          return [false, null, checkResult]
+        }
+
+        return [true, metadata, null]
+      } catch (error: any) {
+        this._log.warn('Template metadata could not be read', template.id, error)
+        return [false, null, error]
+      }
+    }
 
     try {
+      const sandbox = new TemplateSandbox(
+        this._getSandboxHost(template.id),
+        JS_TEMPLATE_SEGMENT_TIMEOUT
+      )
+
+      let metadata: any = null
+      try {
+        sandbox.evaluate(template.code)
+        metadata = sandbox.getMetadata()
+      } catch {
+        // v1 模板可能在顶层使用 require 等
+      }
+
+      const isV2 =
+        typeof metadata === 'object' &&
+        metadata !== null &&
+        typeof metadata.version === 'number' &&
+        isTemplateV2(metadata)
+
+      if (isV2) {
+        const checkResult = checkContextV1({
+          getMetadata: () => metadata,
+          getMessages: sandbox.has('getMessages') ? () => [] : undefined
+        })
+
+        if (checkResult !== JS_TEMPLATE_CHECK_RESULT.VALID) {
+          return [false, null, checkResult]
+        }
+
+        this._sandboxes[template.id] = sandbox
+        return [true, metadata, null]
+      }
+
+      if (!allowFullAccess) {
+        return [false, null, new Error('Template requires full access')]
+      }
+
       const script = new vm.Script(template.code)
-      script.runInContext(this._vmContexts[template.id])
-      const checkResult = checkContextV1(this._vmContexts[template.id])
+      const ctx = vm.createContext({
+        ...this._getAkariContext(template.id),
+        template
+      })
+      script.runInContext(ctx)
+
+      const checkResult = checkContextV1(ctx)
       if (checkResult !== JS_TEMPLATE_CHECK_RESULT.VALID) {
         return [false, null, checkResult]
       }
+
+      this._vmContexts[template.id] = ctx
+      return [true, ctx.getMetadata(), null]
     } catch (error: any) {
       this._log.warn('Script validation failed', template.id, error)
       return [false, null, error]
     }
-
-    return [true, this._vmContexts[template.id].getMetadata(), null]
   }
 
   private _createTemplate(data?: Partial<TemplateDef>) {
@@ -580,12 +1113,16 @@ export class InGameSendMain implements IAkariShardInitDispose {
       code: data?.code || getExampleTemplate(),
       isValid: true,
       type: 'unknown',
-      error: null
+      error: null,
+      permissions: [],
+      source: data?.source || 'local',
+      approved: data?.source !== 'remote'
     }
 
     const [isValid, metadata, error] = this._checkAndCreateContext(that)
     that.isValid = isValid
     that.type = metadata?.type ?? 'unknown'
+    that.permissions = metadata ? getTemplatePermissions(metadata) : []
     that.error = error ? formatError(error) : null
 
     this._setting.set('templates', [...this.settings.templates, that])
@@ -618,7 +1155,8 @@ export class InGameSendMain implements IAkariShardInitDispose {
     this._createTemplate({
       name: template.name,
       code,
-      type: template.type
+      type: template.type,
+      source: 'remote'
     })
 
     return template
@@ -694,6 +1232,116 @@ export class InGameSendMain implements IAkariShardInitDispose {
     }
   }
 
+  private async _createTemplateEnvV2(
+    type: string,
+    target: 'ally' | 'enemy' | 'all'
+  ): Promise<TemplateEnvV2> {
+    let liveClientData: TemplateEnvV2['liveClientData'] = null
+    let eogStats: TemplateEnvV2['eogStats'] = null
+
+    if (type === 'in-game-live') {
+      try {
+        liveClientData = (await this._gc.api.getAllGameData()).data
+      } catch (error) {
+        this._log.warn('Failed to get live client data', error)
+      }
+    } else if (type === 'end-of-game') {
+      try {
+        eogStats = (await this._lc.api.endOfGame.getEogStatsBlock()).data
+      } catch (error) {
+        this._log.warn('Failed to get end of game stats', error)
+      }
+    }
+
+    return {
+      ...this._createTemplateEnv({ target }),
+      templateType: type,
+      liveClientData,
+      eogStats
+    }
+  }
+
+  /**
+   * v2 模板的能力, 每次调用时检查用户确认过的权限
+   */
+  private _createCapabilityApi(templateId: string): TemplateCapabilityApi {
+    const assertPermission = (permission: JSTemplatePermission) => {
+      const template = this.settings.templates.find((t) => t.id === templateId)
+      if (!template || !template.approved || !template.permissions.includes(permission)) {
+        throw new Error(`Permission ${permission} is not granted`)
+      }
+    }
+
+    // 返回副本, 避免模板修改原始数据
+    const copy = <T>(data: T): T => JSON.parse(JSON.stringify(data))
+
+    return {
+      matchHistory: {
+        queryPlayerGames: async (puuid, options = {}) => {
+          assertPermission('match-history')
+
+          const result = await this._gameArchive.queryPlayerGames({
+            puuid,
+            sgpServerId: getSgpServerId(
+              this._lc.state.auth?.region || 'UNKNOWN',
+              this._lc.state.auth?.rsoPlatformId
+            ),
+            queueId: options.queueId,
+            page: options.page,
+            pageSize: Math.min(options.pageSize || 20, InGameSendMain.TEMPLATE_MAX_PAGE_SIZE)
+          })
+
+          return copy(result)
+        }
+      },
+      savedPlayers: {
+        getPlayerTags: async (puuid) => {
+          assertPermission('saved-players')
+
+          const selfPuuid = this._lc.data.summoner.me?.puuid
+          if (!selfPuuid) {
+            throw new Error('Summoner is not available')
+          }
+
+          const tags = await this._savedPlayer.getPlayerTags({ puuid, selfPuuid })
+          return tags.map((t) => ({
+            tag: t.tag,
+            markedBySelf: t.markedBySelf,
+            updateAt: t.updateAt.getTime()
+          }))
+        }
+      },
+      liveClient: {
+        getAllGameData: async () => {
+          assertPermission('live-client')
+
+          return copy((await this._gc.api.getAllGameData()).data)
+        }
+      }
+    }
+  }
+
+  /**
+   * v2 模板沙箱可使用的宿主能力, 参数和返回值均以 JSON 传递
+   */
+  private _getSandboxHost(templateId: string): TemplateSandboxHost {
+    const api = this._createCapabilityApi(templateId)
+
+    return {
+      templateId,
+      log: (level, text) => this._log[level](`[${templateId}]`, text),
+      capabilities: {
+        'matchHistory.queryPlayerGames': api.matchHistory.queryPlayerGames,
+        'savedPlayers.getPlayerTags': api.savedPlayers.getPlayerTags,
+        'liveClient.getAllGameData': api.liveClient.getAllGameData
+      },
+      envFunctions: {
+        'utils.isBotQueue': isBotQueue,
+        'utils.isPveQueue': isPveQueue
+      }
+    }
+  }
+
   /**
    * 在提供完全的控制权的同时, 危险程度也相应提高
    * @returns
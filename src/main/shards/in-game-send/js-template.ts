@@ -1,6 +1,22 @@
 import { i18next } from '@main/i18n'
 
-const JS_TEMPLATE_VERSION_SUPPORT = 10
+const JS_TEMPLATE_VERSION_SUPPORT = 20
+
+/**
+ * 版本号不低于此值的模板使用 v2 约定, 运行在受限的上下文中
+ */
+export const JS_TEMPLATE_V2_VERSION = 20
+
+/**
+ * v2 模板 getMessages 的最长执行时间 (ms), 包括同步和异步部分
+ */
+export const JS_TEMPLATE_EXECUTION_TIMEOUT = 5000
+
+/**
+ * v2 模板每一段同步执行 (顶层代码, `await` 之间的代码, 计时器回调) 的最长时间 (ms)
+ * 这段时间内主进程会被阻塞, 因此远小于整体的执行时间
+ */
+export const JS_TEMPLATE_SEGMENT_TIMEOUT = 200
 
 export const enum JS_TEMPLATE_CHECK_RESULT {
   VALID = 'valid',
@@ -9,7 +25,18 @@ export const enum JS_TEMPLATE_CHECK_RESULT {
   NO_METADATA = 'no-metadata',
   UNSUPPORTED_VERSION = 'unsupported-version',
   WRONG_TEMPLATE_TYPE = 'wrong-template-type',
-  NO_GET_MESSAGES = 'no-getMessages'
+  NO_GET_MESSAGES = 'no-getMessages',
+  INVALID_PERMISSIONS = 'invalid-permissions'
+}
+
+export interface JSTemplateMetadata {
+  version: number
+  type: string
+
+  /**
+   * 仅 v2, 模板需要使用的能力
+   */
+  permissions?: string[]
 }
 
 export interface JSContextV1 {
@@ -17,11 +44,56 @@ export interface JSContextV1 {
   getMessages: (env: any) => string[]
 }
 
+export interface JSContextV2 {
+  getMetadata: () => JSTemplateMetadata
+  getMessages: (env: any) => string[] | Promise<string[]>
+}
+
 const SUPPORTED_TEMPLATE_TYPES = [
   // 战绩类, 读取 ongoing-game 阶段的数据
   'ongoing-game'
 ]
 
+const SUPPORTED_TEMPLATE_TYPES_V2 = [
+  ...SUPPORTED_TEMPLATE_TYPES,
+
+  // 仅在英雄选择阶段可用
+  'champ-select',
+
+  // 游戏结算阶段, 发送到结算聊天
+  'end-of-game',
+
+  // 游戏进行中, 提供游戏内的实时数据
+  'in-game-live'
+]
+
+/**
+ * v2 模板可声明的能力
+ */
+export const JS_TEMPLATE_PERMISSIONS = ['match-history', 'saved-players', 'live-client'] as const
+
+export type JSTemplatePermission = (typeof JS_TEMPLATE_PERMISSIONS)[number]
+
+/**
+ * v1 模板可以访问完整的 Node.js 环境, 以此表示
+ */
+export const JS_TEMPLATE_FULL_ACCESS = 'full-access'
+
+export function isTemplateV2(metadata: JSTemplateMetadata) {
+  return metadata.version >= JS_TEMPLATE_V2_VERSION
+}
+
+/**
+ * 模板所拥有的权限, 用于在启用前展示给用户
+ */
+export function getTemplatePermissions(metadata: JSTemplateMetadata) {
+  if (!isTemplateV2(metadata)) {
+    return [JS_TEMPLATE_FULL_ACCESS]
+  }
+
+  return [...new Set(metadata.permissions ?? [])]
+}
+
 export function checkContextV1(ctx: any): JS_TEMPLATE_CHECK_RESULT {
   if (typeof ctx !== 'object') {
     return JS_TEMPLATE_CHECK_RESULT.NOT_AN_OBJECT
@@ -41,24 +113,150 @@ export function checkContextV1(ctx: any): JS_TEMPLATE_CHECK_RESULT {
     return JS_TEMPLATE_CHECK_RESULT.UNSUPPORTED_VERSION
   }
 
-  if (typeof metadata.type !== 'string' || !SUPPORTED_TEMPLATE_TYPES.includes(metadata.type)) {
+  const supportedTypes = isTemplateV2(metadata)
+    ? SUPPORTED_TEMPLATE_TYPES_V2
+    : SUPPORTED_TEMPLATE_TYPES
+
+  if (typeof metadata.type !== 'string' || !supportedTypes.includes(metadata.type)) {
     return JS_TEMPLATE_CHECK_RESULT.WRONG_TEMPLATE_TYPE
   }
 
-  switch (metadata.type) {
-    case 'ongoing-game':
-      if (typeof ctx.getMessages !== 'function') {
-        return JS_TEMPLATE_CHECK_RESULT.NO_GET_MESSAGES
-      }
-      break
+  if (
+    isTemplateV2(metadata) &&
+    metadata.permissions !== undefined &&
+    (!Array.isArray(metadata.permissions) ||
+      !metadata.permissions.every((p: any) => JS_TEMPLATE_PERMISSIONS.includes(p)))
+  ) {
+    return JS_TEMPLATE_CHECK_RESULT.INVALID_PERMISSIONS
+  }
 
-    default:
-      return JS_TEMPLATE_CHECK_RESULT.WRONG_TEMPLATE_TYPE
+  if (typeof ctx.getMessages !== 'function') {
+    return JS_TEMPLATE_CHECK_RESULT.NO_GET_MESSAGES
   }
 
   return JS_TEMPLATE_CHECK_RESULT.VALID
 }
 
+const STATIC_METADATA_PATTERN = /function\s+getMetadata\s*\(\s*\)\s*\{\s*return\s*(?=\{)/
+const STATIC_NUMBER_PATTERN = /-?\d+(\.\d+)?/y
+const STATIC_IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/y
+
+/**
+ * 在不执行代码的情况下读取 `function getMetadata() { return { ... } }` 中的对象字面量
+ * 用于尚未确认的模板, 对象中只能包含字符串, 数字, 布尔值, null, 数组和对象
+ */
+export function readTemplateMetadataStatically(code: string): JSTemplateMetadata {
+  const match = STATIC_METADATA_PATTERN.exec(code)
+  if (!match) {
+    throw new Error('getMetadata must return an object literal')
+  }
+
+  const tokens: string[] = []
+  let depth = 0
+  let i = match.index + match[0].length
+
+  const unsupported = () => new Error(`Unsupported syntax in getMetadata at ${i}`)
+
+  while (i < code.length) {
+    const ch = code[i]
+
+    if (/\s/.test(ch)) {
+      i++
+    } else if (code.startsWith('//', i)) {
+      const end = code.indexOf('\n', i)
+      i = end === -1 ? code.length : end
+    } else if (code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2)
+      if (end === -1) {
+        throw unsupported()
+      }
+      i = end + 2
+    } else if (ch === '{' || ch === '[') {
+      depth++
+      tokens.push(ch)
+      i++
+    } else if (ch === '}' || ch === ']') {
+      // 允许尾随逗号
+      if (tokens[tokens.length - 1] === ',') {
+        tokens.pop()
+      }
+
+      depth--
+      tokens.push(ch)
+      i++
+
+      if (depth === 0) {
+        return JSON.parse(tokens.join(''))
+      }
+    } else if (ch === ',' || ch === ':') {
+      tokens.push(ch)
+      i++
+    } else if (ch === '"' || ch === "'") {
+      let end = i + 1
+      while (end < code.length && code[end] !== ch) {
+        end += code[end] === '\\' ? 2 : 1
+      }
+
+      if (end >= code.length) {
+        throw unsupported()
+      }
+
+      // 转换为 JSON 字符串, 单引号字符串中的 \' 在 JSON 中无效
+      let json = ''
+      for (let j = i + 1; j < end; j++) {
+        if (code[j] === '\\') {
+          json += code[j + 1] === "'" ? "'" : code[j] + code[j + 1]
+          j++
+        } else {
+          json += code[j] === '"' ? '\\"' : code[j]
+        }
+      }
+
+      try {
+        tokens.push(JSON.stringify(JSON.parse(`"${json}"`)))
+      } catch {
+        throw unsupported()
+      }
+
+      i = end + 1
+    } else {
+      STATIC_NUMBER_PATTERN.lastIndex = i
+      STATIC_IDENTIFIER_PATTERN.lastIndex = i
+
+      const number = STATIC_NUMBER_PATTERN.exec(code)
+      const identifier = number ? null : STATIC_IDENTIFIER_PATTERN.exec(code)
+
+      if (number) {
+        tokens.push(number[0])
+        i += number[0].length
+      } else if (identifier) {
+        const word = identifier[0]
+        i += word.length
+
+        if (word === 'true' || word === 'false' || word === 'null') {
+          tokens.push(word)
+        } else if (/^\s*:/.test(code.slice(i))) {
+          // 只允许作为属性名
+          tokens.push(JSON.stringify(word))
+        } else {
+          throw unsupported()
+        }
+      } else {
+        throw unsupported()
+      }
+    }
+  }
+
+  throw unsupported()
+}
+
+/**
+ * 静态检查是否声明了 getMessages
+ */
+export function declaresGetMessages(code: string) {
+  return /(function|async\s+function)\s+getMessages\s*\(/.test(code)
+}
+
 export function getExampleTemplate() {
   return i18next.t('in-game-send-main.exampleTemplate')
 }
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { TemplateSandbox, TemplateSandboxHost } from './sandbox'
+
+const SEGMENT_TIMEOUT = 50
+
+const createSandbox = (code: string, host: Partial<TemplateSandboxHost> = {}) => {
+  const sandbox = new TemplateSandbox(
+    {
+      templateId: 'test',
+      log: () => {},
+      capabilities: {},
+      envFunctions: {},
+      ...host
+    },
+    SEGMENT_TIMEOUT
+  )
+
+  sandbox.evaluate(code)
+  return sandbox
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('TemplateSandbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('resolves async capabilities and timers inside the sandbox', async () => {
+    const sandbox = createSandbox(
+      `async function getMessages(env) {
+        const doubled = await akari.math.double(env.value)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        return ['result ' + doubled]
+      }`,
+      { capabilities: { 'math.double': async (x: number) => x * 2 } }
+    )
+
+    await expect(sandbox.run({ value: 21 }, 1000)).resolves.toEqual(['result 42'])
+  })
+
+  it('limits code after an await by the segment timeout', async () => {
+    const sandbox = createSandbox(
+      `async function getMessages() {
+        await null
+        while (true) {}
+      }`
+    )
+
+    const startedAt = Date.now()
+    await expect(sandbox.run({}, 5000)).rejects.toThrow(/timed out/)
+    expect(Date.now() - startedAt).toBeLessThan(1000)
+  })
+
+  it('abandons the run and stops its timers after the overall timeout', async () => {
+    const log = vi.fn()
+    const sandbox = createSandbox(
+      `function getMessages() {
+        return new Promise(() => {
+          const tick = () => {
+            console.log('tick')
+            setTimeout(tick, 5)
+          }
+          tick()
+        })
+      }`,
+      { log }
+    )
+
+    await expect(sandbox.run({}, 50)).rejects.toThrow('Template execution timed out (50ms)')
+
+    const ticks = log.mock.calls.length
+    await sleep(50)
+    expect(log.mock.calls.length).toBe(ticks)
+  })
+
+  it('clears timers left behind once the run settles', async () => {
+    const log = vi.fn()
+    const sandbox = createSandbox(
+      `function getMessages() {
+        setTimeout(() => console.log('late'), 20)
+        return ['done']
+      }`,
+      { log }
+    )
+
+    await expect(sandbox.run({}, 1000)).resolves.toEqual(['done'])
+    await sleep(50)
+    expect(log).not.toHaveBeenCalled()
+  })
+
+  it('ignores capability results that arrive after the run was abandoned', async () => {
+    let resolveCapability: (value: number) => void = () => {}
+    const log = vi.fn()
+    const sandbox = createSandbox(
+      `async function getMessages() {
+        await akari.slow.get()
+        console.log('continued')
+        return []
+      }`,
+      {
+        log,
+        capabilities: {
+          'slow.get': () => new Promise<number>((resolve) => (resolveCapability = resolve))
+        }
+      }
+    )
+
+    await expect(sandbox.run({}, 20)).rejects.toThrow(/timed out/)
+
+    resolveCapability(1)
+    await sleep(10)
+    expect(log).not.toHaveBeenCalled()
+  })
+})
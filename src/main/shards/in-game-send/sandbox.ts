@@ -0,0 +1,413 @@
+import vm from 'node:vm'
+
+/**
+ * 沙箱可调用的宿主能力, 所有参数和返回值都以 JSON 字符串的形式传递
+ */
+export interface TemplateSandboxHost {
+  templateId: string
+  log: (level: 'info' | 'warn', text: string) => void
+
+  /**
+   * `namespace.method` -> 异步函数, 即 `akari` 对象上的能力
+   */
+  capabilities: Record<string, (...args: any[]) => Promise<unknown>>
+
+  /**
+   * 挂载到 env 上的同步函数, 以路径为键, 如 `utils.isBotQueue`
+   */
+  envFunctions: Record<string, (...args: any[]) => unknown>
+}
+
+/**
+ * 在沙箱内首先执行的桥接代码, 宿主对象只存在于其闭包中, 模板代码无法访问
+ * 宿主函数抛出的错误会被转换为沙箱内的 Error, 以免泄露宿主的原型链
+ */
+const BRIDGE_SOURCE = `(function (host) {
+  'use strict'
+
+  const stringify = JSON.stringify
+  const parse = JSON.parse
+  const freeze = Object.freeze
+  const defineProperty = Object.defineProperty
+  const SandboxError = Error
+
+  const toMessage = (e) => {
+    try {
+      const m = e !== null && typeof e === 'object' ? e.message : e
+      return typeof m === 'string' ? m : String(m)
+    } catch {
+      return 'Error'
+    }
+  }
+
+  const callHost = (fn) => {
+    let result
+    try {
+      result = fn()
+    } catch (e) {
+      throw new SandboxError(toMessage(e))
+    }
+    return result
+  }
+
+  const format = (args) => {
+    let text = ''
+    for (let i = 0; i < args.length; i++) {
+      const a = args[i]
+      let s
+      try {
+        s = typeof a === 'string' ? a : stringify(a)
+      } catch {}
+      text += (i ? ' ' : '') + (typeof s === 'string' ? s : toMessage(a))
+    }
+    return text
+  }
+
+  // 宿主的 Promise 不进入沙箱, 宿主完成调用后通过 __akariSettleCall 回到沙箱内
+  const calls = new Map()
+  let callId = 0
+
+  const akari = {}
+  for (const name of parse(host.capabilities)) {
+    const [ns, method] = name.split('.')
+    akari[ns] = akari[ns] || {}
+    akari[ns][method] = (...args) => {
+      const argsJson = stringify(args)
+      return new Promise((resolve, reject) => {
+        const id = ++callId
+        calls.set(id, { resolve, reject })
+        try {
+          host.invoke(id, name, argsJson)
+        } catch (e) {
+          calls.delete(id)
+          reject(new SandboxError(toMessage(e)))
+        }
+      })
+    }
+    freeze(akari[ns])
+  }
+
+  const timers = new Map()
+
+  const envFunctions = []
+  for (const path of parse(host.envFunctions)) {
+    const fn = (...args) => {
+      const json = callHost(() => host.callEnvFunction(path, stringify(args)))
+      return json === undefined ? undefined : parse(json)
+    }
+    envFunctions.push([path.split('.'), fn])
+  }
+
+  const log = (level) => (...args) => {
+    const text = format(args)
+    callHost(() => host.log(level, text))
+  }
+
+  const globals = {
+    templateId: host.templateId,
+    akari: freeze(akari),
+    console: freeze({ log: log('info'), warn: log('warn'), error: log('warn') }),
+    setTimeout: (fn, ms, ...args) => {
+      if (typeof fn !== 'function') {
+        throw new SandboxError('Callback must be a function')
+      }
+      const id = callHost(() => host.setTimeout(Number(ms) || 0))
+      timers.set(id, () => fn(...args))
+      return id
+    },
+    clearTimeout: (id) => {
+      timers.delete(Number(id))
+      callHost(() => host.clearTimeout(Number(id)))
+    },
+    __akariSettleCall: (id, error, json) => {
+      const call = calls.get(id)
+      if (!call) {
+        return
+      }
+
+      calls.delete(id)
+
+      if (typeof error === 'string') {
+        call.reject(new SandboxError(error))
+      } else {
+        call.resolve(json === undefined ? undefined : parse(json))
+      }
+    },
+    __akariFireTimer: (id) => {
+      const fn = timers.get(id)
+      if (!fn) {
+        return
+      }
+
+      timers.delete(id)
+
+      try {
+        fn()
+      } catch (e) {
+        callHost(() => host.log('warn', toMessage(e)))
+      }
+    },
+    __akariMetadata: () => stringify(getMetadata()),
+    __akariRun: (runId, envJson) => {
+      const env = parse(envJson)
+      for (const [keys, fn] of envFunctions) {
+        let target = env
+        for (const key of keys.slice(0, -1)) {
+          target = target[key] = target[key] || {}
+        }
+        target[keys[keys.length - 1]] = fn
+      }
+
+      // 与 GameDataState.championName 相同, 直接使用 env 中的数据
+      if (env.gameData && typeof env.gameData === 'object') {
+        const champions = env.gameData.champions || {}
+        env.gameData.championName = (id) => (champions[id] && champions[id].name) || String(id)
+      }
+      ;(async () => {
+        try {
+          const messages = await getMessages(env)
+          host.settle(runId, null, stringify(messages))
+        } catch (e) {
+          host.settle(runId, toMessage(e), undefined)
+        }
+      })()
+    }
+  }
+
+  for (const key of Object.keys(globals)) {
+    defineProperty(globalThis, key, { value: globals[key], writable: false, configurable: false })
+  }
+})`
+
+/**
+ * v2 模板的沙箱
+ * 上下文以 null 原型的对象创建, 且不包含任何宿主对象, 模板与宿主之间只交换原始值和 JSON 字符串,
+ * 因此模板无法通过 `constructor.constructor` 等方式取得宿主的 Function
+ *
+ * 上下文使用独立的微任务队列 (`afterEvaluate`), 沙箱内的 `await` 之后的代码和计时器回调
+ * 都只会在宿主调用 `runInContext` 时执行, 因此每一段都受 vm 的执行时间 (`segmentTimeout`) 限制
+ */
+export class TemplateSandbox {
+  private readonly _context: vm.Context
+  private readonly _runs = new Map<
+    number,
+    { resolve: (v: unknown) => void; reject: (e: Error) => void }
+  >()
+  private _runId = 0
+  private readonly _timers = new Map<number, NodeJS.Timeout>()
+  private _timerId = 0
+
+  /**
+   * 每次放弃执行后递增, 之前发起的能力调用和计时器不再回到沙箱
+   */
+  private _generation = 0
+
+  /**
+   * @param _segmentTimeout 每一段同步执行的最长时间 (ms), 这段时间内主进程的事件循环会被阻塞
+   */
+  constructor(
+    host: TemplateSandboxHost,
+    private readonly _segmentTimeout: number
+  ) {
+    this._context = vm.createContext(Object.create(null), { microtaskMode: 'afterEvaluate' })
+
+    const bridge = new vm.Script(BRIDGE_SOURCE).runInContext(this._context)
+    bridge({
+      templateId: host.templateId,
+      capabilities: JSON.stringify(Object.keys(host.capabilities)),
+      envFunctions: JSON.stringify(Object.keys(host.envFunctions)),
+      log: (level: 'info' | 'warn', text: string) => host.log(level, String(text)),
+      invoke: (callId: number, name: string, argsJson: string) => {
+        const fn = Object.hasOwn(host.capabilities, name) ? host.capabilities[name] : null
+        if (!fn) {
+          throw new Error(`Capability ${name} not found`)
+        }
+
+        const args = this._parseArgs(argsJson)
+        const generation = this._generation
+        Promise.resolve()
+          .then(() => fn(...args))
+          .then(
+            (result) => [null, JSON.stringify(result)] as const,
+            (error) => [this._getErrorMessage(error), undefined] as const
+          )
+          .then(([error, json]) =>
+            this._callback(
+              generation,
+              `__akariSettleCall(${callId}, ${JSON.stringify(error)}, ${JSON.stringify(json) ?? 'undefined'})`
+            )
+          )
+      },
+      callEnvFunction: (path: string, argsJson: string) => {
+        const fn = Object.hasOwn(host.envFunctions, path) ? host.envFunctions[path] : null
+        if (!fn) {
+          throw new Error(`Function ${path} not found`)
+        }
+
+        return JSON.stringify(fn(...this._parseArgs(argsJson)))
+      },
+      setTimeout: (ms: number) => {
+        const id = ++this._timerId
+        const generation = this._generation
+        this._timers.set(
+          id,
+          setTimeout(() => {
+            this._timers.delete(id)
+            this._callback(generation, `__akariFireTimer(${id})`)
+          }, ms)
+        )
+        return id
+      },
+      clearTimeout: (id: number) => {
+        clearTimeout(this._timers.get(id))
+        this._timers.delete(id)
+      },
+      settle: (runId: number, error: string | null, resultJson: string | undefined) => {
+        const run = this._runs.get(runId)
+        if (!run) {
+          return
+        }
+
+        this._runs.delete(runId)
+        this._clearTimersIfIdle()
+
+        if (typeof error === 'string') {
+          run.reject(new Error(error))
+        } else {
+          run.resolve(typeof resultJson === 'string' ? JSON.parse(resultJson) : undefined)
+        }
+      }
+    })
+  }
+
+  /**
+   * 执行模板的顶层代码
+   */
+  evaluate(code: string) {
+    this._runScript(code)
+  }
+
+  has(name: string) {
+    return this._runScript(`typeof ${name}`) === 'function'
+  }
+
+  /**
+   * 以 JSON 的形式取出 getMetadata 的返回值
+   */
+  getMetadata(): unknown {
+    const json = this._runScript('__akariMetadata()')
+    return typeof json === 'string' ? JSON.parse(json) : undefined
+  }
+
+  /**
+   * 执行 getMessages, 每一段同步执行都由 vm 限制执行时间
+   * @param timeout 整体的最长执行时间 (ms), 超时后放弃沙箱内所有未完成的执行
+   */
+  run(env: unknown, timeout: number) {
+    const runId = ++this._runId
+
+    return new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.abandon(new Error(`Template execution timed out (${timeout}ms)`)),
+        timeout
+      )
+
+      this._runs.set(runId, {
+        resolve: (v) => {
+          clearTimeout(timer)
+          resolve(v)
+        },
+        reject: (e) => {
+          clearTimeout(timer)
+          reject(e)
+        }
+      })
+
+      try {
+        this._runScript(`__akariRun(${runId}, ${JSON.stringify(JSON.stringify(env))})`)
+      } catch (error) {
+        this._runs.delete(runId)
+        this._clearTimersIfIdle()
+        clearTimeout(timer)
+        reject(error)
+      }
+    })
+  }
+
+  /**
+   * 放弃仍未完成的执行, 并停止它们留下的计时器和能力调用
+   */
+  abandon(error: Error) {
+    this._generation++
+
+    const runs = Array.from(this._runs.values())
+    this._runs.clear()
+    this._clearTimers()
+
+    for (const run of runs) {
+      run.reject(error)
+    }
+  }
+
+  /**
+   * 没有进行中的执行时, 剩余的计时器不会再影响任何结果
+   */
+  private _clearTimersIfIdle() {
+    if (this._runs.size === 0) {
+      this._clearTimers()
+    }
+  }
+
+  private _clearTimers() {
+    for (const timer of this._timers.values()) {
+      clearTimeout(timer)
+    }
+
+    this._timers.clear()
+  }
+
+  /**
+   * 从宿主的异步回调回到沙箱. 超时等错误意味着沙箱已不可信, 放弃所有未完成的执行
+   * @param generation 发起回调时的代数, 已被放弃的回调直接忽略
+   */
+  private _callback(generation: number, code: string) {
+    if (generation !== this._generation) {
+      return
+    }
+
+    try {
+      this._runScript(code)
+    } catch (error) {
+      this.abandon(error as Error)
+    }
+  }
+
+  private _parseArgs(argsJson: string) {
+    const args = typeof argsJson === 'string' ? JSON.parse(argsJson) : []
+    return Array.isArray(args) ? args : []
+  }
+
+  /**
+   * 沙箱内抛出的值可能是任意对象, 只保留其消息, 以免在日志等处被宿主检视
+   */
+  private _runScript(code: string) {
+    try {
+      const result = new vm.Script(code).runInContext(this._context, {
+        timeout: this._segmentTimeout
+      })
+      return typeof result === 'object' || typeof result === 'function' ? undefined : result
+    } catch (error) {
+      throw new Error(this._getErrorMessage(error))
+    }
+  }
+
+  private _getErrorMessage(error: unknown) {
+    try {
+      const message =
+        error !== null && typeof error === 'object' ? (error as any).message : String(error)
+      return typeof message === 'string' ? message : 'Error'
+    } catch {
+      return 'Error'
+    }
+  }
+}
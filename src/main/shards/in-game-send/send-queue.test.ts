@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  SendQueue,
+  SendQueueJob,
+  SendQueueProgress,
+  TokenBucket,
+  getMessageLength,
+  splitMessage
+} from './send-queue'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('splitMessage', () => {
+  it('keeps short messages as they are', () => {
+    expect(splitMessage('Ahri 5/1/2', 150)).toEqual(['Ahri 5/1/2'])
+  })
+
+  it('splits between players first', () => {
+    expect(splitMessage('Ahri 5/1/2 | Zed 0/4/1 | Lux 2/2/8', 24)).toEqual([
+      'Ahri 5/1/2 | Zed 0/4/1',
+      'Lux 2/2/8'
+    ])
+  })
+
+  it('falls back to word boundaries when a single player is too long', () => {
+    expect(splitMessage('Ahri 5/1/2 KDA 7.00 win rate 60% | Zed', 16)).toEqual([
+      'Ahri 5/1/2 KDA',
+      '7.00 win rate',
+      '60%',
+      'Zed'
+    ])
+  })
+
+  it('hard splits without breaking surrogate pairs', () => {
+    const chunks = splitMessage('😀'.repeat(5), 2)
+
+    expect(chunks).toEqual(['😀😀', '😀😀', '😀'])
+    expect(chunks.every((c) => getMessageLength(c) <= 2)).toBe(true)
+  })
+
+  it('drops empty chunks and trailing separators', () => {
+    expect(splitMessage('abc |  | def;', 4)).toEqual(['abc', 'def'])
+  })
+})
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('allows a burst up to the capacity, then refills over time', () => {
+    const bucket = new TokenBucket(2, 1000)
+
+    expect(bucket.tryTake()).toBe(true)
+    expect(bucket.tryTake()).toBe(true)
+    expect(bucket.tryTake()).toBe(false)
+    expect(bucket.timeUntilAvailable()).toBe(1000)
+
+    vi.advanceTimersByTime(1000)
+    expect(bucket.tryTake()).toBe(true)
+  })
+
+  it('slows down on failure up to the limit and recovers on success', () => {
+    const bucket = new TokenBucket(2, 1000)
+
+    bucket.penalize()
+    expect(bucket.tryTake()).toBe(false)
+    expect(bucket.refillInterval).toBe(2000)
+
+    bucket.penalize()
+    bucket.penalize()
+    expect(bucket.refillInterval).toBe(1000 * TokenBucket.MAX_SLOWDOWN)
+
+    bucket.recover()
+    expect(bucket.refillInterval).toBe(1000 * TokenBucket.MAX_SLOWDOWN * TokenBucket.RECOVER_FACTOR)
+
+    for (let i = 0; i < 50; i++) {
+      bucket.recover()
+    }
+    expect(bucket.refillInterval).toBe(1000)
+  })
+})
+
+describe('SendQueue', () => {
+  const createJob = (messages: string[], send: (message: string) => Promise<void>) =>
+    ({
+      channel: 'in-game',
+      messages,
+      maxLength: 150,
+      bucket: new TokenBucket(100, 1),
+      minInterval: 10,
+      send
+    }) satisfies SendQueueJob
+
+  it('sends every message and reports progress', async () => {
+    const sent: string[] = []
+    const progress: (SendQueueProgress | null)[] = []
+    const queue = new SendQueue((p) => progress.push(p))
+
+    const result = await queue.run(createJob(['a', 'b', 'c'], async (m) => void sent.push(m)))
+
+    expect(result).toEqual({ sent: 3, failed: 0, total: 3 })
+    expect(sent).toEqual(['a', 'b', 'c'])
+    expect(progress.at(-1)).toBeNull()
+    expect(queue.isRunning).toBe(false)
+  })
+
+  it('retries a failed message once before counting it as failed', async () => {
+    const send = vi.fn(async (m: string) => {
+      if (m === 'b') {
+        throw new Error('failed')
+      }
+    })
+
+    const result = await new SendQueue(() => {}).run(createJob(['a', 'b'], send))
+
+    expect(result).toEqual({ sent: 1, failed: 1, total: 2 })
+    expect(send).toHaveBeenCalledTimes(1 + 1 + SendQueue.MAX_RETRIES)
+  })
+
+  it('holds the remaining messages while paused', async () => {
+    const sent: string[] = []
+    const queue = new SendQueue(() => {})
+
+    const running = queue.run(
+      createJob(['a', 'b', 'c'], async (m) => {
+        sent.push(m)
+        if (m === 'a') {
+          queue.pause()
+        }
+      })
+    )
+
+    await sleep(50)
+    expect(sent).toEqual(['a'])
+    expect(queue.progress?.status).toBe('paused')
+
+    queue.resume()
+    expect(queue.progress?.status).toBe('sending')
+
+    await expect(running).resolves.toEqual({ sent: 3, failed: 0, total: 3 })
+    expect(sent).toEqual(['a', 'b', 'c'])
+  })
+
+  it('stops sending after cancel, including while paused', async () => {
+    const sent: string[] = []
+    const queue = new SendQueue(() => {})
+
+    const running = queue.run(
+      createJob(['a', 'b', 'c'], async (m) => {
+        sent.push(m)
+        queue.pause()
+      })
+    )
+
+    await sleep(20)
+    queue.cancel()
+
+    await expect(running).resolves.toEqual({ sent: 1, failed: 0, total: 3 })
+    expect(sent).toEqual(['a'])
+    expect(queue.progress).toBeNull()
+  })
+
+  it('cancels the current job when a new one starts', async () => {
+    const sent: string[] = []
+    const queue = new SendQueue(() => {})
+
+    const first = queue.run(createJob(['a', 'b', 'c'], async (m) => void sent.push(m)))
+    const second = queue.run(createJob(['x'], async (m) => void sent.push(m)))
+
+    await expect(first).resolves.toEqual({ sent: 0, failed: 0, total: 3 })
+    await expect(second).resolves.toEqual({ sent: 1, failed: 0, total: 1 })
+    expect(sent).toEqual(['x'])
+  })
+})
@@ -0,0 +1,358 @@
+/**
+ * 游戏内聊天单条消息的长度上限, 超出部分会被游戏截断
+ */
+export const IN_GAME_CHAT_MAX_LENGTH = 150
+
+/**
+ * 客户端聊天 (英雄选择, 结算) 单条消息的参考长度上限
+ */
+export const LOBBY_CHAT_MAX_LENGTH = 200
+
+/**
+ * 优先在玩家之间断开, 其次是单词之间, 都不可行时按字符截断
+ */
+const BOUNDARIES = [/(?<=[|;；\n])/, /(?<=[\s,，、])/]
+
+const TRAILING_SEPARATORS = /[\s|;；,，、]+$/
+
+export function getMessageLength(text: string) {
+  return [...text].length
+}
+
+function hardSplit(text: string, maxLength: number) {
+  const chars = [...text]
+  const chunks: string[] = []
+  for (let i = 0; i < chars.length; i += maxLength) {
+    chunks.push(chars.slice(i, i + maxLength).join(''))
+  }
+
+  return chunks
+}
+
+function splitAt(text: string, maxLength: number, level: number): string[] {
+  if (getMessageLength(text) <= maxLength) {
+    return [text]
+  }
+
+  if (level >= BOUNDARIES.length) {
+    return hardSplit(text, maxLength)
+  }
+
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of text.split(BOUNDARIES[level])) {
+    if (getMessageLength((current + piece).replace(TRAILING_SEPARATORS, '')) <= maxLength) {
+      current += piece
+      continue
+    }
+
+    if (current) {
+      chunks.push(current)
+      current = ''
+    }
+
+    if (getMessageLength(piece.replace(TRAILING_SEPARATORS, '')) <= maxLength) {
+      current = piece
+    } else {
+      chunks.push(...splitAt(piece, maxLength, level + 1))
+    }
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+
+  return chunks
+}
+
+/**
+ * 将过长的消息拆分为多条, 每条不超过 `maxLength` 个字符
+ */
+export function splitMessage(text: string, maxLength: number) {
+  return splitAt(text, maxLength, 0)
+    .map((chunk) => chunk.trim().replace(TRAILING_SEPARATORS, ''))
+    .filter((chunk) => chunk.length)
+}
+
+/**
+ * 令牌桶, 允许短时间内连续发送少量消息, 之后按固定速率发送
+ * 发送失败时放慢速率, 成功后逐渐恢复
+ */
+export class TokenBucket {
+  static MAX_SLOWDOWN = 4
+  static RECOVER_FACTOR = 0.9
+
+  private _tokens: number
+  private _lastRefill = Date.now()
+  private _refillInterval: number
+
+  /**
+   * @param capacity 可连续发送的消息数量
+   * @param baseRefillInterval 恢复一个令牌所需的时间 (ms)
+   */
+  constructor(
+    public readonly capacity: number,
+    public readonly baseRefillInterval: number
+  ) {
+    this._tokens = capacity
+    this._refillInterval = baseRefillInterval
+  }
+
+  get refillInterval() {
+    return this._refillInterval
+  }
+
+  private _refill() {
+    const now = Date.now()
+    const gained = (now - this._lastRefill) / this._refillInterval
+    this._tokens = Math.min(this.capacity, this._tokens + gained)
+    this._lastRefill = now
+  }
+
+  tryTake() {
+    this._refill()
+    if (this._tokens >= 1) {
+      this._tokens -= 1
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * 距离下一个令牌可用的时间 (ms)
+   */
+  timeUntilAvailable() {
+    this._refill()
+    return this._tokens >= 1 ? 0 : Math.ceil((1 - this._tokens) * this._refillInterval)
+  }
+
+  penalize() {
+    this._tokens = 0
+    this._refillInterval = Math.min(
+      this._refillInterval * 2,
+      this.baseRefillInterval * TokenBucket.MAX_SLOWDOWN
+    )
+  }
+
+  recover() {
+    this._refillInterval = Math.max(
+      this._refillInterval * TokenBucket.RECOVER_FACTOR,
+      this.baseRefillInterval
+    )
+  }
+}
+
+export interface SendQueueProgress {
+  status: 'sending' | 'paused'
+  channel: 'chat' | 'in-game'
+  sent: number
+  failed: number
+  total: number
+}
+
+export interface SendQueueJob {
+  channel: 'chat' | 'in-game'
+  messages: string[]
+  maxLength: number
+  bucket: TokenBucket
+
+  /**
+   * 两条消息之间的最短间隔 (ms)
+   */
+  minInterval: number
+
+  send: (message: string) => Promise<void>
+}
+
+/**
+ * 同一时间只有一个发送任务, 新的任务会取消正在进行的任务
+ * 暂停只会在两条消息之间生效
+ */
+export class SendQueue {
+  static MAX_RETRIES = 1
+
+  private _current: { cancelled: boolean } | null = null
+  private _running: Promise<void> = Promise.resolve()
+  private _paused = false
+  private _wake: (() => void) | null = null
+
+  /**
+   * 仅在等待暂停结束时存在, resume 不会唤醒其他的等待
+   */
+  private _wakeOnResume: (() => void) | null = null
+  private _progress: SendQueueProgress | null = null
+
+  constructor(private readonly _onProgress: (progress: SendQueueProgress | null) => void) {}
+
+  get progress() {
+    return this._progress
+  }
+
+  get isRunning() {
+    return this._current !== null
+  }
+
+  async run(job: SendQueueJob, signal?: AbortSignal) {
+    this.cancel()
+
+    const handle = { cancelled: false }
+    this._current = handle
+    this._paused = false
+
+    // 等待上一个任务完成正在发送的消息, 避免输入交错
+    const previous = this._running
+    let release!: () => void
+    this._running = new Promise((resolve) => (release = resolve))
+
+    const onAbort = () => {
+      if (this._current === handle) {
+        this.cancel()
+      }
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    const chunks = job.messages.flatMap((m) => splitMessage(m, job.maxLength))
+    let sent = 0
+    let failed = 0
+
+    const update = () => {
+      if (this._current !== handle) {
+        return
+      }
+
+      this._setProgress({
+        status: this._paused ? 'paused' : 'sending',
+        channel: job.channel,
+        sent,
+        failed,
+        total: chunks.length
+      })
+    }
+
+    update()
+
+    try {
+      await previous
+
+      for (let i = 0; i < chunks.length && !handle.cancelled; i++) {
+        if (i !== 0) {
+          await this._sleep(job.minInterval)
+        }
+
+        for (let retries = 0; !handle.cancelled; retries++) {
+          while (!handle.cancelled && (this._paused || !job.bucket.tryTake())) {
+            if (this._paused) {
+              await this._sleep(Infinity, true)
+            } else {
+              await this._sleep(job.bucket.timeUntilAvailable())
+            }
+            update()
+          }
+
+          if (handle.cancelled) {
+            break
+          }
+
+          try {
+            await job.send(chunks[i])
+            job.bucket.recover()
+            sent++
+            break
+          } catch {
+            job.bucket.penalize()
+            if (retries >= SendQueue.MAX_RETRIES) {
+              failed++
+              break
+            }
+          }
+        }
+
+        update()
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      release()
+
+      if (this._current === handle) {
+        this._current = null
+        this._paused = false
+        this._setProgress(null)
+      }
+    }
+
+    return { sent, failed, total: chunks.length }
+  }
+
+  pause() {
+    if (this._current && !this._paused) {
+      this._paused = true
+      this._updateStatus()
+    }
+  }
+
+  resume() {
+    if (this._current && this._paused) {
+      this._paused = false
+      this._updateStatus()
+      this._wakeOnResume?.()
+    }
+  }
+
+  cancel() {
+    if (this._current) {
+      this._current.cancelled = true
+      this._current = null
+      this._paused = false
+      this._setProgress(null)
+      this._wake?.()
+    }
+  }
+
+  private _updateStatus() {
+    if (this._progress) {
+      this._setProgress({ ...this._progress, status: this._paused ? 'paused' : 'sending' })
+    }
+  }
+
+  private _setProgress(progress: SendQueueProgress | null) {
+    this._progress = progress
+    this._onProgress(progress)
+  }
+
+  /**
+   * 可被 cancel 提前唤醒
+   * @param resumable 为 true 时也可被 resume 唤醒, 仅用于等待暂停结束
+   */
+  private _sleep(ms: number, resumable = false) {
+    return new Promise<void>((resolve) => {
+      let timer: NodeJS.Timeout | null = null
+
+      const done = () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+
+        if (this._wake === done) {
+          this._wake = null
+        }
+
+        if (this._wakeOnResume === done) {
+          this._wakeOnResume = null
+        }
+
+        resolve()
+      }
+
+      if (Number.isFinite(ms)) {
+        timer = setTimeout(done, ms)
+      }
+
+      this._wake = done
+      if (resumable) {
+        this._wakeOnResume = done
+      }
+    })
+  }
+}
@@ -1,5 +1,7 @@
 import { makeAutoObservable, observable } from 'mobx'
 
+import { SendQueueProgress } from './send-queue'
+
 // TODO -> migration needed
 export interface SendableItemContentPlaintext {
   type: 'plaintext'
@@ -46,6 +48,17 @@ export interface TemplateDef {
   isValid: boolean
   type: string
   error: string | null
+
+  /**
+   * 模板声明的权限, v1 模板固定为 `full-access`
+   */
+  permissions: string[]
+
+  /**
+   * 从远程下载的模板需要用户确认权限后才能执行
+   */
+  source: 'local' | 'remote'
+  approved: boolean
 }
 
 export class InGameSendSettings {
@@ -53,12 +66,21 @@ export class InGameSendSettings {
   templates: TemplateDef[] = []
 
   cancelShortcut: string | null = null
+
+  /**
+   * 暂停或继续当前的发送任务
+   */
+  pauseShortcut: string | null = null
   sendInterval: number = 65
 
   setCancelShortcut(shortcut: string | null) {
     this.cancelShortcut = shortcut
   }
 
+  setPauseShortcut(shortcut: string | null) {
+    this.pauseShortcut = shortcut
+  }
+
   setSendableItems(customSend: SendableItem[]) {
     this.sendableItems = customSend
   }
@@ -76,7 +98,18 @@ export class InGameSendSettings {
 }
 
 export class InGameSendState {
+  /**
+   * 当前发送任务的进度, 没有任务时为 null
+   */
+  sendProgress: SendQueueProgress | null = null
+
+  setSendProgress(progress: SendQueueProgress | null) {
+    this.sendProgress = progress
+  }
+
   constructor() {
-    makeAutoObservable(this, {})
+    makeAutoObservable(this, {
+      sendProgress: observable.ref
+    })
   }
 }
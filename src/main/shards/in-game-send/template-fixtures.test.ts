@@ -0,0 +1,95 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  TemplateFixture,
+  TemplateFixtureError,
+  readFixtureFile,
+  readFixturesInDir,
+  toFixtureId,
+  toFixtureInfo,
+  writeFixtureFile
+} from './template-fixtures'
+
+const BUILTIN_FIXTURES_DIR = path.join(__dirname, 'fixtures')
+
+describe('toFixtureId', () => {
+  it('keeps letters, digits, underscores and hyphens', () => {
+    expect(toFixtureId('  Ranked / 排位 #1  ')).toBe('Ranked-排位-1')
+    expect(toFixtureId('x'.repeat(100))).toHaveLength(64)
+  })
+
+  it('rejects names without any usable character', () => {
+    expect(() => toFixtureId(' /.. ')).toThrow(TemplateFixtureError)
+  })
+})
+
+describe('fixture files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'akari-fixtures-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('round-trips a saved fixture', async () => {
+    const fixture = {
+      id: 'my-game',
+      name: 'My Game',
+      createdAt: 1700000000000,
+      builtin: false,
+      env: { allMembers: [1, 2, 3], queryStage: { gameInfo: { queueId: 420 } } }
+    } as unknown as TemplateFixture
+
+    await writeFixtureFile(path.join(dir, 'nested'), fixture)
+
+    const loaded = await readFixtureFile(path.join(dir, 'nested', 'my-game.json'), false)
+    expect(loaded).toEqual(fixture)
+    expect(toFixtureInfo(loaded)).toEqual({
+      id: 'my-game',
+      name: 'My Game',
+      createdAt: 1700000000000,
+      builtin: false,
+      queueId: 420,
+      memberCount: 3
+    })
+  })
+
+  it('falls back to the file name and skips files that cannot be read', async () => {
+    fs.writeFileSync(path.join(dir, 'unnamed.json'), JSON.stringify({ env: {} }))
+    fs.writeFileSync(path.join(dir, 'no-env.json'), JSON.stringify({ name: 'x' }))
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{')
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a fixture')
+
+    const onError = vi.fn()
+    const fixtures = await readFixturesInDir(dir, onError)
+
+    expect(fixtures).toEqual([
+      { id: 'unnamed', name: 'unnamed', createdAt: 0, builtin: false, env: {} }
+    ])
+    expect(onError).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns nothing when the directory does not exist', async () => {
+    await expect(readFixturesInDir(path.join(dir, 'missing'))).resolves.toEqual([])
+  })
+
+  it('loads the builtin fixtures', async () => {
+    const files = fs.readdirSync(BUILTIN_FIXTURES_DIR)
+    expect(files.length).toBeGreaterThan(0)
+
+    for (const file of files) {
+      const fixture = await readFixtureFile(path.join(BUILTIN_FIXTURES_DIR, file), true)
+      const info = toFixtureInfo(fixture)
+
+      expect(info.builtin).toBe(true)
+      expect(info.queueId).not.toBeNull()
+      expect(info.memberCount).toBeGreaterThan(0)
+    }
+  })
+})
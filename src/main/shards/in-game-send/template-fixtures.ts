@@ -0,0 +1,141 @@
+import { GameDataState } from '@main/shards/league-client/lc-state/game-data'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { TemplateEnvV2 } from './templates/env-types'
+
+/**
+ * 快照中保存的游戏资源, 其余部分使用当前已加载的
+ */
+export type TemplateFixtureGameData = Partial<
+  Pick<GameDataState, 'champions' | 'summonerSpells' | 'queues'>
+>
+
+/**
+ * 记录下来的模板环境, 用于在对局外测试模板
+ * target, targetMembers, locale 和 utils 在运行时重新生成
+ */
+export type TemplateFixtureEnv = Omit<
+  TemplateEnvV2,
+  'target' | 'targetMembers' | 'locale' | 'utils' | 'gameData' | 'templateType'
+> & {
+  gameData?: TemplateFixtureGameData
+}
+
+export interface TemplateFixture {
+  id: string
+  name: string
+  createdAt: number
+
+  /**
+   * 随应用附带的示例, 不可删除
+   */
+  builtin: boolean
+
+  env: TemplateFixtureEnv
+}
+
+export type TemplateFixtureInfo = Omit<TemplateFixture, 'env'> & {
+  queueId: number | null
+  memberCount: number
+}
+
+export interface TemplateFixtureRunResult {
+  messages: {
+    text: string
+    length: number
+  }[]
+
+  /**
+   * 单条消息的长度上限, 超出的部分可能被游戏截断
+   */
+  maxLength: number
+  durationMs: number
+  error: string | null
+}
+
+export class TemplateFixtureError extends Error {
+  name = 'TemplateFixtureError'
+}
+
+export function toFixtureInfo(fixture: TemplateFixture): TemplateFixtureInfo {
+  const { env, ...rest } = fixture
+  return {
+    ...rest,
+    queueId: env.queryStage?.gameInfo?.queueId ?? null,
+    memberCount: env.allMembers?.length ?? 0
+  }
+}
+
+/**
+ * 文件名即 id, 仅保留安全的字符
+ */
+export function toFixtureId(name: string) {
+  const id = name
+    .trim()
+    .replace(/[^\p{L}\p{N}_-]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+
+  if (!id) {
+    throw new TemplateFixtureError('Invalid fixture name')
+  }
+
+  return id
+}
+
+export async function readFixtureFile(filePath: string, builtin: boolean) {
+  const raw = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'))
+
+  if (typeof raw !== 'object' || raw === null || typeof raw.env !== 'object') {
+    throw new TemplateFixtureError(`Invalid fixture file: ${path.basename(filePath)}`)
+  }
+
+  return {
+    id: path.basename(filePath, '.json'),
+    name: typeof raw.name === 'string' ? raw.name : path.basename(filePath, '.json'),
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+    builtin,
+    env: raw.env
+  } as TemplateFixture
+}
+
+/**
+ * 读取目录下的所有快照, 无法解析的文件会被跳过
+ */
+export async function readFixturesInDir(dir: string, onError?: (error: unknown) => void) {
+  let files: string[]
+  try {
+    files = await fs.promises.readdir(dir)
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return []
+    }
+
+    throw error
+  }
+
+  const fixtures: TemplateFixture[] = []
+  for (const file of files) {
+    if (path.extname(file) !== '.json') {
+      continue
+    }
+
+    try {
+      fixtures.push(await readFixtureFile(path.join(dir, file), false))
+    } catch (error) {
+      onError?.(error)
+    }
+  }
+
+  return fixtures
+}
+
+export async function writeFixtureFile(dir: string, fixture: TemplateFixture) {
+  await fs.promises.mkdir(dir, { recursive: true })
+  await fs.promises.writeFile(
+    path.join(dir, `${fixture.id}.json`),
+    JSON.stringify({ name: fixture.name, createdAt: fixture.createdAt, env: fixture.env }),
+    'utf-8'
+  )
+}
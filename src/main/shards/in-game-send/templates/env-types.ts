@@ -1,5 +1,7 @@
 import { GameDataState } from '@main/shards/league-client/lc-state/game-data'
 import { OngoingGameSettings, OngoingGameState } from '@main/shards/ongoing-game/state'
+import { AllGameData } from '@shared/types/game-client'
+import { Game } from '@shared/types/league-client/match-history'
 
 export interface TemplateEnv {
   /**
@@ -156,3 +158,55 @@ export interface TemplateEnv {
    */
   additionalGame: OngoingGameState['additionalGame']
 }
+
+/**
+ * v2 模板的环境, 在 TemplateEnv 的基础上, 按模板类型提供额外的数据
+ */
+export interface TemplateEnvV2 extends TemplateEnv {
+  /**
+   * 模板的类型
+   */
+  templateType: string
+
+  /**
+   * 仅 in-game-live 类型, 游戏内的实时数据
+   */
+  liveClientData: AllGameData | null
+
+  /**
+   * 仅 end-of-game 类型, 客户端提供的结算数据
+   */
+  eogStats: any | null
+}
+
+/**
+ * v2 模板中全局的 `akari` 对象, 每项能力需要在 metadata.permissions 中声明
+ * 返回的数据均为副本
+ */
+export interface TemplateCapabilityApi {
+  matchHistory: {
+    /**
+     * 需要 `match-history`, 查询本地存档中某位玩家的对局, 仅限当前大区
+     */
+    queryPlayerGames: (
+      puuid: string,
+      options?: { queueId?: number; page?: number; pageSize?: number }
+    ) => Promise<{ data: Game[]; page: number; pageSize: number; total: number }>
+  }
+
+  savedPlayers: {
+    /**
+     * 需要 `saved-players`, 查询某位玩家的全部标记
+     */
+    getPlayerTags: (
+      puuid: string
+    ) => Promise<{ tag: string | null; markedBySelf: boolean; updateAt: number }[]>
+  }
+
+  liveClient: {
+    /**
+     * 需要 `live-client`, 获取游戏内的实时数据
+     */
+    getAllGameData: () => Promise<AllGameData>
+  }
+}
@@ -3,7 +3,15 @@ import { Conversation } from '@shared/types/league-client/chat'
 import { LcuEvent } from '@shared/types/league-client/event'
 import { Ballot } from '@shared/types/league-client/honorV2'
 import { isAxiosError } from 'axios'
-import { comparer, computed, makeAutoObservable, observable, runInAction } from 'mobx'
+import {
+  comparer,
+  computed,
+  isComputedProp,
+  makeAutoObservable,
+  observable,
+  runInAction,
+  toJS
+} from 'mobx'
 
 import type { LeagueClientMainContext } from '..'
 import { TaskRunner } from '../utils/task-runner'
@@ -39,6 +47,22 @@ class InitializationState {
   }
 }
 
+/**
+ * 可以被快照的状态, 不包括体积较大的游戏数据, 以及包含聊天内容和登录信息的 chat 和 login
+ */
+const SNAPSHOT_KEYS = [
+  'gameflow',
+  'honor',
+  'champSelect',
+  'lobby',
+  'summoner',
+  'matchmaking'
+] as const
+
+export type LeagueClientDataSnapshot = Partial<
+  Record<(typeof SNAPSHOT_KEYS)[number], Record<string, any>>
+>
+
 export class LeagueClientData {
   private _stateInitializer = new TaskRunner()
 
@@ -1086,6 +1110,53 @@ export class LeagueClientData {
     this._handleLcuConnectionStateChange()
   }
 
+  /**
+   * 当前状态的纯数据副本
+   */
+  snapshot(): LeagueClientDataSnapshot {
+    const snapshot: LeagueClientDataSnapshot = {}
+    for (const key of SNAPSHOT_KEYS) {
+      snapshot[key] = toJS(this[key])
+    }
+
+    return snapshot
+  }
+
+  /**
+   * 从快照恢复状态, 仅在未连接时使用, 如回放录制的会话
+   */
+  restore(snapshot: LeagueClientDataSnapshot) {
+    runInAction(() => {
+      for (const key of SNAPSHOT_KEYS) {
+        const state = this[key] as Record<string, any>
+        const values = snapshot[key]
+
+        if (!values) {
+          continue
+        }
+
+        for (const [prop, value] of Object.entries(values)) {
+          if (
+            !(prop in state) ||
+            isComputedProp(state, prop) ||
+            typeof state[prop] === 'function'
+          ) {
+            continue
+          }
+
+          state[prop] = value
+        }
+      }
+    })
+  }
+
+  /**
+   * 恢复到未连接时的状态
+   */
+  reset() {
+    this._onLcuNotConnectedFnSubs.forEach((fn) => fn())
+  }
+
   private _handleLcuConnectionStateChange() {
     this._context.mobx.reaction(
       () => this._context.lc.state.isConnected,
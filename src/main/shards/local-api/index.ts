@@ -0,0 +1,180 @@
+import { checkIfPortInUse } from '@main/utils/loopback'
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { formatErrorMessage } from '@shared/utils/errors'
+import crypto from 'node:crypto'
+
+import { InGameSendMain } from '../in-game-send'
+import { AkariIpcMain } from '../ipc'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { LocalApiAction, LocalApiServer } from './server'
+import { LocalApiSettings, LocalApiState } from './state'
+
+/**
+ * 本地 HTTP / WebSocket 接口, 供 OBS 浏览器源和 Stream Deck 等工具读取状态
+ * 只公开白名单中的状态和操作
+ */
+@Shard(LocalApiMain.id)
+export class LocalApiMain implements IAkariShardInitDispose {
+  static id = 'local-api-main'
+
+  /**
+   * 允许读取的同步状态, namespace:stateId
+   */
+  static EXPOSED_STATES = [
+    'league-client-main:gameflow',
+    'league-client-main:champSelect',
+    'league-client-main:lobby',
+    'league-client-main:matchmaking',
+    'ongoing-game-main:state',
+    'respawn-timer-main:state',
+    'in-game-send-main:state',
+    'window-manager-main/cd-timer-window:state'
+  ]
+
+  public readonly settings = new LocalApiSettings()
+  public readonly state = new LocalApiState()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  private _server: LocalApiServer | null = null
+
+  /**
+   * 保证启动和停止按顺序进行
+   */
+  private _restarting: Promise<void> = Promise.resolve()
+
+  private readonly _actions: Record<string, LocalApiAction> = {
+    'in-game-send.list-items': () =>
+      this._igs.settings.sendableItems.map(({ id, name, enabled }) => ({ id, name, enabled })),
+    'in-game-send.send-item': ({ id, target }) => {
+      if (typeof id !== 'string') {
+        throw new Error('id is required')
+      }
+
+      if (target !== undefined && !['all', 'ally', 'enemy'].includes(target)) {
+        throw new Error('target must be one of all, ally, enemy')
+      }
+
+      this._igs.sendItem(id, target)
+    },
+    'in-game-send.pause': () => this._igs.pauseSend(),
+    'in-game-send.resume': () => this._igs.resumeSend(),
+    'in-game-send.cancel': () => this._igs.cancelSend()
+  }
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _igs: InGameSendMain
+  ) {
+    this._log = _loggerFactory.create(LocalApiMain.id)
+    this._setting = _settingFactory.register(
+      LocalApiMain.id,
+      {
+        enabled: { default: this.settings.enabled },
+        port: { default: this.settings.port },
+        token: { default: this.settings.token }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+
+    if (!this.settings.token) {
+      await this._setting.set('token', this._generateToken())
+    }
+
+    this._setting.onChange('port', async (v, { setter }) => {
+      if (!Number.isInteger(v) || v < 1024 || v > 65535) {
+        throw new Error(`Invalid port: ${v}`)
+      }
+
+      await setter()
+    })
+
+    this._mobx.propSync(LocalApiMain.id, 'settings', this.settings, ['enabled', 'port', 'token'])
+    this._mobx.propSync(LocalApiMain.id, 'state', this.state, ['status', 'error', 'clientCount'])
+
+    this._mobx.reaction(
+      () => [this.settings.enabled, this.settings.port, this.settings.token] as const,
+      ([enabled, port, token]) => {
+        this._restarting = this._restarting.then(() => this._restart(enabled, port, token))
+      },
+      { fireImmediately: true, equals: (a, b) => a.every((v, i) => v === b[i]) }
+    )
+
+    this._ipc.onCall(LocalApiMain.id, 'regenerateToken', () => {
+      return this._setting.set('token', this._generateToken())
+    })
+  }
+
+  async onDispose() {
+    await this._restarting
+    await this._server?.stop()
+    this._server = null
+  }
+
+  private _generateToken() {
+    return crypto.randomBytes(24).toString('base64url')
+  }
+
+  private async _restart(enabled: boolean, port: number, token: string) {
+    if (this._server) {
+      await this._server.stop()
+      this._server = null
+      this._log.info('Local API stopped')
+    }
+
+    this.state.setStatus('stopped')
+
+    if (!enabled || !token) {
+      return
+    }
+
+    try {
+      if (await checkIfPortInUse(LocalApiServer.HOST, port)) {
+        throw new Error(`Port ${port} is already in use`)
+      }
+
+      const server = new LocalApiServer(
+        {
+          getStates: () => this._getExposedStates(),
+          getStatePropValue: (key, path) => this._mobx.getStatePropValue(key, path),
+          onPropChange: (fn) => this._mobx.onPropChange(fn),
+          actions: this._actions
+        },
+        token,
+        (count) => this.state.setClientCount(count)
+      )
+
+      await server.start(port)
+
+      this._server = server
+      this.state.setStatus('listening')
+      this._log.info(`Local API listening on ${LocalApiServer.HOST}:${port}`)
+    } catch (error) {
+      this.state.setStatus('error', formatErrorMessage(error))
+      this._log.warn('Failed to start local API', error)
+    }
+  }
+
+  private _getExposedStates() {
+    const registered = this._mobx.getRegisteredStates()
+    const states: Record<string, string[]> = {}
+    for (const key of LocalApiMain.EXPOSED_STATES) {
+      if (registered[key]) {
+        states[key] = registered[key]
+      }
+    }
+
+    return states
+  }
+}
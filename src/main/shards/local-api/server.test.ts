@@ -0,0 +1,137 @@
+import { AddressInfo } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WebSocket } from 'ws'
+
+import { LocalApiProvider, LocalApiServer } from './server'
+
+const TOKEN = 'test-token'
+
+const STATES: Record<string, Record<string, unknown>> = {
+  'ongoing-game-main:state': { queueType: 'RANKED_SOLO_5x5', gameTime: 120 },
+  'respawn-timer-main:state': { isDead: false }
+}
+
+describe('LocalApiServer', () => {
+  let server: LocalApiServer
+  let baseUrl: string
+  let sendItem: ReturnType<typeof vi.fn>
+
+  const request = (path: string, init: RequestInit = {}) => {
+    return fetch(`${baseUrl}/api/v1${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${TOKEN}`, ...init.headers }
+    })
+  }
+
+  beforeEach(async () => {
+    sendItem = vi.fn((args) => args.id)
+
+    const provider: LocalApiProvider = {
+      getStates: () =>
+        Object.fromEntries(Object.entries(STATES).map(([key, value]) => [key, Object.keys(value)])),
+      getStatePropValue: (key, path) => STATES[key][path],
+      onPropChange: () => () => {},
+      actions: { 'in-game-send.send-item': sendItem }
+    }
+
+    server = new LocalApiServer(provider, TOKEN)
+    await server.start(0)
+
+    const { port } = server['_server']!.address() as AddressInfo
+    baseUrl = `http://${LocalApiServer.HOST}:${port}`
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('lists exposed states and reads a state or a single prop', async () => {
+    const states = await request('/states')
+    expect(await states.json()).toEqual({
+      'ongoing-game-main:state': ['queueType', 'gameTime'],
+      'respawn-timer-main:state': ['isDead']
+    })
+
+    const state = await request('/states/ongoing-game-main%3Astate')
+    expect(await state.json()).toEqual(STATES['ongoing-game-main:state'])
+
+    const prop = await request('/states/ongoing-game-main:state/gameTime')
+    expect(await prop.json()).toBe(120)
+  })
+
+  it('does not resolve props inherited from Object.prototype', async () => {
+    const res = await request('/states/ongoing-game-main:state/constructor')
+    expect(res.status).toBe(404)
+
+    const action = await request('/actions/toString', { method: 'POST' })
+    expect(action.status).toBe(404)
+  })
+
+  it('rejects unknown routes, wrong methods and malformed segments', async () => {
+    expect((await request('/states/unknown:state')).status).toBe(404)
+    expect((await request('/states/a/b/c')).status).toBe(404)
+    expect((await request('/states', { method: 'POST' })).status).toBe(405)
+    expect((await request('/actions/in-game-send.send-item')).status).toBe(405)
+    expect((await request('/states/%E0%A4%A')).status).toBe(400)
+  })
+
+  it('calls an action with the JSON body', async () => {
+    const res = await request('/actions/in-game-send.send-item', {
+      method: 'POST',
+      body: JSON.stringify({ id: 'item-1' })
+    })
+
+    expect(await res.json()).toEqual({ result: 'item-1' })
+    expect(sendItem).toHaveBeenCalledWith({ id: 'item-1' })
+
+    const invalid = await request('/actions/in-game-send.send-item', {
+      method: 'POST',
+      body: '{'
+    })
+    expect(invalid.status).toBe(400)
+  })
+
+  it('requires the token in the Authorization header for HTTP requests', async () => {
+    expect((await fetch(`${baseUrl}/api/v1/states`)).status).toBe(401)
+    expect((await fetch(`${baseUrl}/api/v1/states?token=${TOKEN}`)).status).toBe(401)
+    expect((await request('/states', { headers: { Authorization: 'Bearer wrong' } })).status).toBe(
+      401
+    )
+  })
+
+  it('does not send CORS headers', async () => {
+    const res = await request('/states')
+    expect(res.headers.get('access-control-allow-origin')).toBeNull()
+  })
+
+  it('accepts the query token for WebSocket connections and validates messages', async () => {
+    const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/v1/ws?token=${TOKEN}`)
+
+    const next = () =>
+      new Promise<any>((resolve) => {
+        ws.once('message', (raw) => {
+          resolve(JSON.parse(raw.toString()))
+        })
+      })
+
+    expect((await next()).type).toBe('hello')
+
+    ws.send(JSON.stringify({ type: 'watch', states: ['respawn-timer-main:state'] }))
+    expect(await next()).toEqual({
+      type: 'error',
+      message: 'type must be one of subscribe, unsubscribe'
+    })
+
+    ws.send(JSON.stringify({ type: 'subscribe', states: [1] }))
+    expect(await next()).toEqual({ type: 'error', message: 'states must be an array of strings' })
+
+    ws.send(JSON.stringify({ type: 'subscribe', states: ['respawn-timer-main:state'] }))
+    expect(await next()).toEqual({
+      type: 'snapshot',
+      state: 'respawn-timer-main:state',
+      value: { isDead: false }
+    })
+
+    ws.close()
+  })
+})
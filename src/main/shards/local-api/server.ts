@@ -0,0 +1,340 @@
+import crypto from 'node:crypto'
+import http from 'node:http'
+import { WebSocket, WebSocketServer } from 'ws'
+
+export type LocalApiAction = (args: any) => unknown | Promise<unknown>
+
+/**
+ * 服务器所需的数据来源, 由 LocalApiMain 提供
+ */
+export interface LocalApiProvider {
+  /**
+   * uniqueId (namespace:stateId) -> propPaths, 仅包含允许公开的状态
+   */
+  getStates(): Record<string, string[]>
+  getStatePropValue(key: string, path: string): unknown
+  onPropChange(fn: (key: string, path: string) => void): () => void
+  actions: Record<string, LocalApiAction>
+}
+
+export class LocalApiRequestError extends Error {
+  name = 'LocalApiRequestError'
+
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+interface WsClientMessage {
+  type: 'subscribe' | 'unsubscribe'
+  states: string[]
+}
+
+const API_PREFIX = '/api/v1'
+const MAX_BODY_SIZE = 64 * 1024
+
+/**
+ * 仅监听本地回环地址, 所有请求都需要令牌, 且不返回 CORS 头, 网页无法跨域调用 HTTP 接口
+ * 令牌通过 `Authorization: Bearer <token>` 提供. 浏览器中的 WebSocket 无法设置请求头, 仅 WebSocket 连接额外接受 `?token=<token>`
+ */
+export class LocalApiServer {
+  static HOST = '127.0.0.1'
+
+  private _server: http.Server | null = null
+  private _wss: WebSocketServer | null = null
+  private _subscriptions = new Map<WebSocket, Set<string>>()
+  private _stopPropChange: (() => void) | null = null
+
+  constructor(
+    private readonly _provider: LocalApiProvider,
+    private readonly _token: string,
+    private readonly _onClientsChange?: (count: number) => void
+  ) {}
+
+  get clientCount() {
+    return this._subscriptions.size
+  }
+
+  async start(port: number) {
+    if (this._server) {
+      throw new Error('Server is already started')
+    }
+
+    const server = http.createServer((req, res) => this._handleRequest(req, res))
+    const wss = new WebSocketServer({ noServer: true })
+
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      if (url.pathname !== `${API_PREFIX}/ws` || !this._isAuthorized(req, url, true)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n')
+        return
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => this._handleConnection(ws))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, LocalApiServer.HOST, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    this._server = server
+    this._wss = wss
+    this._stopPropChange = this._provider.onPropChange((key, path) => this._publish(key, path))
+  }
+
+  async stop() {
+    this._stopPropChange?.()
+    this._stopPropChange = null
+
+    for (const ws of this._subscriptions.keys()) {
+      ws.terminate()
+    }
+    this._subscriptions.clear()
+    this._onClientsChange?.(0)
+
+    const server = this._server
+    this._wss?.close()
+    this._wss = null
+    this._server = null
+
+    if (server) {
+      server.closeAllConnections()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  private _isAuthorized(req: http.IncomingMessage, url: URL, allowQueryToken = false) {
+    const header = req.headers.authorization
+    let provided: string | null = null
+    if (header?.startsWith('Bearer ')) {
+      provided = header.slice('Bearer '.length)
+    } else if (allowQueryToken) {
+      provided = url.searchParams.get('token')
+    }
+
+    if (!provided) {
+      return false
+    }
+
+    const a = Buffer.from(provided)
+    const b = Buffer.from(this._token)
+    return a.length === b.length && crypto.timingSafeEqual(a, b)
+  }
+
+  private async _readBody(req: http.IncomingMessage) {
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req) {
+      size += chunk.length
+      if (size > MAX_BODY_SIZE) {
+        throw new LocalApiRequestError(413, 'Request body too large')
+      }
+
+      chunks.push(chunk)
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8')
+    if (!text) {
+      return undefined
+    }
+
+    try {
+      return JSON.parse(text)
+    } catch {
+      throw new LocalApiRequestError(400, 'Request body must be JSON')
+    }
+  }
+
+  private _getState(key: string) {
+    const props = this._provider.getStates()[key]
+    if (!props) {
+      throw new LocalApiRequestError(404, `State ${key} not found`)
+    }
+
+    const value: Record<string, unknown> = {}
+    for (const path of props) {
+      value[path] = this._provider.getStatePropValue(key, path)
+    }
+
+    return value
+  }
+
+  private async _route(req: http.IncomingMessage, segments: string[]) {
+    const method = req.method ?? 'GET'
+
+    // GET /states, GET /states/:key, GET /states/:key/:prop
+    if (segments[0] === 'states' && segments.length <= 3) {
+      if (method !== 'GET') {
+        throw new LocalApiRequestError(405, 'Method not allowed')
+      }
+
+      if (segments.length === 1) {
+        return this._provider.getStates()
+      }
+
+      const state = this._getState(segments[1])
+      if (segments.length === 2) {
+        return state
+      }
+
+      if (!Object.hasOwn(state, segments[2])) {
+        throw new LocalApiRequestError(404, `Prop ${segments[2]} not found`)
+      }
+
+      return state[segments[2]]
+    }
+
+    // GET /actions, POST /actions/:name
+    if (segments[0] === 'actions' && segments.length <= 2) {
+      if (segments.length === 1) {
+        if (method !== 'GET') {
+          throw new LocalApiRequestError(405, 'Method not allowed')
+        }
+
+        return Object.keys(this._provider.actions)
+      }
+
+      if (method !== 'POST') {
+        throw new LocalApiRequestError(405, 'Method not allowed')
+      }
+
+      const action = Object.hasOwn(this._provider.actions, segments[1])
+        ? this._provider.actions[segments[1]]
+        : null
+
+      if (!action) {
+        throw new LocalApiRequestError(404, `Action ${segments[1]} not found`)
+      }
+
+      const args = await this._readBody(req)
+
+      try {
+        return { result: (await action(args ?? {})) ?? null }
+      } catch (error) {
+        throw new LocalApiRequestError(400, (error as Error).message)
+      }
+    }
+
+    throw new LocalApiRequestError(404, 'Not found')
+  }
+
+  private async _handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    if (!this._isAuthorized(req, url)) {
+      send(401, { message: 'Unauthorized' })
+      return
+    }
+
+    if (!url.pathname.startsWith(`${API_PREFIX}/`)) {
+      send(404, { message: 'Not found' })
+      return
+    }
+
+    try {
+      const segments = url.pathname
+        .slice(API_PREFIX.length)
+        .split('/')
+        .filter(Boolean)
+        .map((s) => decodeURIComponent(s))
+
+      send(200, await this._route(req, segments))
+    } catch (error) {
+      if (error instanceof LocalApiRequestError) {
+        send(error.status, { message: error.message })
+      } else if (error instanceof URIError) {
+        send(400, { message: error.message })
+      } else {
+        send(500, { message: (error as Error).message })
+      }
+    }
+  }
+
+  private _handleConnection(ws: WebSocket) {
+    const subscriptions = new Set<string>()
+    this._subscriptions.set(ws, subscriptions)
+    this._onClientsChange?.(this._subscriptions.size)
+
+    const send = (message: unknown) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message))
+      }
+    }
+
+    send({ type: 'hello', states: this._provider.getStates() })
+
+    ws.on('message', (raw) => {
+      let message: WsClientMessage
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        send({ type: 'error', message: 'Message must be JSON' })
+        return
+      }
+
+      if (message?.type !== 'subscribe' && message?.type !== 'unsubscribe') {
+        send({ type: 'error', message: 'type must be one of subscribe, unsubscribe' })
+        return
+      }
+
+      if (
+        !Array.isArray(message.states) ||
+        !message.states.every((key) => typeof key === 'string')
+      ) {
+        send({ type: 'error', message: 'states must be an array of strings' })
+        return
+      }
+
+      for (const key of message.states) {
+        if (message.type === 'unsubscribe') {
+          subscriptions.delete(key)
+          continue
+        }
+
+        try {
+          // 订阅时先推送一次全量
+          send({ type: 'snapshot', state: key, value: this._getState(key) })
+          subscriptions.add(key)
+        } catch (error) {
+          send({ type: 'error', message: (error as Error).message })
+        }
+      }
+    })
+
+    ws.on('close', () => {
+      this._subscriptions.delete(ws)
+      this._onClientsChange?.(this._subscriptions.size)
+    })
+  }
+
+  private _publish(key: string, path: string) {
+    let message: string | null = null
+
+    for (const [ws, subscriptions] of this._subscriptions) {
+      if (ws.readyState !== WebSocket.OPEN || !subscriptions.has(key)) {
+        continue
+      }
+
+      // 仅在有订阅者时计算新值
+      message ??= JSON.stringify({
+        type: 'update',
+        state: key,
+        prop: path,
+        value: this._provider.getStatePropValue(key, path)
+      })
+
+      ws.send(message)
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { makeAutoObservable } from 'mobx'
+
+export class LocalApiSettings {
+  enabled: boolean = false
+
+  port: number = 27124
+
+  /**
+   * 首次启动时生成
+   */
+  token: string = ''
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled
+  }
+
+  setPort(port: number) {
+    this.port = port
+  }
+
+  setToken(token: string) {
+    this.token = token
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
+
+export class LocalApiState {
+  status: 'stopped' | 'listening' | 'error' = 'stopped'
+
+  /**
+   * 启动失败的原因
+   */
+  error: string | null = null
+
+  /**
+   * 已连接的 WebSocket 客户端数量
+   */
+  clientCount: number = 0
+
+  setStatus(status: 'stopped' | 'listening' | 'error', error: string | null = null) {
+    this.status = status
+    this.error = error
+  }
+
+  setClientCount(count: number) {
+    this.clientCount = count
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
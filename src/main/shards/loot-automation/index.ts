@@ -0,0 +1,307 @@
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { LootMap } from '@shared/types/league-client/loot'
+import { formatError } from '@shared/utils/errors'
+import {
+  LOOT_KEY_ID,
+  LootPlan,
+  LootPlanOperation,
+  LootRule,
+  planLootOperations
+} from '@shared/utils/loot-rules'
+import { sleep } from '@shared/utils/sleep'
+
+import { AkariIpcMain } from '../ipc'
+import { LeagueClientMain } from '../league-client'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { LootAutomationSettings, LootAutomationState } from './state'
+
+/**
+ * 按规则批量分解, 重铸战利品和打开宝箱, 执行前可预览计划
+ */
+@Shard(LootAutomationMain.id)
+export class LootAutomationMain implements IAkariShardInitDispose {
+  static id = 'loot-automation-main'
+
+  static MAX_LOGS = 200
+
+  /**
+   * 每次合成之间的间隔, 避免过快地请求
+   */
+  static CRAFT_INTERVAL = 200
+
+  public readonly settings = new LootAutomationSettings()
+  public readonly state = new LootAutomationState()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _lc: LeagueClientMain
+  ) {
+    this._log = _loggerFactory.create(LootAutomationMain.id)
+    this._setting = _settingFactory.register(
+      LootAutomationMain.id,
+      {
+        rules: { default: this.settings.rules }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+
+    this._mobx.propSync(LootAutomationMain.id, 'settings', this.settings, ['rules'])
+    this._mobx.propSync(LootAutomationMain.id, 'state', this.state, ['isExecuting', 'logs'])
+
+    this._setting.onChange('rules', async (value, { setter }) => {
+      if (!Array.isArray(value) || !value.every((r) => this._isValidRule(r))) {
+        this._log.warn('Invalid loot rules', value)
+        return
+      }
+
+      await setter(value)
+    })
+
+    this._handleIpcCall()
+  }
+
+  private _isValidRule(rule: any): rule is LootRule {
+    if (!rule || typeof rule.id !== 'string' || typeof rule.enabled !== 'boolean') {
+      return false
+    }
+
+    // 数量和阈值用于计算分解的数量, 必须为非负整数
+    const isCount = (value: unknown) => Number.isSafeInteger(value) && (value as number) >= 0
+
+    switch (rule.type) {
+      case 'disenchant-champion-shards':
+        return (
+          typeof rule.ownedOnly === 'boolean' &&
+          isCount(rule.minMasteryLevel) &&
+          isCount(rule.keepCount)
+        )
+      case 'disenchant-skin-shards':
+        return typeof rule.ownedOnly === 'boolean' && isCount(rule.keepCount)
+      case 'reroll-skin-shards':
+        return isCount(rule.maxRerolls)
+      case 'open-chests':
+        return true
+      case 'keep-champions':
+        return Array.isArray(rule.championIds) && rule.championIds.every(isCount)
+      default:
+        return false
+    }
+  }
+
+  /**
+   * 根据当前的战利品生成执行计划, 不会进行任何修改
+   */
+  async dryRun(): Promise<LootPlan> {
+    if (!this._lc.state.isConnected) {
+      throw new Error('League Client is not connected')
+    }
+
+    const rules = this.settings.rules.filter((r) => r.enabled)
+    const { data: lootMap } = await this._lc.api.loot.getLootMap()
+
+    const [masteryLevels, rerollRecipeName, openRecipeNames] = await Promise.all([
+      rules.some((r) => r.type === 'disenchant-champion-shards' && r.minMasteryLevel > 0)
+        ? this._getMasteryLevels()
+        : {},
+      rules.some((r) => r.type === 'reroll-skin-shards')
+        ? this._resolveRerollRecipeName(lootMap)
+        : null,
+      rules.some((r) => r.type === 'open-chests') ? this._resolveOpenRecipeNames(lootMap) : {}
+    ])
+
+    return planLootOperations(lootMap, rules, {
+      masteryLevels,
+      rerollRecipeName,
+      openRecipeNames
+    })
+  }
+
+  private async _getMasteryLevels() {
+    const puuid = this._lc.data.summoner.me?.puuid
+    if (!puuid) {
+      return {}
+    }
+
+    const { data } = await this._lc.api.championMastery.getPlayerChampionMastery(puuid)
+    return Object.fromEntries(data.map((m) => [m.championId, m.championLevel]))
+  }
+
+  /**
+   * 重铸配方的名称随碎片类型变化, 从客户端提供的配方中查找
+   */
+  private async _resolveRerollRecipeName(lootMap: LootMap) {
+    const shard = Object.values(lootMap).find((l) => l.type === 'SKIN_RENTAL' && l.count > 0)
+    if (!shard) {
+      return null
+    }
+
+    const { data: recipes } = await this._lc.api.loot.getRecipesForLoot(shard.lootId)
+    return recipes.find((r) => /reroll/i.test(r.recipeName))?.recipeName ?? null
+  }
+
+  /**
+   * 仅处理需要钥匙才能打开的宝箱
+   */
+  private async _resolveOpenRecipeNames(lootMap: LootMap) {
+    const chests = Object.values(lootMap).filter((l) => l.type === 'CHEST' && l.count > 0)
+    const result: Record<string, string> = {}
+
+    for (const chest of chests) {
+      try {
+        const { data: recipes } = await this._lc.api.loot.getRecipesForLoot(chest.lootId)
+        const recipe = recipes.find((r) => r.slots.some((s) => s.lootIds.includes(LOOT_KEY_ID)))
+        if (recipe) {
+          result[chest.lootId] = recipe.recipeName
+        }
+      } catch (error) {
+        this._log.warn(`Failed to get recipes for ${chest.lootId}: ${formatError(error)}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * 按顺序执行计划中的操作, 失败的操作不影响后续操作
+   * 分解无法撤销, 因此执行前会根据当前的战利品和规则重新生成计划, 不在其中的操作会被跳过
+   */
+  async execute(operations: LootPlanOperation[]) {
+    if (this.state.isExecuting) {
+      throw new Error('Already executing')
+    }
+
+    if (!this._lc.state.isConnected) {
+      throw new Error('League Client is not connected')
+    }
+
+    this.state.setExecuting(true)
+
+    let succeeded = 0
+    try {
+      const { operations: planned } = await this.dryRun()
+
+      for (const operation of operations) {
+        if (!this._lc.state.isConnected) {
+          break
+        }
+
+        if (!this._takePlannedOperation(operation, planned)) {
+          this._log.warn(`Skipped loot operation not in current plan: ${operation.recipeName}`)
+          this.state.addLog(
+            {
+              time: Date.now(),
+              operation,
+              success: false,
+              added: [],
+              reason: 'Operation does not match the current loot or rules'
+            },
+            LootAutomationMain.MAX_LOGS
+          )
+          continue
+        }
+
+        try {
+          const { data } = await this._lc.api.loot.craftLoot(
+            operation.recipeName,
+            operation.repeat,
+            operation.lootIds
+          )
+
+          this.state.addLog(
+            {
+              time: Date.now(),
+              operation,
+              success: true,
+              added: data.added.map((a) => ({
+                name: a.playerLoot.localizedName || a.playerLoot.lootName,
+                count: a.deltaCount
+              }))
+            },
+            LootAutomationMain.MAX_LOGS
+          )
+
+          succeeded++
+        } catch (error) {
+          this._log.warn(`Failed to craft ${operation.recipeName}: ${formatError(error)}`)
+          this.state.addLog(
+            {
+              time: Date.now(),
+              operation,
+              success: false,
+              added: [],
+              reason: formatError(error)
+            },
+            LootAutomationMain.MAX_LOGS
+          )
+        }
+
+        await sleep(LootAutomationMain.CRAFT_INTERVAL)
+      }
+    } finally {
+      this.state.setExecuting(false)
+    }
+
+    this._log.info(`Executed loot operations: ${succeeded}/${operations.length} succeeded`)
+
+    return { total: operations.length, succeeded }
+  }
+
+  /**
+   * 操作需要与重新生成的计划中的某一项使用相同的配方和战利品, 且次数不超过计划的次数
+   * 匹配的项会从计划中移除, 以免同一操作被重复执行
+   */
+  private _takePlannedOperation(operation: LootPlanOperation, planned: LootPlanOperation[]) {
+    if (
+      !operation ||
+      typeof operation.recipeName !== 'string' ||
+      !Array.isArray(operation.lootIds) ||
+      !Number.isSafeInteger(operation.repeat) ||
+      operation.repeat <= 0
+    ) {
+      return false
+    }
+
+    const index = planned.findIndex(
+      (p) =>
+        p.kind === operation.kind &&
+        p.recipeName === operation.recipeName &&
+        p.lootIds.length === operation.lootIds.length &&
+        p.lootIds.every((id, i) => id === operation.lootIds[i]) &&
+        operation.repeat <= p.repeat
+    )
+
+    if (index === -1) {
+      return false
+    }
+
+    planned.splice(index, 1)
+    return true
+  }
+
+  private _handleIpcCall() {
+    this._ipc.onCall(LootAutomationMain.id, 'dryRun', () => {
+      return this.dryRun()
+    })
+
+    this._ipc.onCall(LootAutomationMain.id, 'execute', (_, operations: LootPlanOperation[]) => {
+      return this.execute(operations)
+    })
+
+    this._ipc.onCall(LootAutomationMain.id, 'clearLogs', () => {
+      this.state.clearLogs()
+    })
+  }
+}
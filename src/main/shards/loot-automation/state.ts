@@ -0,0 +1,58 @@
+import { LootPlanOperation, LootRule } from '@shared/utils/loot-rules'
+import { makeAutoObservable, observable } from 'mobx'
+
+export class LootAutomationSettings {
+  /**
+   * 按顺序应用的规则
+   */
+  rules: LootRule[] = []
+
+  setRules(rules: LootRule[]) {
+    this.rules = rules
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      rules: observable.ref
+    })
+  }
+}
+
+export interface LootOperationLog {
+  time: number
+  operation: LootPlanOperation
+  success: boolean
+
+  /**
+   * 实际获得的战利品, 如打开宝箱的结果
+   */
+  added: { name: string; count: number }[]
+  reason?: string
+}
+
+export class LootAutomationState {
+  isExecuting: boolean = false
+
+  /**
+   * 最近执行的操作, 新的在前
+   */
+  logs: LootOperationLog[] = []
+
+  setExecuting(executing: boolean) {
+    this.isExecuting = executing
+  }
+
+  addLog(log: LootOperationLog, max: number) {
+    this.logs = [log, ...this.logs].slice(0, max)
+  }
+
+  clearLogs() {
+    this.logs = []
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      logs: observable.ref
+    })
+  }
+}
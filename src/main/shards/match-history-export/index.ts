@@ -0,0 +1,274 @@
+import { IAkariShardInitDispose, Shard, SharedGlobalShard } from '@shared/akari-shard'
+import { getSgpServerId } from '@shared/data-sources/sgp/utils'
+import { Game, GameTimeline } from '@shared/types/league-client/match-history'
+import { MatchHistoryGamesAnalysis, analyzeMatchHistory } from '@shared/utils/analysis'
+import dayjs from 'dayjs'
+import { dialog } from 'electron'
+import { format as formatCsv } from 'fast-csv'
+import { once } from 'node:events'
+import fs from 'node:fs'
+import { Writable } from 'node:stream'
+import { finished } from 'node:stream/promises'
+import { Equal, IsNull, Not } from 'typeorm'
+
+import { GameArchiveMain } from '../game-archive'
+import { AkariIpcError, AkariIpcMain } from '../ipc'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { StorageMain } from '../storage'
+import { SavedPlayer } from '../storage/entities/SavedPlayers'
+import { WindowManagerMain } from '../window-manager'
+import { MatchHistoryExportOptions, MatchHistoryExportResult } from './types'
+
+/**
+ * 导出的分析指标, 顺序即为 CSV 的列顺序
+ */
+const EXPORTED_ANALYSIS_FIELDS = [
+  'kills',
+  'deaths',
+  'assists',
+  'kda',
+  'kd',
+  'killParticipationRate',
+  'damageShareOfTeam',
+  'damageShareToTop',
+  'damageDealtToChampionShareOfTeam',
+  'damageDealtToChampionShareToTop',
+  'physicalDamageDealtToChampionShareOfTeam',
+  'magicDamageDealtToChampionShareOfTeam',
+  'trueDamageDealtToChampionShareOfTeam',
+  'damageTakenShareOfTeam',
+  'damageTakenShareToTop',
+  'selfMitigatedShareOfTeam',
+  'healingShareOfTeam',
+  'towerDamageShareOfTeam',
+  'csPerMinute',
+  'csShareOfTeam',
+  'csShareToTop',
+  'goldShareOfTeam',
+  'goldShareToTop',
+  'damageGoldEfficiency',
+  'visionScore',
+  'enemyMissingPings',
+  'flashSlot'
+] as const satisfies readonly (keyof MatchHistoryGamesAnalysis)[]
+
+const EXPORT_COLUMNS = [
+  'puuid',
+  'sgpServerId',
+  'gameId',
+  'gameCreation',
+  'queueId',
+  'gameMode',
+  'gameVersion',
+  'gameDuration',
+  'championId',
+  'position',
+  'win',
+  ...EXPORTED_ANALYSIS_FIELDS,
+  'soloKills',
+  'soloDeaths'
+]
+
+interface ExportRowWriter {
+  write(row: Record<string, any>): Promise<void>
+  end(): Promise<void>
+}
+
+/**
+ * 将本地存档中的对局按局导出为 CSV 或 NDJSON, 便于在表格或 Notebook 中分析
+ */
+@Shard(MatchHistoryExportMain.id)
+export class MatchHistoryExportMain implements IAkariShardInitDispose {
+  static id = 'match-history-export-main'
+
+  private readonly _log: AkariLogger
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _shared: SharedGlobalShard,
+    private readonly _storage: StorageMain,
+    private readonly _gameArchive: GameArchiveMain
+  ) {
+    this._log = _loggerFactory.create(MatchHistoryExportMain.id)
+  }
+
+  async onInit() {
+    this._ipc.onCall(
+      MatchHistoryExportMain.id,
+      'exportMatchHistory',
+      async (_, options: MatchHistoryExportOptions) => {
+        const w = this._shared.manager.getInstance('window-manager-main') as WindowManagerMain
+
+        if (!w || !w.mainWindow.window) {
+          throw new AkariIpcError('WindowManagerMain not found', 'WindowManagerMainNotFound')
+        }
+
+        const extension = options.format === 'csv' ? 'csv' : 'ndjson'
+        const result = await dialog.showSaveDialog(w.mainWindow.window, {
+          defaultPath: `league-akari-match-history-${dayjs().format('YYYYMMDD-HHmmss')}.${extension}`,
+          filters: [{ name: extension.toUpperCase(), extensions: [extension] }]
+        })
+
+        if (result.canceled) {
+          return
+        }
+
+        return this.exportToFile(result.filePath, options)
+      }
+    )
+  }
+
+  /**
+   * 按局导出玩家的存档对局, 无法分析的对局 (如人机, 提前投降) 会被跳过
+   */
+  async exportToFile(
+    path: string,
+    options: MatchHistoryExportOptions
+  ): Promise<MatchHistoryExportResult> {
+    const players = await this._resolvePlayers(options)
+    const writer = this._createWriter(path, options.format)
+
+    let rows = 0
+    try {
+      for (const { puuid, sgpServerId } of players) {
+        const chunks = this._gameArchive.iteratePlayerGamesInRange({
+          puuid,
+          sgpServerId,
+          queueIds: options.queueIds,
+          from: options.from,
+          to: options.to
+        })
+
+        for await (const games of chunks) {
+          for (const { game, timeline } of games) {
+            const row = this._toRow(puuid, sgpServerId, game, timeline)
+            if (row) {
+              await writer.write(row)
+              rows++
+            }
+          }
+        }
+      }
+    } finally {
+      await writer.end()
+    }
+
+    this._log.info(`Exported ${rows} games of ${players.length} players to ${path}`)
+
+    return { path, players: players.length, rows }
+  }
+
+  private async _resolvePlayers({ target }: MatchHistoryExportOptions) {
+    if (target.type === 'players') {
+      return target.puuids.map((puuid) => ({ puuid, sgpServerId: target.sgpServerId }))
+    }
+
+    const saved = await this._storage.dataSource.manager.find(SavedPlayer, {
+      where: {
+        selfPuuid: target.selfPuuid ? Equal(target.selfPuuid) : undefined,
+        tag: target.onlyTagged ? Not(IsNull()) : undefined
+      }
+    })
+
+    // 同一玩家可能被多个账号记录
+    const players = new Map<string, { puuid: string; sgpServerId: string }>()
+    for (const p of saved) {
+      const sgpServerId = getSgpServerId(p.region, p.rsoPlatformId)
+      players.set(`${sgpServerId}|${p.puuid}`, { puuid: p.puuid, sgpServerId })
+    }
+
+    return Array.from(players.values())
+  }
+
+  private _toRow(
+    puuid: string,
+    sgpServerId: string,
+    game: Game,
+    timeline: GameTimeline | null
+  ): Record<string, any> | null {
+    const analysis = analyzeMatchHistory(
+      [{ game, isDetailed: true }],
+      puuid,
+      null,
+      timeline ? { [game.gameId]: timeline } : {}
+    )
+
+    const g = analysis?.games[game.gameId]
+    if (!g) {
+      return null
+    }
+
+    const row: Record<string, any> = {
+      puuid,
+      sgpServerId,
+      gameId: game.gameId,
+      gameCreation: dayjs(game.gameCreation).toISOString(),
+      queueId: game.queueId,
+      gameMode: game.gameMode,
+      gameVersion: game.gameVersion,
+      gameDuration: game.gameDuration,
+      championId: g.championId,
+      position: g.position || null,
+      win: g.win
+    }
+
+    for (const field of EXPORTED_ANALYSIS_FIELDS) {
+      row[field] = g[field]
+    }
+
+    // 没有时间线时无法计算
+    row.soloKills = g.soloKills ? g.soloKills.length : null
+    row.soloDeaths = g.soloDeaths ? g.soloDeaths.length : null
+
+    return row
+  }
+
+  private _createWriter(path: string, format: 'csv' | 'ndjson'): ExportRowWriter {
+    const file = fs.createWriteStream(path, 'utf-8')
+
+    // 路径不可写或被占用时, 错误会在打开文件时异步发生, 在下一次写入或结束时抛出
+    let error: Error | null = null
+    file.on('error', (e) => {
+      error = e
+    })
+
+    const throwIfFailed = () => {
+      if (error) {
+        throw error
+      }
+    }
+
+    const writeTo = async (stream: Writable, chunk: unknown) => {
+      throwIfFailed()
+      if (!stream.write(chunk)) {
+        await Promise.race([once(stream, 'drain'), once(file, 'close')])
+        throwIfFailed()
+      }
+    }
+
+    if (format === 'csv') {
+      // 带 BOM 以便 Excel 正确识别编码
+      const csv = formatCsv({ headers: EXPORT_COLUMNS, writeBOM: true })
+      csv.pipe(file)
+
+      return {
+        write: (row) => writeTo(csv, row),
+        end: async () => {
+          throwIfFailed()
+          csv.end()
+          await finished(file)
+        }
+      }
+    }
+
+    return {
+      write: (row) => writeTo(file, `${JSON.stringify(row)}\n`),
+      end: async () => {
+        throwIfFailed()
+        file.end()
+        await finished(file)
+      }
+    }
+  }
+}
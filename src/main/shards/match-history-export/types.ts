@@ -0,0 +1,35 @@
+export type MatchHistoryExportTarget =
+  | {
+      /** 指定的玩家, 如战绩页面中的玩家 */
+      type: 'players'
+      puuids: string[]
+      sgpServerId: string
+    }
+  | {
+      /** 本地记录的玩家 */
+      type: 'saved-players'
+
+      /** 仅导出由该账号记录的玩家 */
+      selfPuuid?: string
+
+      /** 仅导出已标记的玩家 */
+      onlyTagged?: boolean
+    }
+
+export interface MatchHistoryExportOptions {
+  target: MatchHistoryExportTarget
+  format: 'csv' | 'ndjson'
+  queueIds?: number[]
+
+  /**
+   * 对局创建时间的范围 (毫秒时间戳), 包含两端
+   */
+  from?: number
+  to?: number
+}
+
+export interface MatchHistoryExportResult {
+  path: string
+  players: number
+  rows: number
+}
@@ -1,9 +1,14 @@
-import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { IAkariShardInitDispose, Shard, SharedGlobalShard } from '@shared/akari-shard'
+import { JsonPatchOp, diffJson } from '@shared/utils/json-patch'
 import { Paths } from '@shared/utils/types'
 import _ from 'lodash'
 import { IReactionOptions, IReactionPublic, isObservable, reaction, toJS } from 'mobx'
 
 import { AkariIpcMain } from '../ipc'
+import type { LoggerFactoryMain } from '../logger-factory'
+
+// LoggerFactoryMain 依赖于本模块, 只能在使用时获取
+const LOGGER_FACTORY_SHARD_NAMESPACE = 'logger-factory-main'
 
 interface RegisteredState {
   object: object
@@ -15,6 +20,38 @@ interface RegisteredState {
   >
 }
 
+/**
+ * 每个同步属性的增量同步状态
+ */
+interface PropSyncState {
+  /**
+   * 每次推送变化时递增, 渲染进程据此发现遗漏的增量
+   */
+  version: number
+
+  /**
+   * 上一次推送的值, 用于计算增量
+   */
+  snapshot: any
+
+  /**
+   * 无订阅者时不会计算快照, 此时快照已过期, 下一次推送为全量
+   */
+  stale: boolean
+
+  /**
+   * 全量的 JSON 大小, 仅每隔若干次推送采样一次, 其间沿用上一次的值
+   */
+  fullBytes: number
+
+  stats: {
+    updates: number
+    patches: number
+    sentBytes: number
+    fullBytes: number
+  }
+}
+
 /**
  * 封装的 Mobx 工具方法, 负责状态同步
  */
@@ -22,6 +59,21 @@ interface RegisteredState {
 export class MobxUtilsMain implements IAkariShardInitDispose {
   static id = 'mobx-utils-main'
 
+  /**
+   * 增量的大小超过全量的该比例时, 直接推送全量
+   */
+  static PATCH_MAX_SIZE_RATIO = 0.5
+
+  /**
+   * 每个属性每推送该次数后, 重新采样一次全量的大小
+   */
+  static FULL_SIZE_SAMPLE_INTERVAL = 10
+
+  /**
+   * 每个属性每推送该次数后, 记录一次推送大小的统计
+   */
+  static STATS_LOG_INTERVAL = 50
+
   private readonly _disposables = new Set<Function>()
   protected readonly _registeredStates = new Map<string, RegisteredState>()
 
@@ -31,7 +83,20 @@ export class MobxUtilsMain implements IAkariShardInitDispose {
    */
   private readonly _rendererSubscription = new Map<string, Set<number>>()
 
-  constructor(private readonly _ipc: AkariIpcMain) {}
+  /**
+   * uniqueId (namespace:stateId) -> propPath -> 同步状态
+   */
+  private readonly _propSyncStates = new Map<string, Map<string, PropSyncState>>()
+
+  /**
+   * 渲染进程之外的订阅者, 如本地 API
+   */
+  private readonly _propChangeListeners = new Set<(key: string, path: string) => void>()
+
+  constructor(
+    private readonly _ipc: AkariIpcMain,
+    private readonly _shared: SharedGlobalShard
+  ) {}
 
   async onInit() {
     // 用于渲染进程获取初始定义的状态列表
@@ -72,6 +137,21 @@ export class MobxUtilsMain implements IAkariShardInitDispose {
       }
     )
 
+    // 用于渲染进程在发现版本不连续时重新获取全量
+    this._ipc.onCall(
+      MobxUtilsMain.id,
+      'getStatePropSnapshot',
+      (_, namespace: string, stateId: string, propPath: string) => {
+        const key = `${namespace}:${stateId}`
+        if (!this._registeredStates.get(key)?.props.has(propPath)) {
+          throw new Error(`No registered prop path ${propPath} for ${key}`)
+        }
+
+        const { snapshot, version } = this._getSyncSnapshot(key, propPath)
+        return { value: snapshot, version }
+      }
+    )
+
     this._ipc.onCall(
       MobxUtilsMain.id,
       'subscribeAndGetInitialState',
@@ -93,16 +173,15 @@ export class MobxUtilsMain implements IAkariShardInitDispose {
           config
         }))
 
-        const statePlainObject = props.reduce(
-          (acc, { path }) => {
-            const _value = _.get(config.object, path)
-            acc[path] = isObservable(_value) ? toJS(_value) : _value
-            return acc
-          },
-          {} as Record<string, any>
-        )
+        const state: Record<string, any> = {}
+        const versions: Record<string, number> = {}
+        for (const { path } of props) {
+          const sync = this._getSyncSnapshot(key, path)
+          state[path] = sync.snapshot
+          versions[path] = sync.version
+        }
 
-        return statePlainObject
+        return { state, versions }
       }
     )
   }
@@ -112,6 +191,172 @@ export class MobxUtilsMain implements IAkariShardInitDispose {
     this._disposables.clear()
     this._registeredStates.clear()
     this._rendererSubscription.clear()
+    this._propSyncStates.clear()
+    this._propChangeListeners.clear()
+  }
+
+  /**
+   * 已注册的状态及其同步的属性
+   * @returns uniqueId (namespace:stateId) -> propPaths
+   */
+  getRegisteredStates() {
+    const states: Record<string, string[]> = {}
+    for (const [key, config] of this._registeredStates) {
+      states[key] = Array.from(config.props.keys())
+    }
+
+    return states
+  }
+
+  /**
+   * 获取已同步属性的纯数据值, 与推送到渲染进程的值一致
+   */
+  getStatePropValue(key: string, path: string) {
+    if (!this._registeredStates.get(key)?.props.has(path)) {
+      throw new Error(`No registered prop path ${path} for ${key}`)
+    }
+
+    return this._getSyncSnapshot(key, path).snapshot
+  }
+
+  /**
+   * 监听任意已同步属性的变化, 需要时通过 `getStatePropValue` 获取新值
+   */
+  onPropChange(fn: (key: string, path: string) => void) {
+    this._propChangeListeners.add(fn)
+    return () => {
+      this._propChangeListeners.delete(fn)
+    }
+  }
+
+  private _getSyncState(key: string, path: string) {
+    let states = this._propSyncStates.get(key)
+    if (!states) {
+      states = new Map()
+      this._propSyncStates.set(key, states)
+    }
+
+    let sync = states.get(path)
+    if (!sync) {
+      sync = {
+        version: 0,
+        snapshot: undefined,
+        stale: true,
+        fullBytes: -1,
+        stats: { updates: 0, patches: 0, sentBytes: 0, fullBytes: 0 }
+      }
+      states.set(path, sync)
+    }
+
+    return sync
+  }
+
+  /**
+   * 获取最新的快照, 过期时重新计算
+   */
+  private _getSyncSnapshot(key: string, path: string) {
+    const sync = this._getSyncState(key, path)
+
+    if (sync.stale) {
+      const value = _.get(this._registeredStates.get(key)!.object, path)
+      sync.snapshot = isObservable(value) ? toJS(value) : value
+      sync.stale = false
+    }
+
+    return sync
+  }
+
+  private _jsonSize(value: any) {
+    try {
+      return JSON.stringify(value)?.length ?? 0
+    } catch {
+      return Infinity
+    }
+  }
+
+  private _sendPropUpdate(key: string, path: string, newValue: any) {
+    const sync = this._getSyncState(key, path)
+    const subs = this._rendererSubscription.get(key)
+
+    if (!subs || !subs.size) {
+      sync.version++
+      sync.snapshot = undefined
+      sync.stale = true
+      return
+    }
+
+    const value = isObservable(newValue) ? toJS(newValue) : newValue
+    const prev = sync.snapshot
+    const wasStale = sync.stale
+
+    sync.snapshot = value
+    sync.stale = false
+
+    let payload: { action: 'update'; value: any } | { action: 'patch'; ops: JsonPatchOp[] } = {
+      action: 'update',
+      value
+    }
+
+    if (!wasStale && _.isObjectLike(prev) && _.isObjectLike(value)) {
+      const ops = diffJson(prev, value)
+
+      // 结构上没有变化
+      if (!ops.length) {
+        return
+      }
+
+      if (
+        sync.fullBytes < 0 ||
+        sync.stats.updates % MobxUtilsMain.FULL_SIZE_SAMPLE_INTERVAL === 0
+      ) {
+        sync.fullBytes = this._jsonSize(value)
+      }
+
+      const patchBytes = this._jsonSize(ops)
+      const fullBytes = sync.fullBytes
+
+      sync.stats.updates++
+      sync.stats.fullBytes += fullBytes
+
+      if (patchBytes < fullBytes * MobxUtilsMain.PATCH_MAX_SIZE_RATIO) {
+        payload = { action: 'patch', ops }
+        sync.stats.patches++
+        sync.stats.sentBytes += patchBytes
+      } else {
+        sync.stats.sentBytes += fullBytes
+      }
+
+      this._logStats(key, path, sync)
+    }
+
+    sync.version++
+
+    subs.forEach((wcId) => {
+      this._ipc.sendEventToWebContents(
+        wcId,
+        MobxUtilsMain.id,
+        `update-state-prop/${key}`,
+        path,
+        payload.action === 'patch' ? payload.ops : payload.value,
+        { action: payload.action, version: sync.version }
+      )
+    })
+  }
+
+  private _logStats(key: string, path: string, sync: PropSyncState) {
+    const { updates, patches, sentBytes, fullBytes } = sync.stats
+    if (updates % MobxUtilsMain.STATS_LOG_INTERVAL !== 0 || !Number.isFinite(fullBytes)) {
+      return
+    }
+
+    const loggerFactory = this._shared.manager.getInstance(LOGGER_FACTORY_SHARD_NAMESPACE) as
+      LoggerFactoryMain | undefined
+
+    const saved = fullBytes ? ((1 - sentBytes / fullBytes) * 100).toFixed(1) : '0'
+    loggerFactory?.debug(
+      MobxUtilsMain.id,
+      `Prop sync ${key}/${path}: ${updates} updates (${patches} patches), sent ${(sentBytes / 1024).toFixed(1)} KB / full ${(fullBytes / 1024).toFixed(1)} KB, saved ${saved}%`
+    )
   }
 
   /**
@@ -158,16 +403,8 @@ export class MobxUtilsMain implements IAkariShardInitDispose {
       const fn = reaction(
         () => _.get(obj, path),
         (newValue) => {
-          this._rendererSubscription.get(key)?.forEach((wcId) => {
-            this._ipc.sendEventToWebContents(
-              wcId,
-              MobxUtilsMain.id,
-              `update-state-prop/${key}`,
-              path,
-              isObservable(newValue) ? toJS(newValue) : newValue,
-              { action: 'update' }
-            )
-          })
+          this._sendPropUpdate(key, path, newValue)
+          this._propChangeListeners.forEach((fn) => fn(key, path))
         }
       )
 
@@ -3,27 +3,39 @@ import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
 import { EMPTY_PUUID } from '@shared/constants/common'
 import { Game, GameTimeline } from '@shared/types/league-client/match-history'
 import {
+  AkariScoreProfile,
+  DEFAULT_AKARI_SCORE_PROFILE,
+  DEFAULT_AKARI_SCORE_PROFILE_ID,
   MatchHistoryGamesAnalysisAll,
   MatchHistoryGamesAnalysisTeamSide,
   analyzeMatchHistory,
-  analyzeTeamMatchHistory
+  analyzeTeamMatchHistory,
+  resolveAkariScoreProfile
 } from '@shared/utils/analysis'
-import { calculateTogetherTimes, removeOverlappingSubsets } from '@shared/utils/team-up-calc'
+import {
+  calculateTogetherTimes,
+  premadeConfidence,
+  recencyWeight,
+  removeOverlappingSubsets
+} from '@shared/utils/team-up-calc'
 import { isAxiosError } from 'axios'
 import _ from 'lodash'
 import { comparer, computed, runInAction, toJS } from 'mobx'
 import PQueue from 'p-queue'
 import LRUMap from 'quick-lru'
 
+import { GameArchiveMain } from '../game-archive'
+import { ArchivedCoOccurrence } from '../game-archive/types'
 import { AkariIpcMain } from '../ipc'
 import { LeagueClientMain } from '../league-client'
 import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
 import { MobxUtilsMain } from '../mobx-utils'
+import { PositionBaselineMain } from '../position-baseline'
 import { SavedPlayerMain } from '../saved-player'
 import { SettingFactoryMain } from '../setting-factory'
 import { SetterSettingService } from '../setting-factory/setter-setting-service'
 import { SgpMain } from '../sgp'
-import { OngoingGameSettings, OngoingGameState } from './state'
+import { InferredPremadeTeam, OngoingGameSettings, OngoingGameState } from './state'
 
 /**
  * 用于游戏过程中的对局分析, 包括在此期间的战绩查询, 计算等
@@ -60,6 +72,11 @@ export class OngoingGameMain implements IAkariShardInitDispose {
     'q_2300' // BRAWL
   ])
 
+  /**
+   * 预组队计算中对局权重的半衰期 (天)
+   */
+  static PREMADE_TEAM_HALF_LIFE_DAYS = 60
+
   private readonly _log: AkariLogger
   private readonly _setting: SetterSettingService
 
@@ -97,6 +114,16 @@ export class OngoingGameMain implements IAkariShardInitDispose {
   private readonly _queue = new PQueue()
   private _controller: AbortController | null = null
 
+  /**
+   * 存档中的同队记录, key 为排序后的队伍玩家列表
+   */
+  private _coOccurrenceLruMap = new LRUMap<string, ArchivedCoOccurrence[]>({
+    maxSize: 20
+  })
+
+  /** 用于丢弃过时的预组队计算结果 */
+  private _premadeTeamsUpdateId = 0
+
   private _debouncedUpdateMatchHistoryFn = _.debounce(() => this._updateMatchHistory(), 250)
 
   constructor(
@@ -106,7 +133,9 @@ export class OngoingGameMain implements IAkariShardInitDispose {
     private readonly _mobx: MobxUtilsMain,
     private readonly _ipc: AkariIpcMain,
     private readonly _sgp: SgpMain,
-    private readonly _saved: SavedPlayerMain
+    private readonly _saved: SavedPlayerMain,
+    private readonly _archive: GameArchiveMain,
+    private readonly _baseline: PositionBaselineMain
   ) {
     this._log = _loggerFactory.create(OngoingGameMain.id)
     this._setting = _settingFactory.register(
@@ -116,9 +145,11 @@ export class OngoingGameMain implements IAkariShardInitDispose {
         enabled: { default: this.settings.enabled },
         matchHistoryLoadCount: { default: this.settings.matchHistoryLoadCount },
         premadeTeamThreshold: { default: this.settings.premadeTeamThreshold },
+        premadeTeamUseArchivedGames: { default: this.settings.premadeTeamUseArchivedGames },
         matchHistoryUseSgpApi: { default: this.settings.matchHistoryUseSgpApi },
         matchHistoryTagPreference: { default: this.settings.matchHistoryTagPreference },
-        gameTimelineLoadCount: { default: this.settings.matchHistoryLoadCount }
+        gameTimelineLoadCount: { default: this.settings.matchHistoryLoadCount },
+        akariScoreProfiles: { default: this.settings.akariScoreProfiles }
       },
       this.settings
     )
@@ -132,9 +163,11 @@ export class OngoingGameMain implements IAkariShardInitDispose {
       'enabled',
       'matchHistoryLoadCount',
       'premadeTeamThreshold',
+      'premadeTeamUseArchivedGames',
       'matchHistoryUseSgpApi',
       'matchHistoryTagPreference',
-      'gameTimelineLoadCount'
+      'gameTimelineLoadCount',
+      'akariScoreProfiles'
     ])
     this._mobx.propSync(OngoingGameMain.id, 'state', this.state, [
       'championSelections',
@@ -197,6 +230,54 @@ export class OngoingGameMain implements IAkariShardInitDispose {
 
       await setter(this.settings.matchHistoryLoadCount)
     })
+
+    this._setting.onChange('akariScoreProfiles', async (value, { setter }) => {
+      if (!Array.isArray(value) || !value.every((p) => this._isValidAkariScoreProfile(p))) {
+        this._log.warn('Invalid Akari Score profiles', value)
+        return
+      }
+
+      // 总是保留一个默认配置用于兜底
+      if (!value.some((p) => p.id === DEFAULT_AKARI_SCORE_PROFILE_ID)) {
+        value = [DEFAULT_AKARI_SCORE_PROFILE, ...value]
+      }
+
+      await setter(value)
+    })
+  }
+
+  private _isValidAkariScoreProfile(profile: any): profile is AkariScoreProfile {
+    if (typeof profile !== 'object' || profile === null) {
+      return false
+    }
+
+    if (typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+      return false
+    }
+
+    if (
+      typeof profile.weights !== 'object' ||
+      profile.weights === null ||
+      Object.keys(DEFAULT_AKARI_SCORE_PROFILE.weights).some(
+        (key) => typeof profile.weights[key] !== 'number' || !Number.isFinite(profile.weights[key])
+      )
+    ) {
+      return false
+    }
+
+    const isThreshold = (value: unknown) => Number.isFinite(value) && (value as number) >= 0
+    const isMinGames = (value: unknown) => Number.isSafeInteger(value) && (value as number) >= 0
+
+    return (
+      isThreshold(profile.goodThreshold) &&
+      isThreshold(profile.greatThreshold) &&
+      isMinGames(profile.goodMinGames) &&
+      isMinGames(profile.greatMinGames) &&
+      Array.isArray(profile.queueIds) &&
+      profile.queueIds.every((q: any) => typeof q === 'number') &&
+      Array.isArray(profile.gameModes) &&
+      profile.gameModes.every((m: any) => typeof m === 'string')
+    )
   }
 
   private _handlePQueue() {
@@ -241,6 +322,7 @@ export class OngoingGameMain implements IAkariShardInitDispose {
 
         if (stage.phase === 'unavailable' || !enabled || (useSgpApi && !tokenReady)) {
           this.state.clear()
+          this._coOccurrenceLruMap.clear()
           this.state.setMatchHistoryTag('all')
           this._ipc.sendEvent(OngoingGameMain.id, 'clear')
           return
@@ -380,6 +462,7 @@ export class OngoingGameMain implements IAkariShardInitDispose {
     }
 
     this.state.clear()
+    this._coOccurrenceLruMap.clear()
     this._ipc.sendEvent(OngoingGameMain.id, 'clear')
 
     this._controller = new AbortController()
@@ -470,6 +553,18 @@ export class OngoingGameMain implements IAkariShardInitDispose {
         return
       }
 
+      // 时间线与数据来源无关, 存档中有则直接使用
+      const archived = await this._archive.getTimeline(gameId).catch(() => null)
+      if (archived) {
+        this._log.info('Game timeline hit archive', gameId)
+        this._gameTimelineLruMap.set(gameId, archived)
+        runInAction(() => {
+          this.state.gameTimeline[gameId] = archived
+        })
+        this._ipc.sendEvent(OngoingGameMain.id, 'game-timeline-loaded', gameId, archived)
+        return
+      }
+
       if (isAbleToUseSgpApi) {
         this._log.debug('Load game timeline: SGP API', gameId)
 
@@ -512,6 +607,10 @@ export class OngoingGameMain implements IAkariShardInitDispose {
             source: 'lcu' as 'sgp' | 'lcu'
           }
 
+          this._archive
+            .saveTimeline(gameId, res.data, 'lcu')
+            .catch((error) => this._log.warn('Failed to archive game timeline', gameId, error))
+
           this._gameTimelineLruMap.set(gameId, toBeLoaded)
           runInAction(() => {
             this.state.gameTimeline[gameId] = toBeLoaded
@@ -555,6 +654,18 @@ export class OngoingGameMain implements IAkariShardInitDispose {
         return
       }
 
+      // SGP 的数据包含更多字段, 可以替代 LCU 的数据
+      const archived = await this._archive.getGame(gameId).catch(() => null)
+      if (archived && (archived.source === 'sgp' || !isAbleToUseSgpApi)) {
+        this._log.info('Additional game info hit archive', gameId)
+        this._gameLruMap.set(gameId, archived)
+        runInAction(() => {
+          this.state.additionalGame[gameId] = archived
+        })
+        this._ipc.sendEvent(OngoingGameMain.id, 'additional-game-loaded', gameId, archived)
+        return
+      }
+
       if (isAbleToUseSgpApi) {
         this._log.info('Load additional game info: SGP API', gameId)
 
@@ -597,6 +708,10 @@ export class OngoingGameMain implements IAkariShardInitDispose {
             source: 'lcu' as 'sgp' | 'lcu'
           }
 
+          this._archive
+            .saveGame(res.data, 'lcu')
+            .catch((error) => this._log.warn('Failed to archive game', gameId, error))
+
           this._gameLruMap.set(gameId, toBeLoaded)
           runInAction(() => {
             this.state.additionalGame[gameId] = toBeLoaded
@@ -703,6 +818,13 @@ export class OngoingGameMain implements IAkariShardInitDispose {
           return
         }
 
+        const archived = await this._archive.getGame(gameId).catch(() => null)
+        if (archived) {
+          this._gameLruMap.set(gameId, archived)
+          detailedGameMap[gameId] = archived.data
+          return
+        }
+
         const res = await this._queue
           .add(() => this._lc.api.matchHistory.getGame(gameId), {
             signal, // 使用公用的 signal
@@ -715,6 +837,9 @@ export class OngoingGameMain implements IAkariShardInitDispose {
             source: 'lcu',
             data: res.data
           })
+          this._archive
+            .saveGame(res.data, 'lcu')
+            .catch((error) => this._log.warn('Failed to archive game', gameId, error))
           detailedGameMap[gameId] = res.data
         }
       }
@@ -949,7 +1074,51 @@ export class OngoingGameMain implements IAkariShardInitDispose {
     })
   }
 
-  private _calcTeamUp() {
+  /**
+   * 从存档中读取当前各队伍玩家之间的同队记录
+   */
+  private async _loadArchivedCoOccurrences() {
+    if (!this.state.teams || !this.settings.premadeTeamUseArchivedGames) {
+      return []
+    }
+
+    const result: ArchivedCoOccurrence[] = []
+    for (const teamPlayers of Object.values(this.state.teams)) {
+      const key = [...teamPlayers].sort().join(',')
+
+      let coOccurrences = this._coOccurrenceLruMap.get(key)
+      if (!coOccurrences) {
+        coOccurrences = await this._archive.queryCoOccurrences(teamPlayers)
+        this._coOccurrenceLruMap.set(key, coOccurrences)
+      }
+
+      result.push(...coOccurrences)
+    }
+
+    return result
+  }
+
+  private async _updateInferredPremadeTeams() {
+    const updateId = ++this._premadeTeamsUpdateId
+
+    let archived: ArchivedCoOccurrence[] = []
+    try {
+      archived = await this._loadArchivedCoOccurrences()
+    } catch (error) {
+      this._log.warn('Failed to load archived co-occurrences', error)
+    }
+
+    if (updateId !== this._premadeTeamsUpdateId) {
+      return
+    }
+
+    this.state.setInferredPremadeTeams(this._calcTeamUp(archived) || {})
+  }
+
+  /**
+   * @param archived 存档中的同队记录, 与已加载战绩重复的对局会被忽略
+   */
+  private _calcTeamUp(archived: ArchivedCoOccurrence[] = []) {
     if (!this.state.teams) {
       return null
     }
@@ -958,12 +1127,15 @@ export class OngoingGameMain implements IAkariShardInitDispose {
       .map((m) => m.data)
       .flat()
 
-    if (!games.length) {
+    if (!games.length && !archived.length) {
       return null
     }
 
+    const now = Date.now()
+    const loadedGameIds = new Set(games.map((g) => g.gameId))
+
     // 统计所有目前游戏中的每个队伍，并且将这些队伍分别视为一个独立的个体，使用 `${游戏ID}|${队伍ID}` 进行唯一区分
-    const teamSides = new Map<string, string[]>()
+    const teamSides = new Map<string, { players: string[]; weight: number }>()
     for (const game of games) {
       const mode = game.gameMode
 
@@ -1011,11 +1183,24 @@ export class OngoingGameMain implements IAkariShardInitDispose {
         if (teamSides.has(sideId)) {
           return
         }
-        teamSides.set(sideId, players)
+        // 已加载的对局按场次计算, 与阈值的含义保持一致
+        teamSides.set(sideId, { players, weight: 1 })
+      })
+    }
+
+    // 存档中的记录作为补充, 已加载的对局以战绩中的数据为准, 仅存档中的对局按时间衰减
+    for (const side of archived) {
+      if (loadedGameIds.has(side.gameId) || teamSides.has(side.id)) {
+        continue
+      }
+
+      teamSides.set(side.id, {
+        players: side.players,
+        weight: recencyWeight(side.gameCreation, now, OngoingGameMain.PREMADE_TEAM_HALF_LIFE_DAYS)
       })
     }
 
-    const matches = Array.from(teamSides).map(([id /* sideId */, players]) => ({ id, players }))
+    const matches = Array.from(teamSides).map(([id /* sideId */, side]) => ({ id, ...side }))
 
     // key: teamSide, values: { players: string[], times: number }[]
     const result = Object.entries(this.state.teams).reduce(
@@ -1029,16 +1214,31 @@ export class OngoingGameMain implements IAkariShardInitDispose {
         {
           players: string[]
           times: number
+          weight: number
         }[]
       >
     )
 
-    // teamSide -> players[][]
-    const combinedGroups: Record<string, string[][]> = {}
+    // teamSide -> InferredPremadeTeam[]
+    const combinedGroups: Record<string, InferredPremadeTeam[]> = {}
 
     for (const [team, playerGroups] of Object.entries(result)) {
       const groups = playerGroups.map((pg) => pg.players)
-      combinedGroups[team] = removeOverlappingSubsets(groups) as string[][]
+      const merged = removeOverlappingSubsets(groups) as string[][]
+
+      // 合并后的队伍取其中各组的最小值, 作为保守估计
+      combinedGroups[team] = merged.map((players) => {
+        const set = new Set(players)
+        const parts = playerGroups.filter((pg) => pg.players.every((p) => set.has(p)))
+
+        return {
+          players,
+          times: Math.min(...parts.map((pg) => pg.times)),
+          confidence: Math.min(
+            ...parts.map((pg) => premadeConfidence(pg.weight, this.settings.premadeTeamThreshold))
+          )
+        }
+      })
     }
 
     return combinedGroups
@@ -1051,6 +1251,11 @@ export class OngoingGameMain implements IAkariShardInitDispose {
 
     try {
       const playerAnalyses: Record<string, MatchHistoryGamesAnalysisAll> = {}
+      const scoreProfile = resolveAkariScoreProfile(
+        this.settings.akariScoreProfiles,
+        this.state.gameInfo?.queueId,
+        this.state.gameInfo?.gameMode
+      )
 
       for (const [puuid, matchHistory] of Object.entries(this.state.matchHistory)) {
         if (!matchHistory) {
@@ -1071,7 +1276,9 @@ export class OngoingGameMain implements IAkariShardInitDispose {
           matchHistory.data.map((g) => ({ game: g, isDetailed: true })),
           puuid,
           undefined,
-          mappedGameTimeline
+          mappedGameTimeline,
+          scoreProfile,
+          this._baseline.state.baselines
         )
         if (analysis) {
           playerAnalyses[puuid] = analysis
@@ -1102,7 +1309,10 @@ export class OngoingGameMain implements IAkariShardInitDispose {
     this._mobx.reaction(
       () => [
         ...Object.values(this.state.matchHistory),
-        ...Object.values(this.state.additionalGame)
+        ...Object.values(this.state.additionalGame),
+        this.settings.akariScoreProfiles,
+        this.state.gameInfo?.queueId,
+        this._baseline.state.baselines
       ],
       (_changedV) => {
         this.state.setPlayerStats(this._calcAnalysis())
@@ -1112,9 +1322,14 @@ export class OngoingGameMain implements IAkariShardInitDispose {
 
     // 重新计算预组队
     this._mobx.reaction(
-      () => [Object.values(this.state.matchHistory), this.settings.premadeTeamThreshold] as const,
-      ([_changedV, _threshold]) => {
-        this.state.setInferredPremadeTeams(this._calcTeamUp() || {})
+      () =>
+        [
+          Object.values(this.state.matchHistory),
+          this.settings.premadeTeamThreshold,
+          this.settings.premadeTeamUseArchivedGames
+        ] as const,
+      ([_changedV, _threshold, _useArchived]) => {
+        this._updateInferredPremadeTeams()
       },
       { delay: 200, equals: comparer.shallow }
     )
@@ -3,6 +3,8 @@ import { Game, GameTimeline } from '@shared/types/league-client/match-history'
 import { RankedStats } from '@shared/types/league-client/ranked'
 import { SummonerInfo } from '@shared/types/league-client/summoner'
 import {
+  AkariScoreProfile,
+  DEFAULT_AKARI_SCORE_PROFILE,
   MatchHistoryGamesAnalysisAll,
   MatchHistoryGamesAnalysisTeamSide
 } from '@shared/utils/analysis'
@@ -12,9 +14,28 @@ import { computed, makeAutoObservable, observable } from 'mobx'
 import { LeagueClientData } from '../league-client/lc-state'
 import { SavedPlayer } from '../storage/entities/SavedPlayers'
 
+export interface InferredPremadeTeam {
+  players: string[]
+
+  /**
+   * 共同对局的场次
+   */
+  times: number
+
+  /**
+   * 按时间衰减加权后的可信度, 0 - 1
+   */
+  confidence: number
+}
+
 export class OngoingGameSettings {
   enabled: boolean = true
   premadeTeamThreshold: number = 6
+
+  /**
+   * 计算预组队时是否同时参考本地存档中的历史对局
+   */
+  premadeTeamUseArchivedGames: boolean = true
   matchHistoryLoadCount: number = 20
 
   /**
@@ -33,6 +54,11 @@ export class OngoingGameSettings {
    */
   matchHistoryTagPreference: 'current' | 'all' = 'current'
 
+  /**
+   * Akari Score 的计算配置, 按当前队列选用
+   */
+  akariScoreProfiles: AkariScoreProfile[] = [DEFAULT_AKARI_SCORE_PROFILE]
+
   setEnabled(value: boolean) {
     this.enabled = value
   }
@@ -41,6 +67,10 @@ export class OngoingGameSettings {
     this.premadeTeamThreshold = value
   }
 
+  setPremadeTeamUseArchivedGames(value: boolean) {
+    this.premadeTeamUseArchivedGames = value
+  }
+
   setMatchHistoryLoadCount(value: number) {
     this.matchHistoryLoadCount = value
   }
@@ -57,6 +87,10 @@ export class OngoingGameSettings {
     this.gameTimelineLoadCount = value
   }
 
+  setAkariScoreProfiles(value: AkariScoreProfile[]) {
+    this.akariScoreProfiles = value
+  }
+
   constructor() {
     makeAutoObservable(this)
   }
@@ -372,9 +406,9 @@ export class OngoingGameState {
   /**
    * 计算出来的预设队伍
    */
-  inferredPremadeTeams: Record<string, string[][]> = {}
+  inferredPremadeTeams: Record<string, InferredPremadeTeam[]> = {}
 
-  setInferredPremadeTeams(value: Record<string, string[][]>) {
+  setInferredPremadeTeams(value: Record<string, InferredPremadeTeam[]>) {
     this.inferredPremadeTeams = value
   }
 
@@ -0,0 +1,40 @@
+import { ExternalShardConstructor, IAkariShardInitDispose } from '@shared/akari-shard'
+
+import { PluginsMain } from '.'
+import { DiscoveredPlugin } from './manifest'
+
+/**
+ * 为插件创建一个宿主模块, 交给 `AkariManager.useExternal` 注册
+ * 宿主依赖 PluginsMain 和插件声明的内置模块, 插件本身由 PluginsMain 按需加载
+ */
+export function createPluginHost(plugin: DiscoveredPlugin): ExternalShardConstructor {
+  const { id, dependencies } = plugin.manifest
+
+  return class AkariPluginHost implements IAkariShardInitDispose {
+    static id = PluginsMain.getShardId(id)
+    static priority = 0
+    static dependencies = [PluginsMain.id, ...dependencies]
+
+    constructor(
+      private readonly _plugins: PluginsMain,
+      ...shards: any[]
+    ) {
+      this._plugins.attach(
+        plugin,
+        Object.fromEntries(dependencies.map((dep, i) => [dep, shards[i]]))
+      )
+    }
+
+    async onInit() {
+      await this._plugins.activate(id)
+    }
+
+    async onFinish() {
+      await this._plugins.finish(id)
+    }
+
+    async onDispose() {
+      await this._plugins.deactivate(id)
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { Config, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { formatErrorMessage } from '@shared/utils/errors'
+import { shell } from 'electron'
+import { observable } from 'mobx'
+import fs from 'node:fs'
+
+import { AkariIpcMain } from '../ipc'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { DiscoveredPlugin, InvalidPlugin, PluginManifest } from './manifest'
+import { PluginInfo, PluginsSettings, PluginsState } from './state'
+
+export interface PluginsConfig {
+  dir: string
+  plugins: DiscoveredPlugin[]
+  invalid: InvalidPlugin[]
+}
+
+/**
+ * 传递给插件构造函数的上下文
+ */
+export interface AkariPluginContext {
+  manifest: PluginManifest
+  dir: string
+  logger: AkariLogger
+
+  /**
+   * 插件的设置项, 是一个 Mobx 可观察对象
+   */
+  settings: Record<string, any>
+
+  /**
+   * 用于修改设置项, 命名空间为 `plugin:<id>`
+   */
+  setting: SetterSettingService
+
+  /**
+   * 清单中声明的内置模块实例, 以模块 ID 为键
+   */
+  shards: Record<string, any>
+}
+
+/**
+ * 插件的入口文件需要导出一个类 (`module.exports` 或 `default`), 生命周期与其他模块相同
+ */
+export type AkariPluginConstructor = new (context: AkariPluginContext) => IAkariShardInitDispose
+
+class PluginTimeoutError extends Error {
+  name = 'PluginTimeoutError'
+}
+
+interface PluginEntry {
+  plugin: DiscoveredPlugin
+  context: AkariPluginContext
+  instance: IAkariShardInitDispose | null
+  status: PluginInfo['status']
+  error: string | null
+}
+
+/**
+ * 管理 userData 下 `plugins/` 中的第三方插件
+ * 每个插件通过 `AkariManager.useExternal` 注册一个宿主模块, 插件自身的错误不会传递到宿主之外
+ */
+@Shard(PluginsMain.id)
+export class PluginsMain implements IAkariShardInitDispose {
+  static id = 'plugins-main'
+
+  static PLUGINS_DIR_NAME = 'plugins'
+
+  /**
+   * 插件 onInit 和 onFinish 的超时时间 (ms), 应小于宿主模块自身的超时时间
+   */
+  static PLUGIN_LIFECYCLE_TIMEOUT = 15e3
+
+  public readonly settings = new PluginsSettings()
+  public readonly state = new PluginsState()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  private readonly _entries = new Map<string, PluginEntry>()
+
+  static getShardId(pluginId: string) {
+    return `plugin:${pluginId}`
+  }
+
+  constructor(
+    private readonly _loggerFactory: LoggerFactoryMain,
+    private readonly _settingFactory: SettingFactoryMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    @Config() private readonly _config: PluginsConfig
+  ) {
+    this._log = _loggerFactory.create(PluginsMain.id)
+    this._setting = _settingFactory.register(
+      PluginsMain.id,
+      {
+        disabledPlugins: { default: this.settings.disabledPlugins }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+
+    this._mobx.propSync(PluginsMain.id, 'settings', this.settings, ['disabledPlugins'])
+    this._mobx.propSync(PluginsMain.id, 'state', this.state, ['plugins'])
+
+    for (const { dirName, error } of this._config.invalid) {
+      this._log.warn(`Invalid plugin ${dirName}: ${error}`)
+    }
+
+    this._updateState()
+
+    this._ipc.onCall(PluginsMain.id, 'setPluginEnabled', (_, id: string, enabled: boolean) => {
+      return this.setPluginEnabled(id, enabled)
+    })
+
+    this._ipc.onCall(PluginsMain.id, 'openPluginsDir', async () => {
+      await fs.promises.mkdir(this._config.dir, { recursive: true })
+      return shell.openPath(this._config.dir)
+    })
+  }
+
+  /**
+   * 由宿主模块在构造时调用, 此时设置项尚未加载
+   */
+  attach(plugin: DiscoveredPlugin, shards: Record<string, any>) {
+    const { manifest } = plugin
+    const namespace = PluginsMain.getShardId(manifest.id)
+
+    const settings = observable({ ...manifest.settings })
+    const schema = Object.fromEntries(
+      Object.entries(manifest.settings).map(([key, value]) => [key, { default: value }])
+    )
+
+    this._entries.set(manifest.id, {
+      plugin,
+      instance: null,
+      status: 'disabled',
+      error: null,
+      context: {
+        manifest,
+        dir: plugin.dir,
+        logger: this._loggerFactory.create(namespace),
+        settings,
+        setting: this._settingFactory.register(namespace, schema, settings),
+        shards
+      }
+    })
+  }
+
+  /**
+   * 加载并初始化插件, 已禁用的插件会被跳过
+   * @param finish 在应用启动完成后启用时, 需要立即调用 onFinish
+   */
+  async activate(id: string, finish = false) {
+    const entry = this._entries.get(id)
+    if (!entry || entry.instance) {
+      return
+    }
+
+    if (this.settings.disabledPlugins.includes(id)) {
+      this._setStatus(entry, 'disabled')
+      return
+    }
+
+    try {
+      await entry.context.setting.applyToState()
+
+      const mod = require(entry.plugin.mainPath)
+      const PluginClass: AkariPluginConstructor = mod?.default ?? mod
+      if (typeof PluginClass !== 'function') {
+        throw new Error('Plugin entry must export a class')
+      }
+
+      const instance = new PluginClass(entry.context)
+      entry.instance = instance
+      await this._withTimeout(id, 'onInit', async () => instance.onInit?.())
+
+      if (finish) {
+        await this._withTimeout(id, 'onFinish', async () => instance.onFinish?.())
+      }
+
+      this._setStatus(entry, 'running')
+      this._log.info(`Plugin ${id}@${entry.plugin.manifest.version} activated`)
+    } catch (error) {
+      await this._fail(entry, error)
+    }
+  }
+
+  async finish(id: string) {
+    const entry = this._entries.get(id)
+    if (!entry?.instance) {
+      return
+    }
+
+    const instance = entry.instance
+    try {
+      await this._withTimeout(id, 'onFinish', async () => instance.onFinish?.())
+    } catch (error) {
+      await this._fail(entry, error)
+    }
+  }
+
+  async deactivate(id: string) {
+    const entry = this._entries.get(id)
+    if (!entry) {
+      return
+    }
+
+    await this._disposeInstance(entry)
+    this._setStatus(entry, 'disabled')
+  }
+
+  async setPluginEnabled(id: string, enabled: boolean) {
+    if (!this._entries.has(id)) {
+      throw new Error(`Plugin ${id} not found`)
+    }
+
+    const disabled = this.settings.disabledPlugins.filter((p) => p !== id)
+    if (!enabled) {
+      disabled.push(id)
+    }
+
+    await this._setting.set('disabledPlugins', disabled)
+
+    if (enabled) {
+      await this.activate(id, true)
+    } else {
+      await this.deactivate(id)
+    }
+  }
+
+  /**
+   * 插件的生命周期无法被取消, 超时后仅不再等待其完成
+   */
+  private _withTimeout(id: string, phase: string, fn: () => Promise<unknown>) {
+    const timeout = PluginsMain.PLUGIN_LIFECYCLE_TIMEOUT
+    let timer: NodeJS.Timeout
+
+    return Promise.race([
+      fn(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new PluginTimeoutError(`Plugin ${id} ${phase} timed out (${timeout}ms)`)),
+          timeout
+        )
+      })
+    ]).finally(() => clearTimeout(timer))
+  }
+
+  private async _fail(entry: PluginEntry, error: unknown) {
+    const { id } = entry.plugin.manifest
+
+    // 超时的插件会被禁用, 以免每次启动都被其拖慢
+    if (error instanceof PluginTimeoutError) {
+      this._log.warn(`${error.message}, disabling it`)
+
+      if (!this.settings.disabledPlugins.includes(id)) {
+        await this._setting.set('disabledPlugins', [...this.settings.disabledPlugins, id])
+      }
+    } else {
+      this._log.warn(`Plugin ${id} failed`, error)
+    }
+
+    await this._disposeInstance(entry)
+    this._setStatus(entry, 'failed', formatErrorMessage(error))
+  }
+
+  /**
+   * 同时清除模块缓存, 以便在不重启的情况下更新插件
+   */
+  private async _disposeInstance(entry: PluginEntry) {
+    const instance = entry.instance
+    entry.instance = null
+
+    if (instance) {
+      try {
+        await instance.onDispose?.()
+      } catch (error) {
+        this._log.warn(`Plugin ${entry.plugin.manifest.id} failed to dispose`, error)
+      }
+    }
+
+    delete require.cache[entry.plugin.mainPath]
+  }
+
+  private _setStatus(
+    entry: PluginEntry,
+    status: PluginInfo['status'],
+    error: string | null = null
+  ) {
+    entry.status = status
+    entry.error = error
+    this._updateState()
+  }
+
+  private _updateState() {
+    const plugins: PluginInfo[] = Array.from(this._entries.values()).map((e) => ({
+      id: e.plugin.manifest.id,
+      name: e.plugin.manifest.name,
+      version: e.plugin.manifest.version,
+      description: e.plugin.manifest.description,
+      status: e.status,
+      error: e.error
+    }))
+
+    for (const { dirName, error } of this._config.invalid) {
+      plugins.push({
+        id: dirName,
+        name: dirName,
+        version: null,
+        description: '',
+        status: 'invalid',
+        error
+      })
+    }
+
+    this.state.setPlugins(plugins)
+  }
+}
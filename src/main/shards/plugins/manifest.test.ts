@@ -0,0 +1,131 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  PLUGIN_MANIFEST_FILENAME,
+  PluginManifestError,
+  discoverPlugins,
+  parsePluginManifest,
+  resolvePluginMainPath
+} from './manifest'
+
+const AKARI_VERSION = '1.3.6'
+
+const validManifest = {
+  id: 'hello-world',
+  version: '1.0.0',
+  akariVersion: '>=1.3.0'
+}
+
+describe('parsePluginManifest', () => {
+  it('fills in defaults', () => {
+    expect(parsePluginManifest(validManifest, AKARI_VERSION)).toEqual({
+      ...validManifest,
+      name: 'hello-world',
+      description: '',
+      main: 'index.js',
+      dependencies: [],
+      settings: {}
+    })
+  })
+
+  it.each([
+    ['a non-object manifest', []],
+    ['an invalid id', { ...validManifest, id: 'Hello World' }],
+    ['an invalid version', { ...validManifest, version: '1.0' }],
+    ['an invalid akariVersion range', { ...validManifest, akariVersion: 'latest' }],
+    ['a non-string dependency', { ...validManifest, dependencies: [1] }],
+    ['non-object settings', { ...validManifest, settings: [] }],
+    ['a non-string main', { ...validManifest, main: 1 }]
+  ])('rejects %s', (_, raw) => {
+    expect(() => parsePluginManifest(raw, AKARI_VERSION)).toThrow(PluginManifestError)
+  })
+
+  it('rejects plugins built for another Akari version', () => {
+    expect(() =>
+      parsePluginManifest({ ...validManifest, akariVersion: '>=2.0.0' }, AKARI_VERSION)
+    ).toThrow('Requires League Akari >=2.0.0, current version is 1.3.6')
+  })
+
+  it('accepts prerelease Akari versions', () => {
+    expect(() => parsePluginManifest(validManifest, '1.4.0-beta.1')).not.toThrow()
+  })
+})
+
+describe('resolvePluginMainPath', () => {
+  it('resolves entries inside the plugin directory', () => {
+    expect(resolvePluginMainPath('/plugins/a', 'dist/index.js', path.posix)).toBe(
+      '/plugins/a/dist/index.js'
+    )
+    expect(resolvePluginMainPath('/plugins/a', '..index.js', path.posix)).toBe(
+      '/plugins/a/..index.js'
+    )
+  })
+
+  it('rejects entries outside the plugin directory', () => {
+    expect(resolvePluginMainPath('/plugins/a', '../b/index.js', path.posix)).toBeNull()
+    expect(resolvePluginMainPath('/plugins/a', '/etc/passwd', path.posix)).toBeNull()
+    expect(resolvePluginMainPath('/plugins/a', '.', path.posix)).toBeNull()
+  })
+
+  it('rejects entries on another drive', () => {
+    expect(resolvePluginMainPath('C:\\akari\\plugins\\a', 'D:\\evil.js', path.win32)).toBeNull()
+    expect(resolvePluginMainPath('C:\\akari\\plugins\\a', '..\\b\\index.js', path.win32)).toBeNull()
+    expect(resolvePluginMainPath('C:\\akari\\plugins\\a', 'index.js', path.win32)).toBe(
+      'C:\\akari\\plugins\\a\\index.js'
+    )
+  })
+})
+
+describe('discoverPlugins', () => {
+  let dir: string
+
+  const writePlugin = (dirName: string, manifest: unknown, files: string[] = ['index.js']) => {
+    const pluginDir = path.join(dir, dirName)
+    fs.mkdirSync(pluginDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(pluginDir, PLUGIN_MANIFEST_FILENAME),
+      typeof manifest === 'string' ? manifest : JSON.stringify(manifest)
+    )
+    files.forEach((f) => fs.writeFileSync(path.join(pluginDir, f), ''))
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'akari-plugins-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('collects valid plugins and reports invalid ones separately', () => {
+    writePlugin('valid', validManifest)
+    writePlugin('duplicate', validManifest)
+    writePlugin('broken-json', '{')
+    writePlugin('missing-entry', { ...validManifest, id: 'missing-entry' }, [])
+    writePlugin('escaping-entry', { ...validManifest, id: 'escaping', main: '../valid/index.js' })
+    fs.mkdirSync(path.join(dir, 'no-manifest'))
+
+    const { plugins, invalid } = discoverPlugins(dir, AKARI_VERSION)
+
+    expect(plugins).toHaveLength(1)
+    expect(plugins[0].mainPath).toBe(path.join(plugins[0].dir, 'index.js'))
+    expect(Object.fromEntries(invalid.map((i) => [i.dirName, i.error]))).toEqual({
+      'broken-json': `${PLUGIN_MANIFEST_FILENAME} is not valid JSON`,
+      'missing-entry': 'Entry index.js not found',
+      'escaping-entry': 'Entry ../valid/index.js not found',
+      'no-manifest': `${PLUGIN_MANIFEST_FILENAME} not found`,
+      [plugins[0].dir === path.join(dir, 'valid') ? 'duplicate' : 'valid']:
+        'Duplicate plugin id: hello-world'
+    })
+  })
+
+  it('returns nothing when the directory does not exist', () => {
+    expect(discoverPlugins(path.join(dir, 'missing'), AKARI_VERSION)).toEqual({
+      plugins: [],
+      invalid: []
+    })
+  })
+})
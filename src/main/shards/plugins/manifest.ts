@@ -0,0 +1,183 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { satisfies, valid, validRange } from 'semver'
+
+export const PLUGIN_MANIFEST_FILENAME = 'akari-plugin.json'
+
+/**
+ * 插件目录中的 `akari-plugin.json`
+ */
+export interface PluginManifest {
+  /**
+   * 小写字母, 数字和连字符, 同时作为设置项的命名空间
+   */
+  id: string
+  name: string
+  version: string
+  description: string
+
+  /**
+   * 支持的 League Akari 版本范围, 如 `>=1.3.0`
+   */
+  akariVersion: string
+
+  /**
+   * 入口文件, 相对于插件目录, 默认为 `index.js`
+   */
+  main: string
+
+  /**
+   * 依赖的内置模块 ID, 如 `league-client-main`, 将按顺序注入到插件上下文中
+   */
+  dependencies: string[]
+
+  /**
+   * 插件的设置项及其默认值
+   */
+  settings: Record<string, any>
+}
+
+export interface DiscoveredPlugin {
+  manifest: PluginManifest
+  dir: string
+  mainPath: string
+}
+
+export interface InvalidPlugin {
+  dirName: string
+  error: string
+}
+
+export class PluginManifestError extends Error {
+  name = 'PluginManifestError'
+}
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+export function parsePluginManifest(raw: unknown, akariVersion: string): PluginManifest {
+  if (!isObject(raw)) {
+    throw new PluginManifestError('Manifest must be an object')
+  }
+
+  if (typeof raw.id !== 'string' || !PLUGIN_ID_PATTERN.test(raw.id)) {
+    throw new PluginManifestError(`Invalid plugin id: ${raw.id}`)
+  }
+
+  if (typeof raw.version !== 'string' || !valid(raw.version)) {
+    throw new PluginManifestError(`Invalid plugin version: ${raw.version}`)
+  }
+
+  if (typeof raw.akariVersion !== 'string' || !validRange(raw.akariVersion)) {
+    throw new PluginManifestError(`Invalid akariVersion: ${raw.akariVersion}`)
+  }
+
+  if (!satisfies(akariVersion, raw.akariVersion, { includePrerelease: true })) {
+    throw new PluginManifestError(
+      `Requires League Akari ${raw.akariVersion}, current version is ${akariVersion}`
+    )
+  }
+
+  const dependencies = raw.dependencies ?? []
+  if (!Array.isArray(dependencies) || dependencies.some((d) => typeof d !== 'string')) {
+    throw new PluginManifestError('dependencies must be an array of shard ids')
+  }
+
+  const settings = raw.settings ?? {}
+  if (!isObject(settings)) {
+    throw new PluginManifestError('settings must be an object')
+  }
+
+  if (raw.main !== undefined && typeof raw.main !== 'string') {
+    throw new PluginManifestError('main must be a string')
+  }
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    version: raw.version,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    akariVersion: raw.akariVersion,
+    main: raw.main ?? 'index.js',
+    dependencies,
+    settings
+  }
+}
+
+/**
+ * 入口必须位于插件目录内, 其他盘符上的路径会得到绝对路径的 relative
+ * @returns 入口的绝对路径, 位于插件目录外时返回 null
+ */
+export function resolvePluginMainPath(pluginDir: string, main: string, p = path) {
+  const mainPath = p.resolve(pluginDir, main)
+  const relativeMainPath = p.relative(pluginDir, mainPath)
+
+  if (
+    !relativeMainPath ||
+    relativeMainPath === '..' ||
+    relativeMainPath.startsWith(`..${p.sep}`) ||
+    p.isAbsolute(relativeMainPath)
+  ) {
+    return null
+  }
+
+  return mainPath
+}
+
+/**
+ * 查找目录下的所有插件, 每个插件是一个包含清单文件的子目录
+ * 单个插件的错误不会影响其他插件
+ */
+export function discoverPlugins(dir: string, akariVersion: string) {
+  const plugins: DiscoveredPlugin[] = []
+  const invalid: InvalidPlugin[] = []
+
+  let entries: fs.Dirent[]
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return { plugins, invalid }
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) {
+      continue
+    }
+
+    const pluginDir = path.join(dir, entry.name)
+
+    try {
+      const manifestPath = path.join(pluginDir, PLUGIN_MANIFEST_FILENAME)
+      if (!fs.existsSync(manifestPath)) {
+        throw new PluginManifestError(`${PLUGIN_MANIFEST_FILENAME} not found`)
+      }
+
+      let raw: unknown
+      try {
+        raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+      } catch {
+        throw new PluginManifestError(`${PLUGIN_MANIFEST_FILENAME} is not valid JSON`)
+      }
+
+      const manifest = parsePluginManifest(raw, akariVersion)
+
+      const mainPath = resolvePluginMainPath(pluginDir, manifest.main)
+      if (!mainPath || !fs.existsSync(mainPath)) {
+        throw new PluginManifestError(`Entry ${manifest.main} not found`)
+      }
+
+      if (plugins.some((p) => p.manifest.id === manifest.id)) {
+        throw new PluginManifestError(`Duplicate plugin id: ${manifest.id}`)
+      }
+
+      plugins.push({ manifest, dir: pluginDir, mainPath })
+    } catch (error) {
+      invalid.push({ dirName: entry.name, error: (error as Error).message })
+    }
+  }
+
+  return { plugins, invalid }
+}
@@ -0,0 +1,44 @@
+import { makeAutoObservable, observable } from 'mobx'
+
+export interface PluginInfo {
+  /**
+   * 无效的插件使用目录名
+   */
+  id: string
+  name: string
+  version: string | null
+  description: string
+  status: 'running' | 'disabled' | 'failed' | 'invalid'
+  error: string | null
+}
+
+export class PluginsSettings {
+  /**
+   * 被禁用的插件 ID, 新安装的插件默认启用
+   */
+  disabledPlugins: string[] = []
+
+  setDisabledPlugins(disabledPlugins: string[]) {
+    this.disabledPlugins = disabledPlugins
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      disabledPlugins: observable.struct
+    })
+  }
+}
+
+export class PluginsState {
+  plugins: PluginInfo[] = []
+
+  setPlugins(plugins: PluginInfo[]) {
+    this.plugins = plugins
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      plugins: observable.ref
+    })
+  }
+}
@@ -0,0 +1,161 @@
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import {
+  BASELINE_METRICS,
+  BaselineDistribution,
+  BaselineMetric,
+  baselineKey,
+  calculateQuantiles
+} from '@shared/utils/analysis'
+import { formatError } from '@shared/utils/errors'
+import _ from 'lodash'
+import { IsNull, MoreThan, Not } from 'typeorm'
+
+import { GameArchiveMain } from '../game-archive'
+import { AkariIpcMain } from '../ipc'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { StorageMain } from '../storage'
+import { ArchivedGameParticipant } from '../storage/entities/ArchivedGameParticipant'
+import { PositionBaselineState } from './state'
+
+/**
+ * 根据本地存档的对局, 构建每个队列中每个位置的指标分布, 用于计算玩家数据的百分位
+ */
+@Shard(PositionBaselineMain.id)
+export class PositionBaselineMain implements IAkariShardInitDispose {
+  static id = 'position-baseline-main'
+
+  static REBUILD_DEBOUNCE_MS = 30 * 1000
+  static QUERY_BATCH_SIZE = 5000
+
+  /**
+   * 样本数量不足时不生成对应的基线
+   */
+  static MIN_SAMPLE_COUNT = 30
+
+  public readonly state = new PositionBaselineState()
+
+  private readonly _log: AkariLogger
+
+  /**
+   * 构建期间又有新的构建请求, 当前构建完成后需要再执行一次
+   */
+  private _isRebuildPending = false
+
+  private _debouncedRebuildFn = _.debounce(
+    () =>
+      this.rebuild().catch((error) =>
+        this._log.warn(`Failed to rebuild position baselines: ${formatError(error)}`)
+      ),
+    PositionBaselineMain.REBUILD_DEBOUNCE_MS
+  )
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    private readonly _storage: StorageMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _archive: GameArchiveMain
+  ) {
+    this._log = _loggerFactory.create(PositionBaselineMain.id)
+  }
+
+  async onInit() {
+    this._mobx.propSync(PositionBaselineMain.id, 'state', this.state, ['baselines', 'isBuilding'])
+
+    this._archive.events.on('game-saved', () => this._debouncedRebuildFn())
+    this._archive.events.on('games-removed', () => this._debouncedRebuildFn())
+
+    this._ipc.onCall(PositionBaselineMain.id, 'rebuild', () => this.rebuild())
+
+    this.rebuild().catch((error) =>
+      this._log.warn(`Failed to build position baselines: ${formatError(error)}`)
+    )
+  }
+
+  async onDispose() {
+    this._debouncedRebuildFn.cancel()
+    this._isRebuildPending = false
+  }
+
+  /**
+   * 重新构建所有位置基线
+   */
+  async rebuild() {
+    if (this.state.isBuilding) {
+      this._isRebuildPending = true
+      return
+    }
+
+    this.state.setBuilding(true)
+
+    try {
+      const samples: Record<string, Record<BaselineMetric, number[]>> = {}
+      const counts: Record<string, number> = {}
+
+      // 分批读取, 避免一次性加载过多的行
+      let lastId = 0
+      while (true) {
+        const rows = await this._storage.dataSource.manager.find(ArchivedGameParticipant, {
+          select: { id: true, queueId: true, position: true, baselineMetrics: true },
+          where: {
+            id: MoreThan(lastId),
+            position: Not(IsNull()),
+            baselineMetrics: Not(IsNull())
+          },
+          order: { id: 'ASC' },
+          take: PositionBaselineMain.QUERY_BATCH_SIZE
+        })
+
+        if (!rows.length) {
+          break
+        }
+
+        for (const row of rows) {
+          const key = baselineKey(row.queueId, row.position!)
+
+          if (!samples[key]) {
+            samples[key] = Object.fromEntries(
+              BASELINE_METRICS.map((m) => [m, [] as number[]])
+            ) as Record<BaselineMetric, number[]>
+            counts[key] = 0
+          }
+
+          for (const metric of BASELINE_METRICS) {
+            samples[key][metric].push(row.baselineMetrics![metric])
+          }
+
+          counts[key]++
+        }
+
+        lastId = rows[rows.length - 1].id
+      }
+
+      const distributions: Record<string, BaselineDistribution> = {}
+      for (const [key, values] of Object.entries(samples)) {
+        if (counts[key] < PositionBaselineMain.MIN_SAMPLE_COUNT) {
+          continue
+        }
+
+        distributions[key] = {
+          sampleCount: counts[key],
+          quantiles: Object.fromEntries(
+            BASELINE_METRICS.map((m) => [m, calculateQuantiles(values[m])])
+          ) as Record<BaselineMetric, number[]>
+        }
+      }
+
+      this.state.setBaselines({ updateAt: Date.now(), distributions })
+      this._log.info(`Position baselines built: ${Object.keys(distributions).length} distributions`)
+    } finally {
+      this.state.setBuilding(false)
+
+      if (this._isRebuildPending) {
+        this._isRebuildPending = false
+        this.rebuild().catch((error) =>
+          this._log.warn(`Failed to rebuild position baselines: ${formatError(error)}`)
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { PositionBaselines } from '@shared/utils/analysis'
+import { makeAutoObservable, observable } from 'mobx'
+
+export class PositionBaselineState {
+  /**
+   * 由本地存档的对局构建的位置基线, 尚未构建时为 null
+   */
+  baselines: PositionBaselines | null = null
+
+  isBuilding: boolean = false
+
+  setBaselines(baselines: PositionBaselines | null) {
+    this.baselines = baselines
+  }
+
+  setBuilding(building: boolean) {
+    this.isBuilding = building
+  }
+
+  constructor() {
+    makeAutoObservable(this, {
+      baselines: observable.ref
+    })
+  }
+}
@@ -1,33 +1,59 @@
-import { Shard } from '@shared/akari-shard'
+import { IAkariShardInitDispose, Shard, SharedGlobalShard } from '@shared/akari-shard'
 import { LcuEvent } from '@shared/types/league-client/event'
+import dayjs from 'dayjs'
+import { app, shell } from 'electron'
+import fs from 'node:fs'
+import path from 'node:path'
 
 import { AkariIpcMain } from '../ipc'
 import { LeagueClientMain } from '../league-client'
 import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
 import { MobxUtilsMain } from '../mobx-utils'
+import {
+  LCU_RECORDING_EXT,
+  LcuRecorder,
+  LcuRecordingError,
+  LcuReplayer,
+  listLcuRecordings,
+  readLcuRecording
+} from './lcu-recording'
 import { RendererDebugState } from './state'
 
 @Shard(RendererDebugMain.id)
-export class RendererDebugMain {
+export class RendererDebugMain implements IAkariShardInitDispose {
   static id = 'renderer-debug-main'
 
+  static LCU_RECORDINGS_DIR_NAME = 'lcu-recordings'
+  static PROGRESS_UPDATE_INTERVAL = 500
+
   public readonly state = new RendererDebugState()
 
   private readonly _log: AkariLogger
 
+  private _recorder: LcuRecorder | null = null
+  private _replayer: LcuReplayer | null = null
+  private _progressTimer: NodeJS.Timeout | null = null
+
   constructor(
     private readonly _ipc: AkariIpcMain,
     private readonly _lc: LeagueClientMain,
     private readonly _mobx: MobxUtilsMain,
-    private readonly _loggerFactory: LoggerFactoryMain
+    private readonly _loggerFactory: LoggerFactoryMain,
+    private readonly _shared: SharedGlobalShard
   ) {
     this._log = _loggerFactory.create(RendererDebugMain.id)
   }
 
+  private get _recordingsDir() {
+    return path.join(app.getPath('userData'), RendererDebugMain.LCU_RECORDINGS_DIR_NAME)
+  }
+
   async onInit() {
     this._mobx.propSync(RendererDebugMain.id, 'state', this.state, [
       'sendAllNativeLcuEvents',
-      'logAllLcuEvents'
+      'logAllLcuEvents',
+      'lcuRecording',
+      'lcuReplay'
     ])
 
     this._lc.events.on('/**', (data: LcuEvent) => {
@@ -38,6 +64,8 @@ export class RendererDebugMain {
       if (this.state.logAllLcuEvents) {
         this._log.info(data.uri, data.eventType, data)
       }
+
+      this._recorder?.write(data)
     })
 
     this._mobx.reaction(
@@ -51,9 +79,171 @@ export class RendererDebugMain {
       }
     )
 
+    // 回放的事件会与真实的事件混在一起
+    this._mobx.reaction(
+      () => this._lc.state.isConnected,
+      (connected) => {
+        if (connected && this._replayer) {
+          this._log.info('LCU connected, stopping replay')
+          this.stopLcuReplay()
+        }
+      }
+    )
+
     this._handleIpcCall()
   }
 
+  async onDispose() {
+    this._replayer?.stop()
+    await this.stopLcuRecording()
+  }
+
+  /**
+   * 录制之后的所有 LCU 事件, 以及当前的客户端状态
+   */
+  async startLcuRecording() {
+    if (this._recorder) {
+      throw new LcuRecordingError('Already recording')
+    }
+
+    if (this._replayer) {
+      throw new LcuRecordingError('Cannot record while replaying')
+    }
+
+    await fs.promises.mkdir(this._recordingsDir, { recursive: true })
+
+    const filePath = path.join(
+      this._recordingsDir,
+      `lcu_${dayjs().format('YYYYMMDD_HHmmss')}${LCU_RECORDING_EXT}`
+    )
+
+    this._recorder = new LcuRecorder(
+      filePath,
+      this._shared.global.version,
+      this._lc.data.snapshot()
+    )
+    this._log.info('Started LCU recording', filePath)
+    this._updateProgress()
+    this._startProgressTimer()
+  }
+
+  async stopLcuRecording() {
+    const recorder = this._recorder
+    if (!recorder) {
+      return
+    }
+
+    this._recorder = null
+    this.state.setLcuRecording(null)
+    this._stopProgressTimerIfIdle()
+
+    await recorder.close()
+    this._log.info('Stopped LCU recording', recorder.filePath, recorder.count)
+
+    if (recorder.error) {
+      throw recorder.error
+    }
+  }
+
+  /**
+   * 回放前恢复录制时的客户端状态, 结束后重置, 仅在未连接客户端时可用
+   * 各功能模块会像在真实客户端中一样响应, 它们发出的请求会因为未连接而失败
+   */
+  async replayLcuRecording(fileName: string, speed = 1) {
+    if (this._lc.state.isConnected) {
+      throw new LcuRecordingError('Cannot replay while connected to the League Client')
+    }
+
+    if (this._recorder || this._replayer) {
+      throw new LcuRecordingError('Another recording or replay is in progress')
+    }
+
+    const filePath = path.join(this._recordingsDir, path.basename(fileName))
+    const recording = await readLcuRecording(filePath)
+
+    const replayer = new LcuReplayer(recording, (event) => this._lc.events.emit(event.uri, event))
+    replayer.setSpeed(speed)
+
+    this._replayer = replayer
+    this._lc.data.restore(recording.header.snapshot)
+    this._log.info('Started LCU replay', filePath, recording.entries.length)
+    this._updateProgress(fileName)
+    this._startProgressTimer()
+
+    replayer
+      .run()
+      .then((completed) => this._log.info('LCU replay ended', fileName, completed))
+      .catch((error) => this._log.warn('LCU replay failed', fileName, error))
+      .finally(() => {
+        if (this._replayer !== replayer) {
+          return
+        }
+
+        this._replayer = null
+        this.state.setLcuReplay(null)
+        this._stopProgressTimerIfIdle()
+
+        if (!this._lc.state.isConnected) {
+          this._lc.data.reset()
+        }
+      })
+  }
+
+  setLcuReplaySpeed(speed: number) {
+    if (this._replayer) {
+      this._replayer.setSpeed(speed)
+      this._updateProgress()
+    }
+  }
+
+  stopLcuReplay() {
+    this._replayer?.stop()
+  }
+
+  getLcuRecordings() {
+    return listLcuRecordings(this._recordingsDir)
+  }
+
+  async openLcuRecordingsDir() {
+    await fs.promises.mkdir(this._recordingsDir, { recursive: true })
+    return shell.openPath(this._recordingsDir)
+  }
+
+  private _updateProgress(replayFileName?: string) {
+    if (this._recorder) {
+      this.state.setLcuRecording({
+        fileName: this._recorder.fileName,
+        startedAt: this._recorder.startedAt,
+        eventCount: this._recorder.count
+      })
+    }
+
+    if (this._replayer) {
+      this.state.setLcuReplay({
+        fileName: replayFileName ?? this.state.lcuReplay?.fileName ?? '',
+        speed: this._replayer.speed,
+        position: this._replayer.position,
+        total: this._replayer.total
+      })
+    }
+  }
+
+  private _startProgressTimer() {
+    if (!this._progressTimer) {
+      this._progressTimer = setInterval(
+        () => this._updateProgress(),
+        RendererDebugMain.PROGRESS_UPDATE_INTERVAL
+      )
+    }
+  }
+
+  private _stopProgressTimerIfIdle() {
+    if (this._progressTimer && !this._recorder && !this._replayer) {
+      clearInterval(this._progressTimer)
+      this._progressTimer = null
+    }
+  }
+
   private _handleIpcCall() {
     this._ipc.onCall(RendererDebugMain.id, 'setSendAllNativeLcuEvents', (_, enabled: boolean) => {
       this.state.setSendAllNativeLcuEvents(enabled)
@@ -62,5 +252,41 @@ export class RendererDebugMain {
     this._ipc.onCall(RendererDebugMain.id, 'setLogAllLcuEvents', (_, enabled: boolean) => {
       this.state.setLogAllLcuEvents(enabled)
     })
+
+    this._ipc.onCall(RendererDebugMain.id, 'startLcuRecording', () => {
+      return this.startLcuRecording()
+    })
+
+    this._ipc.onCall(RendererDebugMain.id, 'stopLcuRecording', () => {
+      return this.stopLcuRecording()
+    })
+
+    this._ipc.onCall(RendererDebugMain.id, 'getLcuRecordings', () => {
+      return this.getLcuRecordings()
+    })
+
+    this._ipc.onCall(
+      RendererDebugMain.id,
+      'replayLcuRecording',
+      (_, fileName: string, speed?: number) => {
+        return this.replayLcuRecording(fileName, speed)
+      }
+    )
+
+    this._ipc.onCall(RendererDebugMain.id, 'setLcuReplaySpeed', (_, speed: number) => {
+      this.setLcuReplaySpeed(speed)
+    })
+
+    this._ipc.onCall(RendererDebugMain.id, 'stopLcuReplay', () => {
+      this.stopLcuReplay()
+    })
+
+    this._ipc.onCall(RendererDebugMain.id, 'openLcuRecordingsDir', () => {
+      return this.openLcuRecordingsDir()
+    })
+
+    this._ipc.onCall(RendererDebugMain.id, 'getStartupDiagnostics', () => {
+      return this._shared.manager.getDiagnostics()
+    })
   }
 }
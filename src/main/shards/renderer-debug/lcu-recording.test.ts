@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import { isRecordableUri, redactLcuEventData } from './lcu-recording'
+
+describe('isRecordableUri', () => {
+  it('excludes token and credential resources', () => {
+    expect(isRecordableUri('/lol-league-session/v1/league-session-token')).toBe(false)
+    expect(isRecordableUri('/entitlements/v1/token')).toBe(false)
+    expect(isRecordableUri('/lol-rso-auth/v1/authorization')).toBe(false)
+    expect(isRecordableUri('/lol-gameflow/v1/gameflow-phase')).toBe(true)
+  })
+})
+
+describe('redactLcuEventData', () => {
+  it('removes the body of chat messages but keeps system messages', () => {
+    const uri = '/lol-chat/v1/conversations/abc%40champ-select/messages/1'
+
+    expect(
+      redactLcuEventData(uri, { type: 'groupchat', body: 'hello', fromSummonerId: 1 })
+    ).toEqual({ type: 'groupchat', body: '', fromSummonerId: 1 })
+    expect(redactLcuEventData(uri, { type: 'system', body: 'joined_room' })).toEqual({
+      type: 'system',
+      body: 'joined_room'
+    })
+  })
+
+  it('removes the body of the last message of conversations', () => {
+    const conversation = { id: 'abc', type: 'championSelect', lastMessage: { body: 'gl hf' } }
+
+    expect(redactLcuEventData('/lol-chat/v1/conversations/abc', conversation)).toEqual({
+      ...conversation,
+      lastMessage: { body: '' }
+    })
+    expect(redactLcuEventData('/lol-chat/v1/conversations', [conversation])).toEqual([
+      { ...conversation, lastMessage: { body: '' } }
+    ])
+  })
+
+  it('keeps other events unchanged', () => {
+    const data = { phase: 'ChampSelect' }
+    expect(redactLcuEventData('/lol-gameflow/v1/session', data)).toBe(data)
+  })
+})
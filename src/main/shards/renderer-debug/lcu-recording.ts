@@ -0,0 +1,319 @@
+import { LcuEvent } from '@shared/types/league-client/event'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import type { LeagueClientDataSnapshot } from '../league-client/lc-state'
+
+export const LCU_RECORDING_TYPE = 'akari-lcu-recording'
+export const LCU_RECORDING_VERSION = 1
+export const LCU_RECORDING_EXT = '.ndjson'
+
+/**
+ * 录制文件的第一行
+ */
+export interface LcuRecordingHeader {
+  type: typeof LCU_RECORDING_TYPE
+  version: number
+  appVersion: string
+  startedAt: number
+
+  /**
+   * 开始录制时的客户端状态, 回放前恢复
+   */
+  snapshot: LeagueClientDataSnapshot
+}
+
+/**
+ * 之后的每一行, 时间为距离开始录制的毫秒数
+ */
+export type LcuRecordingEntry = [
+  t: number,
+  uri: string,
+  eventType: LcuEvent['eventType'],
+  data: any
+]
+
+export interface LcuRecording {
+  header: LcuRecordingHeader
+  entries: LcuRecordingEntry[]
+}
+
+export interface LcuRecordingInfo {
+  fileName: string
+  size: number
+  mtime: number
+}
+
+export class LcuRecordingError extends Error {
+  name = 'LcuRecordingError'
+}
+
+/**
+ * 包含令牌或凭据的资源, 不会被录制
+ */
+const EXCLUDED_URIS = [
+  /^\/lol-league-session\/v1\/league-session-token/,
+  /^\/entitlements\/v1\/token/,
+  /^\/riotclient\/auth-token/,
+  /^\/lol-rso-auth\//,
+  /^\/lol-login\/v1\/login-platform-credentials/
+]
+
+export function isRecordableUri(uri: string) {
+  return !EXCLUDED_URIS.some((r) => r.test(uri))
+}
+
+const CHAT_MESSAGE_URI = /^\/lol-chat\/v1\/conversations\/[^/]+\/messages(\/|$)/
+const CHAT_CONVERSATION_URI = /^\/lol-chat\/v1\/conversations(\/[^/]+)?$/
+
+/**
+ * 聊天消息的内容不会被录制. 系统消息 (如 joined_room) 仍保留, 以便回放时还原房间成员
+ */
+export function redactLcuEventData(uri: string, data: any) {
+  const redactMessage = (message: any) => {
+    if (!message || typeof message !== 'object' || message.type === 'system') {
+      return message
+    }
+
+    return { ...message, body: '' }
+  }
+
+  const redactConversation = (conversation: any) => {
+    if (!conversation || typeof conversation !== 'object' || !conversation.lastMessage) {
+      return conversation
+    }
+
+    return { ...conversation, lastMessage: redactMessage(conversation.lastMessage) }
+  }
+
+  if (CHAT_MESSAGE_URI.test(uri)) {
+    return Array.isArray(data) ? data.map(redactMessage) : redactMessage(data)
+  }
+
+  if (CHAT_CONVERSATION_URI.test(uri)) {
+    return Array.isArray(data) ? data.map(redactConversation) : redactConversation(data)
+  }
+
+  return data
+}
+
+/**
+ * 逐行写入, 即使 Akari 意外退出, 已写入的部分也可以回放
+ */
+export class LcuRecorder {
+  private _stream: fs.WriteStream
+  private _count = 0
+  private _error: Error | null = null
+
+  public readonly startedAt = Date.now()
+
+  constructor(
+    public readonly filePath: string,
+    appVersion: string,
+    snapshot: LeagueClientDataSnapshot
+  ) {
+    this._stream = fs.createWriteStream(filePath, { encoding: 'utf-8' })
+    this._stream.on('error', (error) => (this._error = error))
+
+    const header: LcuRecordingHeader = {
+      type: LCU_RECORDING_TYPE,
+      version: LCU_RECORDING_VERSION,
+      appVersion,
+      startedAt: this.startedAt,
+      snapshot
+    }
+
+    this._stream.write(JSON.stringify(header) + '\n')
+  }
+
+  get count() {
+    return this._count
+  }
+
+  get fileName() {
+    return path.basename(this.filePath)
+  }
+
+  get error() {
+    return this._error
+  }
+
+  write(event: LcuEvent) {
+    if (this._error || !isRecordableUri(event.uri)) {
+      return
+    }
+
+    const entry: LcuRecordingEntry = [
+      Date.now() - this.startedAt,
+      event.uri,
+      event.eventType,
+      redactLcuEventData(event.uri, event.data)
+    ]
+
+    this._stream.write(JSON.stringify(entry) + '\n')
+    this._count++
+  }
+
+  close() {
+    return new Promise<void>((resolve) => this._stream.end(() => resolve()))
+  }
+}
+
+export async function readLcuRecording(filePath: string): Promise<LcuRecording> {
+  const lines = (await fs.promises.readFile(filePath, 'utf-8')).split('\n').filter(Boolean)
+
+  if (!lines.length) {
+    throw new LcuRecordingError('Recording is empty')
+  }
+
+  let header: LcuRecordingHeader
+  try {
+    header = JSON.parse(lines[0])
+  } catch {
+    throw new LcuRecordingError('Invalid recording header')
+  }
+
+  if (header?.type !== LCU_RECORDING_TYPE) {
+    throw new LcuRecordingError('Not an LCU recording')
+  }
+
+  if (header.version > LCU_RECORDING_VERSION) {
+    throw new LcuRecordingError(`Unsupported recording version: ${header.version}`)
+  }
+
+  const entries: LcuRecordingEntry[] = []
+  for (let i = 1; i < lines.length; i++) {
+    let entry: LcuRecordingEntry
+    try {
+      entry = JSON.parse(lines[i])
+    } catch {
+      // 录制中断时, 最后一行可能不完整
+      if (i === lines.length - 1) {
+        break
+      }
+
+      throw new LcuRecordingError(`Invalid entry at line ${i + 1}`)
+    }
+
+    if (!Array.isArray(entry) || typeof entry[0] !== 'number' || typeof entry[1] !== 'string') {
+      throw new LcuRecordingError(`Invalid entry at line ${i + 1}`)
+    }
+
+    entries.push(entry)
+  }
+
+  return { header, entries }
+}
+
+export async function listLcuRecordings(dir: string): Promise<LcuRecordingInfo[]> {
+  let files: string[]
+  try {
+    files = await fs.promises.readdir(dir)
+  } catch {
+    return []
+  }
+
+  const infos: LcuRecordingInfo[] = []
+  for (const fileName of files) {
+    if (!fileName.endsWith(LCU_RECORDING_EXT)) {
+      continue
+    }
+
+    try {
+      const stat = await fs.promises.stat(path.join(dir, fileName))
+      infos.push({ fileName, size: stat.size, mtime: stat.mtimeMs })
+    } catch {}
+  }
+
+  return infos.sort((a, b) => b.mtime - a.mtime)
+}
+
+/**
+ * 按照录制时的时间间隔重新发出事件, 速度可在回放过程中调整
+ */
+export class LcuReplayer {
+  static MIN_SPEED = 0.25
+  static MAX_SPEED = 16
+
+  private _speed = 1
+  private _position = 0
+  private _stopped = false
+  private _wake: (() => void) | null = null
+
+  constructor(
+    private readonly _recording: LcuRecording,
+    private readonly _emit: (event: LcuEvent) => void
+  ) {}
+
+  get speed() {
+    return this._speed
+  }
+
+  get position() {
+    return this._position
+  }
+
+  get total() {
+    return this._recording.entries.length
+  }
+
+  setSpeed(speed: number) {
+    if (typeof speed !== 'number' || !Number.isFinite(speed)) {
+      throw new LcuRecordingError(`Invalid replay speed: ${speed}`)
+    }
+
+    this._speed = Math.min(Math.max(speed, LcuReplayer.MIN_SPEED), LcuReplayer.MAX_SPEED)
+    this._wake?.()
+  }
+
+  /**
+   * @returns 是否完整回放
+   */
+  async run() {
+    // 录制时间轴上的当前位置 (ms)
+    let cursor = 0
+
+    for (const [t, uri, eventType, data] of this._recording.entries) {
+      while (!this._stopped && t > cursor) {
+        const speed = this._speed
+        const start = Date.now()
+        await this._sleep((t - cursor) / speed)
+        cursor += (Date.now() - start) * speed
+      }
+
+      if (this._stopped) {
+        return false
+      }
+
+      this._emit({ uri, eventType, data })
+      this._position++
+    }
+
+    return true
+  }
+
+  stop() {
+    this._stopped = true
+    this._wake?.()
+  }
+
+  /**
+   * 可被 setSpeed 和 stop 提前唤醒
+   */
+  private _sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+
+        if (this._wake === done) {
+          this._wake = null
+        }
+
+        resolve()
+      }
+
+      const timer = setTimeout(done, ms)
+      this._wake = done
+    })
+  }
+}
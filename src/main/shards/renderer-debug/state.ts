@@ -1,4 +1,17 @@
-import { makeAutoObservable } from 'mobx'
+import { makeAutoObservable, observable } from 'mobx'
+
+export interface LcuRecordingStatus {
+  fileName: string
+  startedAt: number
+  eventCount: number
+}
+
+export interface LcuReplayStatus {
+  fileName: string
+  speed: number
+  position: number
+  total: number
+}
 
 export class RendererDebugState {
   /**
@@ -8,6 +21,16 @@ export class RendererDebugState {
 
   logAllLcuEvents = false
 
+  /**
+   * 正在录制的 LCU 会话
+   */
+  lcuRecording: LcuRecordingStatus | null = null
+
+  /**
+   * 正在回放的 LCU 会话
+   */
+  lcuReplay: LcuReplayStatus | null = null
+
   setSendAllNativeLcuEvents(enabled: boolean) {
     this.sendAllNativeLcuEvents = enabled
   }
@@ -16,7 +39,18 @@ export class RendererDebugState {
     this.logAllLcuEvents = enabled
   }
 
+  setLcuRecording(status: LcuRecordingStatus | null) {
+    this.lcuRecording = status
+  }
+
+  setLcuReplay(status: LcuReplayStatus | null) {
+    this.lcuReplay = status
+  }
+
   constructor() {
-    makeAutoObservable(this)
+    makeAutoObservable(this, {
+      lcuRecording: observable.ref,
+      lcuReplay: observable.ref
+    })
   }
 }
@@ -0,0 +1,341 @@
+import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { formatError } from '@shared/utils/errors'
+import {
+  ROFL2_METADATA_LENGTH_SIZE,
+  ROFL_HEAD_SIZE,
+  RoflMetadata,
+  RoflParseError,
+  parseRofl2MetadataLength,
+  parseRoflFileName,
+  parseRoflHeader,
+  parseRoflMetadata,
+  parseRoflPayloadHeader,
+  toPatchVersion
+} from '@shared/utils/rofl'
+import { shell } from 'electron'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { GameArchiveMain } from '../game-archive'
+import { AkariIpcMain } from '../ipc'
+import { LeagueClientMain } from '../league-client'
+import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { MobxUtilsMain } from '../mobx-utils'
+import { SettingFactoryMain } from '../setting-factory'
+import { SetterSettingService } from '../setting-factory/setter-setting-service'
+import { ReplayLibrarySettings } from './state'
+import { ReplayCleanupResult, ReplayDownloadResult, ReplayFileInfo } from './types'
+
+/**
+ * 回放文件管理, 扫描回放目录并解析 .rofl 文件, 批量下载和清理旧版本的回放
+ */
+@Shard(ReplayLibraryMain.id)
+export class ReplayLibraryMain implements IAkariShardInitDispose {
+  static id = 'replay-library-main'
+
+  /**
+   * 元数据的长度上限, 超出时视为损坏的文件
+   */
+  static MAX_METADATA_SIZE = 16 * 1024 * 1024
+
+  static MAX_BATCH_DOWNLOAD_COUNT = 20
+
+  public readonly settings = new ReplayLibrarySettings()
+
+  private readonly _log: AkariLogger
+  private readonly _setting: SetterSettingService
+
+  constructor(
+    _loggerFactory: LoggerFactoryMain,
+    _settingFactory: SettingFactoryMain,
+    private readonly _mobx: MobxUtilsMain,
+    private readonly _ipc: AkariIpcMain,
+    private readonly _lc: LeagueClientMain,
+    private readonly _gameArchive: GameArchiveMain
+  ) {
+    this._log = _loggerFactory.create(ReplayLibraryMain.id)
+    this._setting = _settingFactory.register(
+      ReplayLibraryMain.id,
+      {
+        replaysPath: { default: this.settings.replaysPath }
+      },
+      this.settings
+    )
+  }
+
+  async onInit() {
+    await this._setting.applyToState()
+    this._mobx.propSync(ReplayLibraryMain.id, 'settings', this.settings, ['replaysPath'])
+
+    this._mobx.reaction(
+      () => this._lc.state.connectionState,
+      (state) => {
+        if (state === 'connected') {
+          this._updateReplaysPath()
+        }
+      },
+      { fireImmediately: true }
+    )
+
+    this._handleIpcCall()
+  }
+
+  private async _updateReplaysPath() {
+    try {
+      const { data } = await this._lc.api.replays.getReplaysPath()
+      if (data && data !== this.settings.replaysPath) {
+        await this._setting.set('replaysPath', data)
+      }
+    } catch (error) {
+      this._log.warn(`Failed to get replays path: ${formatError(error)}`)
+    }
+  }
+
+  /**
+   * 扫描回放目录下的全部 .rofl 文件, 按修改时间倒序
+   */
+  async scan(): Promise<ReplayFileInfo[]> {
+    const dir = this.settings.replaysPath
+    if (!dir) {
+      throw new Error('Replays path is not available')
+    }
+
+    let entries: fs.Dirent[]
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true })
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return []
+      }
+
+      throw error
+    }
+
+    const files: ReplayFileInfo[] = []
+    for (const entry of entries) {
+      if (!entry.isFile() || path.extname(entry.name).toLowerCase() !== '.rofl') {
+        continue
+      }
+
+      files.push(await this._readReplayFile(path.join(dir, entry.name)))
+    }
+
+    return files.sort((a, b) => b.modifiedAt - a.modifiedAt)
+  }
+
+  private async _readReplayFile(filePath: string): Promise<ReplayFileInfo> {
+    const fileName = path.basename(filePath)
+    const stat = await fs.promises.stat(filePath)
+    const fromName = parseRoflFileName(fileName)
+
+    const info: ReplayFileInfo = {
+      fileName,
+      path: filePath,
+      size: stat.size,
+      modifiedAt: stat.mtimeMs,
+      gameId: fromName?.gameId ?? null,
+      platformId: fromName?.platformId ?? null,
+      gameVersion: null,
+      gameLength: 0,
+      players: [],
+      archived: null,
+      error: null
+    }
+
+    try {
+      const { metadata, gameId, gameVersion } = await this._parseReplayFile(filePath, stat.size)
+      info.gameId = gameId ?? info.gameId
+      info.gameVersion = gameVersion
+      info.gameLength = metadata.gameLength
+      info.players = metadata.players
+    } catch (error) {
+      info.error = formatError(error)
+      this._log.debug(`Failed to parse replay ${fileName}: ${info.error}`)
+    }
+
+    if (info.gameId) {
+      try {
+        const archived = await this._gameArchive.getGame(info.gameId)
+        if (archived) {
+          info.archived = {
+            queueId: archived.data.queueId,
+            gameCreation: archived.data.gameCreation,
+            gameMode: archived.data.gameMode
+          }
+
+          // 无法从文件中获取版本号时使用存档中的
+          info.gameVersion ||= archived.data.gameVersion
+        }
+      } catch (error) {
+        this._log.warn(`Failed to query archived game ${info.gameId}: ${formatError(error)}`)
+      }
+    }
+
+    return info
+  }
+
+  private async _parseReplayFile(filePath: string, size: number) {
+    const handle = await fs.promises.open(filePath, 'r')
+
+    const read = async (position: number, length: number) => {
+      if (position < 0 || length < 0 || position + length > size) {
+        throw new RoflParseError('ROFL section is out of range')
+      }
+
+      if (length > ReplayLibraryMain.MAX_METADATA_SIZE) {
+        throw new RoflParseError('ROFL section is too large')
+      }
+
+      const buffer = Buffer.alloc(length)
+      await handle.read(buffer, 0, length, position)
+      return buffer
+    }
+
+    try {
+      const header = parseRoflHeader(await read(0, Math.min(ROFL_HEAD_SIZE, size)))
+
+      let metadata: RoflMetadata
+      let gameId: number | null = null
+      let gameVersion: string | null
+
+      if (header.version === 1) {
+        metadata = parseRoflMetadata(await read(header.metadataOffset, header.metadataLength))
+        gameId = parseRoflPayloadHeader(
+          await read(header.payloadHeaderOffset, header.payloadHeaderLength)
+        ).gameId
+        gameVersion = metadata.gameVersion
+      } else {
+        const metadataLength = parseRofl2MetadataLength(
+          await read(size - ROFL2_METADATA_LENGTH_SIZE, ROFL2_METADATA_LENGTH_SIZE)
+        )
+        metadata = parseRoflMetadata(
+          await read(size - ROFL2_METADATA_LENGTH_SIZE - metadataLength, metadataLength)
+        )
+        gameVersion = metadata.gameVersion || header.gameVersion
+      }
+
+      return { metadata, gameId, gameVersion }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /**
+   * 通过客户端下载某位玩家最近若干局的回放, 下载在客户端中异步进行
+   */
+  async downloadRecentReplays(puuid: string, count: number): Promise<ReplayDownloadResult[]> {
+    if (!this._lc.state.isConnected) {
+      throw new Error('League Client is not connected')
+    }
+
+    count = Math.max(1, Math.min(Math.floor(count), ReplayLibraryMain.MAX_BATCH_DOWNLOAD_COUNT))
+
+    const { data: conf } = await this._lc.api.replays.getConfiguration()
+    if (!conf.isReplaysEnabled || !conf.isReplaysForMatchHistoryEnabled) {
+      throw new Error('Replays are disabled by League Client')
+    }
+
+    const { data: history } = await this._lc.api.matchHistory.getMatchHistory(puuid, 0, count - 1)
+    const currentPatch = toPatchVersion(conf.gameVersion)
+
+    const results: ReplayDownloadResult[] = []
+    for (const game of history.games.games) {
+      // 客户端只能下载当前版本的回放
+      if (toPatchVersion(game.gameVersion) !== currentPatch) {
+        results.push({ gameId: game.gameId, status: 'incompatible' })
+        continue
+      }
+
+      try {
+        await this._lc.api.replays.createMetadata(game.gameId, {
+          gameVersion: conf.gameVersion,
+          gameType: game.gameType,
+          queueId: game.queueId,
+          gameEnd: game.gameCreation + game.gameDuration * 1000
+        })
+
+        const { data: metadata } = await this._lc.api.replays.getMetadata(game.gameId)
+        if (metadata.state === 'watch') {
+          results.push({ gameId: game.gameId, status: 'exists' })
+        } else if (metadata.state === 'incompatible') {
+          results.push({ gameId: game.gameId, status: 'incompatible' })
+        } else {
+          await this._lc.api.replays.downloadRofl(game.gameId)
+          results.push({ gameId: game.gameId, status: 'queued' })
+        }
+      } catch (error) {
+        this._log.warn(`Failed to download replay ${game.gameId}: ${formatError(error)}`)
+        results.push({ gameId: game.gameId, status: 'failed', reason: formatError(error) })
+      }
+    }
+
+    this._log.info(
+      `Batch download for ${puuid}: ${results.filter((r) => r.status === 'queued').length} queued`
+    )
+
+    return results
+  }
+
+  /**
+   * 删除非当前版本的回放, 它们已无法在客户端中播放
+   * @param gameVersion 当前的客户端版本, 如果不提供则从客户端获取
+   */
+  async cleanupOldPatches(gameVersion?: string): Promise<ReplayCleanupResult> {
+    if (!gameVersion) {
+      if (!this._lc.state.isConnected) {
+        throw new Error('League Client is not connected')
+      }
+
+      gameVersion = (await this._lc.api.replays.getConfiguration()).data.gameVersion
+    }
+
+    const currentPatch = toPatchVersion(gameVersion)
+    const files = await this.scan()
+
+    const result: ReplayCleanupResult = { deleted: [], freedBytes: 0 }
+    for (const file of files) {
+      // 无法确定版本的文件不做处理
+      if (!file.gameVersion || toPatchVersion(file.gameVersion) === currentPatch) {
+        continue
+      }
+
+      try {
+        await fs.promises.rm(file.path)
+        result.deleted.push(file.fileName)
+        result.freedBytes += file.size
+      } catch (error) {
+        this._log.warn(`Failed to delete replay ${file.fileName}: ${formatError(error)}`)
+      }
+    }
+
+    this._log.info(`Deleted ${result.deleted.length} replays from old patches`)
+
+    return result
+  }
+
+  private _handleIpcCall() {
+    this._ipc.onCall(ReplayLibraryMain.id, 'scan', () => {
+      return this.scan()
+    })
+
+    this._ipc.onCall(
+      ReplayLibraryMain.id,
+      'downloadRecentReplays',
+      (_, puuid: string, count: number) => {
+        return this.downloadRecentReplays(puuid, count)
+      }
+    )
+
+    this._ipc.onCall(ReplayLibraryMain.id, 'cleanupOldPatches', () => {
+      return this.cleanupOldPatches()
+    })
+
+    this._ipc.onCall(ReplayLibraryMain.id, 'openReplaysFolder', () => {
+      if (!this.settings.replaysPath) {
+        throw new Error('Replays path is not available')
+      }
+
+      return shell.openPath(this.settings.replaysPath)
+    })
+  }
+}
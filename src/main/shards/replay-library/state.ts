@@ -0,0 +1,16 @@
+import { makeAutoObservable } from 'mobx'
+
+export class ReplayLibrarySettings {
+  /**
+   * 最近一次从客户端获取的回放目录, 客户端未连接时也可以扫描
+   */
+  replaysPath: string | null = null
+
+  setReplaysPath(path: string | null) {
+    this.replaysPath = path
+  }
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+}
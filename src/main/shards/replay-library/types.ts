@@ -0,0 +1,46 @@
+import { RoflPlayer } from '@shared/utils/rofl'
+
+export interface ReplayFileInfo {
+  fileName: string
+  path: string
+  size: number
+  modifiedAt: number
+
+  /**
+   * 无法从文件中获取时为 null
+   */
+  gameId: number | null
+  platformId: string | null
+  gameVersion: string | null
+
+  /**
+   * 对局时长 (毫秒)
+   */
+  gameLength: number
+  players: RoflPlayer[]
+
+  /**
+   * 对局存档中的对局信息, 未存档时为 null
+   */
+  archived: {
+    queueId: number
+    gameCreation: number
+    gameMode: string
+  } | null
+
+  /**
+   * 文件无法解析时的原因
+   */
+  error: string | null
+}
+
+export interface ReplayDownloadResult {
+  gameId: number
+  status: 'queued' | 'exists' | 'incompatible' | 'failed'
+  reason?: string
+}
+
+export interface ReplayCleanupResult {
+  deleted: string[]
+  freedBytes: number
+}
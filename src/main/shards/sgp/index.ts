@@ -1,9 +1,11 @@
 import RES_POSITIONER from '@resources/AKARI?asset&asarUnpack'
 import { IAkariShardInitDispose, Shard } from '@shared/akari-shard'
 import { LeagueSgpApi } from '@shared/data-sources/sgp'
+import { Game, GameTimeline } from '@shared/types/league-client/match-history'
 import { formatError } from '@shared/utils/errors'
 import { isAxiosError } from 'axios'
 import dayjs from 'dayjs'
+import EventEmitter from 'node:events'
 import ofs from 'node:original-fs'
 import path from 'node:path'
 
@@ -42,6 +44,17 @@ export class SgpMain implements IAkariShardInitDispose {
 
   private readonly _api = new LeagueSgpApi()
 
+  public readonly events = new EventEmitter<{
+    /**
+     * 通过 SGP 获取到完整对局信息时触发 (已转换为 LCU 格式)
+     */
+    'game-loaded': [sgpServerId: string, game: Game]
+    /**
+     * 通过 SGP 获取到对局时间线时触发 (已转换为 LCU 格式)
+     */
+    'timeline-loaded': [sgpServerId: string, gameId: number, timeline: GameTimeline]
+  }>()
+
   constructor(
     private readonly _app: AppCommonMain,
     _loggerFactory: LoggerFactoryMain,
@@ -228,7 +241,11 @@ export class SgpMain implements IAkariShardInitDispose {
     const result = await this.getMatchHistory(playerPuuid, start, count, tag, sgpServerId)
 
     try {
-      return mapSgpMatchHistoryToLcu0Format(result, start, count)
+      const mh = mapSgpMatchHistoryToLcu0Format(result, start, count)
+      mh.games.games.forEach((g) =>
+        this.events.emit('game-loaded', sgpServerId || this.state.availability.sgpServerId, g)
+      )
+      return mh
     } catch (error) {
       this._log.warn(
         `Error converting SGP match history to LCU: ${formatError(error)}, ${playerPuuid}`
@@ -241,7 +258,11 @@ export class SgpMain implements IAkariShardInitDispose {
     const result = await this.getGameSummary(gameId, sgpServerId)
 
     try {
-      return mapSgpGameSummaryToLcu0Format(result)
+      const game = mapSgpGameSummaryToLcu0Format(result)
+      if (game) {
+        this.events.emit('game-loaded', sgpServerId || this.state.availability.sgpServerId, game)
+      }
+      return game
     } catch (error) {
       this._log.warn(`Error converting SGP game summary to LCU: ${formatError(error)}, ${gameId}`)
       throw error
@@ -266,7 +287,14 @@ export class SgpMain implements IAkariShardInitDispose {
     const result = await this.getGameDetails(gameId, sgpServerId)
 
     try {
-      return mapSgpGameDetailsToLcu0Format(result)
+      const timeline = mapSgpGameDetailsToLcu0Format(result)
+      this.events.emit(
+        'timeline-loaded',
+        sgpServerId || this.state.availability.sgpServerId,
+        gameId,
+        timeline
+      )
+      return timeline
     } catch (error) {
       this._log.warn(`Error converting SGP timeline to LCU: ${formatError(error)}, ${gameId}`)
       throw error
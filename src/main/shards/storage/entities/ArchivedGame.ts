@@ -0,0 +1,48 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * 本地存档的完整对局信息, 以 LCU 格式存储
+ */
+@Entity('ArchivedGames')
+export class ArchivedGame {
+  @PrimaryColumn({ type: 'integer' })
+  gameId: number
+
+  /**
+   * 对局所在的 SGP 服务器 ID
+   */
+  @PrimaryColumn({ type: 'varchar' })
+  sgpServerId: string
+
+  /**
+   * 数据来源, `lcu` 或 `sgp`
+   */
+  @Column({ type: 'varchar', nullable: false })
+  source: string
+
+  @Column({ type: 'integer', nullable: false })
+  @Index('archived_games_queue_id_index')
+  queueId: number
+
+  @Column({ type: 'varchar', nullable: false })
+  gameMode: string
+
+  @Column({ type: 'varchar', nullable: false })
+  gameVersion: string
+
+  @Column({ type: 'datetime', nullable: false })
+  @Index('archived_games_game_creation_index')
+  gameCreation: Date
+
+  @Column({ type: 'integer', nullable: false })
+  gameDuration: number
+
+  /**
+   * 完整的对局数据
+   */
+  @Column({ type: 'json', nullable: false })
+  data: any
+
+  @Column({ type: 'datetime', nullable: false })
+  updateAt: Date
+}
@@ -0,0 +1,57 @@
+import { BaselineMetrics } from '@shared/utils/analysis'
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm'
+
+/**
+ * 存档对局中的每一位参与者, 用于按玩家检索存档对局
+ */
+@Entity('ArchivedGameParticipants')
+@Index('archived_game_participants_queue_id_position_index', ['queueId', 'position'])
+export class ArchivedGameParticipant {
+  @PrimaryGeneratedColumn()
+  id: number
+
+  @Column({ type: 'integer', nullable: false })
+  @Index('archived_game_participants_game_id_index')
+  gameId: number
+
+  @Column({ type: 'varchar', nullable: false })
+  sgpServerId: string
+
+  @Column({ type: 'varchar', nullable: false })
+  @Index('archived_game_participants_puuid_index')
+  puuid: string
+
+  @Column({ type: 'integer', nullable: false })
+  championId: number
+
+  @Column({ type: 'integer', nullable: false })
+  teamId: number
+
+  /**
+   * 斗魂竞技场等模式下的小队 ID, 其他模式为 0
+   */
+  @Column({ type: 'integer', nullable: false })
+  subteamId: number
+
+  @Column({ type: 'boolean', nullable: false })
+  win: boolean
+
+  @Column({ type: 'integer', nullable: false })
+  queueId: number
+
+  @Column({ type: 'datetime', nullable: false })
+  @Index('archived_game_participants_game_creation_index')
+  gameCreation: Date
+
+  /**
+   * SGP 数据中的 teamPosition, LCU 数据或无位置的模式为 null
+   */
+  @Column({ type: 'varchar', nullable: true })
+  position: string | null
+
+  /**
+   * 用于位置基线的单局指标, 不计入统计的对局为 null
+   */
+  @Column({ type: 'json', nullable: true })
+  baselineMetrics: BaselineMetrics | null
+}
@@ -0,0 +1,26 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * 本地存档的对局时间线, 以 LCU 格式存储
+ */
+@Entity('ArchivedGameTimelines')
+export class ArchivedGameTimeline {
+  @PrimaryColumn({ type: 'integer' })
+  gameId: number
+
+  @PrimaryColumn({ type: 'varchar' })
+  sgpServerId: string
+
+  /**
+   * 数据来源, `lcu` 或 `sgp`
+   */
+  @Column({ type: 'varchar', nullable: false })
+  source: string
+
+  @Column({ type: 'json', nullable: false })
+  data: any
+
+  @Column({ type: 'datetime', nullable: false })
+  @Index('archived_game_timelines_update_at_index')
+  updateAt: Date
+}
@@ -0,0 +1,32 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * 查看过的玩家的快照, 用于未连接客户端时浏览战绩
+ */
+@Entity('CachedPlayers')
+export class CachedPlayer {
+  @PrimaryColumn({ type: 'varchar' })
+  puuid: string
+
+  @PrimaryColumn({ type: 'varchar' })
+  sgpServerId: string
+
+  /**
+   * 召唤师信息
+   */
+  @Column({ type: 'json', nullable: true })
+  summoner: any
+
+  /**
+   * 段位信息
+   */
+  @Column({ type: 'json', nullable: true })
+  rankedStats: any
+
+  /**
+   * 上次在线拉取战绩的时间
+   */
+  @Column({ type: 'datetime', nullable: false })
+  @Index('cached_players_last_update_index')
+  lastUpdate: Date
+}
@@ -0,0 +1,20 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * 通过 Live Client Data API 在对局中录制的时间线
+ */
+@Entity('RecordedGameTimelines')
+export class RecordedGameTimeline {
+  @PrimaryColumn({ type: 'integer' })
+  gameId: number
+
+  @PrimaryColumn({ type: 'varchar' })
+  sgpServerId: string
+
+  @Column({ type: 'json', nullable: false })
+  data: any
+
+  @Column({ type: 'datetime', nullable: false })
+  @Index('recorded_game_timelines_update_at_index')
+  updateAt: Date
+}
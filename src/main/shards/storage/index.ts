@@ -6,12 +6,18 @@ import { join } from 'node:path'
 import { DataSource, QueryRunner } from 'typeorm'
 
 import { AkariLogger, LoggerFactoryMain } from '../logger-factory'
+import { ArchivedGame } from './entities/ArchivedGame'
+import { ArchivedGameParticipant } from './entities/ArchivedGameParticipant'
+import { ArchivedGameTimeline } from './entities/ArchivedGameTimeline'
+import { CachedPlayer } from './entities/CachedPlayer'
 import { EncounteredGame } from './entities/EncounteredGame'
 import { Metadata } from './entities/Metadata'
+import { RecordedGameTimeline } from './entities/RecordedGameTimeline'
 import { SavedPlayer } from './entities/SavedPlayers'
 import { Setting } from './entities/Settings'
 import { v10_LA1_2_0initializationUpgrade } from './upgrades/version-10'
 import { v15_LA1_2_2Upgrade } from './upgrades/version-15'
+import { v16_LA1_3_7Upgrade } from './upgrades/version-16'
 
 /**
  * 任何持久性存储的逻辑集成
@@ -20,7 +26,7 @@ import { v15_LA1_2_2Upgrade } from './upgrades/version-15'
 export class StorageMain implements IAkariShardInitDispose {
   static id = 'storage-main'
 
-  static LEAGUE_AKARI_DB_CURRENT_VERSION = 15
+  static LEAGUE_AKARI_DB_CURRENT_VERSION = 16
   static LEAGUE_AKARI_DB_FILENAME = 'LeagueAkari.db'
 
   private readonly _log: AkariLogger
@@ -29,7 +35,8 @@ export class StorageMain implements IAkariShardInitDispose {
 
   private readonly _upgrades = {
     10: v10_LA1_2_0initializationUpgrade,
-    15: v15_LA1_2_2Upgrade
+    15: v15_LA1_2_2Upgrade,
+    16: v16_LA1_3_7Upgrade
   }
 
   get dataSource() {
@@ -43,7 +50,17 @@ export class StorageMain implements IAkariShardInitDispose {
       type: 'sqlite',
       database: join(app.getPath('userData'), StorageMain.LEAGUE_AKARI_DB_FILENAME),
       synchronize: false,
-      entities: [Metadata, SavedPlayer, Setting, EncounteredGame]
+      entities: [
+        Metadata,
+        SavedPlayer,
+        Setting,
+        EncounteredGame,
+        ArchivedGame,
+        ArchivedGameParticipant,
+        ArchivedGameTimeline,
+        CachedPlayer,
+        RecordedGameTimeline
+      ]
     })
   }
 
@@ -0,0 +1,303 @@
+import { QueryRunner, Table, TableIndex } from 'typeorm'
+
+/**
+ * Version 16 - Add tables `ArchivedGames`, `ArchivedGameParticipants`, `ArchivedGameTimelines`,
+ * `CachedPlayers` and `RecordedGameTimelines`
+ */
+export async function v16_LA1_3_7Upgrade(queryRunner: QueryRunner) {
+  await queryRunner.createTable(
+    new Table({
+      name: 'ArchivedGames',
+      columns: [
+        {
+          name: 'gameId',
+          type: 'integer',
+          isPrimary: true
+        },
+        {
+          name: 'sgpServerId',
+          type: 'varchar',
+          isPrimary: true
+        },
+        {
+          name: 'source',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'queueId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'gameMode',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'gameVersion',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'gameCreation',
+          type: 'datetime',
+          isNullable: false
+        },
+        {
+          name: 'gameDuration',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'data',
+          type: 'json',
+          isNullable: false
+        },
+        {
+          name: 'updateAt',
+          type: 'datetime',
+          isNullable: false
+        }
+      ]
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGames',
+    new TableIndex({
+      name: 'archived_games_queue_id_index',
+      columnNames: ['queueId']
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGames',
+    new TableIndex({
+      name: 'archived_games_game_creation_index',
+      columnNames: ['gameCreation']
+    })
+  )
+
+  await queryRunner.createTable(
+    new Table({
+      name: 'ArchivedGameParticipants',
+      columns: [
+        {
+          name: 'id',
+          type: 'integer',
+          isPrimary: true,
+          isGenerated: true,
+          generationStrategy: 'increment'
+        },
+        {
+          name: 'gameId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'sgpServerId',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'puuid',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'championId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'teamId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'subteamId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'win',
+          type: 'boolean',
+          isNullable: false
+        },
+        {
+          name: 'queueId',
+          type: 'integer',
+          isNullable: false
+        },
+        {
+          name: 'gameCreation',
+          type: 'datetime',
+          isNullable: false
+        },
+        {
+          name: 'position',
+          type: 'varchar',
+          isNullable: true
+        },
+        {
+          name: 'baselineMetrics',
+          type: 'json',
+          isNullable: true
+        }
+      ]
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGameParticipants',
+    new TableIndex({
+      name: 'archived_game_participants_game_id_index',
+      columnNames: ['gameId']
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGameParticipants',
+    new TableIndex({
+      name: 'archived_game_participants_puuid_index',
+      columnNames: ['puuid']
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGameParticipants',
+    new TableIndex({
+      name: 'archived_game_participants_game_creation_index',
+      columnNames: ['gameCreation']
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGameParticipants',
+    new TableIndex({
+      name: 'archived_game_participants_queue_id_position_index',
+      columnNames: ['queueId', 'position']
+    })
+  )
+
+  await queryRunner.createTable(
+    new Table({
+      name: 'ArchivedGameTimelines',
+      columns: [
+        {
+          name: 'gameId',
+          type: 'integer',
+          isPrimary: true
+        },
+        {
+          name: 'sgpServerId',
+          type: 'varchar',
+          isPrimary: true
+        },
+        {
+          name: 'source',
+          type: 'varchar',
+          isNullable: false
+        },
+        {
+          name: 'data',
+          type: 'json',
+          isNullable: false
+        },
+        {
+          name: 'updateAt',
+          type: 'datetime',
+          isNullable: false
+        }
+      ]
+    })
+  )
+
+  await queryRunner.createIndex(
+    'ArchivedGameTimelines',
+    new TableIndex({
+      name: 'archived_game_timelines_update_at_index',
+      columnNames: ['updateAt']
+    })
+  )
+
+  await queryRunner.createTable(
+    new Table({
+      name: 'CachedPlayers',
+      columns: [
+        {
+          name: 'puuid',
+          type: 'varchar',
+          isPrimary: true
+        },
+        {
+          name: 'sgpServerId',
+          type: 'varchar',
+          isPrimary: true
+        },
+        {
+          name: 'summoner',
+          type: 'json',
+          isNullable: true
+        },
+        {
+          name: 'rankedStats',
+          type: 'json',
+          isNullable: true
+        },
+        {
+          name: 'lastUpdate',
+          type: 'datetime',
+          isNullable: false
+        }
+      ]
+    })
+  )
+
+  await queryRunner.createIndex(
+    'CachedPlayers',
+    new TableIndex({
+      name: 'cached_players_last_update_index',
+      columnNames: ['lastUpdate']
+    })
+  )
+
+  await queryRunner.createTable(
+    new Table({
+      name: 'RecordedGameTimelines',
+      columns: [
+        {
+          name: 'gameId',
+          type: 'integer',
+          isPrimary: true
+        },
+        {
+          name: 'sgpServerId',
+          type: 'varchar',
+          isPrimary: true
+        },
+        {
+          name: 'data',
+          type: 'json',
+          isNullable: false
+        },
+        {
+          name: 'updateAt',
+          type: 'datetime',
+          isNullable: false
+        }
+      ]
+    })
+  )
+
+  await queryRunner.createIndex(
+    'RecordedGameTimelines',
+    new TableIndex({
+      name: 'recorded_game_timelines_update_at_index',
+      columnNames: ['updateAt']
+    })
+  )
+
+  await queryRunner.query(`UPDATE Metadata SET value = json('16') WHERE key = 'version'`)
+}
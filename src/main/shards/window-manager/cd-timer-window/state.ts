@@ -1,3 +1,4 @@
+import { ObjectiveTimer } from '@shared/utils/objective-timers'
 import { Rectangle } from 'electron'
 import { makeAutoObservable, observable } from 'mobx'
 
@@ -20,6 +21,26 @@ export class CdTimerWindowSettings {
 
   reverseAdjustmentDirection: boolean = false
 
+  /**
+   * 根据游戏内事件自动计时的资源刷新时间, 仅召唤师峡谷
+   */
+  objectiveTimersEnabled: boolean = true
+
+  /**
+   * 将资源计时发送到游戏内聊天的快捷键
+   */
+  announceObjectivesShortcut: string | null = null
+
+  /**
+   * 将召唤师技能计时以紧凑格式发送到游戏内聊天的快捷键
+   */
+  announceTimersShortcut: string | null = null
+
+  /**
+   * 倒计时模式下, 假设所有点出天启者系的玩家都携带了星界洞悉
+   */
+  assumeCosmicInsight: boolean = false
+
   setPinned(pinned: boolean) {
     this.pinned = pinned
   }
@@ -44,6 +65,22 @@ export class CdTimerWindowSettings {
     this.reverseAdjustmentDirection = reverseAdjustmentDirection
   }
 
+  setObjectiveTimersEnabled(objectiveTimersEnabled: boolean) {
+    this.objectiveTimersEnabled = objectiveTimersEnabled
+  }
+
+  setAnnounceObjectivesShortcut(announceObjectivesShortcut: string | null) {
+    this.announceObjectivesShortcut = announceObjectivesShortcut
+  }
+
+  setAnnounceTimersShortcut(announceTimersShortcut: string | null) {
+    this.announceTimersShortcut = announceTimersShortcut
+  }
+
+  setAssumeCosmicInsight(assumeCosmicInsight: boolean) {
+    this.assumeCosmicInsight = assumeCosmicInsight
+  }
+
   constructor() {
     makeAutoObservable(this)
   }
@@ -78,6 +115,18 @@ export class CdTimerWindowState {
 
   gameTime: number | null = null
 
+  /**
+   * 取得 gameTime 时的本地时间 (ms), 两次轮询之间以此推算当前的游戏时间
+   */
+  gameTimeUpdatedAt: number | null = null
+
+  objectiveTimers: ObjectiveTimer[] = []
+
+  /**
+   * 敌方英雄 ID -> 自身提供的召唤师技能急速 (装备和符文), 不包含游戏模式提供的部分
+   */
+  summonerSpellHastes: Record<number, number> = {}
+
   setStatus(status: 'normal' | 'maximized' | 'minimized') {
     this.status = status
   }
@@ -103,14 +152,25 @@ export class CdTimerWindowState {
     this.supportedGameModes = supportedGameModes
   }
 
-  setGameTime(gameTime: number | null) {
+  setGameTime(gameTime: number | null, updatedAt: number | null = null) {
     this.gameTime = gameTime
+    this.gameTimeUpdatedAt = updatedAt
+  }
+
+  setObjectiveTimers(objectiveTimers: ObjectiveTimer[]) {
+    this.objectiveTimers = objectiveTimers
+  }
+
+  setSummonerSpellHastes(summonerSpellHastes: Record<number, number>) {
+    this.summonerSpellHastes = summonerSpellHastes
   }
 
   constructor() {
     makeAutoObservable(this, {
       bounds: observable.ref,
-      supportedGameModes: observable.ref
+      supportedGameModes: observable.ref,
+      objectiveTimers: observable.struct,
+      summonerSpellHastes: observable.struct
     })
   }
 }
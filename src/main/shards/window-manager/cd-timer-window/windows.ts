@@ -1,8 +1,14 @@
 import { input } from '@leagueakari/league-akari-addons'
+import { i18next } from '@main/i18n'
 import { GameClientMain } from '@main/shards/game-client'
 import { AkariIpcError } from '@main/shards/ipc'
 import icon from '@resources/LA_ICON.ico?asset'
+import { ChatMessage } from '@shared/types/league-client/chat'
+import { LcuEvent } from '@shared/types/league-client/event'
+import { ObjectiveTimer, computeObjectiveTimers } from '@shared/utils/objective-timers'
 import { sleep } from '@shared/utils/sleep'
+import { getSummonerSpellHaste } from '@shared/utils/summoner-spell-haste'
+import { parseTimerStamps } from '@shared/utils/timer-announce'
 import { comparer, computed } from 'mobx'
 
 import { type WindowManagerMainContext } from '..'
@@ -24,8 +30,16 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
   static readonly INPUT_DELAY = 65
 
   public shortcutTargetId: string
+  public announceObjectivesShortcutTargetId: string
+  public announceTimersShortcutTargetId: string
 
   private _gameStatsPollTimer: NodeJS.Timeout | null = null
+  private _isSending = false
+
+  /**
+   * 玩家名称 -> 阵营, 用于判断龙魂
+   */
+  private _playerTeams = new Map<string, 'ORDER' | 'CHAOS'>()
 
   constructor(_context: WindowManagerMainContext) {
     const state = new CdTimerWindowState()
@@ -43,7 +57,11 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
         enabled: { default: settings.enabled },
         showShortcut: { default: settings.showShortcut },
         timerType: { default: settings.timerType },
-        reverseAdjustmentDirection: { default: settings.reverseAdjustmentDirection }
+        reverseAdjustmentDirection: { default: settings.reverseAdjustmentDirection },
+        objectiveTimersEnabled: { default: settings.objectiveTimersEnabled },
+        announceObjectivesShortcut: { default: settings.announceObjectivesShortcut },
+        announceTimersShortcut: { default: settings.announceTimersShortcut },
+        assumeCosmicInsight: { default: settings.assumeCosmicInsight }
       },
       browserWindowOptions: {
         title: AkariCdTimerWindow.TITLE,
@@ -68,6 +86,8 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
     })
 
     this.shortcutTargetId = `${this._namespace}/show`
+    this.announceObjectivesShortcutTargetId = `${this._namespace}/announce-objectives`
+    this.announceTimersShortcutTargetId = `${this._namespace}/announce-timers`
   }
 
   private _handleCdTimerWindowLogics() {
@@ -125,6 +145,78 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
       { fireImmediately: true }
     )
 
+    this._mobx.reaction(
+      () => this.settings.announceObjectivesShortcut,
+      (shortcut) => {
+        if (shortcut) {
+          try {
+            this._keyboardShortcuts.register(
+              this.announceObjectivesShortcutTargetId,
+              shortcut,
+              'normal',
+              () =>
+                this._announceObjectives().catch((error) =>
+                  this._log.warn('Failed to announce objectives', error)
+                )
+            )
+          } catch {
+            this._log.warn('Failed to register announce objectives shortcut')
+            this._setting.set('announceObjectivesShortcut', null)
+          }
+        } else {
+          this._keyboardShortcuts.unregisterByTargetId(this.announceObjectivesShortcutTargetId)
+        }
+      },
+      { fireImmediately: true }
+    )
+
+    // 计时器状态仅存在于渲染进程, 由其格式化后再发送
+    this._mobx.reaction(
+      () => this.settings.announceTimersShortcut,
+      (shortcut) => {
+        if (shortcut) {
+          try {
+            this._keyboardShortcuts.register(
+              this.announceTimersShortcutTargetId,
+              shortcut,
+              'normal',
+              () => this._ipc.sendEvent(this._namespace, 'announce-timers')
+            )
+          } catch {
+            this._log.warn('Failed to register announce timers shortcut')
+            this._setting.set('announceTimersShortcut', null)
+          }
+        } else {
+          this._keyboardShortcuts.unregisterByTargetId(this.announceTimersShortcutTargetId)
+        }
+      },
+      { fireImmediately: true }
+    )
+
+    // 读取队友在对局或英雄选择的房间中发送的计时, 私聊 (chat) 不会被读取
+    this._leagueClient.events.on<LcuEvent<ChatMessage>>(
+      '/lol-chat/v1/conversations/:conversationId/messages/:messageId',
+      (event, { conversationId }) => {
+        if (
+          event.eventType !== 'Create' ||
+          !event.data ||
+          event.data.type !== 'groupchat' ||
+          event.data.fromSummonerId === this._leagueClient.data.summoner.me?.summonerId ||
+          this._leagueClient.data.gameflow.phase !== 'InProgress' ||
+          !this._isGameConversation(decodeURIComponent(conversationId)) ||
+          !this._isTeammate(event.data.fromSummonerId)
+        ) {
+          return
+        }
+
+        const stamps = parseTimerStamps(event.data.body)
+        if (stamps.length) {
+          this._log.info(`Received ${stamps.length} timers from chat`)
+          this._ipc.sendEvent(this._namespace, 'timers-received', stamps)
+        }
+      }
+    )
+
     const shouldUseCdTimer = computed(() => {
       if (!this.state.ready || !this.settings.enabled) {
         return false
@@ -175,6 +267,9 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
           }
 
           this.state.setGameTime(null)
+          this.state.setObjectiveTimers([])
+          this.state.setSummonerSpellHastes({})
+          this._playerTeams.clear()
         }
       },
       { fireImmediately: true }
@@ -182,32 +277,201 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
   }
 
   private _handleIpcCall() {
-    let isSending = false
     this._ipc.onCall(this._namespace, 'sendInGame', async (_, text: string) => {
-      if (!isSending && GameClientMain.isGameClientForeground()) {
-        isSending = true
-        await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, true)
-        await sleep(AkariCdTimerWindow.ENTER_KEY_INTERNAL_DELAY)
-        await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, false)
-        await sleep(AkariCdTimerWindow.INPUT_DELAY)
-        await input.instance.sendString(text)
-        await sleep(AkariCdTimerWindow.INPUT_DELAY)
-        await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, true)
-        await sleep(AkariCdTimerWindow.ENTER_KEY_INTERNAL_DELAY)
-        await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, false)
-        isSending = false
-      }
+      await this._sendInGame(text)
     })
+
+    this._ipc.onCall(this._namespace, 'announceObjectives', async () => {
+      await this._announceObjectives()
+    })
+  }
+
+  private async _sendInGame(text: string) {
+    if (this._isSending || !GameClientMain.isGameClientForeground()) {
+      return
+    }
+
+    this._isSending = true
+    try {
+      await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, true)
+      await sleep(AkariCdTimerWindow.ENTER_KEY_INTERNAL_DELAY)
+      await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, false)
+      await sleep(AkariCdTimerWindow.INPUT_DELAY)
+      await input.instance.sendString(text)
+      await sleep(AkariCdTimerWindow.INPUT_DELAY)
+      await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, true)
+      await sleep(AkariCdTimerWindow.ENTER_KEY_INTERNAL_DELAY)
+      await input.instance.sendKey(AkariCdTimerWindow.ENTER_KEY_CODE, false)
+    } finally {
+      this._isSending = false
+    }
   }
 
   private async _updateGameStats() {
     try {
       const { data } = await this._gameClient.api.getGameStats()
-      this.state.setGameTime(data.gameTime)
+      this.state.setGameTime(data.gameTime, Date.now())
+
+      if (this.settings.objectiveTimersEnabled && data.gameMode === 'CLASSIC') {
+        await this._updateObjectiveTimers(data.gameTime)
+      } else {
+        this.state.setObjectiveTimers([])
+      }
     } catch (error) {
       this.state.setGameTime(null)
       this._log.warn('Failed to get game data', error)
     }
+
+    if (this.settings.timerType === 'countdown') {
+      try {
+        await this._updateSummonerSpellHastes()
+      } catch (error) {
+        this._log.warn('Failed to update summoner spell haste', error)
+      }
+    }
+  }
+
+  /**
+   * 根据敌方玩家的装备和符文计算召唤师技能急速
+   */
+  private async _updateSummonerSpellHastes() {
+    const { data: players } = await this._gameClient.api.getLiveClientDataPlayerList()
+
+    const champions = Object.values(this._leagueClient.data.gameData.champions)
+    const selfTeam = this._selfTeam
+    const hastes: Record<number, number> = {}
+
+    for (const p of players) {
+      if (selfTeam && p.team === selfTeam) {
+        continue
+      }
+
+      // e.g. game_character_displayname_MonkeyKing
+      const alias = p.rawChampionName.split('_').at(-1)
+      const champion = champions.find((c) => c.alias === alias)
+      if (!champion) {
+        continue
+      }
+
+      hastes[champion.id] = getSummonerSpellHaste(p, {
+        assumeCosmicInsight: this.settings.assumeCosmicInsight
+      })
+    }
+
+    this.state.setSummonerSpellHastes(hastes)
+  }
+
+  private async _updateObjectiveTimers(gameTime: number) {
+    const { data } = await this._gameClient.api.getEventData()
+
+    // 仅在出现未知的击杀者时更新玩家列表
+    const hasUnknownKiller = data.Events.some(
+      (e) => e.EventName === 'DragonKill' && e.KillerName && !this._playerTeams.has(e.KillerName)
+    )
+
+    if (hasUnknownKiller) {
+      const { data: players } = await this._gameClient.api.getLiveClientDataPlayerList()
+      for (const p of players) {
+        if (p.team !== 'ORDER' && p.team !== 'CHAOS') {
+          continue
+        }
+
+        for (const name of [p.riotId, p.riotIdGameName, p.summonerName]) {
+          if (name) {
+            this._playerTeams.set(name, p.team)
+          }
+        }
+      }
+    }
+
+    this.state.setObjectiveTimers(
+      computeObjectiveTimers(data.Events, gameTime, (name) => this._playerTeams.get(name) ?? null)
+    )
+  }
+
+  private _isGameConversation(conversationId: string) {
+    const { championSelect, customGame } = this._leagueClient.data.chat.conversations
+    return championSelect?.id === conversationId || customGame?.id === conversationId
+  }
+
+  private _isTeammate(summonerId: number) {
+    const session = this._leagueClient.data.gameflow.session
+    const me = this._leagueClient.data.summoner.me
+    if (!session || !me) {
+      return false
+    }
+
+    const team = [session.gameData.teamOne, session.gameData.teamTwo].find((t) =>
+      t.some((p) => p.puuid === me.puuid)
+    )
+
+    return Boolean(team?.some((p) => p.summonerId === summonerId))
+  }
+
+  private get _selfTeam() {
+    const session = this._leagueClient.data.gameflow.session
+    const me = this._leagueClient.data.summoner.me
+    if (!session || !me) {
+      return null
+    }
+
+    if (session.gameData.teamOne.some((p) => p.puuid === me.puuid)) {
+      return 'ORDER'
+    }
+
+    if (session.gameData.teamTwo.some((p) => p.puuid === me.puuid)) {
+      return 'CHAOS'
+    }
+
+    return null
+  }
+
+  private _formatObjectiveName(timer: ObjectiveTimer) {
+    if (timer.type === 'inhibitor') {
+      return i18next.t('window-manager-main.cd-timer-window.objectives.inhibitor', {
+        team: i18next.t(
+          `window-manager-main.cd-timer-window.teams.${timer.team === this._selfTeam ? 'our' : 'their'}`
+        ),
+        lane: i18next.t(`window-manager-main.cd-timer-window.lanes.${timer.lane}`)
+      })
+    }
+
+    return i18next.t(`window-manager-main.cd-timer-window.objectives.${timer.type}`)
+  }
+
+  private async _announceObjectives() {
+    const gameTime = this.state.gameTime
+    if (gameTime === null || !this.state.objectiveTimers.length) {
+      return
+    }
+
+    const formatTime = (time: number) => {
+      const minutes = Math.floor(time / 60)
+      const seconds = Math.floor(time % 60)
+      return `${minutes}:${seconds.toString().padStart(2, '0')}`
+    }
+
+    const parts = this.state.objectiveTimers.map((timer) => {
+      const name = this._formatObjectiveName(timer)
+
+      if (timer.spawnAt <= gameTime) {
+        return i18next.t('window-manager-main.cd-timer-window.alive', { name })
+      }
+
+      if (this.settings.timerType === 'countup' && timer.killedAt !== null) {
+        return i18next.t('window-manager-main.cd-timer-window.countup', {
+          name,
+          time: formatTime(timer.killedAt)
+        })
+      }
+
+      return i18next.t('window-manager-main.cd-timer-window.countdown', {
+        name,
+        time: formatTime(timer.spawnAt)
+      })
+    })
+
+    await this._sendInGame(parts.join(' | '))
   }
 
   override async onInit() {
@@ -223,10 +487,25 @@ export class AkariCdTimerWindow extends BaseAkariWindow<CdTimerWindowState, CdTi
   }
 
   protected override getStatePropKeys() {
-    return ['supportedGameModes', 'gameTime'] as const
+    return [
+      'supportedGameModes',
+      'gameTime',
+      'gameTimeUpdatedAt',
+      'objectiveTimers',
+      'summonerSpellHastes'
+    ] as const
   }
 
   protected override getSettingPropKeys() {
-    return ['enabled', 'showShortcut', 'timerType', 'reverseAdjustmentDirection'] as const
+    return [
+      'enabled',
+      'showShortcut',
+      'timerType',
+      'reverseAdjustmentDirection',
+      'objectiveTimersEnabled',
+      'announceObjectivesShortcut',
+      'announceTimersShortcut',
+      'assumeCosmicInsight'
+    ] as const
   }
 }
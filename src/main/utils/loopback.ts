@@ -17,7 +17,8 @@ export function checkIfPortInUse(host: string, port: number, timeout = 500): Pro
       resolve(false)
     })
 
-    socket.on('rejected', (err: any) => {
+    socket.on('error', (err: any) => {
+      socket.destroy()
       if (err.code === 'ECONNREFUSED') {
         resolve(false)
       } else {
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { RIOT_CERTIFICATE, getUxBaseUrl, parseCommandLine } from './ux-cmd'
+
+// 原生模块仅在 Windows 上可用, 解析命令行不需要它
+vi.mock('@leagueakari/league-akari-addons', () => ({ tools: {} }))
+
+const UX_COMMAND_LINE =
+  '"C:/Riot Games/League of Legends/LeagueClientUx.exe" "--riotclient-auth-token=rc-token_1" ' +
+  '"--riotclient-app-port=51234" "--no-rads" "--disable-self-update" "--region=TENCENT" ' +
+  '"--locale=zh_CN" "--remoting-auth-token=lcu-token_2" "--respawn-command=LeagueClient.exe" ' +
+  '"--app-port=61234" "--install-directory=C:/Riot Games/League of Legends" ' +
+  '"--app-name=LeagueClient" "--ux-name=LeagueClientUx" "--ux-helper-name=LeagueClientUxHelper" ' +
+  '"--log-dir=LeagueClient Logs" "--crash-reporting=" "--crash-environment=HN1" ' +
+  '"--app-log-file-path=C:/Riot Games/League of Legends/Logs/LeagueClient.log" ' +
+  '"--app-pid=12345" "--output-base-dir=C:/Riot Games/League of Legends" ' +
+  '"--no-proxy-server" "--ignore-certificate-errors" "--rso_platform_id=HN1"'
+
+describe('parseCommandLine', () => {
+  it('parses the command line of LeagueClientUx', () => {
+    expect(parseCommandLine(UX_COMMAND_LINE)).toEqual({
+      port: 61234,
+      pid: 12345,
+      authToken: 'lcu-token_2',
+      certificate: RIOT_CERTIFICATE,
+      region: 'TENCENT',
+      rsoPlatformId: 'HN1',
+      riotClientPort: 51234,
+      riotClientAuthToken: 'rc-token_1'
+    })
+  })
+
+  it('reads the protocol of the local simulator', () => {
+    const cmd = parseCommandLine(
+      '--app-port=2999 --remoting-auth-token=abc --app-pid=1 --region=SIMULATOR ' +
+        '--rso_platform_id=SIMULATOR --akari-protocol=http'
+    )
+
+    expect(cmd).toMatchObject({ port: 2999, pid: 1, authToken: 'abc', protocol: 'http' })
+    expect(getUxBaseUrl(cmd!, 'http')).toBe('http://127.0.0.1:2999')
+    expect(getUxBaseUrl(cmd!, 'ws')).toBe('ws://127.0.0.1:2999')
+  })
+
+  it('ignores unknown protocols', () => {
+    const cmd = parseCommandLine(
+      '--app-port=2999 --remoting-auth-token=abc --app-pid=1 --akari-protocol=httpx'
+    )
+
+    expect(cmd).not.toHaveProperty('protocol')
+    expect(getUxBaseUrl(cmd!, 'http')).toBe('https://127.0.0.1:2999')
+    expect(getUxBaseUrl(cmd!, 'ws')).toBe('wss://127.0.0.1:2999')
+  })
+
+  it.each([
+    ['the port', '--remoting-auth-token=abc --app-pid=1'],
+    ['the auth token', '--app-port=2999 --app-pid=1'],
+    ['the pid', '--app-port=2999 --remoting-auth-token=abc'],
+    ['anything', '']
+  ])('returns null without %s', (_, s) => {
+    expect(parseCommandLine(s)).toBeNull()
+  })
+})
@@ -40,6 +40,24 @@ export interface UxCommandLine {
   rsoPlatformId: string
   riotClientPort: number
   riotClientAuthToken: string
+
+  /**
+   * 真实的客户端总是 https, 本地模拟器使用 http
+   */
+  protocol?: 'https' | 'http'
+}
+
+/**
+ * LeagueClient 的 HTTP 或 WebSocket 地址
+ */
+export function getUxBaseUrl(cmd: Pick<UxCommandLine, 'port' | 'protocol'>, type: 'http' | 'ws') {
+  const secure = (cmd.protocol ?? 'https') === 'https'
+
+  if (type === 'ws') {
+    return `${secure ? 'wss' : 'ws'}://127.0.0.1:${cmd.port}`
+  }
+
+  return `${secure ? 'https' : 'http'}://127.0.0.1:${cmd.port}`
 }
 
 const WMIC_PATH = 'C:\\Windows\\System32\\wbem\\WMIC.exe'
@@ -118,8 +136,9 @@ const rsoPlatformIdRegex = /--rso_platform_id=([\w-_]+)/
 const regionRegex = /--region=([\w-_]+)/
 const riotClientPortRegex = /--riotclient-app-port=([0-9]+)/
 const riotClientAuthRegex = /--riotclient-auth-token=([\w-_]+)/
+const protocolRegex = /--akari-protocol=(https|http)\b/
 
-function parseCommandLine(s: string): UxCommandLine | null {
+export function parseCommandLine(s: string): UxCommandLine | null {
   const [, port] = s.match(portRegex) || []
   const [, password] = s.match(remotingAuth) || []
   const [, pid] = s.match(pidRegex) || []
@@ -127,6 +146,7 @@ function parseCommandLine(s: string): UxCommandLine | null {
   const [, region = ''] = s.match(regionRegex) || []
   const [, riotClientPort = ''] = s.match(riotClientPortRegex) || []
   const [, riotClientAuth = ''] = s.match(riotClientAuthRegex) || []
+  const [, protocol] = s.match(protocolRegex) || []
 
   if (!port || !password || !pid) {
     return null
@@ -140,7 +160,8 @@ function parseCommandLine(s: string): UxCommandLine | null {
     region,
     certificate: RIOT_CERTIFICATE,
     riotClientPort: Number(riotClientPort),
-    riotClientAuthToken: riotClientAuth
+    riotClientAuthToken: riotClientAuth,
+    ...(protocol ? { protocol: protocol as UxCommandLine['protocol'] } : {})
   }
 }
 
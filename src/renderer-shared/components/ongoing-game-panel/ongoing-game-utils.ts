@@ -24,6 +24,28 @@ export const RANKED_MEDAL_MAP: Record<string, string> = {
   CHALLENGER: ChallengerMedal
 }
 
+export const PERCENTILE_HIGH = 70
+export const PERCENTILE_LOW = 30
+
+/**
+ * 根据位置基线中的百分位划分等级, 没有基线时为 null
+ */
+export function percentileLevel(percentile?: number | null) {
+  if (percentile === undefined || percentile === null) {
+    return null
+  }
+
+  if (percentile >= PERCENTILE_HIGH) {
+    return 'high'
+  }
+
+  if (percentile <= PERCENTILE_LOW) {
+    return 'low'
+  }
+
+  return 'normal'
+}
+
 export function useIdleState() {
   const lc = useLeagueClientStore()
 
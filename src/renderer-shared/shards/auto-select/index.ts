@@ -1,5 +1,7 @@
 import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { AutoSelectRule } from '@shared/utils/auto-select-rules'
 
+import { AkariIpcRenderer } from '../ipc'
 import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
 import { SettingUtilsRenderer } from '../setting-utils'
 import { useAutoSelectStore } from './store'
@@ -11,6 +13,7 @@ export class AutoSelectRenderer implements IAkariShardInitDispose {
   static id = 'auto-select-renderer'
 
   constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
     @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
     @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
   ) {}
@@ -79,6 +82,21 @@ export class AutoSelectRenderer implements IAkariShardInitDispose {
     return this._setting.set(MAIN_SHARD_NAMESPACE, 'benchHandleTradeIgnoreChampionOwner', enabled)
   }
 
+  setRules(rules: AutoSelectRule[]) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'rules', rules)
+  }
+
+  setCounterSuggestionsEnabled(enabled: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'counterSuggestionsEnabled', enabled)
+  }
+
+  /**
+   * 将第一个未完成的选择操作设置为该英雄, 即预选
+   */
+  prePick(championId: number) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'prePick', championId) as Promise<void>
+  }
+
   async onInit() {
     const store = useAutoSelectStore()
 
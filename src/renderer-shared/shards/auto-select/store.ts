@@ -1,10 +1,21 @@
 import { ChampSelectTeam } from '@shared/types/league-client/champ-select'
+import { AutoSelectRule } from '@shared/utils/auto-select-rules'
+import { CounterPickSuggestion } from '@shared/utils/counter-pick'
 import { defineStore } from 'pinia'
 import { shallowReactive, shallowRef } from 'vue'
 
 // copied from main shard
 interface UpcomingBanPick {
   championId: number
+
+  /**
+   * 命中的条件规则, 来自按位置设置的英雄列表时为 null
+   */
+  rule: {
+    id: string
+    name: string
+  } | null
+  counterTo: number | null
   isActingNow: boolean
   action: {
     id: number
@@ -66,7 +77,9 @@ export const useAutoSelectStore = defineStore('shard:auto-select-renderer', () =
       utility: [],
       default: []
     },
-    banTeammateIntendedChampion: false
+    banTeammateIntendedChampion: false,
+    rules: [] as AutoSelectRule[],
+    counterSuggestionsEnabled: true
   })
 
   const targetPick = shallowRef<UpcomingBanPick | null>(null)
@@ -75,6 +88,11 @@ export const useAutoSelectStore = defineStore('shard:auto-select-renderer', () =
   const upcomingGrab = shallowRef<{ championId: number; willGrabAt: number } | null>(null)
   const upcomingPick = shallowRef<{ championId: number; willPickAt: number } | null>(null)
   const upcomingBan = shallowRef<{ championId: number; willBanAt: number } | null>(null)
+  const laneOpponentChampionId = shallowRef<number | null>(null)
+  const counterSuggestions = shallowRef<{
+    opponent: number
+    suggestions: CounterPickSuggestion[]
+  } | null>(null)
 
   const aramTracker = shallowReactive({
     recordedEvents: [] as TrackEvent[],
@@ -90,6 +108,8 @@ export const useAutoSelectStore = defineStore('shard:auto-select-renderer', () =
     memberMe,
     upcomingPick,
     upcomingBan,
+    laneOpponentChampionId,
+    counterSuggestions,
 
     aramTracker
   }
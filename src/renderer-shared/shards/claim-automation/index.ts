@@ -0,0 +1,64 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { SettingUtilsRenderer } from '../setting-utils'
+import { ClaimedItem, useClaimAutomationStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'claim-automation-main'
+
+// copied from main shard
+export interface ClaimResult {
+  claimed: ClaimedItem[]
+  errors: string[]
+}
+
+@Shard(ClaimAutomationRenderer.id)
+export class ClaimAutomationRenderer implements IAkariShardInitDispose {
+  static id = 'claim-automation-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
+    @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useClaimAutomationStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  setRewardsEnabled(enabled: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'rewardsEnabled', enabled)
+  }
+
+  setMissionsEnabled(enabled: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'missionsEnabled', enabled)
+  }
+
+  setEventHubEnabled(enabled: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'eventHubEnabled', enabled)
+  }
+
+  claimRewardGrants(grantIds?: string[]): Promise<ClaimResult> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'claimRewardGrants', grantIds)
+  }
+
+  claimMissions(missionIds?: string[]): Promise<ClaimResult> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'claimMissions', missionIds)
+  }
+
+  claimEventHubEvents(eventIds?: string[]): Promise<ClaimResult> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'claimEventHubEvents', eventIds)
+  }
+
+  runScheduledClaim(): Promise<ClaimResult | null> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'runScheduledClaim')
+  }
+
+  cancel() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'cancel')
+  }
+}
@@ -0,0 +1,30 @@
+import { defineStore } from 'pinia'
+import { shallowReactive, shallowRef } from 'vue'
+
+// copied from main shard
+export interface ClaimedItem {
+  category: 'reward' | 'mission' | 'event-hub'
+  name: string
+}
+
+export const useClaimAutomationStore = defineStore('shard:claim-automation-renderer', () => {
+  const settings = shallowReactive({
+    rewardsEnabled: false,
+    missionsEnabled: false,
+    eventHubEnabled: false
+  })
+
+  const isClaiming = shallowRef(false)
+  const lastRun = shallowRef<{
+    time: number
+    claimed: ClaimedItem[]
+    failed: number
+  } | null>(null)
+
+  return {
+    settings,
+
+    isClaiming,
+    lastRun
+  }
+})
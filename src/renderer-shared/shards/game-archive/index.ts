@@ -0,0 +1,141 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { Game, GameTimeline } from '@shared/types/league-client/match-history'
+import { RankedStats } from '@shared/types/league-client/ranked'
+import { SummonerInfo } from '@shared/types/league-client/summoner'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { SettingUtilsRenderer } from '../setting-utils'
+import { useGameArchiveStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'game-archive-main'
+
+// copied from main shard
+export interface ArchivedData<T> {
+  source: 'lcu' | 'sgp'
+  data: T
+}
+
+// copied from main shard
+export interface GameArchiveStats {
+  games: number
+  timelines: number
+  oldestGameCreation: number | null
+}
+
+// copied from main shard
+export interface ArchivedPlayerGamesQueryDto {
+  puuid: string
+  sgpServerId: string
+  queueId?: number
+  page?: number
+  pageSize?: number
+}
+
+// copied from main shard
+export interface CachedPlayer {
+  puuid: string
+  sgpServerId: string
+  summoner: SummonerInfo | null
+  rankedStats: RankedStats | null
+  lastUpdate: Date
+}
+
+// copied from main shard
+export interface CachedPlayerSaveDto {
+  puuid: string
+  sgpServerId: string
+  summoner?: SummonerInfo | null
+  rankedStats?: RankedStats | null
+  lastUpdate?: number
+}
+
+@Shard(GameArchiveRenderer.id)
+export class GameArchiveRenderer implements IAkariShardInitDispose {
+  static id = 'game-archive-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
+    @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useGameArchiveStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+  }
+
+  getGame(gameId: number, sgpServerId?: string): Promise<ArchivedData<Game> | null> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getGame', gameId, sgpServerId)
+  }
+
+  getTimeline(gameId: number, sgpServerId?: string): Promise<ArchivedData<GameTimeline> | null> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getTimeline', gameId, sgpServerId)
+  }
+
+  saveGame(game: Game, source: 'lcu' | 'sgp', sgpServerId?: string) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'saveGame', game, source, sgpServerId)
+  }
+
+  saveTimeline(
+    gameId: number,
+    timeline: GameTimeline,
+    source: 'lcu' | 'sgp',
+    sgpServerId?: string
+  ) {
+    return this._ipc.call(
+      MAIN_SHARD_NAMESPACE,
+      'saveTimeline',
+      gameId,
+      timeline,
+      source,
+      sgpServerId
+    )
+  }
+
+  queryPlayerGames(query: ArchivedPlayerGamesQueryDto): Promise<{
+    data: Game[]
+    page: number
+    pageSize: number
+    total: number
+  }> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'queryPlayerGames', query)
+  }
+
+  getCachedPlayer(puuid: string, sgpServerId: string): Promise<CachedPlayer | null> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getCachedPlayer', puuid, sgpServerId)
+  }
+
+  getCachedPlayers(limit?: number): Promise<CachedPlayer[]> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getCachedPlayers', limit)
+  }
+
+  saveCachedPlayer(dto: CachedPlayerSaveDto) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'saveCachedPlayer', dto)
+  }
+
+  getStats(): Promise<GameArchiveStats> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getStats')
+  }
+
+  prune(): Promise<number> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'prune')
+  }
+
+  clear() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'clear')
+  }
+
+  setEnabled(value: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'enabled', value)
+  }
+
+  setRetentionDays(value: number) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'retentionDays', value)
+  }
+
+  setMaxGames(value: number) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'maxGames', value)
+  }
+}
@@ -0,0 +1,14 @@
+import { defineStore } from 'pinia'
+import { shallowReactive } from 'vue'
+
+export const useGameArchiveStore = defineStore('shard:game-archive-renderer', () => {
+  const settings = shallowReactive({
+    enabled: true,
+    retentionDays: 180,
+    maxGames: 10000
+  })
+
+  return {
+    settings
+  }
+})
@@ -0,0 +1,128 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { SettingUtilsRenderer } from '../setting-utils'
+import { useGameRecorderStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'game-recorder-main'
+
+/**
+ * 时间线中的玩家, 事件中以其在 `players` 中的下标引用
+ */
+// copied from main shard
+export interface RecordedPlayer {
+  name: string
+  championName: string
+  team: 'ORDER' | 'CHAOS' | string
+  position: string
+  isSelf: boolean
+}
+
+// copied from main shard
+export type RecordedObjectiveType = 'dragon' | 'herald' | 'baron' | 'horde' | 'atakhan'
+
+/**
+ * `t` 为游戏内时间 (秒), 玩家字段为下标, 非玩家 (防御塔, 野怪等) 时为 -1
+ */
+// copied from main shard
+export type RecordedEvent =
+  | {
+      t: number
+      type: 'kill'
+      killer: number
+      victim: number
+      assisters: number[]
+    }
+  | {
+      t: number
+      type: RecordedObjectiveType
+      killer: number
+      stolen: boolean
+
+      /**
+       * 小龙的类型, 如 `Fire`, `Elder`
+       */
+      subType?: string
+    }
+  | {
+      t: number
+      type: 'turret' | 'inhibitor'
+      killer: number
+
+      /**
+       * 建筑的原始名称, 如 `Turret_T2_C_05_A`
+       */
+      target: string
+    }
+  | {
+      /**
+       * 根据装备栏的变化推断, 合成装备时组件的消失不会被记录
+       */
+      t: number
+      type: 'item'
+      player: number
+      itemId: number
+    }
+  | {
+      t: number
+      type: 'level'
+      player: number
+      level: number
+    }
+
+/**
+ * [等级, 补刀, 击杀, 死亡, 助攻, 装备总价]
+ */
+// copied from main shard
+export type RecordedPlayerSnapshot = [number, number, number, number, number, number]
+
+// copied from main shard
+export interface RecordedSnapshot {
+  t: number
+  players: RecordedPlayerSnapshot[]
+
+  /**
+   * 只能获取到自己当前持有的金币
+   */
+  selfGold: number
+}
+
+// copied from main shard
+export interface RecordedTimeline {
+  version: 1
+  gameId: number
+  gameMode: string
+  mapNumber: number
+  startedAt: number
+  duration: number
+  players: RecordedPlayer[]
+  events: RecordedEvent[]
+  snapshots: RecordedSnapshot[]
+}
+
+@Shard(GameRecorderRenderer.id)
+export class GameRecorderRenderer implements IAkariShardInitDispose {
+  static id = 'game-recorder-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
+    @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useGameRecorderStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  setEnabled(value: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'enabled', value)
+  }
+
+  getRecordedTimeline(gameId: number, sgpServerId?: string): Promise<RecordedTimeline | null> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getRecordedTimeline', gameId, sgpServerId)
+  }
+}
@@ -0,0 +1,20 @@
+import { defineStore } from 'pinia'
+import { shallowReactive, shallowRef } from 'vue'
+
+export const useGameRecorderStore = defineStore('shard:game-recorder-renderer', () => {
+  const settings = shallowReactive({
+    enabled: true
+  })
+
+  const recording = shallowRef<{
+    gameId: number
+    eventCount: number
+    snapshotCount: number
+  } | null>(null)
+
+  return {
+    settings,
+
+    recording
+  }
+})
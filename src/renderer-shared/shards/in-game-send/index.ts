@@ -17,11 +17,33 @@ export interface InGameSendTemplateCatalog {
   }>
 }
 
+// copied from main/shards/in-game-send/template-fixtures.ts
+export interface TemplateFixtureInfo {
+  id: string
+  name: string
+  createdAt: number
+  builtin: boolean
+  queueId: number | null
+  memberCount: number
+}
+
+// copied from main/shards/in-game-send/template-fixtures.ts
+export interface TemplateFixtureRunResult {
+  messages: {
+    text: string
+    length: number
+  }[]
+  maxLength: number
+  durationMs: number
+  error: string | null
+}
+
 @Shard(InGameSendRenderer.id)
 export class InGameSendRenderer implements IAkariShardInitDispose {
   static id = 'in-game-send-renderer'
 
   static CANCEL_SHORTCUT_TARGET_ID = `${MAIN_SHARD_NAMESPACE}/cancel`
+  static PAUSE_SHORTCUT_TARGET_ID = `${MAIN_SHARD_NAMESPACE}/pause`
 
   constructor(
     @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
@@ -33,6 +55,7 @@ export class InGameSendRenderer implements IAkariShardInitDispose {
     const store = useInGameSendStore()
 
     this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store.state)
   }
 
   getSendableItemShortcutTargetId(id: string) {
@@ -47,6 +70,22 @@ export class InGameSendRenderer implements IAkariShardInitDispose {
     return this._setting.set(MAIN_SHARD_NAMESPACE, 'cancelShortcut', shortcut)
   }
 
+  setPauseShortcut(shortcut: string | null) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'pauseShortcut', shortcut)
+  }
+
+  pauseSend() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'pauseSend')
+  }
+
+  resumeSend() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'resumeSend')
+  }
+
+  cancelSend() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'cancelSend')
+  }
+
   createSendableItem(data?: Partial<SendableItem>): Promise<SendableItem | undefined> {
     return this._ipc.call(MAIN_SHARD_NAMESPACE, 'createSendableItem', data)
   }
@@ -71,8 +110,7 @@ export class InGameSendRenderer implements IAkariShardInitDispose {
     {
       data: string[]
     } & (
-      | { error: true; reason: string; extra: string }
-      | { error: false; reason: null; extra: string }
+      { error: true; reason: string; extra: string } | { error: false; reason: null; extra: string }
     )
   > {
     return this._ipc.call(MAIN_SHARD_NAMESPACE, 'dryRunStatsSend', target)
@@ -94,6 +132,10 @@ export class InGameSendRenderer implements IAkariShardInitDispose {
     return this._ipc.call(MAIN_SHARD_NAMESPACE, 'removeTemplate', id)
   }
 
+  approveTemplate(id: string): Promise<TemplateDef | undefined> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'approveTemplate', id)
+  }
+
   getDryRunResult(
     templateId: string,
     target: 'ally' | 'enemy' | 'all'
@@ -104,6 +146,35 @@ export class InGameSendRenderer implements IAkariShardInitDispose {
     return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getDryRunResult', templateId, target)
   }
 
+  getFixtures(): Promise<TemplateFixtureInfo[]> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getFixtures')
+  }
+
+  /**
+   * 将当前对局的模板环境保存为快照
+   */
+  saveFixture(name: string): Promise<TemplateFixtureInfo> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'saveFixture', name)
+  }
+
+  removeFixture(id: string): Promise<boolean> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'removeFixture', id)
+  }
+
+  runTemplateWithFixture(
+    templateId: string,
+    fixtureId: string,
+    target: 'ally' | 'enemy' | 'all'
+  ): Promise<TemplateFixtureRunResult> {
+    return this._ipc.call(
+      MAIN_SHARD_NAMESPACE,
+      'runTemplateWithFixture',
+      templateId,
+      fixtureId,
+      target
+    )
+  }
+
   onTemplateExecutionFailed(callback: (data: { templateId: string; error: string }) => void) {
     return this._ipc.onEventVue(MAIN_SHARD_NAMESPACE, 'error-template-execution-failed', callback)
   }
@@ -46,6 +46,26 @@ export interface TemplateDef {
   isValid: boolean
   type: string
   error: string | null
+
+  /**
+   * 模板声明的权限, v1 模板固定为 `full-access`
+   */
+  permissions: string[]
+
+  /**
+   * 从远程下载的模板需要用户确认权限后才能执行
+   */
+  source: 'local' | 'remote'
+  approved: boolean
+}
+
+// copied from main shard
+export interface SendQueueProgress {
+  status: 'sending' | 'paused'
+  channel: 'chat' | 'in-game'
+  sent: number
+  failed: number
+  total: number
 }
 
 export const useInGameSendStore = defineStore('shard:in-game-send-renderer', () => {
@@ -53,10 +73,16 @@ export const useInGameSendStore = defineStore('shard:in-game-send-renderer', ()
     sendableItems: [] as SendableItem[],
     templates: [] as TemplateDef[],
     cancelShortcut: null as string | null,
+    pauseShortcut: null as string | null,
     sendInterval: 65
   })
 
+  const state = shallowReactive({
+    sendProgress: null as SendQueueProgress | null
+  })
+
   return {
-    settings
+    settings,
+    state
   }
 })
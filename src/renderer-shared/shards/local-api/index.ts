@@ -0,0 +1,38 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { SettingUtilsRenderer } from '../setting-utils'
+import { useLocalApiStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'local-api-main'
+
+@Shard(LocalApiRenderer.id)
+export class LocalApiRenderer implements IAkariShardInitDispose {
+  static id = 'local-api-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
+    @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useLocalApiStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  setEnabled(value: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'enabled', value)
+  }
+
+  setPort(value: number) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'port', value)
+  }
+
+  regenerateToken() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'regenerateToken')
+  }
+}
@@ -0,0 +1,22 @@
+import { defineStore } from 'pinia'
+import { ref, shallowReactive } from 'vue'
+
+export const useLocalApiStore = defineStore('shard:local-api-renderer', () => {
+  const settings = shallowReactive({
+    enabled: false,
+    port: 27124,
+    token: ''
+  })
+
+  const status = ref<'stopped' | 'listening' | 'error'>('stopped')
+  const error = ref<string | null>(null)
+  const clientCount = ref(0)
+
+  return {
+    settings,
+
+    status,
+    error,
+    clientCount
+  }
+})
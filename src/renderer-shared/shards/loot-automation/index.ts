@@ -0,0 +1,43 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { LootPlan, LootPlanOperation, LootRule } from '@shared/utils/loot-rules'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { SettingUtilsRenderer } from '../setting-utils'
+import { useLootAutomationStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'loot-automation-main'
+
+@Shard(LootAutomationRenderer.id)
+export class LootAutomationRenderer implements IAkariShardInitDispose {
+  static id = 'loot-automation-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer,
+    @Dep(SettingUtilsRenderer) private readonly _setting: SettingUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useLootAutomationStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  setRules(rules: LootRule[]) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'rules', rules)
+  }
+
+  dryRun(): Promise<LootPlan> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'dryRun')
+  }
+
+  execute(operations: LootPlanOperation[]): Promise<{ total: number; succeeded: number }> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'execute', operations)
+  }
+
+  clearLogs() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'clearLogs')
+  }
+}
@@ -0,0 +1,28 @@
+import { LootPlanOperation, LootRule } from '@shared/utils/loot-rules'
+import { defineStore } from 'pinia'
+import { shallowReactive, shallowRef } from 'vue'
+
+// copied from main shard
+export interface LootOperationLog {
+  time: number
+  operation: LootPlanOperation
+  success: boolean
+  added: { name: string; count: number }[]
+  reason?: string
+}
+
+export const useLootAutomationStore = defineStore('shard:loot-automation-renderer', () => {
+  const settings = shallowReactive({
+    rules: [] as LootRule[]
+  })
+
+  const isExecuting = shallowRef(false)
+  const logs = shallowRef<LootOperationLog[]>([])
+
+  return {
+    settings,
+
+    isExecuting,
+    logs
+  }
+})
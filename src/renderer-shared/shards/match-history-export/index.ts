@@ -0,0 +1,54 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+
+const MAIN_SHARD_NAMESPACE = 'match-history-export-main'
+
+// copied from main shard
+export type MatchHistoryExportTarget =
+  | {
+      type: 'players'
+      puuids: string[]
+      sgpServerId: string
+    }
+  | {
+      type: 'saved-players'
+      selfPuuid?: string
+      onlyTagged?: boolean
+    }
+
+// copied from main shard
+export interface MatchHistoryExportOptions {
+  target: MatchHistoryExportTarget
+  format: 'csv' | 'ndjson'
+  queueIds?: number[]
+  from?: number
+  to?: number
+}
+
+// copied from main shard
+export interface MatchHistoryExportResult {
+  path: string
+  players: number
+  rows: number
+}
+
+@Shard(MatchHistoryExportRenderer.id)
+export class MatchHistoryExportRenderer implements IAkariShardInitDispose {
+  static id = 'match-history-export-renderer'
+
+  constructor(@Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer) {}
+
+  async onInit() {}
+
+  async onDispose() {}
+
+  /**
+   * 弹出保存对话框并导出, 取消时返回 undefined
+   */
+  exportMatchHistory(
+    options: MatchHistoryExportOptions
+  ): Promise<MatchHistoryExportResult | undefined> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'exportMatchHistory', options)
+  }
+}
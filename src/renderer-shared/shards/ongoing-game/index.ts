@@ -1,5 +1,6 @@
 import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
 import { Game } from '@shared/types/league-client/match-history'
+import { AkariScoreProfile } from '@shared/utils/analysis'
 import { computed, markRaw, watch } from 'vue'
 import { useRouter } from 'vue-router'
 
@@ -44,6 +45,10 @@ export class OngoingGameRenderer implements IAkariShardInitDispose {
     return this._setting.set(MAIN_SHARD_NAMESPACE, 'premadeTeamThreshold', value)
   }
 
+  setPremadeTeamUseArchivedGames(value: boolean) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'premadeTeamUseArchivedGames', value)
+  }
+
   setMatchHistoryUseSgpApi(value: boolean) {
     return this._setting.set(MAIN_SHARD_NAMESPACE, 'matchHistoryUseSgpApi', value)
   }
@@ -60,6 +65,10 @@ export class OngoingGameRenderer implements IAkariShardInitDispose {
     return this._setting.set(MAIN_SHARD_NAMESPACE, 'gameTimelineLoadCount', value)
   }
 
+  setAkariScoreProfiles(value: AkariScoreProfile[]) {
+    return this._setting.set(MAIN_SHARD_NAMESPACE, 'akariScoreProfiles', value)
+  }
+
   reload() {
     this._ipc.call(MAIN_SHARD_NAMESPACE, 'reload')
   }
@@ -3,6 +3,8 @@ import { Game } from '@shared/types/league-client/match-history'
 import { RankedStats } from '@shared/types/league-client/ranked'
 import { SummonerInfo } from '@shared/types/league-client/summoner'
 import {
+  AkariScoreProfile,
+  DEFAULT_AKARI_SCORE_PROFILE,
   MatchHistoryGamesAnalysisAll,
   MatchHistoryGamesAnalysisTeamSide
 } from '@shared/utils/analysis'
@@ -63,6 +65,13 @@ interface EncounteredGame {
   queueType: string
 }
 
+// copied from main shard
+export interface InferredPremadeTeam {
+  players: string[]
+  times: number
+  confidence: number
+}
+
 // copied from main shard
 export interface SavedInfo {
   puuid: string
@@ -119,11 +128,13 @@ export const useOngoingGameStore = defineStore('shard:ongoing-game-renderer', ()
   const settings = shallowReactive({
     enabled: false,
     premadeTeamThreshold: 3,
+    premadeTeamUseArchivedGames: true,
     matchHistoryLoadCount: 20,
     concurrency: 3,
     matchHistoryUseSgpApi: true,
     matchHistoryTagPreference: 'current' as 'current' | 'all',
     gameTimelineLoadCount: 0,
+    akariScoreProfiles: [DEFAULT_AKARI_SCORE_PROFILE] as AkariScoreProfile[],
 
     // renderer only
     orderPlayerBy: 'default' as
@@ -178,7 +189,7 @@ export const useOngoingGameStore = defineStore('shard:ongoing-game-renderer', ()
   // untyped
   const queryStage = shallowRef<QueryStage>({ phase: 'unavailable', gameInfo: null })
   const isInEog = shallowRef(false)
-  const inferredPremadeTeams = shallowRef<Record<string, string[][]>>({})
+  const inferredPremadeTeams = shallowRef<Record<string, InferredPremadeTeam[]>>({})
 
   const playerStats = shallowRef<{
     players: Record<string, MatchHistoryGamesAnalysisAll>
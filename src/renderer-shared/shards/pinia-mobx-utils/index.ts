@@ -1,12 +1,17 @@
-import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { Dep, IAkariShardInitDispose, Shard, SharedGlobalShard } from '@shared/akari-shard'
+import { formatError } from '@shared/utils/errors'
+import { JsonPatchOp, applyJsonPatch } from '@shared/utils/json-patch'
 import _ from 'lodash'
 import { markRaw } from 'vue'
 
 import { AkariIpcRenderer } from '../ipc'
+import type { LoggerRenderer } from '../logger'
 
 // 对应主进程相应模块
 export const MAIN_SHARD_NAMESPACE = 'mobx-utils-main'
 
+const LOGGER_SHARD_NAMESPACE = 'logger-renderer'
+
 /**
  * 对应主进程模块, 适用于 Pinia 的状态同步器
  */
@@ -14,31 +19,103 @@ export const MAIN_SHARD_NAMESPACE = 'mobx-utils-main'
 export class PiniaMobxUtilsRenderer implements IAkariShardInitDispose {
   static id = 'pinia-mobx-utils-renderer'
 
-  constructor(@Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer) {}
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(SharedGlobalShard) private readonly _shared: SharedGlobalShard
+  ) {}
 
   async sync(namespace: string, stateId: string, store: any) {
-    this._ipc.onEvent(
-      MAIN_SHARD_NAMESPACE,
-      `update-state-prop/${namespace}:${stateId}`,
-      (path, value, { action }) => {
-        if (action === 'update' || action === 'create') {
-          _.set(store, path, _.isObject(value) ? markRaw(value) : value)
-        } else if (action === 'delete') {
-          _.unset(store, path)
+    const setValue = (path: string, value: any) => {
+      _.set(store, path, _.isObject(value) ? markRaw(value) : value)
+    }
+
+    // propPath -> 已应用的版本
+    const versions: Record<string, number> = {}
+    const resyncing = new Set<string>()
+
+    // 在获取到初始状态前收到的事件, 暂存后按版本过滤
+    let pending: [string, any, { action: string; version?: number }][] | null = []
+
+    const resync = async (path: string) => {
+      resyncing.add(path)
+      try {
+        const { value, version } = await this._ipc.call(
+          MAIN_SHARD_NAMESPACE,
+          'getStatePropSnapshot',
+          namespace,
+          stateId,
+          path
+        )
+
+        setValue(path, value)
+        versions[path] = version
+      } finally {
+        resyncing.delete(path)
+      }
+    }
+
+    const handleUpdate = (
+      path: string,
+      value: any,
+      { action, version }: { action: string; version?: number }
+    ) => {
+      if (pending) {
+        pending.push([path, value, { action, version }])
+        return
+      }
+
+      if (version !== undefined && versions[path] !== undefined && version <= versions[path]) {
+        return
+      }
+
+      if (action === 'patch') {
+        if (resyncing.has(path)) {
+          return
+        }
+
+        // 版本不连续, 说明遗漏了某次增量, 需要重新获取全量
+        if (versions[path] === undefined || version !== versions[path] + 1) {
+          resync(path).catch((error) => {
+            // LoggerRenderer 依赖于本模块, 只能在使用时获取
+            const logger = this._shared.manager.getInstance(
+              LOGGER_SHARD_NAMESPACE
+            ) as LoggerRenderer
+            logger?.warn(
+              PiniaMobxUtilsRenderer.id,
+              `Failed to resync ${namespace}:${stateId}/${path}`,
+              formatError(error)
+            )
+          })
+          return
         }
+
+        setValue(path, applyJsonPatch(_.get(store, path), value as JsonPatchOp[]))
+      } else if (action === 'update' || action === 'create') {
+        setValue(path, value)
+      } else if (action === 'delete') {
+        _.unset(store, path)
       }
-    )
 
-    const initial: Record<string, any> = await this._ipc.call(
+      if (version !== undefined) {
+        versions[path] = version
+      }
+    }
+
+    this._ipc.onEvent(
       MAIN_SHARD_NAMESPACE,
-      'subscribeAndGetInitialState',
-      namespace,
-      stateId
+      `update-state-prop/${namespace}:${stateId}`,
+      handleUpdate
     )
 
-    Object.entries(initial).forEach(([key, value]) => {
-      _.set(store, key, _.isObject(value) ? markRaw(value) : value)
-    })
+    const initial: { state: Record<string, any>; versions: Record<string, number> } =
+      await this._ipc.call(MAIN_SHARD_NAMESPACE, 'subscribeAndGetInitialState', namespace, stateId)
+
+    Object.entries(initial.state).forEach(([key, value]) => setValue(key, value))
+    Object.assign(versions, initial.versions)
+
+    const buffered = pending
+    pending = null
+    buffered.forEach((args) => handleUpdate(...args))
   }
 
   async onInit() {}
@@ -0,0 +1,32 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { usePluginsStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'plugins-main'
+
+@Shard(PluginsRenderer.id)
+export class PluginsRenderer implements IAkariShardInitDispose {
+  static id = 'plugins-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = usePluginsStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  setPluginEnabled(id: string, enabled: boolean) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'setPluginEnabled', id, enabled)
+  }
+
+  openPluginsDir() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'openPluginsDir')
+  }
+}
@@ -0,0 +1,26 @@
+import { defineStore } from 'pinia'
+import { shallowReactive, shallowRef } from 'vue'
+
+// copied from main shard
+export interface PluginInfo {
+  id: string
+  name: string
+  version: string | null
+  description: string
+  status: 'running' | 'disabled' | 'failed' | 'invalid'
+  error: string | null
+}
+
+export const usePluginsStore = defineStore('shard:plugins-renderer', () => {
+  const settings = shallowReactive({
+    disabledPlugins: [] as string[]
+  })
+
+  const plugins = shallowRef<PluginInfo[]>([])
+
+  return {
+    settings,
+
+    plugins
+  }
+})
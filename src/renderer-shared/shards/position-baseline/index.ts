@@ -0,0 +1,27 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { usePositionBaselineStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'position-baseline-main'
+
+@Shard(PositionBaselineRenderer.id)
+export class PositionBaselineRenderer implements IAkariShardInitDispose {
+  static id = 'position-baseline-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = usePositionBaselineStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'state', store)
+  }
+
+  rebuild() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'rebuild') as Promise<void>
+  }
+}
@@ -0,0 +1,13 @@
+import { PositionBaselines } from '@shared/utils/analysis'
+import { defineStore } from 'pinia'
+import { shallowRef } from 'vue'
+
+export const usePositionBaselineStore = defineStore('shard:position-baseline-renderer', () => {
+  const baselines = shallowRef<PositionBaselines | null>(null)
+  const isBuilding = shallowRef(false)
+
+  return {
+    baselines,
+    isBuilding
+  }
+})
@@ -1,4 +1,4 @@
-import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { AkariManagerDiagnostics, Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
 import { RadixEventEmitter } from '@shared/event-emitter'
 import { LcuEvent } from '@shared/types/league-client/event'
 import { watch } from 'vue'
@@ -12,6 +12,13 @@ import { useRendererDebugStore } from './store'
 
 const MAIN_SHARD_NAMESPACE = 'renderer-debug-main'
 
+// copied from main shard
+export interface LcuRecordingInfo {
+  fileName: string
+  size: number
+  mtime: number
+}
+
 @Shard(RendererDebugRenderer.id)
 export class RendererDebugRenderer implements IAkariShardInitDispose {
   static id = 'renderer-debug-renderer'
@@ -158,4 +165,36 @@ export class RendererDebugRenderer implements IAkariShardInitDispose {
   setLogAllLcuEvents(value: boolean) {
     return this._ipc.call(MAIN_SHARD_NAMESPACE, 'setLogAllLcuEvents', value)
   }
+
+  startLcuRecording() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'startLcuRecording')
+  }
+
+  stopLcuRecording() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'stopLcuRecording')
+  }
+
+  getLcuRecordings(): Promise<LcuRecordingInfo[]> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getLcuRecordings')
+  }
+
+  replayLcuRecording(fileName: string, speed?: number) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'replayLcuRecording', fileName, speed)
+  }
+
+  setLcuReplaySpeed(speed: number) {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'setLcuReplaySpeed', speed)
+  }
+
+  stopLcuReplay() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'stopLcuReplay')
+  }
+
+  openLcuRecordingsDir() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'openLcuRecordingsDir')
+  }
+
+  getStartupDiagnostics(): Promise<AkariManagerDiagnostics> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'getStartupDiagnostics')
+  }
 }
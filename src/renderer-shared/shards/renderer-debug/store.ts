@@ -1,9 +1,26 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { ref, shallowRef } from 'vue'
+
+// copied from main shard
+interface LcuRecordingStatus {
+  fileName: string
+  startedAt: number
+  eventCount: number
+}
+
+// copied from main shard
+interface LcuReplayStatus {
+  fileName: string
+  speed: number
+  position: number
+  total: number
+}
 
 export const useRendererDebugStore = defineStore('shard:renderer-debug-renderer', () => {
   const sendAllNativeLcuEvents = ref(false)
   const logAllLcuEvents = ref(false)
+  const lcuRecording = shallowRef<LcuRecordingStatus | null>(null)
+  const lcuReplay = shallowRef<LcuReplayStatus | null>(null)
   const rules = ref<
     {
       rule: string
@@ -15,6 +32,8 @@ export const useRendererDebugStore = defineStore('shard:renderer-debug-renderer'
   return {
     sendAllNativeLcuEvents,
     rules,
-    logAllLcuEvents
+    logAllLcuEvents,
+    lcuRecording,
+    lcuReplay
   }
 })
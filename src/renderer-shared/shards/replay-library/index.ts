@@ -0,0 +1,72 @@
+import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { RoflPlayer } from '@shared/utils/rofl'
+
+import { AkariIpcRenderer } from '../ipc'
+import { PiniaMobxUtilsRenderer } from '../pinia-mobx-utils'
+import { useReplayLibraryStore } from './store'
+
+const MAIN_SHARD_NAMESPACE = 'replay-library-main'
+
+// copied from main shard
+export interface ReplayFileInfo {
+  fileName: string
+  path: string
+  size: number
+  modifiedAt: number
+  gameId: number | null
+  platformId: string | null
+  gameVersion: string | null
+  gameLength: number
+  players: RoflPlayer[]
+  archived: {
+    queueId: number
+    gameCreation: number
+    gameMode: string
+  } | null
+  error: string | null
+}
+
+// copied from main shard
+export interface ReplayDownloadResult {
+  gameId: number
+  status: 'queued' | 'exists' | 'incompatible' | 'failed'
+  reason?: string
+}
+
+// copied from main shard
+export interface ReplayCleanupResult {
+  deleted: string[]
+  freedBytes: number
+}
+
+@Shard(ReplayLibraryRenderer.id)
+export class ReplayLibraryRenderer implements IAkariShardInitDispose {
+  static id = 'replay-library-renderer'
+
+  constructor(
+    @Dep(AkariIpcRenderer) private readonly _ipc: AkariIpcRenderer,
+    @Dep(PiniaMobxUtilsRenderer) private readonly _pm: PiniaMobxUtilsRenderer
+  ) {}
+
+  async onInit() {
+    const store = useReplayLibraryStore()
+
+    await this._pm.sync(MAIN_SHARD_NAMESPACE, 'settings', store.settings)
+  }
+
+  scan(): Promise<ReplayFileInfo[]> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'scan')
+  }
+
+  downloadRecentReplays(puuid: string, count: number): Promise<ReplayDownloadResult[]> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'downloadRecentReplays', puuid, count)
+  }
+
+  cleanupOldPatches(): Promise<ReplayCleanupResult> {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'cleanupOldPatches')
+  }
+
+  openReplaysFolder() {
+    return this._ipc.call(MAIN_SHARD_NAMESPACE, 'openReplaysFolder')
+  }
+}
@@ -0,0 +1,12 @@
+import { defineStore } from 'pinia'
+import { shallowReactive } from 'vue'
+
+export const useReplayLibraryStore = defineStore('shard:replay-library-renderer', () => {
+  const settings = shallowReactive({
+    replaysPath: null as string | null
+  })
+
+  return {
+    settings
+  }
+})
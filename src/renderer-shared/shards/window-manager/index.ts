@@ -1,4 +1,5 @@
 import { Dep, IAkariShardInitDispose, Shard } from '@shared/akari-shard'
+import { TimerStamp } from '@shared/utils/timer-announce'
 
 import { AkariIpcRenderer } from '../ipc'
 import { LoggerRenderer } from '../logger'
@@ -156,6 +157,8 @@ export class AkariCdTimerWindow extends BaseAkariWindowRenderer<
   ReturnType<typeof useCdTimerWindowStore>['settings']
 > {
   static SHOW_WINDOW_SHORTCUT_TARGET_ID = `${MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW}/show`
+  static ANNOUNCE_OBJECTIVES_SHORTCUT_TARGET_ID = `${MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW}/announce-objectives`
+  static ANNOUNCE_TIMERS_SHORTCUT_TARGET_ID = `${MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW}/announce-timers`
 
   constructor(_context: WindowManagerRendererContext) {
     super(
@@ -186,10 +189,54 @@ export class AkariCdTimerWindow extends BaseAkariWindowRenderer<
     )
   }
 
+  setObjectiveTimersEnabled(value: boolean) {
+    return this._context.setting.set(
+      MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW,
+      'objectiveTimersEnabled',
+      value
+    )
+  }
+
+  setAnnounceObjectivesShortcut(value: string | null) {
+    return this._context.setting.set(
+      MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW,
+      'announceObjectivesShortcut',
+      value
+    )
+  }
+
+  setAnnounceTimersShortcut(value: string | null) {
+    return this._context.setting.set(
+      MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW,
+      'announceTimersShortcut',
+      value
+    )
+  }
+
+  setAssumeCosmicInsight(value: boolean) {
+    return this._context.setting.set(
+      MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW,
+      'assumeCosmicInsight',
+      value
+    )
+  }
+
   // 一份复制后的逻辑, 嗯. 就这样吧
   sendInGame(text: string) {
     return this._context.ipc.call(MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW, 'sendInGame', text)
   }
+
+  announceObjectives() {
+    return this._context.ipc.call(MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW, 'announceObjectives')
+  }
+
+  onAnnounceTimers(fn: () => void) {
+    return this._context.ipc.onEventVue(MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW, 'announce-timers', fn)
+  }
+
+  onTimersReceived(fn: (stamps: TimerStamp[]) => void) {
+    return this._context.ipc.onEventVue(MAIN_SHARD_NAMESPACE_CD_TIMER_WINDOW, 'timers-received', fn)
+  }
 }
 
 @Shard(WindowManagerRenderer.id)
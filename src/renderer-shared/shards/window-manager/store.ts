@@ -1,3 +1,4 @@
+import { ObjectiveTimer } from '@shared/utils/objective-timers'
 import { defineStore } from 'pinia'
 import { ref, shallowReactive } from 'vue'
 
@@ -112,7 +113,11 @@ export const useCdTimerWindowStore = defineStore(
       pinned: true,
       showShortcut: null as string | null,
       timerType: 'countdown' as 'countdown' | 'countup',
-      reverseAdjustmentDirection: false
+      reverseAdjustmentDirection: false,
+      objectiveTimersEnabled: true,
+      announceObjectivesShortcut: null as string | null,
+      announceTimersShortcut: null as string | null,
+      assumeCosmicInsight: false
     })
 
     const basicWindowState = useBasicWindowStates()
@@ -123,11 +128,17 @@ export const useCdTimerWindowStore = defineStore(
       }[]
     >([])
     const gameTime = ref<number | null>(null)
+    const gameTimeUpdatedAt = ref<number | null>(null)
+    const objectiveTimers = ref<ObjectiveTimer[]>([])
+    const summonerSpellHastes = ref<Record<number, number>>({})
 
     return {
       settings,
       supportedGameModes,
       gameTime,
+      gameTimeUpdatedAt,
+      objectiveTimers,
+      summonerSpellHastes,
       ...basicWindowState
     }
   }
@@ -4,19 +4,28 @@ import { AutoChampConfigRenderer } from '@renderer-shared/shards/auto-champ-conf
 import { AutoGameflowRenderer } from '@renderer-shared/shards/auto-gameflow'
 import { AutoReplyRenderer } from '@renderer-shared/shards/auto-reply'
 import { AutoSelectRenderer } from '@renderer-shared/shards/auto-select'
+import { ClaimAutomationRenderer } from '@renderer-shared/shards/claim-automation'
 import { ClientInstallationRenderer } from '@renderer-shared/shards/client-installation'
 import { ExtraAssetsRenderer } from '@renderer-shared/shards/extra-assets'
+import { GameArchiveRenderer } from '@renderer-shared/shards/game-archive'
 import { GameClientRenderer } from '@renderer-shared/shards/game-client'
+import { GameRecorderRenderer } from '@renderer-shared/shards/game-recorder'
 import { InGameSendRenderer } from '@renderer-shared/shards/in-game-send'
 import { AkariIpcRenderer } from '@renderer-shared/shards/ipc'
 import { KeyboardShortcutsRenderer } from '@renderer-shared/shards/keyboard-shortcut'
 import { LeagueClientRenderer } from '@renderer-shared/shards/league-client'
 import { LeagueClientUxRenderer } from '@renderer-shared/shards/league-client-ux'
+import { LocalApiRenderer } from '@renderer-shared/shards/local-api'
 import { LoggerRenderer } from '@renderer-shared/shards/logger'
+import { LootAutomationRenderer } from '@renderer-shared/shards/loot-automation'
+import { MatchHistoryExportRenderer } from '@renderer-shared/shards/match-history-export'
 import { OngoingGameRenderer } from '@renderer-shared/shards/ongoing-game'
 import { PiniaMobxUtilsRenderer } from '@renderer-shared/shards/pinia-mobx-utils'
+import { PluginsRenderer } from '@renderer-shared/shards/plugins'
+import { PositionBaselineRenderer } from '@renderer-shared/shards/position-baseline'
 import { RemoteConfigRenderer } from '@renderer-shared/shards/remote-config'
 import { RendererDebugRenderer } from '@renderer-shared/shards/renderer-debug'
+import { ReplayLibraryRenderer } from '@renderer-shared/shards/replay-library'
 import { RespawnTimerRenderer } from '@renderer-shared/shards/respawn-timer'
 import { RiotClientRenderer } from '@renderer-shared/shards/riot-client'
 import { SavedPlayerRenderer } from '@renderer-shared/shards/saved-player'
@@ -38,20 +47,29 @@ manager.use(AutoChampConfigRenderer)
 manager.use(AutoGameflowRenderer)
 manager.use(AutoSelectRenderer)
 manager.use(AutoReplyRenderer)
+manager.use(ClaimAutomationRenderer)
 manager.use(ClientInstallationRenderer)
 manager.use(ExtraAssetsRenderer)
+manager.use(GameArchiveRenderer)
 manager.use(GameClientRenderer)
+manager.use(GameRecorderRenderer)
 manager.use(InGameSendRenderer)
 manager.use(KeyboardShortcutsRenderer)
 manager.use(LeagueClientRenderer)
 manager.use(LeagueClientUxRenderer)
+manager.use(LocalApiRenderer)
 manager.use(LoggerRenderer)
+manager.use(LootAutomationRenderer)
 manager.use(MainWindowUiRenderer)
+manager.use(MatchHistoryExportRenderer)
 manager.use(MatchHistoryTabsRenderer)
 manager.use(OngoingGameRenderer)
 manager.use(PiniaMobxUtilsRenderer)
+manager.use(PluginsRenderer)
+manager.use(PositionBaselineRenderer)
 manager.use(RendererDebugRenderer)
 manager.use(RemoteConfigRenderer)
+manager.use(ReplayLibraryRenderer)
 manager.use(RespawnTimerRenderer)
 manager.use(RiotClientRenderer)
 manager.use(SavedPlayerRenderer)
@@ -92,11 +92,11 @@ export class MatchHistoryTabsRenderer implements IAkariShardInitDispose {
       { immediate: true }
     )
 
-    // 在断开连接后删除所有页面
+    // 在断开连接后删除所有页面, 离线浏览时保留
     watch(
       () => lcs.connectionState,
       (s) => {
-        if (s === 'disconnected') {
+        if (s === 'disconnected' && !mhs.settings.offlineBrowsing) {
           mhs.closeAllTabs()
         }
       }
@@ -350,5 +350,12 @@ export class MatchHistoryTabsRenderer implements IAkariShardInitDispose {
       () => store.settings.matchHistoryUseSgpApi,
       (v) => (store.settings.matchHistoryUseSgpApi = v)
     )
+
+    await this._setting.savedGetterVue(
+      MatchHistoryTabsRenderer.id,
+      'offlineBrowsing',
+      () => store.settings.offlineBrowsing,
+      (v) => (store.settings.offlineBrowsing = v)
+    )
   }
 }
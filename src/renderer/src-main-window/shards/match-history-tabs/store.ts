@@ -51,6 +51,9 @@ export interface MatchHistoryPage {
 
   /** 'all' 为所有队列, 如果战机源为 LCU, 则一定为 all */
   tag: string
+
+  /** 是否为未连接时从本地缓存加载的数据, 此时 lastUpdate 为上次在线拉取的时间 */
+  isStale?: boolean
 }
 
 // copied from main shard
@@ -138,7 +141,12 @@ export const useMatchHistoryTabsStore = defineStore('shard:match-history-tabs-re
     /**
      * 优先使用 SGP API 查询战绩
      */
-    matchHistoryUseSgpApi: true
+    matchHistoryUseSgpApi: true,
+
+    /**
+     * 断开连接后保留页面, 并从本地缓存中加载查看过的玩家
+     */
+    offlineBrowsing: true
   })
 
   const tabs = ref<TabState[]>([])
@@ -0,0 +1,134 @@
+import 'reflect-metadata'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { AkariManager, ShardTimeoutError } from './manager'
+
+interface TestShardHooks {
+  onInit?: () => unknown
+  onFinish?: () => unknown
+}
+
+const createShard = (id: string, dependencies: string[] = [], hooks: TestShardHooks = {}) => {
+  return class {
+    static id = id
+    static priority = 0
+    static dependencies = dependencies
+
+    onInit() {
+      return hooks.onInit?.()
+    }
+
+    onFinish() {
+      return hooks.onFinish?.()
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const getShardDiagnostics = (manager: AkariManager, id: string) => {
+  return manager.getDiagnostics().shards.find((d) => d.id === id)
+}
+
+describe('AkariManager', () => {
+  it('reports a shard that settles after its timeout', async () => {
+    const onSettledAfterTimeout = vi.fn()
+    const manager = new AkariManager({
+      initTimeout: 20,
+      isolateFailures: true,
+      onSettledAfterTimeout
+    })
+
+    manager.useExternal(createShard('slow', [], { onInit: () => sleep(60) }))
+
+    await manager.setup()
+
+    const d = getShardDiagnostics(manager, 'slow')
+    expect(d?.status).toBe('failed')
+    expect(d?.failedPhase).toBe('init')
+    expect(onSettledAfterTimeout).not.toHaveBeenCalled()
+
+    await sleep(80)
+
+    expect(onSettledAfterTimeout).toHaveBeenCalledOnce()
+    expect(onSettledAfterTimeout).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'slow', phase: 'init', error: null })
+    )
+  })
+
+  it('skips dependents of a failed shard', async () => {
+    const dependentInit = vi.fn()
+    const manager = new AkariManager({ isolateFailures: true })
+
+    manager.useExternal(
+      createShard('broken', [], {
+        onInit: () => {
+          throw new Error('boom')
+        }
+      })
+    )
+    manager.useExternal(createShard('dependent', ['broken'], { onInit: dependentInit }))
+    manager.useExternal(createShard('standalone'))
+
+    await manager.setup()
+
+    expect(getShardDiagnostics(manager, 'broken')).toMatchObject({
+      status: 'failed',
+      failedPhase: 'init',
+      error: 'boom'
+    })
+    expect(getShardDiagnostics(manager, 'dependent')).toMatchObject({
+      status: 'skipped',
+      skippedBy: 'broken'
+    })
+    expect(getShardDiagnostics(manager, 'standalone')?.status).toBe('ok')
+    expect(dependentInit).not.toHaveBeenCalled()
+  })
+
+  it('aborts startup when a required shard fails', async () => {
+    const manager = new AkariManager({ isolateFailures: true, requiredShards: ['core'] })
+
+    manager.useExternal(
+      createShard('core', [], {
+        onInit: () => {
+          throw new Error('core failed')
+        }
+      })
+    )
+
+    await expect(manager.setup()).rejects.toThrow('core failed')
+    expect(getShardDiagnostics(manager, 'core')?.required).toBe(true)
+  })
+
+  it('aborts startup when a required shard times out', async () => {
+    const manager = new AkariManager({
+      initTimeout: 20,
+      isolateFailures: true,
+      requiredShards: ['core']
+    })
+
+    manager.useExternal(createShard('core', [], { onInit: () => sleep(60) }))
+
+    await expect(manager.setup()).rejects.toBeInstanceOf(ShardTimeoutError)
+  })
+
+  it('does not limit a shard whose timeout is set to 0', async () => {
+    const onSettledAfterTimeout = vi.fn()
+    const manager = new AkariManager({
+      initTimeout: 20,
+      finishTimeout: 20,
+      shardTimeouts: { unlimited: 0 },
+      onSettledAfterTimeout
+    })
+
+    manager.useExternal(
+      createShard('unlimited', [], { onInit: () => sleep(50), onFinish: () => sleep(50) })
+    )
+
+    await manager.setup()
+
+    expect(getShardDiagnostics(manager, 'unlimited')?.status).toBe('ok')
+    expect(onSettledAfterTimeout).not.toHaveBeenCalled()
+  })
+})
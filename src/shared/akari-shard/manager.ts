@@ -44,6 +44,93 @@ export type CtorParamType =
       type: 'empty'
     }
 
+export interface AkariManagerOptions {
+  /**
+   * 单个模块 onInit 的超时时间 (ms), 0 表示不限制
+   */
+  initTimeout?: number
+
+  /**
+   * 单个模块 onFinish 的超时时间 (ms), 0 表示不限制
+   */
+  finishTimeout?: number
+
+  /**
+   * 覆盖特定模块的超时时间 (ms), 同时作用于 onInit 和 onFinish
+   */
+  shardTimeouts?: Record<string, number>
+
+  /**
+   * 为 true 时, 非必需模块的失败不会中止启动, 该模块及依赖它的模块会被跳过
+   * 为 false 时, 所有模块均视为必需
+   */
+  isolateFailures?: boolean
+
+  /**
+   * 在 isolateFailures 下仍会中止启动的模块
+   */
+  requiredShards?: (string | symbol)[]
+
+  /**
+   * 超时的模块无法被取消, 当其最终完成或失败时调用, 可用于记录日志
+   */
+  onSettledAfterTimeout?: (info: ShardSettledAfterTimeoutInfo) => void
+}
+
+export interface ShardSettledAfterTimeoutInfo {
+  id: string
+  phase: 'init' | 'finish'
+
+  /**
+   * 从开始执行到最终完成的耗时 (ms)
+   */
+  duration: number
+  error: unknown | null
+}
+
+export type ShardLifecyclePhase = 'construct' | 'init' | 'finish'
+
+export interface ShardDiagnostics {
+  id: string
+  /**
+   * degraded: 已完成初始化, 但某个依赖在 onFinish 中失败
+   */
+  status: 'pending' | 'ok' | 'degraded' | 'failed' | 'skipped'
+  required: boolean
+
+  /**
+   * onInit 和 onFinish 的耗时 (ms), 未执行时为 null
+   */
+  initDuration: number | null
+  finishDuration: number | null
+
+  /**
+   * 失败时所处的阶段
+   */
+  failedPhase: ShardLifecyclePhase | null
+  error: string | null
+
+  /**
+   * 因哪个模块失败而被跳过
+   */
+  skippedBy: string | null
+
+  /**
+   * 因哪个模块在 onFinish 中失败而降级
+   */
+  degradedBy: string | null
+}
+
+export interface AkariManagerDiagnostics {
+  startedAt: number
+  duration: number | null
+  shards: ShardDiagnostics[]
+}
+
+export class ShardTimeoutError extends Error {
+  name = 'ShardTimeoutError'
+}
+
 export class AkariManager {
   private _registry: Map<
     string | symbol,
@@ -61,12 +148,23 @@ export class AkariManager {
   private _isSetup = false
   private _initializationOrder: string[] = []
 
+  private _diagnostics: Map<string | symbol, ShardDiagnostics> = new Map()
+  private _setupStartedAt = 0
+  private _setupDuration: number | null = null
+
+  /**
+   * onInit 已被调用的模块, 在清理时只会调用这些模块的 onDispose
+   */
+  private _started: Set<string | symbol> = new Set()
+
   // @ts-ignore
   public readonly global: AkariSharedGlobal = {}
 
   public static readonly SHARED_GLOBAL_ID = Symbol('<akari-shared-global>')
   public static readonly INTERNAL_RUNNER_ID = Symbol('<akari-shard-runner~(∠・ω<)⌒★>')
 
+  constructor(private readonly _options: AkariManagerOptions = {}) {}
+
   use(shard: Constructor, config?: object) {
     const { id, priority } = this._extractMetadata(shard)
 
@@ -105,6 +203,13 @@ export class AkariManager {
     })
   }
 
+  /**
+   * 是否已注册某个模块
+   */
+  has(id: string | symbol) {
+    return this._registry.has(id)
+  }
+
   /**
    * 启用所有注册的模块，进行依赖解析、实例化和生命周期钩子调用
    */
@@ -133,6 +238,11 @@ export class AkariManager {
     // shared global shard is a singleton
     this._instances.set(AkariManager.SHARED_GLOBAL_ID, new SharedGlobalShard(this))
 
+    this._setupStartedAt = Date.now()
+    this._setupDuration = null
+    this._diagnostics.clear()
+    this._started.clear()
+
     this._initializationOrder = []
     this._initializeShard(
       AkariManager.INTERNAL_RUNNER_ID,
@@ -141,19 +251,14 @@ export class AkariManager {
     )
 
     for (const id of this._initializationOrder) {
-      const instance = this._instances.get(id)
-      if (instance && instance.onInit) {
-        await instance.onInit()
-      }
+      await this._runLifecycle(id, 'init')
     }
 
     for (const id of this._initializationOrder) {
-      const instance = this._instances.get(id)
-      if (instance && instance.onFinish) {
-        await instance.onFinish()
-      }
+      await this._runLifecycle(id, 'finish')
     }
 
+    this._setupDuration = Date.now() - this._setupStartedAt
     this._isSetup = true
   }
 
@@ -165,12 +270,13 @@ export class AkariManager {
     const reversed = this._initializationOrder.toReversed()
     for (const id of reversed) {
       const instance = this._instances.get(id)
-      if (instance && instance.onDispose) {
+      if (instance && instance.onDispose && this._started.has(id)) {
         await instance.onDispose()
       }
     }
 
     this._instances.clear()
+    this._started.clear()
     this._initializationOrder = []
     this._isSetup = false
   }
@@ -198,6 +304,175 @@ export class AkariManager {
     return this._initializationOrder
   }
 
+  /**
+   * 启动诊断信息, 包括每个模块的状态和耗时
+   * 按初始化顺序排列, 不包括内部模块
+   */
+  getDiagnostics(): AkariManagerDiagnostics {
+    return {
+      startedAt: this._setupStartedAt,
+      duration: this._setupDuration,
+      shards: this._initializationOrder
+        .filter((id) => this._diagnostics.has(id))
+        .map((id) => ({ ...this._diagnostics.get(id)! }))
+    }
+  }
+
+  private _isInternal(id: string | symbol) {
+    return id === AkariManager.INTERNAL_RUNNER_ID || id === AkariManager.SHARED_GLOBAL_ID
+  }
+
+  private _isRequired(id: string | symbol) {
+    if (!this._options.isolateFailures) {
+      return true
+    }
+
+    return this._options.requiredShards?.includes(id) ?? false
+  }
+
+  private _getDepIds(id: string | symbol) {
+    const c = this._registry.get(id)!
+    return c.ctorParamArr.flatMap((p) => (p.type === 'depId' ? [p.depId] : []))
+  }
+
+  /**
+   * 找到第一个不可用 (失败或被跳过) 的依赖
+   */
+  private _findUnavailableDep(id: string | symbol) {
+    return this._getDepIds(id).find((depId) => {
+      const d = this._diagnostics.get(depId)
+      return d && (d.status === 'failed' || d.status === 'skipped')
+    })
+  }
+
+  private _getTimeout(id: string | symbol, phase: 'init' | 'finish') {
+    if (typeof id === 'string' && this._options.shardTimeouts?.[id] !== undefined) {
+      return this._options.shardTimeouts[id]
+    }
+
+    return (phase === 'init' ? this._options.initTimeout : this._options.finishTimeout) ?? 0
+  }
+
+  /**
+   * 标记模块失败. 对于必需模块, 将直接抛出错误以中止启动
+   */
+  private _fail(id: string | symbol, phase: ShardLifecyclePhase, error: unknown) {
+    const d = this._diagnostics.get(id)!
+    d.status = 'failed'
+    d.failedPhase = phase
+    d.error = error instanceof Error ? error.message : String(error)
+
+    if (d.required) {
+      throw error
+    }
+  }
+
+  /**
+   * 依赖在 onFinish 中失败时, 模块已完成 onInit, 仍会继续执行而不是被跳过
+   */
+  private _degrade(id: string | symbol, depId: string | symbol) {
+    const d = this._diagnostics.get(id)!
+    d.degradedBy = depId.toString()
+  }
+
+  private _skip(id: string | symbol, depId: string | symbol) {
+    const d = this._diagnostics.get(id)!
+    d.status = 'skipped'
+    d.skippedBy = depId.toString()
+
+    if (d.required) {
+      throw new Error(`Required shard "${id.toString()}" skipped: "${depId.toString()}" failed`)
+    }
+  }
+
+  private async _runLifecycle(id: string | symbol, phase: 'init' | 'finish') {
+    const d = this._diagnostics.get(id)
+    if (!d || d.status === 'failed' || d.status === 'skipped') {
+      return
+    }
+
+    const unavailableDep = this._findUnavailableDep(id)
+    if (unavailableDep !== undefined) {
+      if (phase === 'init') {
+        this._skip(id, unavailableDep)
+        return
+      }
+
+      this._degrade(id, unavailableDep)
+    }
+
+    const instance = this._instances.get(id)
+    const hook = phase === 'init' ? instance.onInit : instance.onFinish
+
+    if (phase === 'init') {
+      this._started.add(id)
+    }
+
+    if (!hook) {
+      if (phase === 'finish') {
+        d.status = d.degradedBy === null ? 'ok' : 'degraded'
+      }
+      return
+    }
+
+    const start = performance.now()
+    const timeout = this._getTimeout(id, phase)
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      const run = hook.call(instance)
+
+      // 超时的模块无法被取消, 其后续的执行结果将被忽略, 仅通知调用方
+      if (timeout > 0) {
+        const timedOut = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            Promise.resolve(run).then(
+              () => this._notifySettledAfterTimeout(id, phase, start, null),
+              (error) => this._notifySettledAfterTimeout(id, phase, start, error)
+            )
+
+            reject(
+              new ShardTimeoutError(`${phase} of "${id.toString()}" timed out after ${timeout}ms`)
+            )
+          }, timeout)
+        })
+
+        await Promise.race([run, timedOut])
+      } else {
+        await run
+      }
+
+      if (phase === 'finish') {
+        d.status = d.degradedBy === null ? 'ok' : 'degraded'
+      }
+    } catch (error) {
+      this._fail(id, phase, error)
+    } finally {
+      clearTimeout(timer)
+
+      const duration = performance.now() - start
+      if (phase === 'init') {
+        d.initDuration = duration
+      } else {
+        d.finishDuration = duration
+      }
+    }
+  }
+
+  private _notifySettledAfterTimeout(
+    id: string | symbol,
+    phase: 'init' | 'finish',
+    start: number,
+    error: unknown | null
+  ) {
+    this._options.onSettledAfterTimeout?.({
+      id: id.toString(),
+      phase,
+      duration: performance.now() - start,
+      error
+    })
+  }
+
   private _initializeShard(
     id: string | symbol,
     visited: Set<string | symbol>,
@@ -229,8 +504,8 @@ export class AkariManager {
           throw new Error(`Circular dependency detected: ${[...visited, depId].join(' -> ')}`)
         }
 
-        if (this._instances.has(depId)) {
-          instances.set(depId, this._instances.get(depId)!)
+        if (this._instances.has(depId) || this._diagnostics.has(depId)) {
+          instances.set(depId, this._instances.get(depId))
         } else {
           visited.add(depId)
           instances.set(depId, this._initializeShard(depId, visited, order))
@@ -241,6 +516,26 @@ export class AkariManager {
 
     order.push(id)
 
+    if (!this._isInternal(id)) {
+      this._diagnostics.set(id, {
+        id: id.toString(),
+        status: 'pending',
+        required: this._isRequired(id),
+        initDuration: null,
+        finishDuration: null,
+        failedPhase: null,
+        error: null,
+        skippedBy: null,
+        degradedBy: null
+      })
+
+      const unavailableDep = this._findUnavailableDep(id)
+      if (unavailableDep !== undefined) {
+        this._skip(id, unavailableDep)
+        return undefined
+      }
+    }
+
     const params = c.ctorParamArr.map((p) => {
       if (p.type === 'depId') {
         return instances.get(p.depId)
@@ -251,10 +546,20 @@ export class AkariManager {
       }
     })
 
-    const instance = new c.ctor(...params)
-    this._instances.set(id, instance)
+    if (this._isInternal(id)) {
+      const instance = new c.ctor(...params)
+      this._instances.set(id, instance)
+      return instance
+    }
 
-    return instance
+    try {
+      const instance = new c.ctor(...params)
+      this._instances.set(id, instance)
+      return instance
+    } catch (error) {
+      this._fail(id, 'construct', error)
+      return undefined
+    }
   }
 
   private _extractMetadata(target: Constructor): ShardMetadata {
@@ -1,4 +1,10 @@
-import { GameStats, PlayerList } from '@shared/types/game-client'
+import {
+  ActivePlayer,
+  AllGameData,
+  EventData,
+  GameStats,
+  PlayerList
+} from '@shared/types/game-client'
 import { AxiosInstance } from 'axios'
 
 // https://static.developer.riotgames.com/docs/lol/liveclientdata_sample.json
@@ -10,11 +16,11 @@ export class GameClientHttpApiAxiosHelper {
   }
 
   getActivePlayer() {
-    return this._http.get('/liveclientdata/activeplayer')
+    return this._http.get<ActivePlayer>('/liveclientdata/activeplayer')
   }
 
   getAllGameData() {
-    return this._http.get('/liveclientdata/allgamedata')
+    return this._http.get<AllGameData>('/liveclientdata/allgamedata')
   }
 
   getActivePlayerAbilities() {
@@ -34,7 +40,7 @@ export class GameClientHttpApiAxiosHelper {
   }
 
   getEventData() {
-    return this._http.get('/liveclientdata/eventdata')
+    return this._http.get<EventData>('/liveclientdata/eventdata')
   }
 
   getGameStats() {
@@ -3,6 +3,10 @@ import { AxiosInstance } from 'axios'
 export class EndOfGameHttpApi {
   constructor(private _http: AxiosInstance) {}
 
+  getEogStatsBlock() {
+    return this._http.get<any>('/lol-end-of-game/v1/eog-stats-block')
+  }
+
   dismissStats() {
     return this._http.post<void>('/lol-end-of-game/v1/state/dismiss-stats')
   }
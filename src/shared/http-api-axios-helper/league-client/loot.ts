@@ -1,4 +1,4 @@
-import { LootCraftResponse, LootMap } from '@shared/types/league-client/loot'
+import { LootCraftResponse, LootMap, LootRecipe } from '@shared/types/league-client/loot'
 import { AxiosInstance } from 'axios'
 
 export class LootHttpApi {
@@ -8,7 +8,17 @@ export class LootHttpApi {
     return this._http.get<LootMap>('/lol-loot/v1/player-loot-map')
   }
 
-  craftLoot(loot: string, repeat = 1) {
-    return this._http.post<LootCraftResponse>(`/lol-loot/v1/recipes/${loot}/craft?repeat=${repeat}`)
+  /**
+   * @param lootIds 配方所需的材料, 如打开宝箱时为宝箱和钥匙
+   */
+  craftLoot(loot: string, repeat = 1, lootIds?: string[]) {
+    return this._http.post<LootCraftResponse>(
+      `/lol-loot/v1/recipes/${loot}/craft?repeat=${repeat}`,
+      lootIds
+    )
+  }
+
+  getRecipesForLoot(lootId: string) {
+    return this._http.get<LootRecipe[]>(`/lol-loot/v1/recipes/initial-item/${lootId}`)
   }
 }
@@ -69,3 +69,46 @@ export interface GameStats {
   mapNumber: number
   mapTerrain: number
 }
+
+export interface ActivePlayer {
+  currentGold: number
+  level: number
+  riotId: string
+  riotIdGameName: string
+  riotIdTagLine: string
+  summonerName: string
+  teamRelativeColors: boolean
+  [key: string]: any
+}
+
+/**
+ * 游戏内事件, 除公共字段外的字段取决于 `EventName`
+ */
+export interface GameEvent {
+  EventID: number
+  EventName: string
+  EventTime: number // in seconds (float)
+  KillerName?: string
+  VictimName?: string
+  Assisters?: string[]
+  DragonType?: string
+  Stolen?: string // 'True' | 'False'
+  TurretKilled?: string
+  InhibKilled?: string
+  Acer?: string
+  AcingTeam?: string
+  KillStreak?: number
+  Recipient?: string
+  Result?: string
+}
+
+export interface EventData {
+  Events: GameEvent[]
+}
+
+export interface AllGameData {
+  activePlayer: ActivePlayer
+  allPlayers: PlayerList[]
+  events: EventData
+  gameData: GameStats
+}
@@ -39,6 +39,31 @@ export interface Loot {
   value: number
 }
 
+export interface LootRecipe {
+  contextMenuText: string
+  crafterName: string
+  description: string
+  displayCategories: string
+  outputs: LootRecipeOutput[]
+  recipeName: string
+  requirementText: string
+  slots: LootRecipeSlot[]
+  type: string
+}
+
+export interface LootRecipeOutput {
+  lootName: string
+  probability: number
+  quantity: number
+}
+
+export interface LootRecipeSlot {
+  lootIds: string[]
+  quantity: number
+  query: string
+  slotNumber: number
+}
+
 export interface LootCraftResponse {
   added: Added[]
   redeemed: any[]
@@ -280,31 +280,373 @@ export interface MatchHistoryChampionPositionAnalysis {
   }
 }
 
+/**
+ * 用于位置基线的指标, 均为单局分析中的字段
+ */
+export const BASELINE_METRICS = [
+  'kda',
+  'csPerMinute',
+  'damageDealtToChampionShareOfTeam',
+  'damageTakenShareOfTeam',
+  'goldShareOfTeam',
+  'visionScore',
+  'killParticipationRate'
+] as const satisfies readonly (keyof MatchHistoryGamesAnalysis)[]
+
+export type BaselineMetric = (typeof BASELINE_METRICS)[number]
+
+export type BaselineMetrics = Record<BaselineMetric, number>
+
+/**
+ * 分位点的数量, 即每 5% 记录一个分位点
+ */
+export const BASELINE_QUANTILE_STEPS = 20
+
+/**
+ * 某个队列中某个位置的指标分布
+ */
+export interface BaselineDistribution {
+  sampleCount: number
+
+  /**
+   * 每个指标从 0% 到 100% 的分位点, 长度为 BASELINE_QUANTILE_STEPS + 1
+   */
+  quantiles: Record<BaselineMetric, number[]>
+}
+
+export interface PositionBaselines {
+  updateAt: number
+
+  /**
+   * key 为 `${queueId}:${position}`
+   */
+  distributions: Record<string, BaselineDistribution>
+}
+
+export interface MatchHistoryPercentiles {
+  /**
+   * 有对应基线的对局数量
+   */
+  count: number
+
+  /**
+   * 各项指标在同队列同位置中的百分位 (0 - 100), 为各局百分位的平均值
+   */
+  metrics: BaselineMetrics
+}
+
 export interface MatchHistoryGamesAnalysisAll {
   games: Record<number, MatchHistoryGamesAnalysis>
   summary: MatchHistoryGamesAnalysisSummary
   champions: Record<number, MatchHistoryChampionAnalysis>
   positions: MatchHistoryChampionPositionAnalysis | null
   akariScore: AkariScore
+  percentiles: MatchHistoryPercentiles | null
+}
+
+/**
+ * 是否为计入分析的对局, 排除提前投降, 反作弊中止和非匹配对局
+ */
+function isAnalyzableGame(game: Game) {
+  return (
+    !game.participants.some((p) => p.stats.gameEndedInEarlySurrender) &&
+    game.endOfGameResult !== 'Abort_AntiCheatExit' &&
+    game.gameType === 'MATCHED_GAME' &&
+    !isPveQueue(game.queueId)
+  )
+}
+
+/**
+ * 计算玩家在一局对局中的各项数值, 占比以其所在队伍 (斗魂竞技场中为小队) 为准, 不包括 timeline 部分
+ */
+function analyzeGameParticipant(game: Game, watashi: Participant): MatchHistoryGamesAnalysis {
+  let flashSlot: 'D' | 'F' | null = null
+  if (watashi.spell1Id === SUMMONER_SPELL_FLASH_ID) {
+    flashSlot = 'F'
+  } else if (watashi.spell2Id === SUMMONER_SPELL_FLASH_ID) {
+    flashSlot = 'D'
+  }
+
+  const gameAnalysis: MatchHistoryGamesAnalysis = {
+    damageShareToTop: 0,
+    physicalDamageShareToTop: 0,
+    magicDamageShareToTop: 0,
+    trueDamageShareToTop: 0,
+
+    damageShareOfTeam: 0,
+    physicalDamageShareOfTeam: 0,
+    magicDamageShareOfTeam: 0,
+    trueDamageShareOfTeam: 0,
+
+    damageDealtToChampionShareToTop: 0,
+    physicalDamageDealtToChampionShareToTop: 0,
+    magicDamageDealtToChampionShareToTop: 0,
+    trueDamageDealtToChampionShareToTop: 0,
+
+    damageDealtToChampionShareOfTeam: 0,
+    physicalDamageDealtToChampionShareOfTeam: 0,
+    magicDamageDealtToChampionShareOfTeam: 0,
+    trueDamageDealtToChampionShareOfTeam: 0,
+
+    // 承受伤害系列
+    damageTakenShareToTop: 0,
+    physicalDamageTakenShareToTop: 0,
+    magicDamageTakenShareToTop: 0,
+    trueDamageTakenShareToTop: 0,
+
+    damageTakenShareOfTeam: 0,
+    physicalDamageTakenShareOfTeam: 0,
+    magicDamageTakenShareOfTeam: 0,
+    trueDamageTakenShareOfTeam: 0,
+
+    towerDamageShareToTop: 0,
+    towerDamageShareOfTeam: 0,
+
+    selfMitigatedShareToTop: 0,
+    selfMitigatedShareOfTeam: 0,
+
+    healingShareToTop: 0,
+    healingShareOfTeam: 0,
+
+    // KDA 系列
+    killParticipationRate: 0,
+
+    kda: (watashi.stats.kills + watashi.stats.assists) / (watashi.stats.deaths || 1),
+    kd: watashi.stats.kills / (watashi.stats.deaths || 1),
+    kills: watashi.stats.kills,
+    deaths: watashi.stats.deaths,
+    assists: watashi.stats.assists,
+
+    // 补兵占比 (包括野怪和小兵)
+    csShareToTop: 0,
+    csShareOfTeam: 0,
+    csPerMinute:
+      (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) /
+      (game.gameDuration / 60),
+
+    // 经济占比
+    goldShareToTop: 0,
+    goldShareOfTeam: 0,
+
+    visionScore: watashi.stats.visionScore,
+
+    // 经济转换率
+    damageGoldEfficiency: Math.min(
+      watashi.stats.totalDamageDealtToChampions / watashi.stats.goldEarned,
+      99999
+    ),
+
+    win: watashi.stats.win,
+
+    // -
+    championId: watashi.championId,
+
+    // sgp only
+    position: watashi.stats.teamPosition || null,
+    enemyMissingPings: watashi.stats.enemyMissingPings ?? null,
+
+    // timeline
+    soloKills: null,
+    soloDeaths: null,
+
+    // 杂项
+    flashSlot
+  }
+
+  let maxDamageDealt = 0
+  let maxPhysicalDamageDealt = 0
+  let maxMagicDamageDealt = 0
+  let maxTrueDamageDealt = 0
+  let totalDamageDealt = 0
+  let totalPhysicalDamageDealt = 0
+  let totalMagicDamageDealt = 0
+  let totalTrueDamageDealt = 0
+  let maxDamageDealtToChampion = 0
+  let maxPhysicalDamageDealtToChampion = 0
+  let maxMagicDamageDealtToChampion = 0
+  let maxTrueDamageDealtToChampion = 0
+  let totalDamageDealtToChampion = 0
+  let totalPhysicalDamageDealtToChampion = 0
+  let totalMagicDamageDealtToChampion = 0
+  let totalTrueDamageDealtToChampion = 0
+  let maxDamageTaken = 0
+  let maxPhysicalDamageTaken = 0
+  let maxMagicDamageTaken = 0
+  let maxTrueDamageTaken = 0
+  let totalDamageTaken = 0
+  let totalPhysicalDamageTaken = 0
+  let totalMagicDamageTaken = 0
+  let totalTrueDamageTaken = 0
+  let maxSelfMitigated = 0
+  let totalSelfMitigated = 0
+  let maxHealing = 0
+  let totalHealing = 0
+  let maxTowerDamage = 0
+  let totalTowerDamage = 0
+  let kills = 0
+  let deaths = 0
+  let assists = 0
+  let maxCs = 0
+  let totalCs = 0
+  let maxGold = 0
+  let totalGold = 0
+
+  let selfTeamParticipants: Participant[]
+  if (game.gameMode === 'CHERRY') {
+    selfTeamParticipants = game.participants.filter(
+      (p) => p.stats.playerSubteamId === watashi.stats.playerSubteamId
+    )
+  } else {
+    selfTeamParticipants = game.participants.filter((p) => p.teamId === watashi.teamId)
+  }
+
+  for (const p of selfTeamParticipants) {
+    maxDamageDealt = Math.max(maxDamageDealt, p.stats.totalDamageDealt)
+    maxPhysicalDamageDealt = Math.max(maxPhysicalDamageDealt, p.stats.physicalDamageDealt)
+    maxMagicDamageDealt = Math.max(maxMagicDamageDealt, p.stats.magicDamageDealt)
+    maxTrueDamageDealt = Math.max(maxTrueDamageDealt, p.stats.trueDamageDealt)
+    maxDamageDealtToChampion = Math.max(
+      maxDamageDealtToChampion,
+      p.stats.totalDamageDealtToChampions
+    )
+    maxPhysicalDamageDealtToChampion = Math.max(
+      maxPhysicalDamageDealtToChampion,
+      p.stats.physicalDamageDealtToChampions
+    )
+    maxMagicDamageDealtToChampion = Math.max(
+      maxMagicDamageDealtToChampion,
+      p.stats.magicDamageDealtToChampions
+    )
+    maxTrueDamageDealtToChampion = Math.max(
+      maxTrueDamageDealtToChampion,
+      p.stats.trueDamageDealtToChampions
+    )
+    maxDamageTaken = Math.max(maxDamageTaken, p.stats.totalDamageTaken)
+    maxPhysicalDamageTaken = Math.max(maxPhysicalDamageTaken, p.stats.physicalDamageTaken)
+    maxMagicDamageTaken = Math.max(maxMagicDamageTaken, p.stats.magicalDamageTaken)
+    maxTrueDamageTaken = Math.max(maxTrueDamageTaken, p.stats.trueDamageTaken)
+
+    totalDamageDealt += p.stats.totalDamageDealt
+    totalPhysicalDamageDealt += p.stats.physicalDamageDealt
+    totalMagicDamageDealt += p.stats.magicDamageDealt
+    totalTrueDamageDealt += p.stats.trueDamageDealt
+    totalDamageDealtToChampion += p.stats.totalDamageDealtToChampions
+    totalPhysicalDamageDealtToChampion += p.stats.physicalDamageDealtToChampions
+    totalMagicDamageDealtToChampion += p.stats.magicDamageDealtToChampions
+    totalTrueDamageDealtToChampion += p.stats.trueDamageDealtToChampions
+    totalDamageTaken += p.stats.totalDamageTaken
+    totalPhysicalDamageTaken += p.stats.physicalDamageTaken
+    totalMagicDamageTaken += p.stats.magicalDamageTaken
+    totalTrueDamageTaken += p.stats.trueDamageTaken
+
+    maxTowerDamage = Math.max(maxTowerDamage, p.stats.damageDealtToTurrets)
+    totalTowerDamage += p.stats.damageDealtToTurrets
+
+    maxSelfMitigated = Math.max(maxSelfMitigated, p.stats.damageSelfMitigated)
+    totalSelfMitigated += p.stats.damageSelfMitigated
+
+    maxHealing = Math.max(maxHealing, p.stats.totalHeal)
+    totalHealing += p.stats.totalHeal
+
+    kills += p.stats.kills
+    deaths += p.stats.deaths
+    assists += p.stats.assists
+
+    maxCs = Math.max(maxCs, p.stats.totalMinionsKilled + p.stats.neutralMinionsKilled)
+    totalCs += p.stats.totalMinionsKilled + p.stats.neutralMinionsKilled
+
+    maxGold = Math.max(maxGold, p.stats.goldEarned)
+    totalGold += p.stats.goldEarned
+  }
+
+  gameAnalysis.damageShareToTop = watashi.stats.totalDamageDealt / (maxDamageDealt || 1)
+  gameAnalysis.physicalDamageShareToTop =
+    watashi.stats.physicalDamageDealt / (maxPhysicalDamageDealt || 1)
+  gameAnalysis.magicDamageShareToTop = watashi.stats.magicDamageDealt / (maxMagicDamageDealt || 1)
+  gameAnalysis.trueDamageShareToTop = watashi.stats.trueDamageDealt / (maxTrueDamageDealt || 1)
+
+  gameAnalysis.damageShareOfTeam = watashi.stats.totalDamageDealt / (totalDamageDealt || 1)
+  gameAnalysis.physicalDamageShareOfTeam =
+    watashi.stats.physicalDamageDealt / (totalPhysicalDamageDealt || 1)
+  gameAnalysis.magicDamageShareOfTeam =
+    watashi.stats.magicDamageDealt / (totalMagicDamageDealt || 1)
+  gameAnalysis.trueDamageShareOfTeam = watashi.stats.trueDamageDealt / (totalTrueDamageDealt || 1)
+
+  gameAnalysis.damageDealtToChampionShareToTop =
+    watashi.stats.totalDamageDealtToChampions / (maxDamageDealtToChampion || 1)
+  gameAnalysis.physicalDamageDealtToChampionShareToTop =
+    watashi.stats.physicalDamageDealtToChampions / (maxPhysicalDamageDealtToChampion || 1)
+  gameAnalysis.magicDamageDealtToChampionShareToTop =
+    watashi.stats.magicDamageDealtToChampions / (maxMagicDamageDealtToChampion || 1)
+  gameAnalysis.trueDamageDealtToChampionShareToTop =
+    watashi.stats.trueDamageDealtToChampions / (maxTrueDamageDealtToChampion || 1)
+
+  gameAnalysis.damageDealtToChampionShareOfTeam =
+    watashi.stats.totalDamageDealtToChampions / (totalDamageDealtToChampion || 1)
+  gameAnalysis.physicalDamageDealtToChampionShareOfTeam =
+    watashi.stats.physicalDamageDealtToChampions / (totalPhysicalDamageDealtToChampion || 1)
+  gameAnalysis.magicDamageDealtToChampionShareOfTeam =
+    watashi.stats.magicDamageDealtToChampions / (totalMagicDamageDealtToChampion || 1)
+  gameAnalysis.trueDamageDealtToChampionShareOfTeam =
+    watashi.stats.trueDamageDealtToChampions / (totalTrueDamageDealtToChampion || 1)
+
+  gameAnalysis.damageTakenShareToTop = watashi.stats.totalDamageTaken / (maxDamageTaken || 1)
+  gameAnalysis.physicalDamageTakenShareToTop =
+    watashi.stats.physicalDamageTaken / (maxPhysicalDamageTaken || 1)
+  gameAnalysis.magicDamageTakenShareToTop =
+    watashi.stats.magicalDamageTaken / (maxMagicDamageTaken || 1)
+  gameAnalysis.trueDamageTakenShareToTop = watashi.stats.trueDamageTaken / (maxTrueDamageTaken || 1)
+
+  gameAnalysis.damageTakenShareOfTeam = watashi.stats.totalDamageTaken / (totalDamageTaken || 1)
+  gameAnalysis.physicalDamageTakenShareOfTeam =
+    watashi.stats.physicalDamageTaken / (totalPhysicalDamageTaken || 1)
+  gameAnalysis.magicDamageTakenShareOfTeam =
+    watashi.stats.magicalDamageTaken / (totalMagicDamageTaken || 1)
+  gameAnalysis.trueDamageTakenShareOfTeam =
+    watashi.stats.trueDamageTaken / (totalTrueDamageTaken || 1)
+
+  gameAnalysis.towerDamageShareToTop = watashi.stats.damageDealtToTurrets / (maxTowerDamage || 1)
+  gameAnalysis.towerDamageShareOfTeam = watashi.stats.damageDealtToTurrets / (totalTowerDamage || 1)
+
+  gameAnalysis.selfMitigatedShareToTop = watashi.stats.damageSelfMitigated / (maxSelfMitigated || 1)
+  gameAnalysis.selfMitigatedShareOfTeam =
+    watashi.stats.damageSelfMitigated / (totalSelfMitigated || 1)
+
+  gameAnalysis.healingShareToTop = watashi.stats.totalHeal / (maxHealing || 1)
+  gameAnalysis.healingShareOfTeam = watashi.stats.totalHeal / (totalHealing || 1)
+
+  gameAnalysis.killParticipationRate = (watashi.stats.kills + watashi.stats.assists) / (kills || 1)
+
+  gameAnalysis.csShareToTop =
+    (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) / (maxCs || 1)
+  gameAnalysis.csShareOfTeam =
+    (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) / (totalCs || 1)
+
+  gameAnalysis.goldShareToTop = watashi.stats.goldEarned / (maxGold || 1)
+  gameAnalysis.goldShareOfTeam = watashi.stats.goldEarned / (totalGold || 1)
+
+  return gameAnalysis
 }
 
 /**
  * 根据玩家近期战绩分析数值
  * @param mh 玩家近期战绩，要求格式为 LCU-MatchHistory['games'][index]-like
  * @param selfPuuid 玩家 PUUID
+ * @param scoreProfile 计算 Akari Score 所用的配置
+ * @param baselines 位置基线, 提供时会计算各项指标的百分位
  */
 export function analyzeMatchHistory(
   games: MatchHistoryGameWithState[],
   selfPuuid: string,
   queueType: number[] | null = null,
-  gameTimeline: Record<number, GameTimeline> = {}
+  gameTimeline: Record<number, GameTimeline> = {},
+  scoreProfile: AkariScoreProfile = DEFAULT_AKARI_SCORE_PROFILE,
+  baselines: PositionBaselines | null = null
 ): MatchHistoryGamesAnalysisAll | null {
   const detailedGames = games
     .filter((g) => g.isDetailed)
     .filter((g) => !queueType || queueType.includes(g.game.queueId))
-    .filter((g) => !g.game.participants.some((p) => p.stats.gameEndedInEarlySurrender))
-    .filter((g) => g.game.endOfGameResult !== 'Abort_AntiCheatExit')
-    .filter((g) => g.game.gameType === 'MATCHED_GAME' && !isPveQueue(g.game.queueId))
+    .filter((g) => isAnalyzableGame(g.game))
     .map((g) => g.game)
 
   if (detailedGames.length === 0) {
@@ -324,6 +666,11 @@ export function analyzeMatchHistory(
 
   const champions: Record<number, MatchHistoryChampionAnalysis> = {}
 
+  const percentileTotals = Object.fromEntries(
+    BASELINE_METRICS.map((m) => [m, 0])
+  ) as BaselineMetrics
+  let percentileCount = 0
+
   const gameAnalyses: [number, MatchHistoryGamesAnalysis][] = []
   for (let i = 0; i < detailedGames.length; i++) {
     const game = detailedGames[i]
@@ -370,274 +717,7 @@ export function analyzeMatchHistory(
       }
     }
 
-    let flashSlot: 'D' | 'F' | null = null
-    if (watashi.spell1Id === SUMMONER_SPELL_FLASH_ID) {
-      flashSlot = 'F'
-    } else if (watashi.spell2Id === SUMMONER_SPELL_FLASH_ID) {
-      flashSlot = 'D'
-    }
-
-    const gameAnalysis: MatchHistoryGamesAnalysis = {
-      damageShareToTop: 0,
-      physicalDamageShareToTop: 0,
-      magicDamageShareToTop: 0,
-      trueDamageShareToTop: 0,
-
-      damageShareOfTeam: 0,
-      physicalDamageShareOfTeam: 0,
-      magicDamageShareOfTeam: 0,
-      trueDamageShareOfTeam: 0,
-
-      damageDealtToChampionShareToTop: 0,
-      physicalDamageDealtToChampionShareToTop: 0,
-      magicDamageDealtToChampionShareToTop: 0,
-      trueDamageDealtToChampionShareToTop: 0,
-
-      damageDealtToChampionShareOfTeam: 0,
-      physicalDamageDealtToChampionShareOfTeam: 0,
-      magicDamageDealtToChampionShareOfTeam: 0,
-      trueDamageDealtToChampionShareOfTeam: 0,
-
-      // 承受伤害系列
-      damageTakenShareToTop: 0,
-      physicalDamageTakenShareToTop: 0,
-      magicDamageTakenShareToTop: 0,
-      trueDamageTakenShareToTop: 0,
-
-      damageTakenShareOfTeam: 0,
-      physicalDamageTakenShareOfTeam: 0,
-      magicDamageTakenShareOfTeam: 0,
-      trueDamageTakenShareOfTeam: 0,
-
-      towerDamageShareToTop: 0,
-      towerDamageShareOfTeam: 0,
-
-      selfMitigatedShareToTop: 0,
-      selfMitigatedShareOfTeam: 0,
-
-      healingShareToTop: 0,
-      healingShareOfTeam: 0,
-
-      // KDA 系列
-      killParticipationRate: 0,
-
-      kda: (watashi.stats.kills + watashi.stats.assists) / (watashi.stats.deaths || 1),
-      kd: watashi.stats.kills / (watashi.stats.deaths || 1),
-      kills: watashi.stats.kills,
-      deaths: watashi.stats.deaths,
-      assists: watashi.stats.assists,
-
-      // 补兵占比 (包括野怪和小兵)
-      csShareToTop: 0,
-      csShareOfTeam: 0,
-      csPerMinute:
-        (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) /
-        (game.gameDuration / 60),
-
-      // 经济占比
-      goldShareToTop: 0,
-      goldShareOfTeam: 0,
-
-      visionScore: watashi.stats.visionScore,
-
-      // 经济转换率
-      damageGoldEfficiency: Math.min(
-        watashi.stats.totalDamageDealtToChampions / watashi.stats.goldEarned,
-        99999
-      ),
-
-      win: watashi.stats.win,
-
-      // -
-      championId: watashi.championId,
-
-      // sgp only
-      position: watashi.stats.teamPosition || null,
-      enemyMissingPings: watashi.stats.enemyMissingPings ?? null,
-
-      // timeline
-      soloKills: null,
-      soloDeaths: null,
-
-      // 杂项
-      flashSlot
-    }
-
-    let maxDamageDealt = 0
-    let maxPhysicalDamageDealt = 0
-    let maxMagicDamageDealt = 0
-    let maxTrueDamageDealt = 0
-    let totalDamageDealt = 0
-    let totalPhysicalDamageDealt = 0
-    let totalMagicDamageDealt = 0
-    let totalTrueDamageDealt = 0
-    let maxDamageDealtToChampion = 0
-    let maxPhysicalDamageDealtToChampion = 0
-    let maxMagicDamageDealtToChampion = 0
-    let maxTrueDamageDealtToChampion = 0
-    let totalDamageDealtToChampion = 0
-    let totalPhysicalDamageDealtToChampion = 0
-    let totalMagicDamageDealtToChampion = 0
-    let totalTrueDamageDealtToChampion = 0
-    let maxDamageTaken = 0
-    let maxPhysicalDamageTaken = 0
-    let maxMagicDamageTaken = 0
-    let maxTrueDamageTaken = 0
-    let totalDamageTaken = 0
-    let totalPhysicalDamageTaken = 0
-    let totalMagicDamageTaken = 0
-    let totalTrueDamageTaken = 0
-    let maxSelfMitigated = 0
-    let totalSelfMitigated = 0
-    let maxHealing = 0
-    let totalHealing = 0
-    let maxTowerDamage = 0
-    let totalTowerDamage = 0
-    let kills = 0
-    let deaths = 0
-    let assists = 0
-    let maxCs = 0
-    let totalCs = 0
-    let maxGold = 0
-    let totalGold = 0
-
-    let selfTeamParticipants: Participant[]
-    if (game.gameMode === 'CHERRY') {
-      selfTeamParticipants = game.participants.filter(
-        (p) => p.stats.playerSubteamId === watashi.stats.playerSubteamId
-      )
-    } else {
-      selfTeamParticipants = game.participants.filter((p) => p.teamId === watashi.teamId)
-    }
-
-    for (const p of selfTeamParticipants) {
-      maxDamageDealt = Math.max(maxDamageDealt, p.stats.totalDamageDealt)
-      maxPhysicalDamageDealt = Math.max(maxPhysicalDamageDealt, p.stats.physicalDamageDealt)
-      maxMagicDamageDealt = Math.max(maxMagicDamageDealt, p.stats.magicDamageDealt)
-      maxTrueDamageDealt = Math.max(maxTrueDamageDealt, p.stats.trueDamageDealt)
-      maxDamageDealtToChampion = Math.max(
-        maxDamageDealtToChampion,
-        p.stats.totalDamageDealtToChampions
-      )
-      maxPhysicalDamageDealtToChampion = Math.max(
-        maxPhysicalDamageDealtToChampion,
-        p.stats.physicalDamageDealtToChampions
-      )
-      maxMagicDamageDealtToChampion = Math.max(
-        maxMagicDamageDealtToChampion,
-        p.stats.magicDamageDealtToChampions
-      )
-      maxTrueDamageDealtToChampion = Math.max(
-        maxTrueDamageDealtToChampion,
-        p.stats.trueDamageDealtToChampions
-      )
-      maxDamageTaken = Math.max(maxDamageTaken, p.stats.totalDamageTaken)
-      maxPhysicalDamageTaken = Math.max(maxPhysicalDamageTaken, p.stats.physicalDamageTaken)
-      maxMagicDamageTaken = Math.max(maxMagicDamageTaken, p.stats.magicalDamageTaken)
-      maxTrueDamageTaken = Math.max(maxTrueDamageTaken, p.stats.trueDamageTaken)
-
-      totalDamageDealt += p.stats.totalDamageDealt
-      totalPhysicalDamageDealt += p.stats.physicalDamageDealt
-      totalMagicDamageDealt += p.stats.magicDamageDealt
-      totalTrueDamageDealt += p.stats.trueDamageDealt
-      totalDamageDealtToChampion += p.stats.totalDamageDealtToChampions
-      totalPhysicalDamageDealtToChampion += p.stats.physicalDamageDealtToChampions
-      totalMagicDamageDealtToChampion += p.stats.magicDamageDealtToChampions
-      totalTrueDamageDealtToChampion += p.stats.trueDamageDealtToChampions
-      totalDamageTaken += p.stats.totalDamageTaken
-      totalPhysicalDamageTaken += p.stats.physicalDamageTaken
-      totalMagicDamageTaken += p.stats.magicalDamageTaken
-      totalTrueDamageTaken += p.stats.trueDamageTaken
-
-      maxTowerDamage = Math.max(maxTowerDamage, p.stats.damageDealtToTurrets)
-      totalTowerDamage += p.stats.damageDealtToTurrets
-
-      maxSelfMitigated = Math.max(maxSelfMitigated, p.stats.damageSelfMitigated)
-      totalSelfMitigated += p.stats.damageSelfMitigated
-
-      maxHealing = Math.max(maxHealing, p.stats.totalHeal)
-      totalHealing += p.stats.totalHeal
-
-      kills += p.stats.kills
-      deaths += p.stats.deaths
-      assists += p.stats.assists
-
-      maxCs = Math.max(maxCs, p.stats.totalMinionsKilled + p.stats.neutralMinionsKilled)
-      totalCs += p.stats.totalMinionsKilled + p.stats.neutralMinionsKilled
-
-      maxGold = Math.max(maxGold, p.stats.goldEarned)
-      totalGold += p.stats.goldEarned
-    }
-
-    gameAnalysis.damageShareToTop = watashi.stats.totalDamageDealt / (maxDamageDealt || 1)
-    gameAnalysis.physicalDamageShareToTop =
-      watashi.stats.physicalDamageDealt / (maxPhysicalDamageDealt || 1)
-    gameAnalysis.magicDamageShareToTop = watashi.stats.magicDamageDealt / (maxMagicDamageDealt || 1)
-    gameAnalysis.trueDamageShareToTop = watashi.stats.trueDamageDealt / (maxTrueDamageDealt || 1)
-
-    gameAnalysis.damageShareOfTeam = watashi.stats.totalDamageDealt / (totalDamageDealt || 1)
-    gameAnalysis.physicalDamageShareOfTeam =
-      watashi.stats.physicalDamageDealt / (totalPhysicalDamageDealt || 1)
-    gameAnalysis.magicDamageShareOfTeam =
-      watashi.stats.magicDamageDealt / (totalMagicDamageDealt || 1)
-    gameAnalysis.trueDamageShareOfTeam = watashi.stats.trueDamageDealt / (totalTrueDamageDealt || 1)
-
-    gameAnalysis.damageDealtToChampionShareToTop =
-      watashi.stats.totalDamageDealtToChampions / (maxDamageDealtToChampion || 1)
-    gameAnalysis.physicalDamageDealtToChampionShareToTop =
-      watashi.stats.physicalDamageDealtToChampions / (maxPhysicalDamageDealtToChampion || 1)
-    gameAnalysis.magicDamageDealtToChampionShareToTop =
-      watashi.stats.magicDamageDealtToChampions / (maxMagicDamageDealtToChampion || 1)
-    gameAnalysis.trueDamageDealtToChampionShareToTop =
-      watashi.stats.trueDamageDealtToChampions / (maxTrueDamageDealtToChampion || 1)
-
-    gameAnalysis.damageDealtToChampionShareOfTeam =
-      watashi.stats.totalDamageDealtToChampions / (totalDamageDealtToChampion || 1)
-    gameAnalysis.physicalDamageDealtToChampionShareOfTeam =
-      watashi.stats.physicalDamageDealtToChampions / (totalPhysicalDamageDealtToChampion || 1)
-    gameAnalysis.magicDamageDealtToChampionShareOfTeam =
-      watashi.stats.magicDamageDealtToChampions / (totalMagicDamageDealtToChampion || 1)
-    gameAnalysis.trueDamageDealtToChampionShareOfTeam =
-      watashi.stats.trueDamageDealtToChampions / (totalTrueDamageDealtToChampion || 1)
-
-    gameAnalysis.damageTakenShareToTop = watashi.stats.totalDamageTaken / (maxDamageTaken || 1)
-    gameAnalysis.physicalDamageTakenShareToTop =
-      watashi.stats.physicalDamageTaken / (maxPhysicalDamageTaken || 1)
-    gameAnalysis.magicDamageTakenShareToTop =
-      watashi.stats.magicalDamageTaken / (maxMagicDamageTaken || 1)
-    gameAnalysis.trueDamageTakenShareToTop =
-      watashi.stats.trueDamageTaken / (maxTrueDamageTaken || 1)
-
-    gameAnalysis.damageTakenShareOfTeam = watashi.stats.totalDamageTaken / (totalDamageTaken || 1)
-    gameAnalysis.physicalDamageTakenShareOfTeam =
-      watashi.stats.physicalDamageTaken / (totalPhysicalDamageTaken || 1)
-    gameAnalysis.magicDamageTakenShareOfTeam =
-      watashi.stats.magicalDamageTaken / (totalMagicDamageTaken || 1)
-    gameAnalysis.trueDamageTakenShareOfTeam =
-      watashi.stats.trueDamageTaken / (totalTrueDamageTaken || 1)
-
-    gameAnalysis.towerDamageShareToTop = watashi.stats.damageDealtToTurrets / (maxTowerDamage || 1)
-    gameAnalysis.towerDamageShareOfTeam =
-      watashi.stats.damageDealtToTurrets / (totalTowerDamage || 1)
-
-    gameAnalysis.selfMitigatedShareToTop =
-      watashi.stats.damageSelfMitigated / (maxSelfMitigated || 1)
-    gameAnalysis.selfMitigatedShareOfTeam =
-      watashi.stats.damageSelfMitigated / (totalSelfMitigated || 1)
-
-    gameAnalysis.healingShareToTop = watashi.stats.totalHeal / (maxHealing || 1)
-    gameAnalysis.healingShareOfTeam = watashi.stats.totalHeal / (totalHealing || 1)
-
-    gameAnalysis.killParticipationRate =
-      (watashi.stats.kills + watashi.stats.assists) / (kills || 1)
-
-    gameAnalysis.csShareToTop =
-      (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) / (maxCs || 1)
-    gameAnalysis.csShareOfTeam =
-      (watashi.stats.totalMinionsKilled + watashi.stats.neutralMinionsKilled) / (totalCs || 1)
-
-    gameAnalysis.goldShareToTop = watashi.stats.goldEarned / (maxGold || 1)
-    gameAnalysis.goldShareOfTeam = watashi.stats.goldEarned / (totalGold || 1)
+    const gameAnalysis = analyzeGameParticipant(game, watashi)
 
     if (!champions[watashi.championId]) {
       champions[watashi.championId] = {
@@ -715,6 +795,20 @@ export function analyzeMatchHistory(
       gameAnalysis.soloDeaths = soloDeaths
     }
 
+    if (baselines && gameAnalysis.position) {
+      const distribution = baselines.distributions[baselineKey(game.queueId, gameAnalysis.position)]
+
+      if (distribution) {
+        for (const metric of BASELINE_METRICS) {
+          percentileTotals[metric] += percentileRank(
+            distribution.quantiles[metric],
+            gameAnalysis[metric]
+          )
+        }
+        percentileCount++
+      }
+    }
+
     gameAnalyses.push([game.gameId, gameAnalysis])
   }
 
@@ -995,7 +1089,15 @@ export function analyzeMatchHistory(
         UTILITY: positions.UTILITY || 0
       }
     },
-    akariScore: calculateAkariScore({ games: gamesAnalysisMap, summary, champions })
+    akariScore: calculateAkariScore({ games: gamesAnalysisMap, summary, champions }, scoreProfile),
+    percentiles: percentileCount
+      ? {
+          count: percentileCount,
+          metrics: Object.fromEntries(
+            BASELINE_METRICS.map((m) => [m, percentileTotals[m] / percentileCount])
+          ) as BaselineMetrics
+        }
+      : null
   }
 }
 
@@ -1053,21 +1155,112 @@ export interface AkariScore {
   great: boolean
 }
 
+/**
+ * Akari Score 的计算参数
+ */
+export interface AkariScoreProfile {
+  id: string
+  name: string
+
+  /**
+   * 各项指标的系数, 其中 cs 为补刀项整体的倍率
+   */
+  weights: {
+    kda: number
+    winRate: number
+    dmg: number
+    dmgTaken: number
+    cs: number
+    gold: number
+    participation: number
+  }
+
+  goodThreshold: number
+  greatThreshold: number
+
+  /**
+   * 达到 good / great 所需的最少对局数
+   */
+  goodMinGames: number
+  greatMinGames: number
+
+  /**
+   * 适用的队列和游戏模式, 都为空时仅作为兜底
+   */
+  queueIds: number[]
+  gameModes: string[]
+}
+
+export const DEFAULT_AKARI_SCORE_PROFILE_ID = 'default'
+
+export const DEFAULT_AKARI_SCORE_PROFILE: AkariScoreProfile = {
+  id: DEFAULT_AKARI_SCORE_PROFILE_ID,
+  name: 'Default',
+  weights: {
+    kda: 1.44,
+    winRate: 4.0,
+    dmg: 10.0,
+    dmgTaken: 8.0,
+    cs: 1.0,
+    gold: 4.0,
+    participation: 4.0
+  },
+  goodThreshold: 26.0,
+  greatThreshold: 30.0,
+  goodMinGames: 5,
+  greatMinGames: 10,
+  queueIds: [],
+  gameModes: []
+}
+
+/**
+ * 按照 队列 > 游戏模式 > 默认 的顺序选出适用的配置
+ */
+export function resolveAkariScoreProfile(
+  profiles: AkariScoreProfile[],
+  queueId?: number | null,
+  gameMode?: string | null
+): AkariScoreProfile {
+  if (typeof queueId === 'number') {
+    const byQueue = profiles.find((p) => p.queueIds.includes(queueId))
+    if (byQueue) {
+      return byQueue
+    }
+  }
+
+  if (gameMode) {
+    const byGameMode = profiles.find((p) => p.gameModes.includes(gameMode))
+    if (byGameMode) {
+      return byGameMode
+    }
+  }
+
+  return (
+    profiles.find((p) => p.id === DEFAULT_AKARI_SCORE_PROFILE_ID) || DEFAULT_AKARI_SCORE_PROFILE
+  )
+}
+
 // 非卖品, 仅限内部评判使用
-export function calculateAkariScore(analyses: {
-  games: Record<number, MatchHistoryGamesAnalysis>
-  summary: MatchHistoryGamesAnalysisSummary
-  champions: Record<number, MatchHistoryChampionAnalysis>
-}): AkariScore {
-  const kdaScore = Math.sqrt(analyses.summary.averageKda) * 1.44
-  const winRateScore = (analyses.summary.winRate - 0.5) * 4
-  const dmgScore = analyses.summary.averageDamageDealtToChampionShareToTop * 10.0
-  const dmgTakenScore = analyses.summary.averageDamageTakenShareToTop * 8.0
+export function calculateAkariScore(
+  analyses: {
+    games: Record<number, MatchHistoryGamesAnalysis>
+    summary: MatchHistoryGamesAnalysisSummary
+    champions: Record<number, MatchHistoryChampionAnalysis>
+  },
+  profile: AkariScoreProfile = DEFAULT_AKARI_SCORE_PROFILE
+): AkariScore {
+  const { weights } = profile
+
+  const kdaScore = Math.sqrt(analyses.summary.averageKda) * weights.kda
+  const winRateScore = (analyses.summary.winRate - 0.5) * weights.winRate
+  const dmgScore = analyses.summary.averageDamageDealtToChampionShareToTop * weights.dmg
+  const dmgTakenScore = analyses.summary.averageDamageTakenShareToTop * weights.dmgTaken
   const csScore =
     analyses.summary.averageCsPerMinute *
-    Math.max(Math.min(0.04 * analyses.summary.averageCsPerMinute, 0.4), 0.1)
-  const goldScore = analyses.summary.averageGoldShareToTop * 4.0
-  const participationScore = analyses.summary.averageKillParticipationRate * 4
+    Math.max(Math.min(0.04 * analyses.summary.averageCsPerMinute, 0.4), 0.1) *
+    weights.cs
+  const goldScore = analyses.summary.averageGoldShareToTop * weights.gold
+  const participationScore = analyses.summary.averageKillParticipationRate * weights.participation
 
   const total =
     kdaScore + winRateScore + dmgScore + dmgTakenScore + csScore + goldScore + participationScore
@@ -1081,8 +1274,8 @@ export function calculateAkariScore(analyses: {
     goldScore,
     participationScore,
     total,
-    good: total >= 26.0 && analyses.summary.count >= 5,
-    great: total >= 30.0 && analyses.summary.count >= 10
+    good: total >= profile.goodThreshold && analyses.summary.count >= profile.goodMinGames,
+    great: total >= profile.greatThreshold && analyses.summary.count >= profile.greatMinGames
   }
 }
 
@@ -1102,6 +1295,83 @@ function percentile(sorted: number[], p: number): number {
   return sorted[lower] + fraction * (sorted[lower + 1] - sorted[lower])
 }
 
+export function baselineKey(queueId: number, position: string) {
+  return `${queueId}:${position}`
+}
+
+/**
+ * 计算一组样本的分位点
+ */
+export function calculateQuantiles(values: number[]): number[] {
+  const sorted = values.slice().sort((a, b) => a - b)
+
+  return Array.from({ length: BASELINE_QUANTILE_STEPS + 1 }, (_, i) =>
+    percentile(sorted, i / BASELINE_QUANTILE_STEPS)
+  )
+}
+
+/**
+ * 根据分位点估算一个值所处的百分位 (0 - 100)
+ */
+export function percentileRank(quantiles: number[], value: number): number {
+  const last = quantiles.length - 1
+  if (last < 1 || !(value >= quantiles[0])) {
+    return 0
+  }
+
+  if (value > quantiles[last]) {
+    return 100
+  }
+
+  let i = 0
+  while (quantiles[i] < value) {
+    i++
+  }
+
+  // 与若干分位点相等时 (如大量样本为 0), 取这些分位点的中间位置
+  if (quantiles[i] === value) {
+    let j = i
+    while (j < last && quantiles[j + 1] === value) {
+      j++
+    }
+
+    return ((i + j) / 2 / last) * 100
+  }
+
+  const fraction = (value - quantiles[i - 1]) / (quantiles[i] - quantiles[i - 1])
+
+  return ((i - 1 + fraction) / last) * 100
+}
+
+/**
+ * 提取一局对局中每位有位置信息的玩家的基线指标, 不计入统计的对局返回空数组
+ */
+export function extractBaselineSamples(game: Game) {
+  const samples: { puuid: string; position: string; metrics: BaselineMetrics }[] = []
+
+  if (!isAnalyzableGame(game)) {
+    return samples
+  }
+
+  for (const identity of game.participantIdentities) {
+    const p = game.participants.find((p) => p.participantId === identity.participantId)
+    const position = p?.stats.teamPosition
+
+    if (!p || !position) {
+      continue
+    }
+
+    const analysis = analyzeGameParticipant(game, p)
+    const metrics = Object.fromEntries(
+      BASELINE_METRICS.map((m) => [m, analysis[m]])
+    ) as BaselineMetrics
+
+    samples.push({ puuid: identity.player.puuid, position, metrics })
+  }
+
+  return samples
+}
+
 /**
  * 是找出过高高评分和过低评分的玩家
  */
@@ -0,0 +1,202 @@
+import { ChampSelectSession, ChampSelectTeam } from '@shared/types/league-client/champ-select'
+
+/**
+ * 条件之间为「与」的关系, negate 为 true 时条件取反
+ */
+export type AutoSelectRuleCondition =
+  | {
+      /** 敌方已选或预选了其中任一英雄 */
+      type: 'enemy-has-champion'
+      championIds: number[]
+      negate?: boolean
+    }
+  | {
+      /** 己方 (不包括自己) 已选或预选了其中任一英雄 */
+      type: 'ally-has-champion'
+      championIds: number[]
+      negate?: boolean
+    }
+  | {
+      /** 敌方存在该定位的英雄, 定位来自 gtimg 数据 (tank, fighter, mage, assassin, marksman, support) */
+      type: 'enemy-has-role'
+      role: string
+      negate?: boolean
+    }
+  | {
+      /** 己方 (不包括自己) 存在该定位的英雄 */
+      type: 'ally-has-role'
+      role: string
+      negate?: boolean
+    }
+  | {
+      /** 自己被分配的位置, 为空时表示无位置 */
+      type: 'position'
+      positions: string[]
+      negate?: boolean
+    }
+
+export type AutoSelectRuleConditionType = AutoSelectRuleCondition['type']
+
+export interface AutoSelectRule {
+  id: string
+  name: string
+  enabled: boolean
+  action: 'pick' | 'ban'
+
+  /**
+   * 候选英雄, 按优先级排列
+   */
+  championIds: number[]
+
+  conditions: AutoSelectRuleCondition[]
+
+  /**
+   * 跳过 OP.GG 梯队低于该值的英雄 (1 为最高), 为 0 时不限制
+   */
+  minOpggTier: number
+
+  /**
+   * 按照对线对手的克制胜率重新排列候选英雄
+   */
+  preferCounters: boolean
+}
+
+export interface AutoSelectRuleContext {
+  session: ChampSelectSession
+  memberMe: ChampSelectTeam
+
+  /**
+   * championId -> roles
+   */
+  championRoles: Record<number, string[]>
+
+  /**
+   * 当前位置下的 OP.GG 梯队, championId -> tier, 未加载时为 null
+   */
+  opggTiers: Record<number, number> | null
+
+  /**
+   * 对线对手及自己各英雄对其的胜率, 未知时为 null
+   */
+  laneOpponent: {
+    championId: number
+    winRates: Record<number, number> | null
+  } | null
+
+  /**
+   * 该英雄当前是否可以选用或禁用
+   */
+  isAvailable: (championId: number) => boolean
+}
+
+export interface AutoSelectRuleResult {
+  championId: number
+  rule: {
+    id: string
+    name: string
+  }
+
+  /**
+   * 因克制关系被优先选择时, 被克制的对线对手
+   */
+  counterTo: number | null
+}
+
+const teamChampionIds = (team: ChampSelectTeam[], exclude?: string) => {
+  return team
+    .filter((m) => !exclude || m.puuid !== exclude)
+    .map((m) => m.championId || m.championPickIntent)
+    .filter((id) => id > 0)
+}
+
+export function isAutoSelectConditionMet(
+  condition: AutoSelectRuleCondition,
+  context: AutoSelectRuleContext
+) {
+  const { session, memberMe, championRoles } = context
+
+  let met: boolean
+  switch (condition.type) {
+    case 'enemy-has-champion': {
+      const ids = teamChampionIds(session.theirTeam)
+      met = condition.championIds.some((c) => ids.includes(c))
+      break
+    }
+    case 'ally-has-champion': {
+      const ids = teamChampionIds(session.myTeam, memberMe.puuid)
+      met = condition.championIds.some((c) => ids.includes(c))
+      break
+    }
+    case 'enemy-has-role': {
+      const ids = teamChampionIds(session.theirTeam)
+      met = ids.some((c) => championRoles[c]?.includes(condition.role))
+      break
+    }
+    case 'ally-has-role': {
+      const ids = teamChampionIds(session.myTeam, memberMe.puuid)
+      met = ids.some((c) => championRoles[c]?.includes(condition.role))
+      break
+    }
+    case 'position':
+      met = condition.positions.includes(memberMe.assignedPosition || '')
+      break
+    default:
+      met = false
+  }
+
+  return condition.negate ? !met : met
+}
+
+/**
+ * 依次评估规则, 返回第一条满足条件且存在可用英雄的规则的结果
+ */
+export function evaluateAutoSelectRules(
+  rules: AutoSelectRule[],
+  action: 'pick' | 'ban',
+  context: AutoSelectRuleContext
+): AutoSelectRuleResult | null {
+  for (const rule of rules) {
+    if (!rule.enabled || rule.action !== action) {
+      continue
+    }
+
+    if (!rule.conditions.every((c) => isAutoSelectConditionMet(c, context))) {
+      continue
+    }
+
+    let candidates = rule.championIds.filter((c) => context.isAvailable(c))
+
+    // 梯队数据未加载时不做限制, 避免因网络问题导致规则失效
+    if (rule.minOpggTier > 0 && context.opggTiers) {
+      const tiers = context.opggTiers
+      candidates = candidates.filter((c) => tiers[c] === undefined || tiers[c] <= rule.minOpggTier)
+    }
+
+    if (!candidates.length) {
+      continue
+    }
+
+    let counterTo: number | null = null
+    const winRates = context.laneOpponent?.winRates
+    if (rule.preferCounters && winRates) {
+      // 稳定排序, 没有对位数据的英雄保持原有顺序并排在 50% 胜率的位置
+      const sorted = candidates
+        .map((c, index) => ({ c, index, winRate: winRates[c] ?? 0.5 }))
+        .sort((a, b) => b.winRate - a.winRate || a.index - b.index)
+
+      if (sorted[0].winRate > 0.5) {
+        counterTo = context.laneOpponent!.championId
+      }
+
+      candidates = sorted.map((s) => s.c)
+    }
+
+    return {
+      championId: candidates[0],
+      rule: { id: rule.id, name: rule.name },
+      counterTo
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,90 @@
+import { MatchHistoryChampionAnalysis } from './analysis'
+import { SMITE_SPELL_ID } from './summoner-spell-haste'
+
+/**
+ * 个人胜率的先验场次, 场次越少越接近 50%
+ */
+const SELF_WIN_RATE_PRIOR_GAMES = 5
+
+/**
+ * 对位胜率在综合评分中的权重, 其余为个人胜率
+ */
+const MATCHUP_WEIGHT = 0.6
+
+export interface CounterPickSuggestion {
+  championId: number
+
+  /**
+   * 自己使用该英雄对位对手时的胜率 (OP.GG), 无数据时为 null
+   */
+  matchupWinRate: number | null
+
+  /**
+   * 近期战绩中该英雄的胜率, 未使用过时为 null
+   */
+  selfWinRate: number | null
+  selfGames: number
+
+  score: number
+}
+
+/**
+ * 按对位胜率和个人胜率对英雄池排序
+ * @param pool 候选英雄
+ * @param matchupWinRates 自己的英雄 -> 对位胜率
+ * @param champions 近期战绩中的英雄统计
+ */
+export function rankCounterPicks(
+  pool: number[],
+  matchupWinRates: Record<number, number>,
+  champions: Record<number, MatchHistoryChampionAnalysis> | null | undefined
+): CounterPickSuggestion[] {
+  return Array.from(new Set(pool))
+    .map((championId) => {
+      const matchupWinRate = matchupWinRates[championId] ?? null
+      const stats = champions?.[championId]
+      const selfGames = stats?.count || 0
+
+      // 以 50% 作为先验, 避免一两场的结果产生过大的影响
+      const smoothedSelfWinRate =
+        ((stats?.win || 0) + 0.5 * SELF_WIN_RATE_PRIOR_GAMES) /
+        (selfGames + SELF_WIN_RATE_PRIOR_GAMES)
+
+      return {
+        championId,
+        matchupWinRate,
+        selfWinRate: selfGames ? stats!.win / selfGames : null,
+        selfGames,
+        score: MATCHUP_WEIGHT * (matchupWinRate ?? 0.5) + (1 - MATCHUP_WEIGHT) * smoothedSelfWinRate
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * 找出与自己同一位置的敌方玩家
+ * 排位和匹配中敌方的 assignedPosition 通常为空, 此时只能通过惩戒确定打野, 其他位置无法可靠推断, 返回 null
+ * @param position 自己的位置
+ * @param theirTeam 敌方队伍
+ */
+export function findLaneOpponent<
+  T extends { assignedPosition: string; spell1Id: number; spell2Id: number }
+>(position: string, theirTeam: T[]): T | null {
+  if (!position) {
+    return null
+  }
+
+  if (theirTeam.some((m) => m.assignedPosition)) {
+    return theirTeam.find((m) => m.assignedPosition === position) ?? null
+  }
+
+  if (position === 'jungle') {
+    const smiters = theirTeam.filter(
+      (m) => m.spell1Id === SMITE_SPELL_ID || m.spell2Id === SMITE_SPELL_ID
+    )
+
+    return smiters.length === 1 ? smiters[0] : null
+  }
+
+  return null
+}
@@ -0,0 +1,198 @@
+import { Hero } from '@shared/data-sources/gtimg'
+
+/**
+ * 造成可观真实伤害的英雄, 值为真实伤害在其总伤害中的大致占比
+ */
+const TRUE_DAMAGE_CHAMPIONS: Record<number, number> = {
+  2: 0.2, // Olaf
+  11: 0.2, // Master Yi
+  31: 0.2, // Cho'Gath
+  67: 0.35, // Vayne
+  86: 0.3, // Garen
+  114: 0.35, // Fiora
+  122: 0.25, // Darius
+  164: 0.3, // Camille
+  555: 0.2, // Pyke
+  875: 0.2, // Sett
+  887: 0.3 // Gwen
+}
+
+/**
+ * 具备开团能力的英雄
+ */
+const ENGAGE_CHAMPIONS = new Set([
+  3, // Galio
+  9, // Fiddlesticks
+  12, // Alistar
+  14, // Sion
+  32, // Amumu
+  33, // Rammus
+  53, // Blitzcrank
+  54, // Malphite
+  56, // Nocturne
+  57, // Maokai
+  59, // Jarvan IV
+  62, // Wukong
+  72, // Skarner
+  79, // Gragas
+  85, // Kennen
+  89, // Leona
+  111, // Nautilus
+  113, // Sejuani
+  120, // Hecarim
+  131, // Diana
+  147, // Seraphine
+  154, // Zac
+  254, // Vi
+  412, // Thresh
+  497, // Rakan
+  516, // Ornn
+  526, // Rell
+  875 // Sett
+])
+
+/**
+ * 擅长保护后排的英雄
+ */
+const PEEL_CHAMPIONS = new Set([
+  12, // Alistar
+  16, // Soraka
+  25, // Morgana
+  26, // Zilean
+  34, // Anivia
+  37, // Sona
+  40, // Janna
+  43, // Karma
+  44, // Taric
+  78, // Poppy
+  117, // Lulu
+  127, // Lissandra
+  201, // Braum
+  223, // Tahm Kench
+  267, // Nami
+  350, // Yuumi
+  412, // Thresh
+  427, // Ivern
+  432, // Bard
+  497, // Rakan
+  888, // Renata Glasc
+  902 // Milio
+])
+
+/**
+ * 物理或魔法伤害占比低于该值时视为单一伤害类型
+ */
+const SINGLE_DAMAGE_TYPE_THRESHOLD = 0.2
+
+/**
+ * 至少选出这么多英雄后才给出阵容缺陷的警告
+ */
+const MIN_CHAMPIONS_FOR_WARNING = 3
+
+export type DraftWarning = 'full-ad' | 'full-ap' | 'no-frontline' | 'no-engage'
+
+export interface DraftChampionTraits {
+  championId: number
+  physical: number
+  magic: number
+  true: number
+  isFrontline: boolean
+  isEngage: boolean
+  isPeel: boolean
+}
+
+export interface DraftTeamAnalysis {
+  champions: DraftChampionTraits[]
+
+  /**
+   * 阵容的伤害类型占比, 三者之和为 1, 没有英雄时均为 0
+   */
+  damage: {
+    physical: number
+    magic: number
+    true: number
+  }
+
+  frontlineCount: number
+  engageCount: number
+  peelCount: number
+  warnings: DraftWarning[]
+}
+
+/**
+ * 由 gtimg 的英雄属性估计单个英雄的特征
+ */
+export function getChampionTraits(championId: number, hero?: Hero): DraftChampionTraits {
+  const attack = Number(hero?.attack) || 0
+  const magic = Number(hero?.magic) || 0
+  const defense = Number(hero?.defense) || 0
+  const roles = hero?.roles || []
+
+  const trueShare = TRUE_DAMAGE_CHAMPIONS[championId] || 0
+  const physicalShare = attack + magic > 0 ? attack / (attack + magic) : 0.5
+
+  return {
+    championId,
+    physical: physicalShare * (1 - trueShare),
+    magic: (1 - physicalShare) * (1 - trueShare),
+    true: trueShare,
+    isFrontline: roles.includes('tank') || (roles.includes('fighter') && defense >= 6),
+    isEngage: ENGAGE_CHAMPIONS.has(championId),
+    isPeel: PEEL_CHAMPIONS.has(championId)
+  }
+}
+
+/**
+ * 分析一方的阵容构成
+ * @param championIds 已选择或意向选择的英雄, 无效的 ID (<= 0) 将被忽略
+ * @param heroes gtimg 英雄数据, heroId -> Hero
+ */
+export function analyzeDraft(
+  championIds: number[],
+  heroes: Record<string, Hero>
+): DraftTeamAnalysis {
+  const champions = championIds
+    .filter((id) => id > 0)
+    .map((id) => getChampionTraits(id, heroes[id]))
+
+  // 以英雄的输出能力作为其伤害占比的权重, 避免坦克辅助稀释阵容的伤害构成
+  let physical = 0
+  let magic = 0
+  let trueDamage = 0
+  for (const c of champions) {
+    const hero = heroes[c.championId]
+    const weight = Math.max(Number(hero?.attack) || 0, Number(hero?.magic) || 0, 1)
+    physical += c.physical * weight
+    magic += c.magic * weight
+    trueDamage += c.true * weight
+  }
+
+  const total = physical + magic + trueDamage
+  const damage =
+    total > 0
+      ? { physical: physical / total, magic: magic / total, true: trueDamage / total }
+      : { physical: 0, magic: 0, true: 0 }
+
+  const frontlineCount = champions.filter((c) => c.isFrontline).length
+  const engageCount = champions.filter((c) => c.isEngage).length
+  const peelCount = champions.filter((c) => c.isPeel).length
+
+  const warnings: DraftWarning[] = []
+  if (champions.length >= MIN_CHAMPIONS_FOR_WARNING) {
+    if (damage.magic < SINGLE_DAMAGE_TYPE_THRESHOLD) {
+      warnings.push('full-ad')
+    } else if (damage.physical < SINGLE_DAMAGE_TYPE_THRESHOLD) {
+      warnings.push('full-ap')
+    }
+
+    if (frontlineCount === 0) {
+      warnings.push('no-frontline')
+    }
+
+    if (engageCount === 0) {
+      warnings.push('no-engage')
+    }
+  }
+
+  return { champions, damage, frontlineCount, engageCount, peelCount, warnings }
+}
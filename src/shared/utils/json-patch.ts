@@ -0,0 +1,116 @@
+/**
+ * 简化的 JSON Patch, 路径为属性名或数组下标的数组
+ * - replace: 设置 (或新增) 该路径的值
+ * - remove: 删除对象的属性或数组的元素
+ */
+export type JsonPatchOp =
+  | { op: 'replace'; path: (string | number)[]; value: any }
+  | { op: 'remove'; path: (string | number)[] }
+
+const isPlainObject = (value: any): value is Record<string, any> => {
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * 计算两个纯数据对象之间的差异, 非普通对象或数组 (如 Map, Date) 在引用不同时整体替换
+ */
+export function diffJson(
+  prev: any,
+  next: any,
+  path: (string | number)[] = [],
+  ops: JsonPatchOp[] = []
+): JsonPatchOp[] {
+  if (Object.is(prev, next)) {
+    return ops
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length)
+    for (let i = 0; i < common; i++) {
+      diffJson(prev[i], next[i], [...path, i], ops)
+    }
+
+    for (let i = common; i < next.length; i++) {
+      ops.push({ op: 'replace', path: [...path, i], value: next[i] })
+    }
+
+    // 从末尾开始删除, 保证下标有效
+    for (let i = prev.length - 1; i >= next.length; i--) {
+      ops.push({ op: 'remove', path: [...path, i] })
+    }
+
+    return ops
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) {
+        ops.push({ op: 'remove', path: [...path, key] })
+      }
+    }
+
+    for (const key of Object.keys(next)) {
+      if (key in prev) {
+        diffJson(prev[key], next[key], [...path, key], ops)
+      } else {
+        ops.push({ op: 'replace', path: [...path, key], value: next[key] })
+      }
+    }
+
+    return ops
+  }
+
+  ops.push({ op: 'replace', path, value: next })
+  return ops
+}
+
+/**
+ * 以不可变的方式应用差异, 未改变的部分保持原有引用
+ */
+export function applyJsonPatch<T = any>(target: T, ops: JsonPatchOp[]): T {
+  // 同一批次中已被复制过的对象, 可以直接修改
+  const copied = new WeakSet<object>()
+
+  const shallowCopy = (value: any) => {
+    if (value !== null && typeof value === 'object' && copied.has(value)) {
+      return value
+    }
+
+    const copy = Array.isArray(value) ? [...value] : { ...value }
+    copied.add(copy)
+    return copy
+  }
+
+  let root: any = target
+  for (const op of ops) {
+    if (!op.path.length) {
+      root = op.op === 'replace' ? op.value : undefined
+      continue
+    }
+
+    root = shallowCopy(root)
+
+    let parent = root
+    for (let i = 0; i < op.path.length - 1; i++) {
+      const key = op.path[i]
+      parent[key] = shallowCopy(parent[key])
+      parent = parent[key]
+    }
+
+    const last = op.path[op.path.length - 1]
+    if (op.op === 'replace') {
+      parent[last] = op.value
+    } else if (Array.isArray(parent)) {
+      parent.splice(last as number, 1)
+    } else {
+      delete parent[last]
+    }
+  }
+
+  return root
+}
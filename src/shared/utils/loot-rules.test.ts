@@ -0,0 +1,194 @@
+import { Loot, LootMap } from '@shared/types/league-client/loot'
+import { describe, expect, it } from 'vitest'
+
+import { LOOT_KEY_ID, LootRule, LootRuleContext, planLootOperations } from './loot-rules'
+
+const createLoot = (loot: Partial<Loot> & Pick<Loot, 'lootId' | 'type'>) =>
+  ({
+    count: 1,
+    storeItemId: 0,
+    itemStatus: 'OWNED',
+    value: 0,
+    disenchantValue: 0,
+    disenchantRecipeName: `${loot.type}_disenchant`,
+    disenchantLootName: 'CURRENCY_champion',
+    localizedName: loot.lootId,
+    ...loot
+  }) as Loot
+
+const toLootMap = (loots: Loot[]): LootMap =>
+  Object.fromEntries(loots.map((l) => [l.lootId, l])) as LootMap
+
+const context: LootRuleContext = {
+  masteryLevels: {},
+  rerollRecipeName: 'SKIN_reroll',
+  openRecipeNames: { CHEST_generic: 'CHEST_generic_OPEN' }
+}
+
+const ahriShard = createLoot({
+  lootId: 'CHAMPION_RENTAL_103',
+  type: 'CHAMPION_RENTAL',
+  storeItemId: 103,
+  count: 3,
+  disenchantValue: 1260
+})
+
+const ahriSkinShard = createLoot({
+  lootId: 'CHAMPION_SKIN_RENTAL_103001',
+  type: 'SKIN_RENTAL',
+  storeItemId: 103001,
+  count: 2,
+  value: 520,
+  disenchantValue: 104,
+  disenchantLootName: 'CURRENCY_cosmetic'
+})
+
+describe('planLootOperations', () => {
+  it('keeps keepCount shards and shares the remaining count across rules', () => {
+    const rules: LootRule[] = [
+      {
+        id: 'first',
+        enabled: true,
+        type: 'disenchant-champion-shards',
+        ownedOnly: false,
+        minMasteryLevel: 0,
+        keepCount: 2
+      },
+      {
+        id: 'second',
+        enabled: true,
+        type: 'disenchant-champion-shards',
+        ownedOnly: false,
+        minMasteryLevel: 0,
+        keepCount: 0
+      }
+    ]
+
+    const plan = planLootOperations(toLootMap([ahriShard]), rules, context)
+
+    expect(plan.operations.map((op) => [op.ruleId, op.repeat])).toEqual([
+      ['first', 1],
+      ['second', 2]
+    ])
+    expect(plan.blueEssenceDelta).toBe(1260 * 3)
+    expect(plan.orangeEssenceDelta).toBe(0)
+  })
+
+  it('skips disabled rules and shards below the mastery level', () => {
+    const rules: LootRule[] = [
+      {
+        id: 'mastery',
+        enabled: true,
+        type: 'disenchant-champion-shards',
+        ownedOnly: false,
+        minMasteryLevel: 5,
+        keepCount: 0
+      },
+      {
+        id: 'disabled',
+        enabled: false,
+        type: 'disenchant-skin-shards',
+        ownedOnly: false,
+        keepCount: 0
+      }
+    ]
+
+    const plan = planLootOperations(toLootMap([ahriShard, ahriSkinShard]), rules, {
+      ...context,
+      masteryLevels: { 103: 4 }
+    })
+
+    expect(plan.operations).toEqual([])
+  })
+
+  it('excludes champion and skin shards of kept champions', () => {
+    const zedShard = createLoot({
+      lootId: 'CHAMPION_RENTAL_238',
+      type: 'CHAMPION_RENTAL',
+      storeItemId: 238,
+      disenchantValue: 1260
+    })
+
+    const rules: LootRule[] = [
+      { id: 'keep', enabled: true, type: 'keep-champions', championIds: [103] },
+      {
+        id: 'champions',
+        enabled: true,
+        type: 'disenchant-champion-shards',
+        ownedOnly: false,
+        minMasteryLevel: 0,
+        keepCount: 0
+      },
+      {
+        id: 'skins',
+        enabled: true,
+        type: 'disenchant-skin-shards',
+        ownedOnly: false,
+        keepCount: 0
+      }
+    ]
+
+    const plan = planLootOperations(toLootMap([ahriShard, ahriSkinShard, zedShard]), rules, context)
+
+    expect(plan.operations.flatMap((op) => op.lootIds)).toEqual([zedShard.lootId])
+  })
+
+  it('rerolls the cheapest skin shards in groups of three', () => {
+    const cheap = createLoot({
+      lootId: 'CHAMPION_SKIN_RENTAL_238001',
+      type: 'SKIN_RENTAL',
+      storeItemId: 238001,
+      count: 4,
+      value: 260
+    })
+
+    const rules: LootRule[] = [
+      { id: 'reroll', enabled: true, type: 'reroll-skin-shards', maxRerolls: 10 },
+      {
+        id: 'skins',
+        enabled: true,
+        type: 'disenchant-skin-shards',
+        ownedOnly: false,
+        keepCount: 0
+      }
+    ]
+
+    const plan = planLootOperations(toLootMap([ahriSkinShard, cheap]), rules, context)
+
+    expect(plan.operations.map((op) => [op.kind, op.lootIds, op.repeat])).toEqual([
+      ['reroll', [cheap.lootId, cheap.lootId, cheap.lootId], 1],
+      ['reroll', [cheap.lootId, ahriSkinShard.lootId, ahriSkinShard.lootId], 1]
+    ])
+  })
+
+  it('limits rerolls by maxRerolls and requires the recipe', () => {
+    const rules: LootRule[] = [
+      { id: 'reroll', enabled: true, type: 'reroll-skin-shards', maxRerolls: 1 }
+    ]
+    const loots = toLootMap([{ ...ahriSkinShard, count: 6 }])
+
+    expect(planLootOperations(loots, rules, context).operations).toHaveLength(1)
+    expect(
+      planLootOperations(loots, rules, { ...context, rerollRecipeName: null }).operations
+    ).toEqual([])
+  })
+
+  it('opens chests up to the number of keys', () => {
+    const chest = createLoot({ lootId: 'CHEST_generic', type: 'CHEST', count: 5 })
+    const keys = createLoot({ lootId: LOOT_KEY_ID, type: 'MATERIAL', count: 2 })
+
+    const rules: LootRule[] = [{ id: 'open', enabled: true, type: 'open-chests' }]
+
+    const plan = planLootOperations(toLootMap([chest, keys]), rules, context)
+
+    expect(plan.operations).toMatchObject([
+      {
+        kind: 'open',
+        recipeName: 'CHEST_generic_OPEN',
+        lootIds: [chest.lootId, LOOT_KEY_ID],
+        repeat: 2
+      }
+    ])
+    expect(planLootOperations(toLootMap([chest]), rules, context).operations).toEqual([])
+  })
+})
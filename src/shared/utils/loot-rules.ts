@@ -0,0 +1,264 @@
+import { Loot, LootMap } from '@shared/types/league-client/loot'
+
+export type LootRule =
+  | {
+      /** 分解英雄碎片 */
+      id: string
+      enabled: boolean
+      type: 'disenchant-champion-shards'
+
+      /**
+       * 仅分解已拥有英雄的碎片
+       */
+      ownedOnly: boolean
+
+      /**
+       * 仅分解成就等级不低于该值的英雄, 为 0 时不限制
+       */
+      minMasteryLevel: number
+
+      /**
+       * 每个英雄保留的碎片数量
+       */
+      keepCount: number
+    }
+  | {
+      /** 分解皮肤碎片 */
+      id: string
+      enabled: boolean
+      type: 'disenchant-skin-shards'
+
+      /**
+       * 仅分解已拥有皮肤的碎片
+       */
+      ownedOnly: boolean
+      keepCount: number
+    }
+  | {
+      /** 每 3 个价值最低的皮肤碎片重铸一次 */
+      id: string
+      enabled: boolean
+      type: 'reroll-skin-shards'
+
+      /**
+       * 最多重铸的次数
+       */
+      maxRerolls: number
+    }
+  | {
+      /** 使用钥匙打开需要钥匙的宝箱 */
+      id: string
+      enabled: boolean
+      type: 'open-chests'
+    }
+  | {
+      /** 愿望单, 其中英雄的英雄碎片和皮肤碎片不会被任何规则使用 */
+      id: string
+      enabled: boolean
+      type: 'keep-champions'
+      championIds: number[]
+    }
+
+export type LootRuleType = LootRule['type']
+
+export interface LootRuleContext {
+  /**
+   * championId -> 成就等级
+   */
+  masteryLevels: Record<number, number>
+
+  /**
+   * 皮肤碎片的重铸配方, 不可用时为 null
+   */
+  rerollRecipeName: string | null
+
+  /**
+   * 宝箱的 lootId -> 使用钥匙打开的配方
+   */
+  openRecipeNames: Record<string, string>
+}
+
+export interface LootPlanOperation {
+  ruleId: string
+  kind: 'disenchant' | 'reroll' | 'open'
+  recipeName: string
+  lootIds: string[]
+  repeat: number
+
+  /**
+   * 涉及的战利品名称, 仅用于展示
+   */
+  names: string[]
+
+  /**
+   * 执行后蓝色精萃和橙色精萃的变化, 打开宝箱的收益是随机的, 不计入
+   */
+  blueEssence: number
+  orangeEssence: number
+}
+
+export interface LootPlan {
+  operations: LootPlanOperation[]
+  blueEssenceDelta: number
+  orangeEssenceDelta: number
+}
+
+export const LOOT_KEY_ID = 'MATERIAL_key'
+
+/**
+ * 每次重铸所需的皮肤碎片数量
+ */
+export const SKIN_REROLL_SIZE = 3
+
+const CHAMPION_SHARD_TYPES = ['CHAMPION_RENTAL', 'CHAMPION']
+const SKIN_SHARD_TYPES = ['SKIN_RENTAL', 'SKIN']
+
+const BLUE_ESSENCE_ID = 'CURRENCY_champion'
+const ORANGE_ESSENCE_ID = 'CURRENCY_cosmetic'
+
+const lootName = (loot: Loot) => loot.localizedName || loot.itemDesc || loot.lootId
+
+/**
+ * 皮肤 ID 为 英雄 ID * 1000 + 序号
+ */
+const championIdOf = (loot: Loot) =>
+  SKIN_SHARD_TYPES.includes(loot.type) ? Math.floor(loot.storeItemId / 1000) : loot.storeItemId
+
+/**
+ * 按规则的顺序生成操作, 每份战利品最多被一条规则使用
+ */
+export function planLootOperations(
+  lootMap: LootMap,
+  rules: LootRule[],
+  context: LootRuleContext
+): LootPlan {
+  const enabledRules = rules.filter((r) => r.enabled)
+
+  const keptChampionIds = new Set<number>()
+  for (const rule of enabledRules) {
+    if (rule.type === 'keep-champions') {
+      rule.championIds.forEach((id) => keptChampionIds.add(id))
+    }
+  }
+
+  // 规则之间共享的剩余数量
+  const remaining: Record<string, number> = {}
+  const loots = Object.values(lootMap).filter((l) => l.count > 0)
+  loots.forEach((l) => (remaining[l.lootId] = l.count))
+
+  const shards = (types: string[]) =>
+    loots.filter((l) => types.includes(l.type) && !keptChampionIds.has(championIdOf(l)))
+
+  const operations: LootPlanOperation[] = []
+
+  const disenchant = (ruleId: string, loot: Loot, count: number) => {
+    if (count <= 0) {
+      return
+    }
+
+    remaining[loot.lootId] -= count
+
+    const value = loot.disenchantValue * count
+    operations.push({
+      ruleId,
+      kind: 'disenchant',
+      recipeName: loot.disenchantRecipeName,
+      lootIds: [loot.lootId],
+      repeat: count,
+      names: [lootName(loot)],
+      blueEssence: loot.disenchantLootName === BLUE_ESSENCE_ID ? value : 0,
+      orangeEssence: loot.disenchantLootName === ORANGE_ESSENCE_ID ? value : 0
+    })
+  }
+
+  for (const rule of enabledRules) {
+    switch (rule.type) {
+      case 'disenchant-champion-shards':
+        for (const loot of shards(CHAMPION_SHARD_TYPES)) {
+          if (rule.ownedOnly && loot.itemStatus !== 'OWNED') {
+            continue
+          }
+
+          if ((context.masteryLevels[loot.storeItemId] || 0) < rule.minMasteryLevel) {
+            continue
+          }
+
+          disenchant(rule.id, loot, remaining[loot.lootId] - rule.keepCount)
+        }
+        break
+
+      case 'disenchant-skin-shards':
+        for (const loot of shards(SKIN_SHARD_TYPES)) {
+          if (rule.ownedOnly && loot.itemStatus !== 'OWNED') {
+            continue
+          }
+
+          disenchant(rule.id, loot, remaining[loot.lootId] - rule.keepCount)
+        }
+        break
+
+      case 'reroll-skin-shards': {
+        if (!context.rerollRecipeName) {
+          break
+        }
+
+        // 展开为单个碎片, 按价值从低到高
+        const units = shards(['SKIN_RENTAL'])
+          .flatMap((l) => Array<Loot>(Math.max(remaining[l.lootId], 0)).fill(l))
+          .sort((a, b) => a.value - b.value)
+
+        const rerolls = Math.min(rule.maxRerolls, Math.floor(units.length / SKIN_REROLL_SIZE))
+        for (let i = 0; i < rerolls; i++) {
+          const group = units.slice(i * SKIN_REROLL_SIZE, (i + 1) * SKIN_REROLL_SIZE)
+          group.forEach((l) => remaining[l.lootId]--)
+
+          operations.push({
+            ruleId: rule.id,
+            kind: 'reroll',
+            recipeName: context.rerollRecipeName,
+            lootIds: group.map((l) => l.lootId),
+            repeat: 1,
+            names: group.map(lootName),
+            blueEssence: 0,
+            orangeEssence: 0
+          })
+        }
+        break
+      }
+
+      case 'open-chests':
+        for (const loot of loots) {
+          const recipeName = context.openRecipeNames[loot.lootId]
+          if (!recipeName) {
+            continue
+          }
+
+          const count = Math.min(remaining[loot.lootId], remaining[LOOT_KEY_ID] || 0)
+          if (count <= 0) {
+            continue
+          }
+
+          remaining[loot.lootId] -= count
+          remaining[LOOT_KEY_ID] -= count
+
+          operations.push({
+            ruleId: rule.id,
+            kind: 'open',
+            recipeName,
+            lootIds: [loot.lootId, LOOT_KEY_ID],
+            repeat: count,
+            names: [lootName(loot)],
+            blueEssence: 0,
+            orangeEssence: 0
+          })
+        }
+        break
+    }
+  }
+
+  return {
+    operations,
+    blueEssenceDelta: operations.reduce((sum, op) => sum + op.blueEssence, 0),
+    orangeEssenceDelta: operations.reduce((sum, op) => sum + op.orangeEssence, 0)
+  }
+}
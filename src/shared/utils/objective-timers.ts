@@ -0,0 +1,178 @@
+import { GameEvent } from '@shared/types/game-client'
+
+export type ObjectiveType =
+  'dragon' | 'elder' | 'grubs' | 'herald' | 'atakhan' | 'baron' | 'inhibitor'
+
+export interface ObjectiveTimer {
+  /**
+   * 同类资源唯一, 水晶为 `inhibitor-<原始名称>`
+   */
+  id: string
+  type: ObjectiveType
+
+  /**
+   * 水晶所属的阵营
+   */
+  team?: 'ORDER' | 'CHAOS'
+
+  /**
+   * 水晶所在的路线
+   */
+  lane?: 'top' | 'middle' | 'bottom'
+
+  /**
+   * 最近一次被击杀的游戏时间 (秒), 从未被击杀时为 null
+   */
+  killedAt: number | null
+
+  /**
+   * 下一次刷新的游戏时间 (秒)
+   */
+  spawnAt: number
+}
+
+/**
+ * 召唤师峡谷的刷新时间 (秒), 参照当前版本硬编码, respawn 为 null 时表示不会再刷新
+ */
+export const OBJECTIVE_SPAWN_RULES: Record<
+  Exclude<ObjectiveType, 'inhibitor'>,
+  { firstSpawn: number; respawn: number | null }
+> = {
+  dragon: { firstSpawn: 300, respawn: 300 },
+  elder: { firstSpawn: 360, respawn: 360 },
+  grubs: { firstSpawn: 480, respawn: null },
+  herald: { firstSpawn: 900, respawn: null },
+  atakhan: { firstSpawn: 1200, respawn: null },
+  baron: { firstSpawn: 1500, respawn: 360 }
+}
+
+export const INHIBITOR_RESPAWN = 300
+
+/**
+ * 获得龙魂所需的元素龙数量, 此后只刷新远古龙
+ */
+const DRAGON_SOUL_COUNT = 4
+
+/**
+ * 虚空巢虫一次刷新的数量
+ */
+const VOIDGRUB_COUNT = 3
+
+const INHIBITOR_LANES = {
+  L1: 'top',
+  C1: 'middle',
+  R1: 'bottom'
+} as const
+
+/**
+ * 解析水晶的原始名称, 如 `Barracks_T1_L1`
+ */
+export function parseInhibitorName(name: string) {
+  const match = name.match(/Barracks_T([12])_([LCR]1)/)
+  if (!match) {
+    return null
+  }
+
+  return {
+    team: match[1] === '1' ? ('ORDER' as const) : ('CHAOS' as const),
+    lane: INHIBITOR_LANES[match[2] as keyof typeof INHIBITOR_LANES]
+  }
+}
+
+/**
+ * 根据游戏内事件计算尚未刷新或已刷新但尚未被击杀的资源
+ * @param events Live Client Data API 的事件
+ * @param gameTime 当前游戏时间 (秒)
+ * @param teamOf 根据玩家名称获取阵营, 用于判断龙魂, 无法判断时返回 null
+ */
+export function computeObjectiveTimers(
+  events: GameEvent[],
+  gameTime: number,
+  teamOf: (name: string) => 'ORDER' | 'CHAOS' | null
+): ObjectiveTimer[] {
+  const dragonCounts = { ORDER: 0, CHAOS: 0 }
+  let isElderPhase = false
+  let grubsKilled = 0
+
+  const timers: Record<string, ObjectiveTimer> = {}
+  for (const type of ['dragon', 'grubs', 'herald', 'atakhan', 'baron'] as const) {
+    timers[type] = {
+      id: type,
+      type,
+      killedAt: null,
+      spawnAt: OBJECTIVE_SPAWN_RULES[type].firstSpawn
+    }
+  }
+
+  const kill = (id: string, time: number, respawn: number | null) => {
+    if (respawn === null) {
+      delete timers[id]
+    } else {
+      timers[id] = { ...timers[id], killedAt: time, spawnAt: time + respawn }
+    }
+  }
+
+  for (const e of events) {
+    switch (e.EventName) {
+      case 'DragonKill': {
+        if (e.DragonType === 'Elder') {
+          isElderPhase = true
+        } else {
+          const team = e.KillerName ? teamOf(e.KillerName) : null
+          if (team) {
+            dragonCounts[team]++
+            isElderPhase ||= dragonCounts[team] >= DRAGON_SOUL_COUNT
+          }
+        }
+
+        if (isElderPhase) {
+          timers.dragon = { ...timers.dragon, type: 'elder' }
+          kill('dragon', e.EventTime, OBJECTIVE_SPAWN_RULES.elder.respawn)
+        } else {
+          kill('dragon', e.EventTime, OBJECTIVE_SPAWN_RULES.dragon.respawn)
+        }
+        break
+      }
+      case 'HordeKill':
+        // 虚空巢虫一次刷新多只, 在全部被击杀前保持计时
+        if (++grubsKilled >= VOIDGRUB_COUNT) {
+          kill('grubs', e.EventTime, OBJECTIVE_SPAWN_RULES.grubs.respawn)
+        } else if (timers.grubs) {
+          timers.grubs = { ...timers.grubs, killedAt: e.EventTime }
+        }
+        break
+      case 'HeraldKill':
+        kill('herald', e.EventTime, OBJECTIVE_SPAWN_RULES.herald.respawn)
+        break
+      case 'AtakhanKill':
+        kill('atakhan', e.EventTime, OBJECTIVE_SPAWN_RULES.atakhan.respawn)
+        break
+      case 'BaronKill':
+        kill('baron', e.EventTime, OBJECTIVE_SPAWN_RULES.baron.respawn)
+        break
+      case 'InhibKilled': {
+        const inhibitor = e.InhibKilled ? parseInhibitorName(e.InhibKilled) : null
+        if (inhibitor) {
+          const id = `inhibitor-${e.InhibKilled}`
+          timers[id] = {
+            id,
+            type: 'inhibitor',
+            ...inhibitor,
+            killedAt: e.EventTime,
+            spawnAt: e.EventTime + INHIBITOR_RESPAWN
+          }
+        }
+        break
+      }
+    }
+  }
+
+  return Object.values(timers).filter((t) => {
+    // 已经重生的水晶不再展示
+    if (t.type === 'inhibitor') {
+      return t.spawnAt > gameTime
+    }
+
+    return true
+  })
+}
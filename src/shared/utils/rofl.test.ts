@@ -0,0 +1,202 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+import {
+  ROFL2_METADATA_LENGTH_SIZE,
+  ROFL_HEAD_SIZE,
+  RoflParseError,
+  parseRofl2MetadataLength,
+  parseRoflFileName,
+  parseRoflHeader,
+  parseRoflMetadata,
+  parseRoflPayloadHeader,
+  toPatchVersion
+} from './rofl'
+
+const readFixture = (name: string) =>
+  new Uint8Array(readFileSync(join(__dirname, '__fixtures__', name)))
+
+// 旧格式, 含两名玩家, 其中一名只有 NAME 字段
+const ROFL1 = readFixture('NA1-4567890123.rofl')
+
+// 新格式, 元数据位于文件末尾
+const ROFL2 = readFixture('HN1-1234567890.rofl')
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+describe('parseRoflHeader', () => {
+  it('parses the v1 length table', () => {
+    expect(parseRoflHeader(ROFL1.subarray(0, ROFL_HEAD_SIZE))).toEqual({
+      version: 1,
+      fileLength: ROFL1.byteLength,
+      metadataOffset: 0x120,
+      metadataLength: ROFL1.byteLength - 0x120 - 12,
+      payloadHeaderOffset: ROFL1.byteLength - 12,
+      payloadHeaderLength: 12
+    })
+  })
+
+  it('reads the game version from a v2 header', () => {
+    expect(parseRoflHeader(ROFL2.subarray(0, ROFL_HEAD_SIZE))).toEqual({
+      version: 2,
+      gameVersion: '15.1.650.1512'
+    })
+  })
+
+  it('returns a null version when a v2 header has none', () => {
+    expect(parseRoflHeader(encode('RIOT\x02\x00no version here'))).toEqual({
+      version: 2,
+      gameVersion: null
+    })
+  })
+
+  it('rejects files without the magic', () => {
+    expect(() => parseRoflHeader(encode('RIFF\0\0'))).toThrow('Not a ROFL file')
+    expect(() => parseRoflHeader(encode('RIOT'))).toThrow(RoflParseError)
+  })
+
+  it('rejects a truncated v1 header', () => {
+    expect(() => parseRoflHeader(ROFL1.subarray(0, 0x110))).toThrow('ROFL header is truncated')
+  })
+})
+
+describe('parseRofl2MetadataLength', () => {
+  it('reads the length from the last 4 bytes', () => {
+    const tail = ROFL2.subarray(ROFL2.byteLength - ROFL2_METADATA_LENGTH_SIZE)
+    const length = parseRofl2MetadataLength(tail)
+    const metadataStart = ROFL2.byteLength - ROFL2_METADATA_LENGTH_SIZE - length
+
+    expect(String.fromCharCode(ROFL2[metadataStart])).toBe('{')
+    expect(parseRofl2MetadataLength(ROFL2)).toBe(length)
+  })
+
+  it('rejects a truncated tail', () => {
+    expect(() => parseRofl2MetadataLength(new Uint8Array(3))).toThrow('ROFL tail is truncated')
+  })
+})
+
+describe('parseRoflMetadata', () => {
+  it('parses v1 metadata and player stats', () => {
+    const header = parseRoflHeader(ROFL1)
+    if (header.version !== 1) {
+      throw new Error('Expected a v1 header')
+    }
+
+    const metadata = parseRoflMetadata(
+      ROFL1.subarray(header.metadataOffset, header.metadataOffset + header.metadataLength)
+    )
+
+    expect(metadata.gameLength).toBe(1834000)
+    expect(metadata.gameVersion).toBe('14.5.567.1234')
+    expect(metadata.players).toEqual([
+      {
+        puuid: 'puuid-a',
+        gameName: 'Akari',
+        tagLine: 'NA1',
+        championAlias: 'Ahri',
+        team: 100,
+        win: true,
+        position: 'MIDDLE',
+        kills: 7,
+        deaths: 2,
+        assists: 9
+      },
+      {
+        puuid: null,
+        gameName: 'OldName',
+        tagLine: '',
+        championAlias: 'Garen',
+        team: 200,
+        win: false,
+        position: 'TOP',
+        kills: 1,
+        deaths: 5,
+        assists: 0
+      }
+    ])
+  })
+
+  it('parses v2 metadata located by the tail', () => {
+    const end = ROFL2.byteLength - ROFL2_METADATA_LENGTH_SIZE
+    const length = parseRofl2MetadataLength(ROFL2.subarray(end))
+    const metadata = parseRoflMetadata(ROFL2.subarray(end - length, end))
+
+    expect(metadata.gameLength).toBe(945000)
+    expect(metadata.gameVersion).toBe('15.1.650.1512')
+    expect(metadata.players.map((p) => p.puuid)).toEqual(['puuid-a'])
+  })
+
+  it('accepts stats that are not nested as a string', () => {
+    const metadata = parseRoflMetadata(encode('{"statsJson":[{"TEAM":"200","WIN":"Win"}]}'))
+
+    expect(metadata.gameLength).toBe(0)
+    expect(metadata.gameVersion).toBeNull()
+    expect(metadata.players[0]).toMatchObject({ team: 200, win: true, position: null })
+  })
+
+  it('rejects truncated metadata', () => {
+    const header = parseRoflHeader(ROFL1)
+    if (header.version !== 1) {
+      throw new Error('Expected a v1 header')
+    }
+
+    const truncated = ROFL1.subarray(
+      header.metadataOffset,
+      header.metadataOffset + header.metadataLength - 1
+    )
+
+    expect(() => parseRoflMetadata(truncated)).toThrow('Invalid ROFL metadata')
+  })
+
+  it('rejects invalid player stats', () => {
+    expect(() => parseRoflMetadata(encode('{"statsJson":"[{"}'))).toThrow(
+      'Invalid ROFL player stats'
+    )
+  })
+})
+
+describe('parseRoflPayloadHeader', () => {
+  it('reads the game ID and length', () => {
+    const header = parseRoflHeader(ROFL1)
+    if (header.version !== 1) {
+      throw new Error('Expected a v1 header')
+    }
+
+    expect(
+      parseRoflPayloadHeader(
+        ROFL1.subarray(
+          header.payloadHeaderOffset,
+          header.payloadHeaderOffset + header.payloadHeaderLength
+        )
+      )
+    ).toEqual({ gameId: 4567890123, gameLength: 1834000 })
+  })
+
+  it('rejects a truncated payload header', () => {
+    expect(() => parseRoflPayloadHeader(ROFL1.subarray(ROFL1.byteLength - 11))).toThrow(
+      'ROFL payload header is truncated'
+    )
+  })
+})
+
+describe('parseRoflFileName', () => {
+  it('reads the platform and game ID', () => {
+    expect(parseRoflFileName('HN1-1234567890.rofl')).toEqual({
+      platformId: 'HN1',
+      gameId: 1234567890
+    })
+    expect(parseRoflFileName('na1-42.ROFL')).toEqual({ platformId: 'NA1', gameId: 42 })
+  })
+
+  it('returns null for other names', () => {
+    expect(parseRoflFileName('replay.rofl')).toBeNull()
+    expect(parseRoflFileName('HN1-1234567890.rofl.bak')).toBeNull()
+  })
+})
+
+describe('toPatchVersion', () => {
+  it('keeps the first two segments', () => {
+    expect(toPatchVersion('15.1.650.1512')).toBe('15.1')
+  })
+})
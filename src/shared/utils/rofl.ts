@@ -0,0 +1,218 @@
+/**
+ * 回放文件 (.rofl) 的头部解析, 不依赖 Node.js 的 API, 只处理调用方读取的字节片段
+ *
+ * 旧格式 (ROFL v1) 的布局:
+ * - 0x000 魔数 `RIOT\0\0` (6 字节)
+ * - 0x006 签名 (256 字节)
+ * - 0x106 长度表: headerLength (u16), fileLength, metadataOffset, metadataLength,
+ *   payloadHeaderOffset, payloadHeaderLength, payloadOffset (u32)
+ * - metadata: JSON 文本
+ * - payloadHeader: gameId (u64), gameLength, keyframeCount, chunkCount ... (u32)
+ *
+ * 新格式 (ROFL v2) 没有长度表, 元数据 JSON 位于文件末尾, 最后 4 字节为元数据的长度,
+ * 头部不含对局 ID, 需要从文件名中获取
+ */
+
+export const ROFL_MAGIC = 'RIOT'
+
+/**
+ * 读取头部时至少需要的字节数, 足以覆盖两种格式的固定部分
+ */
+export const ROFL_HEAD_SIZE = 0x120
+
+/**
+ * 新格式中记录元数据长度的尾部字节数
+ */
+export const ROFL2_METADATA_LENGTH_SIZE = 4
+
+const ROFL1_SIGNATURE_END = 0x106
+const ROFL1_PAYLOAD_HEADER_MIN_SIZE = 12
+
+export type RoflHeader =
+  | {
+      version: 1
+      fileLength: number
+      metadataOffset: number
+      metadataLength: number
+      payloadHeaderOffset: number
+      payloadHeaderLength: number
+    }
+  | {
+      version: 2
+
+      /**
+       * 新格式的头部中以文本形式存放的客户端版本, 无法识别时为 null
+       */
+      gameVersion: string | null
+    }
+
+export interface RoflPlayer {
+  puuid: string | null
+  gameName: string
+  tagLine: string
+
+  /**
+   * 英雄的 alias, 如 `Ahri`
+   */
+  championAlias: string
+  team: 100 | 200
+  win: boolean
+  position: string | null
+  kills: number
+  deaths: number
+  assists: number
+}
+
+export interface RoflMetadata {
+  /**
+   * 对局时长 (毫秒)
+   */
+  gameLength: number
+  gameVersion: string | null
+  players: RoflPlayer[]
+}
+
+export interface RoflPayloadHeader {
+  gameId: number
+
+  /**
+   * 对局时长 (毫秒)
+   */
+  gameLength: number
+}
+
+export class RoflParseError extends Error {
+  name = 'RoflParseError'
+}
+
+const textDecoder = new TextDecoder('utf-8')
+
+const asDataView = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+/**
+ * 解析文件头部, 区分新旧格式并给出元数据的位置
+ * @param head 文件开头的字节, 长度至少为 `ROFL_HEAD_SIZE`, 除非文件本身更短
+ */
+export function parseRoflHeader(head: Uint8Array): RoflHeader {
+  if (head.byteLength < 6 || textDecoder.decode(head.subarray(0, 4)) !== ROFL_MAGIC) {
+    throw new RoflParseError('Not a ROFL file')
+  }
+
+  // 旧格式的魔数为 `RIOT\0\0`
+  if (head[4] === 0 && head[5] === 0) {
+    if (head.byteLength < ROFL1_SIGNATURE_END + 26) {
+      throw new RoflParseError('ROFL header is truncated')
+    }
+
+    const view = asDataView(head)
+    const base = ROFL1_SIGNATURE_END + 2
+
+    return {
+      version: 1,
+      fileLength: view.getUint32(base, true),
+      metadataOffset: view.getUint32(base + 4, true),
+      metadataLength: view.getUint32(base + 8, true),
+      payloadHeaderOffset: view.getUint32(base + 12, true),
+      payloadHeaderLength: view.getUint32(base + 16, true)
+    }
+  }
+
+  // 新格式的版本号为头部中的一段文本, 如 `15.1.650.1512`
+  const versionMatch = textDecoder
+    .decode(head.subarray(4, Math.min(head.byteLength, ROFL_HEAD_SIZE)))
+    .match(/\d+\.\d+\.\d+\.\d+/)
+
+  return { version: 2, gameVersion: versionMatch ? versionMatch[0] : null }
+}
+
+/**
+ * 新格式中元数据的长度
+ * @param tail 文件末尾的 `ROFL2_METADATA_LENGTH_SIZE` 字节
+ */
+export function parseRofl2MetadataLength(tail: Uint8Array) {
+  if (tail.byteLength < ROFL2_METADATA_LENGTH_SIZE) {
+    throw new RoflParseError('ROFL tail is truncated')
+  }
+
+  return asDataView(tail).getUint32(tail.byteLength - ROFL2_METADATA_LENGTH_SIZE, true)
+}
+
+const toNumber = (value: unknown) => {
+  const n = Number(value)
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * 解析元数据 JSON, 玩家信息位于以字符串形式嵌套的 `statsJson` 中
+ */
+export function parseRoflMetadata(bytes: Uint8Array): RoflMetadata {
+  let raw: any
+  try {
+    raw = JSON.parse(textDecoder.decode(bytes))
+  } catch {
+    throw new RoflParseError('Invalid ROFL metadata')
+  }
+
+  let stats: Record<string, string>[] = []
+  try {
+    const parsed =
+      typeof raw.statsJson === 'string' ? JSON.parse(raw.statsJson) : raw.statsJson || []
+    stats = Array.isArray(parsed) ? parsed : []
+  } catch {
+    throw new RoflParseError('Invalid ROFL player stats')
+  }
+
+  return {
+    gameLength: toNumber(raw.gameLength),
+    gameVersion: typeof raw.gameVersion === 'string' && raw.gameVersion ? raw.gameVersion : null,
+    players: stats.map((s) => ({
+      puuid: s.PUUID || null,
+      // 较早的版本只有 NAME
+      gameName: s.RIOT_ID_GAME_NAME || s.NAME || '',
+      tagLine: s.RIOT_ID_TAG_LINE || '',
+      championAlias: s.SKIN || '',
+      team: s.TEAM === '200' ? 200 : 100,
+      win: s.WIN === 'Win',
+      position: s.INDIVIDUAL_POSITION || s.TEAM_POSITION || null,
+      kills: toNumber(s.CHAMPIONS_KILLED),
+      deaths: toNumber(s.NUM_DEATHS),
+      assists: toNumber(s.ASSISTS)
+    }))
+  }
+}
+
+/**
+ * 解析旧格式的 payload header, 其中包含对局 ID
+ */
+export function parseRoflPayloadHeader(bytes: Uint8Array): RoflPayloadHeader {
+  if (bytes.byteLength < ROFL1_PAYLOAD_HEADER_MIN_SIZE) {
+    throw new RoflParseError('ROFL payload header is truncated')
+  }
+
+  const view = asDataView(bytes)
+
+  return {
+    gameId: Number(view.getBigUint64(0, true)),
+    gameLength: view.getUint32(8, true)
+  }
+}
+
+/**
+ * 从客户端默认的文件名中获取平台和对局 ID, 如 `HN1-1234567890.rofl`
+ */
+export function parseRoflFileName(fileName: string) {
+  const match = fileName.match(/^([A-Za-z0-9_]+)-(\d+)\.rofl$/i)
+  if (!match) {
+    return null
+  }
+
+  return { platformId: match[1].toUpperCase(), gameId: Number(match[2]) }
+}
+
+/**
+ * 取版本号的前两段, 如 `15.1.650.1512` -> `15.1`
+ */
+export function toPatchVersion(gameVersion: string) {
+  return gameVersion.split('.').slice(0, 2).join('.')
+}
@@ -0,0 +1,89 @@
+import { PlayerList } from '@shared/types/game-client'
+import { describe, expect, it } from 'vitest'
+
+import {
+  COSMIC_INSIGHT_HASTE,
+  INSPIRATION_TREE_ID,
+  IONIAN_BOOTS_HASTE,
+  IONIAN_BOOTS_ITEM_ID,
+  SMITE_RECHARGE_TIME,
+  SMITE_SPELL_ID,
+  TELEPORT_COOLDOWN,
+  TELEPORT_SPELL_ID,
+  UNLEASHED_TELEPORT_COOLDOWN,
+  UNLEASHED_TELEPORT_TIME,
+  applySummonerSpellHaste,
+  getSummonerSpellBaseCooldown,
+  getSummonerSpellHaste,
+  rescaleCooldownEnd
+} from './summoner-spell-haste'
+
+const createPlayer = (itemIds: number[], treeIds: [number, number] | null) =>
+  ({
+    items: itemIds.map((itemID) => ({ itemID })),
+    runes: treeIds && {
+      primaryRuneTree: { id: treeIds[0] },
+      secondaryRuneTree: { id: treeIds[1] }
+    }
+  }) as Pick<PlayerList, 'items' | 'runes'>
+
+describe('getSummonerSpellHaste', () => {
+  it('adds haste from Ionian Boots', () => {
+    expect(
+      getSummonerSpellHaste(createPlayer([IONIAN_BOOTS_ITEM_ID], null), {
+        assumeCosmicInsight: true
+      })
+    ).toBe(IONIAN_BOOTS_HASTE)
+  })
+
+  it('assumes Cosmic Insight for the Inspiration tree only when enabled', () => {
+    const player = createPlayer([], [8000, INSPIRATION_TREE_ID])
+
+    expect(getSummonerSpellHaste(player, { assumeCosmicInsight: true })).toBe(COSMIC_INSIGHT_HASTE)
+    expect(getSummonerSpellHaste(player, { assumeCosmicInsight: false })).toBe(0)
+    expect(
+      getSummonerSpellHaste(createPlayer([], [8000, 8100]), { assumeCosmicInsight: true })
+    ).toBe(0)
+  })
+})
+
+describe('getSummonerSpellBaseCooldown', () => {
+  it('uses the recharge time for Smite', () => {
+    expect(getSummonerSpellBaseCooldown(SMITE_SPELL_ID, 15, 300)).toBe(SMITE_RECHARGE_TIME)
+  })
+
+  it('shortens Teleport once it is unleashed', () => {
+    expect(getSummonerSpellBaseCooldown(TELEPORT_SPELL_ID, 0, null)).toBe(TELEPORT_COOLDOWN)
+    expect(getSummonerSpellBaseCooldown(TELEPORT_SPELL_ID, 0, UNLEASHED_TELEPORT_TIME - 1)).toBe(
+      TELEPORT_COOLDOWN
+    )
+    expect(getSummonerSpellBaseCooldown(TELEPORT_SPELL_ID, 0, UNLEASHED_TELEPORT_TIME)).toBe(
+      UNLEASHED_TELEPORT_COOLDOWN
+    )
+  })
+
+  it('falls back to the cooldown provided by the client', () => {
+    expect(getSummonerSpellBaseCooldown(4, 300, 100)).toBe(300)
+  })
+})
+
+describe('applySummonerSpellHaste', () => {
+  it('reduces the cooldown by haste / (100 + haste)', () => {
+    expect(applySummonerSpellHaste(300, 0)).toBe(300)
+    expect(applySummonerSpellHaste(300, 100)).toBe(150)
+    expect(applySummonerSpellHaste(300, 18)).toBeCloseTo(254.24, 2)
+  })
+})
+
+describe('rescaleCooldownEnd', () => {
+  it('rescales the remaining cooldown when haste changes', () => {
+    // 剩余 110 秒, 急速从 10 变为 120, 剩余时间变为 110 * 110 / 220
+    expect(rescaleCooldownEnd(1110, 1000, 10, 120)).toBe(1055)
+    expect(rescaleCooldownEnd(1055, 1000, 120, 10)).toBe(1110)
+  })
+
+  it('keeps finished cooldowns and unchanged haste as they are', () => {
+    expect(rescaleCooldownEnd(900, 1000, 0, 50)).toBe(900)
+    expect(rescaleCooldownEnd(1100, 1000, 20, 20)).toBe(1100)
+  })
+})
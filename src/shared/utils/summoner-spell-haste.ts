@@ -0,0 +1,108 @@
+import { PlayerList } from '@shared/types/game-client'
+
+/**
+ * 天启者 - 星界洞悉
+ */
+export const COSMIC_INSIGHT_RUNE_ID = 8347
+export const COSMIC_INSIGHT_HASTE = 18
+
+/**
+ * 天启者系
+ */
+export const INSPIRATION_TREE_ID = 8300
+
+/**
+ * 明朗之靴
+ */
+export const IONIAN_BOOTS_ITEM_ID = 3158
+export const IONIAN_BOOTS_HASTE = 10
+
+export const SMITE_SPELL_ID = 11
+export const TELEPORT_SPELL_ID = 12
+
+/**
+ * 以下时间参照当前版本硬编码 (秒)
+ */
+export const SMITE_RECHARGE_TIME = 90
+export const TELEPORT_COOLDOWN = 360
+export const UNLEASHED_TELEPORT_COOLDOWN = 330
+export const UNLEASHED_TELEPORT_TIME = 600
+
+export interface SummonerSpellHasteOptions {
+  /**
+   * 游戏内接口只提供其他玩家的基石和符文系, 无法确认是否携带星界洞悉
+   * 启用时, 假设所有点出天启者系的玩家都携带了星界洞悉
+   */
+  assumeCosmicInsight: boolean
+}
+
+/**
+ * 某位玩家当前的召唤师技能急速, 不包含游戏模式提供的部分
+ */
+export function getSummonerSpellHaste(
+  player: Pick<PlayerList, 'items' | 'runes'>,
+  options: SummonerSpellHasteOptions
+) {
+  let haste = 0
+
+  if (player.items.some((item) => item.itemID === IONIAN_BOOTS_ITEM_ID)) {
+    haste += IONIAN_BOOTS_HASTE
+  }
+
+  if (
+    options.assumeCosmicInsight &&
+    player.runes &&
+    (player.runes.primaryRuneTree?.id === INSPIRATION_TREE_ID ||
+      player.runes.secondaryRuneTree?.id === INSPIRATION_TREE_ID)
+  ) {
+    haste += COSMIC_INSIGHT_HASTE
+  }
+
+  return haste
+}
+
+/**
+ * 随游戏时间变化的基础冷却时间, 惩戒使用充能时间而非两次使用之间的间隔
+ * @param defaultCooldown 客户端提供的冷却时间
+ * @param gameTime 施放时的游戏时间 (秒), 未知时视为对局开始
+ */
+export function getSummonerSpellBaseCooldown(
+  spellId: number,
+  defaultCooldown: number,
+  gameTime: number | null
+) {
+  switch (spellId) {
+    case SMITE_SPELL_ID:
+      return SMITE_RECHARGE_TIME
+    case TELEPORT_SPELL_ID:
+      return (gameTime ?? 0) >= UNLEASHED_TELEPORT_TIME
+        ? UNLEASHED_TELEPORT_COOLDOWN
+        : TELEPORT_COOLDOWN
+    default:
+      return defaultCooldown
+  }
+}
+
+/**
+ * @param haste 游戏模式和玩家自身提供的召唤师技能急速之和
+ */
+export function applySummonerSpellHaste(cooldown: number, haste: number) {
+  return (cooldown * 100) / (100 + haste)
+}
+
+/**
+ * 急速变化后, 按比例缩放剩余的冷却时间
+ * @returns 新的冷却结束时间戳
+ */
+export function rescaleCooldownEnd(
+  endTime: number,
+  now: number,
+  oldHaste: number,
+  newHaste: number
+) {
+  if (endTime <= now || oldHaste === newHaste) {
+    return endTime
+  }
+
+  return now + ((endTime - now) * (100 + oldHaste)) / (100 + newHaste)
+}
@@ -1,10 +1,11 @@
 type Edge = {
   to: string
   weight: number
+  count: number
   ids: Set<string>
 }
 
-type ResultType = { players: string[]; times: number; ids: Set<string> }
+type ResultType = { players: string[]; times: number; weight: number; ids: Set<string> }
 
 /**
  * 用于高效分析预组队情况的图结构
@@ -22,7 +23,7 @@ export class TeamUpGraph {
     }
   }
 
-  addEdge(vertex1: string, vertex2: string, id: string): void {
+  addEdge(vertex1: string, vertex2: string, id: string, weight = 1): void {
     this.addVertex(vertex1)
     this.addVertex(vertex2)
 
@@ -31,18 +32,20 @@ export class TeamUpGraph {
 
     let edge1 = list1.get(vertex2)
     if (edge1) {
-      edge1.weight++
+      edge1.weight += weight
+      edge1.count++
       edge1.ids.add(id)
     } else {
-      list1.set(vertex2, { to: vertex2, weight: 1, ids: new Set([id]) })
+      list1.set(vertex2, { to: vertex2, weight, count: 1, ids: new Set([id]) })
     }
 
     let edge2 = list2.get(vertex1)
     if (edge2) {
-      edge2.weight++
+      edge2.weight += weight
+      edge2.count++
       edge2.ids.add(id)
     } else {
-      list2.set(vertex1, { to: vertex1, weight: 1, ids: new Set([id]) })
+      list2.set(vertex1, { to: vertex1, weight, count: 1, ids: new Set([id]) })
     }
   }
 
@@ -51,6 +54,7 @@ export class TeamUpGraph {
 
     for (let players of playersGroups) {
       let count = Infinity
+      let weight = Infinity
       let ids: Set<string>
 
       for (let i = 0; i < players.length; i++) {
@@ -64,18 +68,21 @@ export class TeamUpGraph {
           const edge = adjacencyMap.get(players[j])
           if (!edge) {
             count = 0
+            weight = 0
             break
           }
 
-          if (edge.weight < count) {
+          // 以权重最小的一条边作为整组的结果
+          if (edge.weight < weight) {
             ids = edge.ids
-            count = edge.weight
+            weight = edge.weight
+            count = edge.count
           }
         }
         if (count === 0) break
       }
 
-      results.push({ players, times: count, ids: ids! })
+      results.push({ players, times: count, weight, ids: ids! })
     }
 
     return results
@@ -145,37 +152,39 @@ function _backtrack(nums: string[], current: string[], start: number, res: strin
 
 /**
  * 注意：健壮性和 BUG 未完全测试
- * @param matches 包含了若干对局的召唤师 ID 列表
+ * @param matches 包含了若干对局的召唤师 ID 列表, weight 为该对局的权重, 默认为 1, 此时等同于按场次计算
  * @param players 需要计算的玩家列表，时间复杂度很高，所以要尽可能少
- * @param threshold 阈值，多少重复场次即过滤
+ * @param threshold 阈值，加权后的重复场次达到多少即视为组队
  * @returns
  */
 export function calculateTogetherTimes(
   matches: {
     players: string[]
     id: string
+    weight?: number
   }[],
   players: string[],
   threshold = 3
-): Array<{ players: string[]; times: number; ids: string[] }> {
+): Array<{ players: string[]; times: number; weight: number; ids: string[] }> {
   const graph = new TeamUpGraph()
   const set = new Set(players)
   matches
     .map((m) => ({
       players: m.players.filter((mm) => set.has(mm)),
-      id: m.id
+      id: m.id,
+      weight: m.weight ?? 1
     }))
     .forEach((m) => {
       for (let i = 0; i < m.players.length - 1; i++) {
         for (let j = i + 1; j < m.players.length; j++) {
-          graph.addEdge(m.players[i], m.players[j], m.id)
+          graph.addEdge(m.players[i], m.players[j], m.id, m.weight)
         }
       }
     })
 
   const result = graph
     .getTogetherTimes(combinations(players).filter((a) => a.length > 1))
-    .filter((t) => t.times >= threshold)
+    .filter((t) => t.weight >= threshold)
 
   const map = new Map<string, ResultType>()
 
@@ -198,10 +207,26 @@ export function calculateTogetherTimes(
   return Array.from(map.values()).map((v) => ({
     ids: Array.from(v.ids),
     players: v.players,
-    times: v.times
+    times: v.times,
+    weight: v.weight
   }))
 }
 
+/**
+ * 按照对局距今的时间衰减权重, 每经过一个半衰期权重减半
+ */
+export function recencyWeight(time: number, now: number, halfLifeDays: number) {
+  const days = Math.max(now - time, 0) / (24 * 60 * 60 * 1000)
+  return Math.pow(0.5, days / halfLifeDays)
+}
+
+/**
+ * 根据加权后的共同对局次数估计组队的可信度 (0 - 1), 恰好达到阈值时为 0.5
+ */
+export function premadeConfidence(weight: number, threshold: number) {
+  return 1 - Math.pow(0.5, weight / Math.max(threshold, 1))
+}
+
 function toSetKey(set: Set<string>) {
   return Array.from(set.values()).sort().join('|')
 }
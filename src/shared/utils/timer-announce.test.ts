@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import { TimerStamp, formatTimerStamps, parseTimerStamps } from './timer-announce'
+
+describe('formatTimerStamps', () => {
+  it('formats stamps with spell codes and mm:ss times', () => {
+    expect(
+      formatTimerStamps([
+        { champion: 'Ahri', spellId: 4, readyAt: 872.6 },
+        { champion: 'leesin', spellId: 12, readyAt: 65 }
+      ])
+    ).toBe('ahri F 14:32 | leesin TP 1:05')
+  })
+
+  it('skips unknown spells and clamps negative times', () => {
+    expect(
+      formatTimerStamps([
+        { champion: 'ahri', spellId: 999, readyAt: 100 },
+        { champion: 'zed', spellId: 14, readyAt: -5 }
+      ])
+    ).toBe('zed I 0:00')
+  })
+})
+
+describe('parseTimerStamps', () => {
+  it('round-trips formatted stamps', () => {
+    const stamps: TimerStamp[] = [
+      { champion: 'ahri', spellId: 4, readyAt: 872 },
+      { champion: 'leesin', spellId: 11, readyAt: 910 },
+      { champion: 'kaisa', spellId: 3, readyAt: 6000 }
+    ]
+
+    expect(parseTimerStamps(formatTimerStamps(stamps))).toEqual(stamps)
+  })
+
+  it('tolerates surrounding whitespace', () => {
+    expect(parseTimerStamps('  ahri F 14:32  ')).toEqual([
+      { champion: 'ahri', spellId: 4, readyAt: 872 }
+    ])
+  })
+
+  it.each([
+    ['ordinary chat', 'gl hf'],
+    ['an empty message', ''],
+    ['an unknown spell code', 'ahri Q 14:32'],
+    ['invalid seconds', 'ahri F 14:60'],
+    ['an uppercase champion', 'Ahri F 14:32'],
+    ['a single malformed segment', 'ahri F 14:32 | jungle soon'],
+    ['a missing separator', 'ahri F 14:32 leesin TP 15:10']
+  ])('rejects %s', (_, text) => {
+    expect(parseTimerStamps(text)).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * 发送到聊天中的召唤师技能计时, 格式为 `ahri F 14:32 | leesin TP 15:10`
+ * 其他 Akari 用户发送的同格式消息可被解析并导入
+ */
+export interface TimerStamp {
+  /**
+   * 英雄的 alias, 小写
+   */
+  champion: string
+
+  spellId: number
+
+  /**
+   * 技能冷却结束的游戏时间 (秒)
+   */
+  readyAt: number
+}
+
+/**
+ * 召唤师技能 ID -> 简写
+ */
+export const SUMMONER_SPELL_CODES: Record<number, string> = {
+  1: 'C', // 净化
+  3: 'EX', // 虚弱
+  4: 'F', // 闪现
+  6: 'G', // 幽灵疾步
+  7: 'H', // 治疗术
+  11: 'S', // 惩戒
+  12: 'TP', // 传送
+  13: 'CL', // 清晰术
+  14: 'I', // 引燃
+  21: 'B', // 屏障
+  32: 'M' // 标记
+}
+
+const SEPARATOR = ' | '
+
+const STAMP_REGEX = /^([a-z0-9]+) ([A-Z]{1,2}) (\d{1,3}):([0-5]\d)$/
+
+export function formatTimerStamps(stamps: TimerStamp[]) {
+  return stamps
+    .filter((s) => SUMMONER_SPELL_CODES[s.spellId])
+    .map((s) => {
+      const time = Math.max(Math.floor(s.readyAt), 0)
+      const minutes = Math.floor(time / 60)
+      const seconds = (time % 60).toString().padStart(2, '0')
+      return `${s.champion.toLowerCase()} ${SUMMONER_SPELL_CODES[s.spellId]} ${minutes}:${seconds}`
+    })
+    .join(SEPARATOR)
+}
+
+/**
+ * 仅当消息的每一段都符合格式时才视为计时消息, 避免误读普通的聊天内容
+ * @returns 不是计时消息时返回空数组
+ */
+export function parseTimerStamps(text: string): TimerStamp[] {
+  const segments = text.trim().split(SEPARATOR)
+  const stamps: TimerStamp[] = []
+
+  for (const segment of segments) {
+    const match = STAMP_REGEX.exec(segment.trim())
+    if (!match) {
+      return []
+    }
+
+    const [, champion, code, minutes, seconds] = match
+    const spellId = Object.keys(SUMMONER_SPELL_CODES).find(
+      (id) => SUMMONER_SPELL_CODES[id] === code
+    )
+
+    if (spellId === undefined) {
+      return []
+    }
+
+    stamps.push({
+      champion,
+      spellId: Number(spellId),
+      readyAt: Number(minutes) * 60 + Number(seconds)
+    })
+  }
+
+  return stamps
+}